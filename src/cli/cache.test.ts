@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach, beforeAll, afterAll } from "bun:test";
+import { mkdtemp, mkdir, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import { runCache } from "./cache";
+import { CliRunner } from "./runner";
+import { BunSystemEnvironment } from "../core/system-environment";
+import { expandContentImports } from "../features/imports/index";
+import { setCachedImport } from "../features/imports/cache";
+import { invalidateCacheEntry } from "../features/cache";
+import { hashPinContent, PIN_SNAPSHOT_DIR } from "../features/pins";
+import { generateSigningKey, signContent, formatDetachedSignature, formatKeyLine } from "../features/signatures";
+
+describe("md cache", () => {
+  let dir: string;
+  let server: ReturnType<typeof Bun.serve>;
+  let base: string;
+  let output: string[];
+  /** Response bodies by path (default: a heading naming the path) */
+  let routes: Record<string, string>;
+  const options = () => ({ importCacheDir: join(dir, "cache"), write: (line: string) => output.push(line) });
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "cache-cli-test-"));
+    output = [];
+    routes = {};
+    server = Bun.serve({
+      port: 0,
+      fetch: (req) => {
+        const path = new URL(req.url).pathname;
+        if (path.endsWith(".sig") && !(path in routes)) return new Response("Not found", { status: 404 });
+        return new Response(routes[path] ?? `# ${path}`, { headers: { "content-type": "text/markdown" } });
+      },
+    });
+    base = `http://localhost:${server.port}`;
+  });
+
+  afterEach(async () => {
+    server.stop(true);
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("warms the URL imports of an agent and the files it imports for offline runs", async () => {
+    await writeFile(join(dir, "shared.md"), `@${base}/style.md`);
+    await writeFile(join(dir, "task.claude.md"), `---\nmodel: opus\n---\n@./shared.md\n@${base}/rules.md\n`);
+
+    expect(await runCache(["warm", join(dir, "task.claude.md")], options())).toBe(0);
+    expect(output.sort()).toEqual([`Cached ${base}/rules.md`, `Cached ${base}/style.md`]);
+
+    server.stop(true);
+    const cache = { hits: new Set<string>(), dir: join(dir, "cache") };
+    const expanded = await expandContentImports(`@${base}/rules.md`, dir, new Set(), false, { cache, offline: true });
+    expect(expanded).toBe("# /rules.md");
+
+    output = [];
+    expect(await runCache(["list"], options())).toBe(0);
+    expect(output).toContain("Imports:");
+    expect(output.join("\n")).toContain(`url:${base}/style.md`);
+
+    output = [];
+    expect(await runCache(["clear", `${base}/style.md`], options())).toBe(0);
+    expect(output).toEqual(["Removed 1 entries"]);
+  });
+
+  it("follows URL imports in glob matches and fetched content", async () => {
+    routes["/rules.md"] = `# Rules\n@${base}/inner.md`;
+    await mkdir(join(dir, "docs"));
+    await writeFile(join(dir, "docs", "a.md"), `@${base}/from-glob.md`);
+    await writeFile(join(dir, "task.claude.md"), `@./docs/*.md\n@${base}/rules.md\n`);
+
+    expect(await runCache(["warm", join(dir, "task.claude.md")], options())).toBe(0);
+    expect(output.sort()).toEqual([`Cached ${base}/from-glob.md`, `Cached ${base}/inner.md`, `Cached ${base}/rules.md`]);
+  });
+
+  it("clears every cached variant of a URL", async () => {
+    const importDir = join(dir, "cache");
+    await setCachedImport(`url:${base}/data.csv`, "a,b", { dir: importDir });
+    await setCachedImport(`url:${base}/data.csv#rows=5`, "a,b", { dir: importDir });
+    await setCachedImport(`url:${base}/data.csv.bak`, "a,b", { dir: importDir });
+
+    expect(await runCache(["clear", `${base}/data.csv`], options())).toBe(0);
+    expect(output).toEqual(["Removed 2 entries"]);
+  });
+
+  describe("remote agents", () => {
+    let home: string;
+
+    beforeAll(async () => {
+      home = await mkdtemp(join(tmpdir(), "cache-cli-keys-"));
+    });
+
+    afterAll(async () => {
+      await rm(home, { recursive: true, force: true });
+    });
+
+    it("warms a signed agent so it still verifies offline", async () => {
+      const key = await generateSigningKey("Test <test@example.com>", { dir: home });
+      const agent = `Review with @${base}/rules.md`;
+      routes["/review.echo.md"] = agent;
+      routes["/review.echo.md.sig"] = formatDetachedSignature(signContent(agent, key));
+      const url = `${base}/review.echo.md`;
+      // Trust the key through the project config; pins go to the project lockfile
+      await writeFile(join(dir, "mdflow.config.yaml"), `trusted_keys:\n  - "${formatKeyLine(key.publicKey)}"\n`);
+      await writeFile(join(dir, "mdflow.lock"), "");
+
+      try {
+        expect(await runCache(["warm", url], options())).toBe(0);
+        expect(output).toEqual([`Cached ${url}`, `Cached ${url}.sig`, `Cached ${base}/rules.md`]);
+
+        server.stop(true);
+        const runner = new CliRunner({
+          env: new BunSystemEnvironment(), isStdinTTY: false, stdinContent: "", cwd: dir,
+          processEnv: { PATH: process.env.PATH }, importCacheDir: join(dir, "cache"),
+        });
+        const result = await runner.run(["node", "md", url, "--_offline", "--_dry-run"]);
+        expect(result.errorMessage).toBeUndefined();
+        expect(result.exitCode).toBe(0);
+      } finally {
+        await invalidateCacheEntry(url);
+        await invalidateCacheEntry(`${url}.sig`);
+        await rm(join(PIN_SNAPSHOT_DIR, hashPinContent(agent)), { force: true });
+      }
+    });
+  });
+
+  it("rejects unknown actions", async () => {
+    expect(await runCache(["compact"], options())).toBe(1);
+  });
+});
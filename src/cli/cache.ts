@@ -0,0 +1,179 @@
+/**
+ * `md cache` subcommand - Inspect and manage the remote and import caches
+ *
+ *   md cache stats                 # entries and size of both caches
+ *   md cache list                  # cached URLs and imports, newest first
+ *   md cache clear [url...]        # everything, or the given URLs (all their variants)
+ *   md cache prune                 # expired and outdated entries only
+ *   md cache warm <agent|url...>   # fetch remote agents, their signatures and URL imports
+ *
+ * Warm the cache before going offline; with --_offline (or MDFLOW_OFFLINE=1)
+ * remote agents and URL imports are served only from it.
+ */
+
+import { dirname, resolve } from "path";
+import { readFile } from "fs/promises";
+import { NetworkError } from "../core/errors";
+import { formatBytes } from "../core/agent/limits";
+import {
+  CACHE_DIR,
+  getCacheStats,
+  listCacheEntries,
+  clearAllCache,
+  clearExpiredCache,
+  invalidateCacheEntry,
+  isOfflineMode,
+} from "../features/cache";
+import {
+  getImportCacheDir,
+  listImportCache,
+  clearImportCache,
+  invalidateCachedImport,
+  pruneImportCache,
+} from "../features/imports/cache";
+import { isRemoteUrl, fetchRemote, cleanupRemote, toRawUrl } from "../features/remote";
+import { warmUrlImports } from "../features/imports/index";
+import { fetchDetachedSignature, SIGNATURE_EXTENSION } from "../features/signatures";
+import { findRemoteInstallSource } from "../features/registry";
+
+/** Options for runCache */
+export interface CacheCommandOptions {
+  /** Import cache directory (defaults to MDFLOW_IMPORT_CACHE_DIR or ~/.mdflow/cache/imports) */
+  importCacheDir?: string;
+  /** Output sink (defaults to console.log) */
+  write?: (line: string) => void;
+}
+
+function formatAge(timestamp: number): string {
+  const minutes = Math.floor((Date.now() - timestamp) / 60_000);
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 48 * 60) return `${Math.floor(minutes / 60)}h ago`;
+  return `${Math.floor(minutes / (24 * 60))}d ago`;
+}
+
+/**
+ * Cache the detached signature of a remote agent, if it has one, so signed
+ * agents still verify offline
+ */
+async function warmSignature(url: string, write: (line: string) => void): Promise<void> {
+  if (await fetchDetachedSignature(url, { noCache: true, offline: false }) !== undefined) {
+    write(`Cached ${url}${SIGNATURE_EXTENSION}`);
+  }
+}
+
+/**
+ * Run `md cache [stats|list|clear|prune|warm]`
+ * @returns Exit code
+ */
+export async function runCache(args: string[], options: CacheCommandOptions = {}): Promise<number> {
+  const write = options.write ?? console.log;
+  const importDir = options.importCacheDir ?? getImportCacheDir();
+  const [action = "stats", ...rest] = args;
+
+  switch (action) {
+    case "stats": {
+      const remote = await getCacheStats();
+      const imports = await listImportCache(importDir);
+      const importSize = imports.reduce((sum, entry) => sum + entry.size, 0);
+      write(`Remote agents (${CACHE_DIR}): ${remote.entries} entries, ${formatBytes(remote.totalSize)}`);
+      if (remote.oldestEntry !== null && remote.newestEntry !== null) {
+        write(`  fetched ${formatAge(remote.newestEntry)} (newest) to ${formatAge(remote.oldestEntry)} (oldest)`);
+      }
+      write(`Imports (${importDir}): ${imports.length} entries, ${formatBytes(importSize)}, ${imports.filter((e) => e.expired).length} expired`);
+      return 0;
+    }
+    case "list": {
+      const remote = await listCacheEntries();
+      const imports = await listImportCache(importDir);
+      if (remote.length === 0 && imports.length === 0) {
+        write("Cache is empty");
+        return 0;
+      }
+      const row = (source: string, size: number, time: number, expired: boolean) =>
+        `  ${source}  ${formatBytes(size)}  ${formatAge(time)}${expired ? "  (expired)" : ""}`;
+      if (remote.length > 0) {
+        write("Remote agents:");
+        remote.forEach((entry) => write(row(entry.url, entry.size, entry.fetchedAt, entry.expired)));
+      }
+      if (imports.length > 0) {
+        write("Imports:");
+        imports.forEach((entry) => write(row(entry.key, entry.size, entry.createdAt, entry.expired)));
+      }
+      return 0;
+    }
+    case "clear": {
+      if (rest.length === 0) {
+        const { entries } = await getCacheStats();
+        await clearAllCache();
+        const imports = await clearImportCache(importDir);
+        write(`Cleared ${entries} remote and ${imports} import entries`);
+        return 0;
+      }
+      const remote = await listCacheEntries();
+      const imports = await listImportCache(importDir);
+      let found = 0;
+      for (const url of rest) {
+        // A remote agent's detached signature goes with it
+        const rawUrls = [toRawUrl(url), toRawUrl(url) + SIGNATURE_EXTENSION];
+        for (const entry of remote.filter((entry) => rawUrls.includes(entry.url))) {
+          await invalidateCacheEntry(entry.url);
+          found++;
+        }
+        // URL imports are also cached per row limit (`url:<url>#rows=<n>`)
+        const key = `url:${url}`;
+        for (const entry of imports.filter((entry) => entry.key === key || entry.key.startsWith(`${key}#`))) {
+          if (await invalidateCachedImport(entry.key, importDir)) found++;
+        }
+      }
+      write(`Removed ${found} entries`);
+      return found > 0 ? 0 : 1;
+    }
+    case "prune": {
+      const remote = await clearExpiredCache();
+      const imports = await pruneImportCache(importDir, { force: true });
+      write(`Pruned ${remote} remote and ${imports} import entries`);
+      return 0;
+    }
+    case "warm": {
+      if (rest.length === 0) {
+        console.error("Usage: md cache warm <agent.md|url...>");
+        console.error("\nFetches remote agents and every URL import they (and the files they import) use.");
+        return 1;
+      }
+      if (isOfflineMode()) throw new NetworkError("md cache warm needs the network (offline mode is on)");
+
+      let failed = 0;
+      for (const source of rest) {
+        try {
+          let urls: string[];
+          if (isRemoteUrl(source)) {
+            const result = await fetchRemote(source, { noCache: true, offline: false });
+            if (!result.success || !result.localPath) throw new NetworkError(result.error ?? "fetch failed");
+            write(`Cached ${source}`);
+            await warmSignature(source, write);
+            try {
+              // Relative imports of a remote agent don't exist locally; only its URLs are fetched
+              urls = await warmUrlImports(await readFile(result.localPath, "utf-8"), undefined, { dir: importDir });
+            } finally {
+              await cleanupRemote(result.localPath);
+            }
+          } else {
+            // Agents installed from a remote registry are checked against their URL's signature
+            const installedFrom = await findRemoteInstallSource(source);
+            if (installedFrom) await warmSignature(installedFrom, write);
+            urls = await warmUrlImports(await readFile(source, "utf-8"), dirname(resolve(source)), { dir: importDir });
+          }
+          urls.forEach((url) => write(`Cached ${url}`));
+          if (urls.length === 0 && !isRemoteUrl(source)) write(`${source}: no URL imports`);
+        } catch (err) {
+          console.error(`Failed to warm ${source}: ${(err as Error).message}`);
+          failed++;
+        }
+      }
+      return failed > 0 ? 1 : 0;
+    }
+    default:
+      console.error("Usage: md cache [stats | list | clear [url...] | prune | warm <agent.md|url...>]");
+      return 1;
+  }
+}
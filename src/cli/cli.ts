@@ -133,6 +133,8 @@ export interface AgentFile {
   frecency?: number;
   /** Description from frontmatter (for semantic agent picker) */
   description?: string;
+  /** `owner/name@version` of agents installed from a registry */
+  installed?: string;
 }
 
 /**
@@ -183,6 +185,15 @@ Usage: md <file.md> [flags for the command]
 Commands:
   md create [name] [flags]      Create a new agent file
   md explain <agent.md>         Show resolved config without executing
+  md map <agent.md> --over <src>  Run an agent once per item (glob, file, or -)
+  md sessions                   List recorded session transcripts
+  md resume <id|last> "prompt"  Re-run a session's agent with a follow-up
+  md sign <agent.md> [--inline] Sign an agent with your ed25519 key
+  md keys [generate|add|remove|verify]  Manage signing and trusted keys
+  md install <owner/name[@1.2]> Install an agent from a registry (--project: ./.mdflow/)
+  md update [owner/name...]     Update installed agents within their version range
+  md list [--installed]         List agents (or those installed from registries)
+  md cache [stats|list|clear|prune|warm <agent|url>]  Manage the remote and import caches
   md setup                      Configure shell (PATH, aliases)
   md logs                       Show agent log directory
   md help                       Show this help
@@ -221,6 +232,11 @@ Remote execution:
   md supports running agents from URLs (npx-style).
   On first use, you'll be prompted to trust the domain.
   Trusted domains are stored in ~/.mdflow/known_hosts
+  Approved content is pinned (~/.mdflow/pins.json, or ./mdflow.lock if present)
+  and changes are shown as a diff before running again.
+  Agents signed by a key in ~/.mdflow/trusted_keys run without the prompt.
+  A policy: in config allows or denies imports, commands, code fences, hooks
+  and env per domain or path.
 
 Examples:
   md task.claude.md -p "print mode"
@@ -242,11 +258,17 @@ md-specific flags (consumed, not passed to command):
   --_dry-run        Show resolved command and prompt without executing
   --_edit           Open resolved prompt in $EDITOR before execution
   --_trust          Skip trust prompt for remote URLs (TOFU bypass)
-  --_no-cache       Force fresh fetch for remote URLs (bypass cache)
+  --_frozen         Fail on unpinned or changed remote agents and URL imports (CI)
+  --_no-cache       Bypass the remote file and import caches
+  --_offline        Serve remote agents and URL imports only from cache (MDFLOW_OFFLINE=1)
   --raw             Output raw markdown without rendering (for piping)
   --_context        Show context tree and exit (no execution)
   --_quiet          Skip context dashboard display before execution
   --_no-menu        Disable post-run action menu (for scripting/piping)
+  --_json           Emit one JSON report (plan, timings, stdout/stderr, exit code)
+  --_session        Record a session transcript (~/.mdflow/sessions/) for md resume
+  --_no-session     Don't record a transcript (overrides _session: true)
+  --_watch          Re-run when the agent or any imported file changes
 
 Without arguments:
   md              Interactive agent picker (from ./.mdflow/, ~/.mdflow/, etc.)
@@ -279,6 +301,9 @@ const USER_AGENTS_DIR = join(homedir(), ".mdflow");
  * 3. $PATH directories
  * 4. Current directory (cwd)
  *
+ * Agents installed from a registry (md install) live in the first two and
+ * are labelled with their package and version.
+ *
  * Returns files sorted by frecency (most frequently/recently used first)
  */
 export async function findAgentFiles(): Promise<AgentFile[]> {
@@ -291,8 +316,17 @@ export async function findAgentFiles(): Promise<AgentFile[]> {
   const { loadHistory, getFrecencyScore } = await getHistory();
   await loadHistory();
 
+  // Installed agents are only listed in installed.json of their directory
+  const loadInstalledLabels = async (dir: string): Promise<Map<string, string>> => {
+    if (!existsSync(join(dir, "installed.json"))) return new Map();
+    const { installedLabels } = await import("../features/registry");
+    const labels = await installedLabels(dir);
+    return new Map([...labels].map(([path, label]) => [normalizePath(path), label]));
+  };
+
   // 1. Project-level: ./.mdflow/
   const projectAgentsPath = join(process.cwd(), PROJECT_AGENTS_DIR);
+  const projectInstalled = await loadInstalledLabels(projectAgentsPath);
   try {
     for await (const file of glob.scan({ cwd: projectAgentsPath, absolute: true })) {
       const normalizedPath = normalizePath(file);
@@ -305,6 +339,7 @@ export async function findAgentFiles(): Promise<AgentFile[]> {
           source: ".mdflow",
           frecency: getFrecencyScore(normalizedPath),
           ...(description && { description }),
+          ...(projectInstalled.has(normalizedPath) && { installed: projectInstalled.get(normalizedPath) }),
         });
       }
     }
@@ -313,6 +348,7 @@ export async function findAgentFiles(): Promise<AgentFile[]> {
   }
 
   // 2. User-level: ~/.mdflow/
+  const userInstalled = await loadInstalledLabels(USER_AGENTS_DIR);
   try {
     for await (const file of glob.scan({ cwd: USER_AGENTS_DIR, absolute: true })) {
       const normalizedPath = normalizePath(file);
@@ -325,6 +361,7 @@ export async function findAgentFiles(): Promise<AgentFile[]> {
           source: "~/.mdflow",
           frecency: getFrecencyScore(normalizedPath),
           ...(description && { description }),
+          ...(userInstalled.has(normalizedPath) && { installed: userInstalled.get(normalizedPath) }),
         });
       }
     }
@@ -58,6 +58,22 @@ Test`);
       expect(result.envKeys).toContain("OTHER_KEY");
     });
 
+    it("lists capabilities with the policy decision", async () => {
+      const agentPath = join(tempDir, "caps-test.claude.md");
+      await writeFile(agentPath, `---
+pre: make build
+---
+Branch: !\`git branch --show-current\``);
+
+      const result = await analyzeAgent(agentPath);
+
+      expect(result.capabilities).toEqual([
+        { description: "shell command: git branch --show-current", decision: "allow" },
+        { description: "hook: pre: make build", decision: "allow" },
+      ]);
+      expect(formatExplainOutput(result)).toContain("CAPABILITIES");
+    });
+
     it("includes token usage info", async () => {
       const agentPath = join(tempDir, "token-test.claude.md");
       await writeFile(agentPath, `---
@@ -2,10 +2,12 @@
  * `md explain` subcommand - Shows resolved configuration for an agent
  *
  * Displays:
- * - Resolved command
+ * - Resolved command and tool adapter
  * - Final flags (after precedence merging)
  * - Final expanded prompt (truncated if long)
+ * - Imports served from the import cache
  * - Trust status + why (for remote URLs)
+ * - Capabilities the agent uses and what the trust policy decides
  * - Env keys set (redacted values)
  * - Configuration precedence applied
  */
@@ -15,18 +17,23 @@ import { join, dirname, resolve } from "path";
 import { parseFrontmatter } from "../core/agent/parse";
 import {
   resolveCommand, buildArgs, extractPositionalMappings,
-  extractEnvVars, hasInteractiveMarker,
-} from "./command";
+  extractEnvVars, hasInteractiveMarker, resolvePromptVia, applyAttachments,
+} from "../core/execution/command";
 import {
   loadGlobalConfig, loadProjectConfig, loadFullConfig,
-  applyDefaults, applyInteractiveMode, BUILTIN_DEFAULTS, getConfigFile,
-} from "./config";
+  applyDefaults, applyInteractiveMode, getConfigFile, registerConfiguredAdapters,
+  registerConfiguredTokenizers,
+} from "../features/config";
+import { getAdapter, hasAdapter } from "../core/adapters/index";
 import { expandContentImports, hasContentImports } from "../features/imports/index";
-import { substituteTemplateVars, extractTemplateVars } from "../core/agent/template";
+import { resolveBudget, createTokenCounter } from "../features/budget";
+import { substituteTemplateVars, extractTemplateVars, restoreTemplateValues, INTERNAL_FRONTMATTER_KEYS } from "../core/agent/template";
 import { isDomainTrusted, extractDomain, getKnownHostsPath } from "../features/trust";
 import { isRemoteUrl, fetchRemote, cleanupRemote } from "../features/remote";
-import { getTokenUsage } from "../core/agent/tokenizer";
-import type { AgentFrontmatter, CommandDefaults } from "../core/types";
+import { classifyCapabilities, decideCapability, describeCapability, type PolicyDecision } from "../features/policy";
+import { findRemoteInstallSource } from "../features/registry";
+import { getContextLimit, countTokensForModel } from "../core/agent/tokenizer";
+import type { AgentFrontmatter, CommandDefaults, PromptDelivery } from "../core/types";
 
 const PROMPT_PREVIEW_LENGTH = 1000;
 
@@ -35,6 +42,7 @@ export interface ExplainResult {
   isRemote: boolean;
   command: string;
   commandSource: string;
+  adapter: { name: string; source: "built-in" | "config" | "default"; promptVia: PromptDelivery; attachmentsVia?: string };
   finalFrontmatter: AgentFrontmatter;
   builtinDefaults: CommandDefaults | undefined;
   globalDefaults: CommandDefaults | undefined;
@@ -44,8 +52,14 @@ export interface ExplainResult {
   positionalMappings: Map<number, string>;
   finalPrompt: string;
   promptTruncated: boolean;
-  tokenUsage: { tokens: number; limit: number; percentage: number; exceeds: boolean };
+  /** Imports served from the import cache (original import text) */
+  cacheHits: string[];
+  /** Binary files imported as attachments */
+  attachments: string[];
+  tokenUsage: { tokens: number; limit: number; percentage: number; exceeds: boolean; tokenizer: string; exact: boolean };
   trustStatus?: { domain: string; trusted: boolean; knownHostsPath: string };
+  /** Capabilities of the agent with the trust policy's decision */
+  capabilities: { description: string; decision: PolicyDecision }[];
   envKeys: string[];
   interactiveMode: boolean;
   interactiveModeSource: string;
@@ -75,6 +89,12 @@ export async function analyzeAgent(filePath: string, passthroughArgs: string[] =
     localFilePath = remoteResult.localPath!;
     isRemote = true;
   }
+  // Agents installed from a remote registry are checked as their URL
+  const remoteSource = isRemote ? filePath : await findRemoteInstallSource(localFilePath);
+
+  const config = await loadFullConfig(process.cwd());
+  await registerConfiguredAdapters(config);
+  await registerConfiguredTokenizers(config);
 
   const content = await Bun.file(localFilePath).text();
   const { frontmatter: originalFrontmatter, body: rawBody } = parseFrontmatter(content);
@@ -93,7 +113,21 @@ export async function analyzeAgent(filePath: string, passthroughArgs: string[] =
   const projectConfig = await loadProjectConfig(process.cwd());
   const fullConfig = await loadFullConfig(process.cwd());
 
-  const builtinDefaults = BUILTIN_DEFAULTS.commands?.[command];
+  const adapterSource: ExplainResult["adapter"]["source"] = fullConfig.adapters?.[command]
+    ? "config"
+    : hasAdapter(command) ? "built-in" : "default";
+  const toolAdapter = getAdapter(command);
+  const adapter: ExplainResult["adapter"] = {
+    name: toolAdapter.name,
+    source: adapterSource,
+    promptVia: toolAdapter.promptVia ?? "argv",
+    attachmentsVia: toolAdapter.attachments &&
+      (toolAdapter.attachments.via === "flag"
+        ? applyAttachments(undefined, ["<file>"], toolAdapter.attachments).args.join(" ")
+        : toolAdapter.attachments.via),
+  };
+  const adapterDefaults = toolAdapter.getDefaults();
+  const builtinDefaults = hasAdapter(command) && Object.keys(adapterDefaults).length > 0 ? adapterDefaults : undefined;
   const globalDefaults = globalConfig.commands?.[command];
   const projectDefaults = projectConfig.commands?.[command];
   const fullDefaults = fullConfig.commands?.[command];
@@ -111,30 +145,45 @@ export async function analyzeAgent(filePath: string, passthroughArgs: string[] =
 
   frontmatter = applyInteractiveMode(frontmatter, command, interactiveFromFilename || interactiveFromCli);
 
+  adapter.promptVia = resolvePromptVia(frontmatter, adapter.promptVia);
+
   const envVars = extractEnvVars(frontmatter);
   const envKeys = envVars ? Object.keys(envVars) : [];
 
   const templateVars: Record<string, string> = {};
-  const internalKeys = new Set(["_interactive", "_i", "_cwd", "_subcommand"]);
-  for (const key of Object.keys(frontmatter).filter((k) => k.startsWith("_") && !internalKeys.has(k))) {
+  for (const key of Object.keys(frontmatter).filter((k) => k.startsWith("_") && !INTERNAL_FRONTMATTER_KEYS.has(k))) {
     const value = frontmatter[key];
     if (value != null && value !== "") templateVars[key] = String(value);
   }
 
-  let expandedBody = rawBody;
+  // Template variables resolve first so they can shape import paths
+  for (const v of extractTemplateVars(rawBody)) {
+    if (!(v in templateVars)) templateVars[v] = `[MISSING: ${v}]`;
+  }
+  const templatedBody = substituteTemplateVars(rawBody, templateVars, { protectImports: true });
+
+  let finalPromptFull = templatedBody;
   const fileDir = dirname(resolve(localFilePath));
-  if (hasContentImports(rawBody)) {
+  const cacheHits = new Set<string>();
+  const attachments: string[] = [];
+  if (hasContentImports(templatedBody)) {
     try {
-      expandedBody = await expandContentImports(rawBody, fileDir, new Set(), false, { invocationCwd: process.cwd() });
+      const budgetPolicy = resolveBudget(frontmatter);
+      finalPromptFull = await expandContentImports(templatedBody, fileDir, new Set(), false, {
+        invocationCwd: process.cwd(),
+        budget: budgetPolicy
+          ? { policy: budgetPolicy, count: createTokenCounter({ model: frontmatter.model as string | undefined, command }) }
+          : undefined,
+        templateVars,
+        templateImports: frontmatter._template_imports !== false,
+        cache: { hits: cacheHits },
+        attachments,
+      });
     } catch (err) {
-      expandedBody = rawBody + `\n\n[Import expansion error: ${(err as Error).message}]`;
+      finalPromptFull = templatedBody + `\n\n[Import expansion error: ${(err as Error).message}]`;
     }
   }
-
-  for (const v of extractTemplateVars(expandedBody)) {
-    if (!(v in templateVars)) templateVars[v] = `[MISSING: ${v}]`;
-  }
-  const finalPromptFull = substituteTemplateVars(expandedBody, templateVars);
+  finalPromptFull = restoreTemplateValues(finalPromptFull);
   const { text: finalPrompt, truncated: promptTruncated } = truncateText(finalPromptFull, PROMPT_PREVIEW_LENGTH);
 
   const templateVarSet = new Set(Object.keys(templateVars));
@@ -143,23 +192,35 @@ export async function analyzeAgent(filePath: string, passthroughArgs: string[] =
 
   const model = frontmatter.model as string | undefined;
   const contextWindow = frontmatter.context_window as number | undefined;
-  const tokenUsage = getTokenUsage(finalPromptFull, model, contextWindow);
+  const { tokens, tokenizer, exact } = await countTokensForModel(finalPromptFull, { model, command });
+  const limit = getContextLimit(model, contextWindow);
+  const tokenUsage = {
+    tokens, limit, tokenizer, exact,
+    percentage: Math.round((tokens / limit) * 10000) / 100,
+    exceeds: tokens > limit,
+  };
 
   let trustStatus: ExplainResult["trustStatus"];
-  if (isRemote) {
-    const domain = extractDomain(filePath);
-    trustStatus = { domain, trusted: await isDomainTrusted(filePath), knownHostsPath: getKnownHostsPath() };
+  if (remoteSource) {
+    const domain = extractDomain(remoteSource);
+    trustStatus = { domain, trusted: await isDomainTrusted(remoteSource), knownHostsPath: getKnownHostsPath() };
   }
 
+  const policyScope = remoteSource ?? resolve(filePath);
+  const capabilities = classifyCapabilities(originalFrontmatter as AgentFrontmatter, rawBody).map((capability) => ({
+    description: describeCapability(capability),
+    decision: decideCapability(capability, policyScope, config.policy ?? [], remoteSource !== undefined),
+  }));
+
   const globalConfigPath = getConfigFile();
   const projectConfigPath = findProjectConfigPath(process.cwd());
 
   if (isRemote) await cleanupRemote(localFilePath);
 
   return {
-    agentPath: filePath, isRemote, command, commandSource, finalFrontmatter: frontmatter,
+    agentPath: filePath, isRemote, command, commandSource, adapter, finalFrontmatter: frontmatter,
     builtinDefaults, globalDefaults, projectDefaults, originalFrontmatter: originalFrontmatter as AgentFrontmatter,
-    finalArgs, positionalMappings, finalPrompt, promptTruncated, tokenUsage, trustStatus, envKeys,
+    finalArgs, positionalMappings, finalPrompt, promptTruncated, cacheHits: [...cacheHits], attachments, tokenUsage, trustStatus, capabilities, envKeys,
     interactiveMode: interactiveFromFilename || interactiveFromCli || interactiveFromFrontmatter,
     interactiveModeSource,
     configPaths: { global: globalConfigPath, globalExists: existsSync(globalConfigPath), project: projectConfigPath, projectExists: projectConfigPath !== null },
@@ -178,7 +239,8 @@ export function formatExplainOutput(result: ExplainResult): string {
   lines.push("");
 
   lines.push(thinSep, "COMMAND", thinSep);
-  lines.push(`Resolved command: ${result.command}`, `Source: ${result.commandSource}`, "");
+  lines.push(`Resolved command: ${result.command}`, `Source: ${result.commandSource}`);
+  lines.push(`Adapter: ${result.adapter.name} (${result.adapter.source})`, `Prompt via: ${result.adapter.promptVia}`, "");
 
   lines.push(thinSep, "MODE", thinSep);
   lines.push(`Interactive mode: ${result.interactiveMode ? "YES" : "NO (print mode)"}`);
@@ -186,7 +248,7 @@ export function formatExplainOutput(result: ExplainResult): string {
 
   lines.push(thinSep, "CONFIGURATION PRECEDENCE", thinSep, "(Later entries override earlier ones)", "");
 
-  lines.push("1. Built-in defaults:");
+  lines.push(`1. Adapter defaults (${result.adapter.source}):`);
   if (result.builtinDefaults) {
     for (const [k, v] of Object.entries(result.builtinDefaults)) lines.push(`   ${k}: ${JSON.stringify(v)}`);
   } else lines.push("   (none)");
@@ -238,8 +300,28 @@ export function formatExplainOutput(result: ExplainResult): string {
     lines.push("");
   }
 
+  if (result.capabilities.length > 0) {
+    lines.push(thinSep, "CAPABILITIES", thinSep);
+    for (const { description, decision } of result.capabilities) lines.push(`[${decision}] ${description}`);
+    lines.push("");
+  }
+
+  if (result.cacheHits.length > 0) {
+    lines.push(thinSep, "IMPORT CACHE HITS", thinSep);
+    for (const source of result.cacheHits) lines.push(source);
+    lines.push("");
+  }
+
+  if (result.attachments.length > 0) {
+    lines.push(thinSep, "ATTACHMENTS", thinSep);
+    lines.push(`Delivery: ${result.adapter.attachmentsVia ?? `none (${result.command} does not accept attachments)`}`);
+    for (const path of result.attachments) lines.push(path);
+    lines.push("");
+  }
+
   lines.push(thinSep, "TOKEN USAGE", thinSep);
   lines.push(`Estimated tokens: ${result.tokenUsage.tokens.toLocaleString()}`);
+  lines.push(`Tokenizer: ${result.tokenUsage.tokenizer}${result.tokenUsage.exact ? "" : " (calibrated estimate)"}`);
   lines.push(`Context limit: ${result.tokenUsage.limit.toLocaleString()}`);
   lines.push(`Usage: ${result.tokenUsage.percentage.toFixed(1)}%`);
   if (result.tokenUsage.exceeds) lines.push(`WARNING: Exceeds context limit!`);
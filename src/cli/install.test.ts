@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, rm, mkdir, writeFile } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import { runInstall, runUpdate, runList } from "./install";
+import { hashPinContent } from "../features/pins";
+
+describe("md install / md update / md list --installed", () => {
+  let dir: string;
+  let output: string[];
+  const options = () => ({
+    userDir: join(dir, "user"),
+    projectDir: join(dir, "project"),
+    hasAdapter: () => true,
+    write: (line: string) => output.push(line),
+  });
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "install-cli-test-"));
+    output = [];
+    await mkdir(join(dir, "registry"), { recursive: true });
+    await writeFile(join(dir, "registry", "task.md"), "Task\n");
+    await writeFile(join(dir, "registry", "index.json"), JSON.stringify({
+      version: 1,
+      agents: { "acme/task": { versions: { "1.0.0": { path: "task.md", sha256: hashPinContent("Task\n") } } } },
+    }));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("installs into the project directory and lists it", async () => {
+    const registry = join(dir, "registry");
+    expect(await runInstall(["acme/task", "--project", "--registry", registry], options())).toBe(0);
+    expect(output.at(-1)).toBe(`Installed acme/task@1.0.0 → ${join(dir, "project", "task.md")}`);
+
+    expect(await runUpdate([], { ...options(), registries: [registry] })).toBe(0);
+    expect(output.at(-1)).toContain("acme/task@1.0.0 is up to date");
+
+    output = [];
+    expect(await runList(["--installed"], options())).toBe(0);
+    expect(output).toEqual([".mdflow:", `  acme/task@1.0.0  task.md  from ${join(registry, "index.json")}`]);
+  });
+
+  it("lists what an installed agent can do", async () => {
+    const registry = join(dir, "registry");
+    await writeFile(join(registry, "status.md"), "Status: !`git status`\n");
+    await writeFile(join(registry, "index.json"), JSON.stringify({
+      version: 1,
+      agents: { "acme/status": { versions: { "1.0.0": { path: "status.md", sha256: hashPinContent("Status: !`git status`\n") } } } },
+    }));
+    expect(await runInstall(["acme/status", "--registry", registry], options())).toBe(0);
+    expect(output.slice(1)).toEqual(["  Capabilities:", "    - shell command: git status"]);
+  });
+
+  it("needs an agent to install and knows what is not installed", async () => {
+    expect(await runInstall([], options())).toBe(1);
+    expect(await runUpdate(["acme/none"], options())).toBe(1);
+    expect(output.at(-1)).toBe("Not installed: acme/none");
+  });
+});
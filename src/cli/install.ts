@@ -0,0 +1,190 @@
+/**
+ * `md install`, `md update` and `md list` subcommands - Agents from registries
+ *
+ *   md install acme/review@1.2            # newest 1.2.x into ~/.mdflow/
+ *   md install acme/review --project      # into ./.mdflow/
+ *   md install acme/review --registry ./registry
+ *   md update                             # every installed agent, within its range
+ *   md list --installed
+ *
+ * Registries come from `registries:` in config (see ../features/registry).
+ * Installing lists what a new version can do; agents from remote registries
+ * are trusted (or not) when they first run, like their URL.
+ */
+
+import { hasAdapter } from "../core/adapters/index";
+import { ConfigurationError } from "../core/errors";
+import { isRemoteUrl } from "../features/remote";
+import { describeCapability } from "../features/policy";
+import {
+  installAgent,
+  updateAgent,
+  loadInstalled,
+  type InstallResult,
+} from "../features/registry";
+import { findAgentFiles, getProjectAgentsDir, getUserAgentsDir } from "./cli";
+
+/** Options for runInstall / runUpdate / runList */
+export interface InstallCommandOptions {
+  /** Registries from config */
+  registries?: string[];
+  /** User agent directory (defaults to ~/.mdflow) */
+  userDir?: string;
+  /** Project agent directory (defaults to ./.mdflow) */
+  projectDir?: string;
+  /** Whether an adapter is available (defaults to a registered adapter or a command on $PATH) */
+  hasAdapter?: (name: string) => boolean;
+  /** Output sink (defaults to console.log) */
+  write?: (line: string) => void;
+}
+
+/** Flags shared by the subcommands */
+interface ParsedArgs {
+  names: string[];
+  project: boolean;
+  force: boolean;
+  installed: boolean;
+  registries: string[];
+}
+
+function parseArgs(args: string[]): ParsedArgs {
+  const parsed: ParsedArgs = { names: [], project: false, force: false, installed: false, registries: [] };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]!;
+    if (arg === "--project") parsed.project = true;
+    else if (arg === "--force") parsed.force = true;
+    else if (arg === "--installed") parsed.installed = true;
+    else if (arg === "--registry") {
+      const value = args[++i];
+      if (value === undefined) throw new ConfigurationError("--registry requires a value");
+      parsed.registries.push(value);
+    } else if (arg.startsWith("--")) {
+      throw new ConfigurationError(`Unknown option: ${arg}`);
+    } else {
+      parsed.names.push(arg);
+    }
+  }
+  return parsed;
+}
+
+function defaultHasAdapter(name: string): boolean {
+  return hasAdapter(name) || Bun.which(name) !== null;
+}
+
+function reportResult(result: InstallResult, write: (line: string) => void): void {
+  const { name, installed, previous, path, unchanged } = result;
+  if (unchanged) {
+    write(`${name}@${installed.version} is up to date (${path})`);
+  } else if (previous && previous !== installed.version) {
+    write(`Updated ${name} ${previous} → ${installed.version} (${path})`);
+  } else {
+    write(`Installed ${name}@${installed.version} → ${path}`);
+  }
+  if (result.missingAdapters.length > 0) {
+    write(`  Warning: needs ${result.missingAdapters.join(", ")}, which is not installed or configured`);
+  }
+  if (result.capabilities.length > 0) {
+    write("  Capabilities:");
+    result.capabilities.forEach((capability) => write(`    - ${describeCapability(capability)}`));
+  }
+  if (!unchanged && isRemoteUrl(installed.source)) {
+    write(`  Runs as a remote agent of ${installed.source}: trust is checked when it first runs`);
+  }
+}
+
+/**
+ * Run `md install <owner/name[@version]...> [--project] [--registry <url|dir>] [--force]`
+ * @returns Exit code
+ */
+export async function runInstall(args: string[], options: InstallCommandOptions = {}): Promise<number> {
+  const write = options.write ?? console.log;
+  const parsed = parseArgs(args);
+  if (parsed.names.length === 0) {
+    console.error("Usage: md install <owner/name[@version]...> [--project] [--registry <url|dir>] [--force]");
+    console.error("\nInstalls agents from the registries in config (registries:) into ~/.mdflow/,");
+    console.error("or ./.mdflow/ with --project.");
+    return 1;
+  }
+
+  const dir = parsed.project ? options.projectDir ?? getProjectAgentsDir() : options.userDir ?? getUserAgentsDir();
+  for (const reference of parsed.names) {
+    const result = await installAgent(reference, {
+      registries: [...parsed.registries, ...(options.registries ?? [])],
+      dir,
+      force: parsed.force,
+      hasAdapter: options.hasAdapter ?? defaultHasAdapter,
+    });
+    reportResult(result, write);
+  }
+  return 0;
+}
+
+/**
+ * Run `md update [owner/name...] [--project] [--registry <url|dir>]`
+ * Updates agents installed in ./.mdflow/ and ~/.mdflow/ (only ./.mdflow/
+ * with --project).
+ * @returns Exit code
+ */
+export async function runUpdate(args: string[], options: InstallCommandOptions = {}): Promise<number> {
+  const write = options.write ?? console.log;
+  const parsed = parseArgs(args);
+  const dirs = [options.projectDir ?? getProjectAgentsDir()];
+  if (!parsed.project) dirs.push(options.userDir ?? getUserAgentsDir());
+
+  let found = 0;
+  for (const dir of dirs) {
+    const manifest = await loadInstalled(dir);
+    const names = Object.keys(manifest.agents).filter((name) => parsed.names.length === 0 || parsed.names.includes(name));
+    for (const name of names) {
+      found++;
+      reportResult(await updateAgent(name, {
+        registries: [...parsed.registries, ...(options.registries ?? [])],
+        dir,
+        hasAdapter: options.hasAdapter ?? defaultHasAdapter,
+      }), write);
+    }
+  }
+
+  if (found === 0) {
+    write(parsed.names.length > 0 ? `Not installed: ${parsed.names.join(", ")}` : "No installed agents");
+    return parsed.names.length > 0 ? 1 : 0;
+  }
+  return 0;
+}
+
+/**
+ * Run `md list [--installed]`
+ * Lists the agents md finds (as in the picker), or with --installed the
+ * agents installed from registries.
+ * @returns Exit code
+ */
+export async function runList(args: string[], options: InstallCommandOptions = {}): Promise<number> {
+  const write = options.write ?? console.log;
+  const parsed = parseArgs(args);
+
+  if (!parsed.installed) {
+    const files = await findAgentFiles();
+    if (files.length === 0) write("No agents found");
+    for (const file of files) {
+      write(`${file.name}  (${file.installed ? `${file.source}, ${file.installed}` : file.source})${file.description ? `  ${file.description}` : ""}`);
+    }
+    return 0;
+  }
+
+  const dirs = [
+    { label: ".mdflow", dir: options.projectDir ?? getProjectAgentsDir() },
+    { label: "~/.mdflow", dir: options.userDir ?? getUserAgentsDir() },
+  ];
+  let count = 0;
+  for (const { label, dir } of dirs) {
+    const agents = Object.entries((await loadInstalled(dir)).agents);
+    if (agents.length === 0) continue;
+    write(`${label}:`);
+    for (const [name, agent] of agents) {
+      count++;
+      write(`  ${name}@${agent.version}${agent.range ? ` (${agent.range})` : ""}  ${agent.file}  from ${agent.registry}`);
+    }
+  }
+  if (count === 0) write("No installed agents (install one with: md install owner/name)");
+  return 0;
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect } from "bun:test";
+import { buildRunReport, formatRunReport, elapsedMs } from "./json-report";
+
+describe("buildRunReport", () => {
+  const base = {
+    type: "executed" as const,
+    command: "claude",
+    args: ["--model", "opus", "--api-key", "sk-secret123"],
+    finalPrompt: "Hello",
+    estimatedTokens: 1,
+    frontmatter: { model: "opus", api_key: "sk-secret123" },
+    resolvedImports: ["./a.ts"],
+    templateVars: { _name: "World", __promptedVars__: {}, __noHistory__: false },
+    positionalMappings: new Map([[1, "prompt"]]),
+    timings: { parse: 1.2, execute: 30 },
+  };
+
+  it("masks sensitive args, env and frontmatter values", () => {
+    const report = buildRunReport({ ...base, env: { GITHUB_TOKEN: "ghp_abc", MODE: "ci" } });
+
+    expect(report.plan.args).toEqual(["--model", "opus", "--api-key", "sk-****"]);
+    expect(report.plan.env).toEqual({ GITHUB_TOKEN: "ghp_****", MODE: "ci" });
+    expect(report.plan.frontmatter.api_key).toBe("sk-****");
+  });
+
+  it("drops internal template var keys and converts positional mappings", () => {
+    const report = buildRunReport(base);
+
+    expect(report.plan.templateVars).toEqual({ _name: "World" });
+    expect(report.plan.positionalMappings).toEqual({ 1: "prompt" });
+  });
+
+  it("defaults output fields for dry runs", () => {
+    const report = buildRunReport({ ...base, type: "dry-run" });
+
+    expect(report.plan.type).toBe("dry-run");
+    expect(report.stdout).toBe("");
+    expect(report.stderr).toBe("");
+    expect(report.exitCode).toBe(0);
+  });
+
+  it("serializes to parseable JSON", () => {
+    const report = buildRunReport({ ...base, stdout: "out", stderr: "err", exitCode: 2 });
+    const parsed = JSON.parse(formatRunReport(report));
+
+    expect(parsed.stdout).toBe("out");
+    expect(parsed.stderr).toBe("err");
+    expect(parsed.exitCode).toBe(2);
+    expect(parsed.timings).toEqual({ parse: 1.2, execute: 30 });
+  });
+});
+
+describe("elapsedMs", () => {
+  it("returns non-negative milliseconds", () => {
+    expect(elapsedMs(performance.now())).toBeGreaterThanOrEqual(0);
+  });
+});
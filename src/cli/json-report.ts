@@ -0,0 +1,84 @@
+/**
+ * JSON run reports for `--_json` mode
+ *
+ * Builds the single JSON document written to stdout when an agent is run
+ * with --_json. Secrets are masked the same way as in dry-run output, and
+ * internal bookkeeping keys (e.g., __promptedVars__) are dropped.
+ */
+
+import type { AgentFrontmatter, ExecutionPlan, RunReport } from "../core/types";
+import { maskArgsArray, maskArgs } from "../features/secrets";
+
+/** Inputs collected by CliRunner while running an agent */
+export interface RunReportInput {
+  type: ExecutionPlan["type"];
+  command: string;
+  args: string[];
+  finalPrompt: string;
+  estimatedTokens: number;
+  tokenizer?: string;
+  frontmatter: AgentFrontmatter;
+  env?: Record<string, string>;
+  resolvedImports: string[];
+  attachments?: string[];
+  templateVars: Record<string, unknown>;
+  positionalMappings: Map<number, string>;
+  timings: Record<string, number>;
+  stdout?: string;
+  stderr?: string;
+  exitCode?: number;
+}
+
+/**
+ * Milliseconds elapsed since a performance.now() mark, rounded to 0.1ms
+ */
+export function elapsedMs(start: number): number {
+  return Math.round((performance.now() - start) * 10) / 10;
+}
+
+/**
+ * Build a RunReport with sensitive values masked
+ */
+export function buildRunReport(input: RunReportInput): RunReport {
+  const templateVars: Record<string, string> = {};
+  for (const [key, value] of Object.entries(input.templateVars)) {
+    // Skip internal bookkeeping keys attached by processAgent
+    if (key.startsWith("__")) continue;
+    templateVars[key] = String(value);
+  }
+
+  const positionalMappings: Record<number, string> = {};
+  for (const [key, value] of input.positionalMappings.entries()) {
+    positionalMappings[key] = value;
+  }
+
+  const plan: ExecutionPlan = {
+    type: input.type,
+    finalPrompt: input.finalPrompt,
+    command: input.command,
+    args: maskArgsArray(input.args),
+    env: maskArgs(input.env ?? {}) as Record<string, string>,
+    estimatedTokens: input.estimatedTokens,
+    ...(input.tokenizer ? { tokenizer: input.tokenizer } : {}),
+    frontmatter: maskArgs(input.frontmatter) as AgentFrontmatter,
+    resolvedImports: input.resolvedImports,
+    ...(input.attachments?.length ? { attachments: input.attachments } : {}),
+    templateVars,
+    positionalMappings,
+  };
+
+  return {
+    plan,
+    timings: input.timings,
+    stdout: input.stdout ?? "",
+    stderr: input.stderr ?? "",
+    exitCode: input.exitCode ?? 0,
+  };
+}
+
+/**
+ * Serialize a RunReport as a single JSON document
+ */
+export function formatRunReport(report: RunReport): string {
+  return JSON.stringify(report, null, 2);
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, rm, writeFile, readFile } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import { runSign, runKeys } from "./keys";
+
+describe("md sign / md keys", () => {
+  let dir: string;
+  let output: string[];
+  const options = () => ({ dir, write: (line: string) => output.push(line) });
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "keys-cli-test-"));
+    output = [];
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("generates a key, signs an agent and verifies it once the key is trusted", async () => {
+    expect(await runKeys(["generate", "--name", "Jane"], options())).toBe(0);
+    const keyLine = output[1]!.trim();
+    expect(keyLine).toMatch(/^ed25519 \S+ Jane$/);
+
+    const agent = join(dir, "review.claude.md");
+    await writeFile(agent, "---\nmodel: opus\n---\nReview.\n");
+    expect(await runSign([agent], options())).toBe(0);
+    expect(JSON.parse(await readFile(`${agent}.sig`, "utf-8"))).toMatchObject({ version: 1, signer: "Jane" });
+
+    // Signed but not trusted yet
+    expect(await runKeys(["verify", agent], options())).toBe(1);
+    expect(await runKeys(["add", ...keyLine.split(" ")], options())).toBe(0);
+    expect(await runKeys(["verify", agent], options())).toBe(0);
+    expect(output.at(-1)).toBe(`${agent}: signed by Jane (detached, trusted)`);
+
+    output = [];
+    expect(await runKeys([], options())).toBe(0);
+    expect(output.join("\n")).toContain(`Trusted keys (${dir}/trusted_keys):\n  ${keyLine}`);
+
+    expect(await runKeys(["remove", "Jane"], options())).toBe(0);
+    expect(await runKeys(["remove", "Jane"], options())).toBe(1);
+  });
+
+  it("signs inline and reports tampering", async () => {
+    await runKeys(["generate", "--name", "Jane"], options());
+    const agent = join(dir, "task.md");
+    await writeFile(agent, "---\nmodel: opus\n---\nTask.\n");
+    expect(await runSign([agent, "--inline"], options())).toBe(0);
+    expect(await readFile(agent, "utf-8")).toContain("_signature:\n  signer: \"Jane\"");
+
+    await writeFile(agent, (await readFile(agent, "utf-8")).replace("Task.", "Other task."));
+    expect(await runKeys(["verify", agent], options())).toBe(1);
+    expect(output.at(-1)).toContain("INVALID");
+  });
+
+  it("needs a signing key to sign", async () => {
+    await writeFile(join(dir, "a.md"), "x");
+    await expect(runSign([join(dir, "a.md")], options())).rejects.toThrow("No signing key");
+  });
+});
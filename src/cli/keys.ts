@@ -0,0 +1,151 @@
+/**
+ * `md sign` and `md keys` subcommands - Sign agents and manage trusted keys
+ *
+ *   md keys generate --name "Jane Doe <jane@example.com>"
+ *   md sign review.claude.md              # writes review.claude.md.sig
+ *   md sign review.claude.md --inline     # adds a _signature frontmatter block
+ *   md keys add "ed25519 <base64 key> Jane Doe"
+ *   md keys                               # your key and the trusted keys
+ *
+ * Both work offline (see ../features/signatures).
+ */
+
+import { userInfo, hostname } from "os";
+import { readFile, writeFile } from "fs/promises";
+import { ConfigurationError } from "../core/errors";
+import {
+  KEYS_DIR,
+  SIGNATURE_EXTENSION,
+  TRUSTED_KEYS_FILE,
+  generateSigningKey,
+  loadSigningKey,
+  loadTrustedKeys,
+  saveTrustedKeys,
+  addTrustedKey,
+  parseKeyLine,
+  formatKeyLine,
+  signContent,
+  addInlineSignature,
+  formatDetachedSignature,
+  verifyAgentSignature,
+} from "../features/signatures";
+
+/** Options for runSign / runKeys */
+export interface KeysCommandOptions {
+  /** Keys directory (defaults to ~/.mdflow) */
+  dir?: string;
+  /** Output sink (defaults to console.log) */
+  write?: (line: string) => void;
+}
+
+/**
+ * Run `md sign <agent.md> [--inline]`
+ * @returns Exit code
+ */
+export async function runSign(args: string[], options: KeysCommandOptions = {}): Promise<number> {
+  const write = options.write ?? console.log;
+  const inline = args.includes("--inline");
+  const files = args.filter((arg) => arg !== "--inline");
+  if (files.length === 0) {
+    console.error("Usage: md sign <agent.md...> [--inline]");
+    console.error("\nSigns agents with your key (md keys generate): a detached <agent.md>.sig,");
+    console.error("or a _signature frontmatter block with --inline.");
+    return 1;
+  }
+
+  const signingKey = await loadSigningKey(options.dir);
+  for (const file of files) {
+    const content = await readFile(file, "utf-8");
+    if (inline) {
+      await writeFile(file, addInlineSignature(content, signingKey));
+      write(`Signed ${file} as ${signingKey.publicKey.signer} (inline)`);
+    } else {
+      await writeFile(file + SIGNATURE_EXTENSION, formatDetachedSignature(signContent(content, signingKey)));
+      write(`Signed ${file} as ${signingKey.publicKey.signer} → ${file}${SIGNATURE_EXTENSION}`);
+    }
+  }
+  return 0;
+}
+
+/**
+ * Run `md keys [list|generate|add|remove|verify]`
+ * @returns Exit code
+ */
+export async function runKeys(args: string[], options: KeysCommandOptions = {}): Promise<number> {
+  const write = options.write ?? console.log;
+  const dir = options.dir ?? KEYS_DIR;
+  const [action = "list", ...rest] = args;
+
+  const takeValue = (flag: string): string | undefined => {
+    const idx = rest.indexOf(flag);
+    if (idx === -1) return undefined;
+    const value = rest[idx + 1];
+    if (value === undefined) throw new ConfigurationError(`${flag} requires a value`);
+    rest.splice(idx, 2);
+    return value;
+  };
+
+  switch (action) {
+    case "list": {
+      const own = await loadSigningKey(dir).catch(() => undefined);
+      write(own ? `Your signing key:\n  ${formatKeyLine(own.publicKey)}` : "No signing key (create one with: md keys generate --name \"Your Name\")");
+      const trusted = await loadTrustedKeys([], dir);
+      write(`\nTrusted keys (${dir}/${TRUSTED_KEYS_FILE}):`);
+      write(trusted.length > 0 ? trusted.map((key) => `  ${formatKeyLine(key)}`).join("\n") : "  (none)");
+      return 0;
+    }
+    case "generate": {
+      const force = rest.includes("--force");
+      const name = takeValue("--name") ?? `${userInfo().username}@${hostname()}`;
+      const key = await generateSigningKey(name, { dir, force });
+      write(`Created signing key for ${name}. Share this line with the people who run your agents:`);
+      write(`  ${formatKeyLine(key.publicKey)}`);
+      return 0;
+    }
+    case "add": {
+      if (rest.length === 0) {
+        console.error('Usage: md keys add "ed25519 <base64 public key> <signer>"');
+        return 1;
+      }
+      const key = parseKeyLine(rest.join(" "));
+      await addTrustedKey(key, dir);
+      write(`Trusted ${key.signer}`);
+      return 0;
+    }
+    case "remove": {
+      const target = rest.join(" ");
+      const keys = await loadTrustedKeys([], dir);
+      const kept = keys.filter((key) => key.key !== target && key.signer !== target);
+      if (!target || kept.length === keys.length) {
+        console.error(`No trusted key matches "${target}"`);
+        return 1;
+      }
+      await saveTrustedKeys(kept, dir);
+      write(`Removed ${keys.length - kept.length} key(s)`);
+      return 0;
+    }
+    case "verify": {
+      const file = rest[0];
+      if (!file) {
+        console.error("Usage: md keys verify <agent.md>");
+        return 1;
+      }
+      const content = await readFile(file, "utf-8");
+      const detached = await readFile(file + SIGNATURE_EXTENSION, "utf-8").catch(() => undefined);
+      const check = verifyAgentSignature(content, detached, await loadTrustedKeys([], dir));
+      if (check.status === "unsigned") {
+        write(`${file}: not signed`);
+        return 1;
+      }
+      if (check.status === "invalid") {
+        write(`${file}: INVALID (${check.reason})`);
+        return 1;
+      }
+      write(`${file}: signed by ${check.signer} (${check.source}, ${check.trusted ? "trusted" : "not trusted"})`);
+      return check.trusted ? 0 : 1;
+    }
+    default:
+      console.error("Usage: md keys [list | generate --name <signer> [--force] | add <key line> | remove <signer|key> | verify <agent.md>]");
+      return 1;
+  }
+}
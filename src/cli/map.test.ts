@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import {
+  parseMapArgs,
+  loadMapItems,
+  mapOutputFilename,
+  mapWithConcurrency,
+  formatMapSummary,
+  DEFAULT_MAP_CONCURRENCY,
+  type MapItemResult,
+} from "./map";
+
+describe("parseMapArgs", () => {
+  it("parses agent, --over and defaults", () => {
+    const options = parseMapArgs(["fix.claude.md", "--over", "src/*.ts"]);
+    expect(options.agent).toBe("fix.claude.md");
+    expect(options.over).toBe("src/*.ts");
+    expect(options.concurrency).toBe(DEFAULT_MAP_CONCURRENCY);
+    expect(options.varName).toBe("_item");
+    expect(options.passthroughArgs).toEqual([]);
+  });
+
+  it("parses options and forwards remaining args", () => {
+    const options = parseMapArgs([
+      "--over", "-", "review.md", "-j", "2", "--var", "file", "--out-dir", "out", "--model", "opus",
+    ]);
+    expect(options.agent).toBe("review.md");
+    expect(options.concurrency).toBe(2);
+    expect(options.varName).toBe("_file");
+    expect(options.outDir).toBe("out");
+    expect(options.passthroughArgs).toEqual(["--model", "opus"]);
+  });
+
+  it("rejects missing --over and invalid concurrency", () => {
+    expect(() => parseMapArgs(["fix.md"])).toThrow("--over");
+    expect(() => parseMapArgs(["fix.md", "--over", "-", "-j", "0"])).toThrow("Invalid --concurrency");
+  });
+});
+
+describe("loadMapItems", () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "map-test-"));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("reads non-empty lines from stdin", async () => {
+    expect(await loadMapItems("-", "a.ts\n\n  b.ts  \n")).toEqual(["a.ts", "b.ts"]);
+  });
+
+  it("expands glob patterns relative to cwd", async () => {
+    await writeFile(join(tempDir, "b.ts"), "");
+    await writeFile(join(tempDir, "a.ts"), "");
+    await writeFile(join(tempDir, "c.md"), "");
+    expect(await loadMapItems("*.ts", "", tempDir)).toEqual(["a.ts", "b.ts"]);
+  });
+
+  it("reads a file of lines", async () => {
+    await writeFile(join(tempDir, "items.txt"), "one\ntwo\n");
+    expect(await loadMapItems("items.txt", "", tempDir)).toEqual(["one", "two"]);
+  });
+
+  it("throws for a missing source file", async () => {
+    await expect(loadMapItems("missing.txt", "", tempDir)).rejects.toThrow("not found");
+  });
+});
+
+describe("mapOutputFilename", () => {
+  it("builds an ordered, filesystem-safe name", () => {
+    expect(mapOutputFilename(0, "src/a b.ts")).toBe("001-src_a_b.ts.md");
+    expect(mapOutputFilename(41, "../x")).toBe("042-x.md");
+  });
+});
+
+describe("mapWithConcurrency", () => {
+  const ok = (item: string): MapItemResult => ({
+    item, status: "ok", exitCode: 0, durationMs: 0, outputPath: null,
+  });
+
+  it("never exceeds the concurrency limit and preserves order", async () => {
+    let active = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency(["a", "b", "c", "d", "e"], 2, async (item) => {
+      active++;
+      peak = Math.max(peak, active);
+      await Bun.sleep(5);
+      active--;
+      return ok(item);
+    });
+
+    expect(peak).toBe(2);
+    expect(results.map((r) => r.item)).toEqual(["a", "b", "c", "d", "e"]);
+  });
+
+  it("marks items as cancelled once the signal aborts", async () => {
+    const controller = new AbortController();
+    const results = await mapWithConcurrency(["a", "b", "c"], 1, async (item) => {
+      controller.abort();
+      return ok(item);
+    }, controller.signal);
+
+    expect(results.map((r) => r.status)).toEqual(["ok", "cancelled", "cancelled"]);
+  });
+});
+
+describe("formatMapSummary", () => {
+  it("renders a row per item and a totals line", () => {
+    const summary = formatMapSummary([
+      { item: "a.ts", status: "ok", exitCode: 0, durationMs: 1200, outputPath: "out/001-a.ts.md" },
+      { item: "b.ts", status: "failed", exitCode: 1, durationMs: 300, outputPath: "out/002-b.ts.md", error: "boom" },
+    ]);
+
+    expect(summary).toContain("✓ ok");
+    expect(summary).toContain("✗ failed");
+    expect(summary).toContain("out/001-a.ts.md");
+    expect(summary).toContain("boom");
+    expect(summary).toContain("1 succeeded, 1 failed");
+  });
+});
@@ -0,0 +1,315 @@
+/**
+ * `md map` subcommand - Fan out an agent over a list of inputs
+ *
+ * Runs one child `md` process per item with a shared concurrency limit:
+ *   md map fix.claude.md --over "src/*.ts" --concurrency 4
+ *   git diff --name-only | md map review.claude.md --over -
+ *
+ * Each item is bound to a template variable (default `_item`), each child's
+ * stdout is written to its own output file, and a success/failure table is
+ * printed once all items have finished. Children are registered with the
+ * ProcessManager so Ctrl-C cancels every in-flight run.
+ */
+
+import { join, resolve } from "path";
+import { mkdirSync } from "fs";
+import { Semaphore } from "../core/execution/concurrency";
+import { getProcessManager } from "../core/execution/process-manager";
+import { isGlobPattern } from "../features/imports/parser";
+import { ConfigurationError } from "../core/errors";
+
+/** Default number of agents running at once */
+export const DEFAULT_MAP_CONCURRENCY = 4;
+
+/** Default directory for per-item output files */
+export const DEFAULT_MAP_OUT_DIR = "map-output";
+
+/** Parsed `md map` arguments */
+export interface MapOptions {
+  /** Agent file to run for every item */
+  agent: string;
+  /** Item source: glob pattern, file of lines, or "-" for stdin */
+  over: string;
+  /** Maximum number of concurrent children */
+  concurrency: number;
+  /** Directory for per-item output files */
+  outDir: string;
+  /** Template variable the item is bound to */
+  varName: string;
+  /** Extra args forwarded to every child */
+  passthroughArgs: string[];
+}
+
+/** Outcome of a single mapped item */
+export interface MapItemResult {
+  item: string;
+  status: "ok" | "failed" | "cancelled";
+  exitCode: number | null;
+  durationMs: number;
+  outputPath: string | null;
+  /** Last line of stderr for failed items */
+  error?: string;
+}
+
+/**
+ * Parse `md map` arguments
+ *
+ * @throws ConfigurationError when the agent or --over is missing
+ */
+export function parseMapArgs(args: string[]): MapOptions {
+  const remaining = [...args];
+
+  const takeValue = (flag: string): string | undefined => {
+    const idx = remaining.indexOf(flag);
+    if (idx === -1) return undefined;
+    const value = remaining[idx + 1];
+    if (value === undefined) {
+      throw new ConfigurationError(`${flag} requires a value`);
+    }
+    remaining.splice(idx, 2);
+    return value;
+  };
+
+  const over = takeValue("--over");
+  const concurrencyRaw = takeValue("--concurrency") ?? takeValue("-j");
+  const outDir = takeValue("--out-dir") ?? DEFAULT_MAP_OUT_DIR;
+  const varRaw = takeValue("--var") ?? "_item";
+
+  const agent = remaining.shift();
+  if (!agent) {
+    throw new ConfigurationError("md map requires an agent file");
+  }
+  if (!over) {
+    throw new ConfigurationError("md map requires --over <glob|file|->");
+  }
+
+  const concurrency = concurrencyRaw === undefined ? DEFAULT_MAP_CONCURRENCY : parseInt(concurrencyRaw, 10);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new ConfigurationError(`Invalid --concurrency value: ${concurrencyRaw}`);
+  }
+
+  return {
+    agent,
+    over,
+    concurrency,
+    outDir,
+    varName: varRaw.startsWith("_") ? varRaw : `_${varRaw}`,
+    passthroughArgs: remaining,
+  };
+}
+
+/**
+ * Resolve the list of items from the --over source
+ *
+ * - "-" reads one item per line from stdin
+ * - Glob patterns expand to matching file paths (sorted)
+ * - Anything else is read as a file with one item per line
+ */
+export async function loadMapItems(
+  over: string,
+  stdinContent: string,
+  cwd: string = process.cwd()
+): Promise<string[]> {
+  const splitLines = (text: string) =>
+    text.split("\n").map((line) => line.trim()).filter((line) => line.length > 0);
+
+  if (over === "-") {
+    return splitLines(stdinContent);
+  }
+
+  if (isGlobPattern(over)) {
+    const glob = new Bun.Glob(over);
+    const matches: string[] = [];
+    for await (const match of glob.scan({ cwd, onlyFiles: true })) {
+      matches.push(match);
+    }
+    return matches.sort();
+  }
+
+  const file = Bun.file(resolve(cwd, over));
+  if (!await file.exists()) {
+    throw new ConfigurationError(`--over source not found: ${over}`);
+  }
+  return splitLines(await file.text());
+}
+
+/**
+ * Build a filesystem-safe output filename for an item
+ * e.g., (0, "src/a b.ts") -> "001-src_a_b.ts.md"
+ */
+export function mapOutputFilename(index: number, item: string): string {
+  const slug = item.replace(/[^A-Za-z0-9._-]+/g, "_").replace(/^[_.]+/, "").slice(0, 80) || "item";
+  return `${String(index + 1).padStart(3, "0")}-${slug}.md`;
+}
+
+/**
+ * Run a worker over all items with a shared concurrency limit
+ *
+ * Results are returned in input order. Items not yet started when the
+ * signal aborts are reported as cancelled without invoking the worker.
+ */
+export async function mapWithConcurrency(
+  items: string[],
+  concurrency: number,
+  worker: (item: string, index: number) => Promise<MapItemResult>,
+  signal?: AbortSignal
+): Promise<MapItemResult[]> {
+  const semaphore = new Semaphore(concurrency);
+
+  return Promise.all(
+    items.map((item, index) =>
+      semaphore.run(async () => {
+        if (signal?.aborted) {
+          return { item, status: "cancelled", exitCode: null, durationMs: 0, outputPath: null } as MapItemResult;
+        }
+        return worker(item, index);
+      })
+    )
+  );
+}
+
+/**
+ * Get the argv prefix that re-invokes this CLI
+ * (bun + script when running from source, the binary itself when compiled)
+ */
+function getSelfCommand(): string[] {
+  const script = process.argv[1];
+  if (script && /\.(ts|js|mjs)$/.test(script)) {
+    return [process.execPath, script];
+  }
+  return [process.execPath];
+}
+
+/**
+ * Spawn one child `md` run for an item and write its stdout to disk
+ */
+async function runMapItem(
+  options: MapOptions,
+  item: string,
+  index: number,
+  outDir: string
+): Promise<MapItemResult> {
+  const pm = getProcessManager();
+  const start = Date.now();
+  const outputPath = join(outDir, mapOutputFilename(index, item));
+
+  const proc = Bun.spawn(
+    [
+      ...getSelfCommand(),
+      options.agent,
+      `--${options.varName}=${item}`,
+      "--_no-menu",
+      ...options.passthroughArgs,
+    ],
+    {
+      stdin: "ignore",
+      stdout: "pipe",
+      stderr: "pipe",
+      env: process.env,
+    }
+  );
+  pm.register(proc, `map: ${item}`);
+
+  const [stdout, stderr] = await Promise.all([
+    new Response(proc.stdout).text(),
+    new Response(proc.stderr).text(),
+  ]);
+  const exitCode = await proc.exited;
+  await Bun.write(outputPath, stdout);
+
+  if (pm.isAborted) {
+    return { item, status: "cancelled", exitCode, durationMs: Date.now() - start, outputPath };
+  }
+
+  const lastErrorLine = stderr.trim().split("\n").pop();
+  return {
+    item,
+    status: exitCode === 0 ? "ok" : "failed",
+    exitCode,
+    durationMs: Date.now() - start,
+    outputPath,
+    ...(exitCode !== 0 && lastErrorLine ? { error: lastErrorLine } : {}),
+  };
+}
+
+/**
+ * Format the final success/failure table
+ */
+export function formatMapSummary(results: MapItemResult[]): string {
+  const rows = results.map((r, i) => [
+    String(i + 1),
+    r.status === "ok" ? "✓ ok" : r.status === "failed" ? "✗ failed" : "- cancelled",
+    r.exitCode === null ? "-" : String(r.exitCode),
+    `${(r.durationMs / 1000).toFixed(1)}s`,
+    r.item,
+    r.error ?? r.outputPath ?? "",
+  ]);
+  const header = ["#", "Status", "Exit", "Time", "Item", "Output"];
+  const widths = header.map((h, col) =>
+    Math.max(h.length, ...rows.map((row) => row[col]!.length))
+  );
+  const formatRow = (row: string[]) =>
+    row.map((cell, col) => (col === row.length - 1 ? cell : cell.padEnd(widths[col]!))).join("  ");
+
+  const ok = results.filter((r) => r.status === "ok").length;
+  const failed = results.filter((r) => r.status === "failed").length;
+  const cancelled = results.length - ok - failed;
+
+  const lines = [
+    formatRow(header),
+    widths.map((w) => "-".repeat(w)).join("  "),
+    ...rows.map(formatRow),
+    "",
+    `${ok} succeeded, ${failed} failed` + (cancelled > 0 ? `, ${cancelled} cancelled` : ""),
+  ];
+  return lines.join("\n");
+}
+
+/**
+ * Entry point for `md map`
+ *
+ * @returns Exit code (0 when every item succeeded)
+ */
+export async function runMap(args: string[], stdinContent: string = ""): Promise<number> {
+  if (args.length === 0) {
+    console.error("Usage: md map <agent.md> --over <glob|file|-> [options] [flags for the agent]");
+    console.error("\nRuns the agent once per item, binding the item to {{ _item }}.");
+    console.error("\nOptions:");
+    console.error(`  --over <source>        Glob pattern, file with one item per line, or - for stdin`);
+    console.error(`  --concurrency, -j <n>  Max parallel runs (default: ${DEFAULT_MAP_CONCURRENCY})`);
+    console.error(`  --out-dir <dir>        Directory for per-item output (default: ${DEFAULT_MAP_OUT_DIR})`);
+    console.error(`  --var <name>           Template variable for the item (default: _item)`);
+    console.error("\nExamples:");
+    console.error('  md map fix.claude.md --over "src/**/*.ts" -j 4');
+    console.error("  git diff --name-only | md map review.claude.md --over -");
+    return 1;
+  }
+
+  const options = parseMapArgs(args);
+  const items = await loadMapItems(options.over, stdinContent);
+  if (items.length === 0) {
+    console.error(`No items found for --over ${options.over}`);
+    return 1;
+  }
+
+  const outDir = resolve(options.outDir);
+  mkdirSync(outDir, { recursive: true });
+
+  console.error(`Mapping ${options.agent} over ${items.length} item(s) (concurrency ${options.concurrency})`);
+
+  const results = await mapWithConcurrency(
+    items,
+    options.concurrency,
+    async (item, index) => {
+      const result = await runMapItem(options, item, index, outDir);
+      const mark = result.status === "ok" ? "✓" : result.status === "failed" ? "✗" : "-";
+      console.error(`  ${mark} ${item}`);
+      return result;
+    },
+    getProcessManager().signal
+  );
+
+  console.log(formatMapSummary(results));
+
+  return results.every((r) => r.status === "ok") ? 0 : 1;
+}
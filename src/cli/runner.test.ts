@@ -2,6 +2,10 @@ import { describe, it, expect, beforeEach, afterEach } from "bun:test";
 import { CliRunner, createCliRunner } from "./runner";
 import { createTestEnvironment, InMemorySystemEnvironment } from "../core/system-environment";
 import { clearConfigCache } from "../features/config";
+import { listSessions } from "../features/sessions";
+import { mkdtemp, rm, readdir } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
 
 /**
  * CliRunner Tests
@@ -143,6 +147,421 @@ Test with array`);
     });
   });
 
+  describe("--_json flag", () => {
+    const captureStdout = async (fn: () => Promise<unknown>): Promise<string> => {
+      const lines: string[] = [];
+      const originalLog = console.log;
+      console.log = (...args: unknown[]) => lines.push(args.join(" "));
+      try {
+        await fn();
+      } finally {
+        console.log = originalLog;
+      }
+      return lines.join("\n");
+    };
+
+    it("emits a dry-run plan as a single JSON document", async () => {
+      env.addFile("/test/json-dry.echo.md", `---
+model: opus
+_name: World
+---
+Hello {{ _name }}`);
+
+      const runner = new CliRunner({ env, isStdinTTY: false, stdinContent: "", cwd: "/test" });
+      let exitCode = -1;
+      const stdout = await captureStdout(async () => {
+        exitCode = (await runner.run(["node", "md", "/test/json-dry.echo.md", "--_dry-run", "--_json"])).exitCode;
+      });
+
+      expect(exitCode).toBe(0);
+      const report = JSON.parse(stdout);
+      expect(report.plan.type).toBe("dry-run");
+      expect(report.plan.command).toBe("echo");
+      expect(report.plan.finalPrompt).toBe("Hello World");
+      expect(report.plan.args).toEqual(["--model", "opus"]);
+      expect(report.plan.templateVars._name).toBe("World");
+      expect(report.timings.template).toBeGreaterThanOrEqual(0);
+    });
+
+    it("resolves template variables in import paths and gates imports before expanding them", async () => {
+      const dir = await mkdtemp(join(tmpdir(), "runner-template-imports-"));
+      try {
+        await Bun.write(join(dir, "go-style.md"), "Go style for {{ _lang }}");
+        await Bun.write(join(dir, "strict.md"), "Be strict");
+        env.addFile(join(dir, "review.echo.md"), `---
+_lang: go
+---
+@./{{ _lang }}-style.md
+{% if _lang == "rust" %}@./strict.md{% endif %}`);
+
+        const runner = new CliRunner({ env, isStdinTTY: false, stdinContent: "", cwd: dir });
+        const stdout = await captureStdout(async () => {
+          await runner.run(["node", "md", join(dir, "review.echo.md"), "--_dry-run", "--_json"]);
+        });
+
+        expect(JSON.parse(stdout).plan.finalPrompt).toBe("Go style for go\n");
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("caches imports in the injected import cache directory", async () => {
+      const dir = await mkdtemp(join(tmpdir(), "runner-import-cache-"));
+      try {
+        await Bun.write(join(dir, "src", "a.ts"), "export const a = 1;\n");
+        env.addFile(join(dir, "map.echo.md"), `---
+---
+@./src/*.ts`);
+
+        const importCacheDir = join(dir, "cache");
+        const runner = new CliRunner({ env, isStdinTTY: false, stdinContent: "", cwd: dir, importCacheDir });
+        await captureStdout(async () => {
+          await runner.run(["node", "md", join(dir, "map.echo.md"), "--_dry-run", "--_json"]);
+        });
+
+        expect((await readdir(importCacheDir)).filter((f) => f.endsWith(".content"))).toHaveLength(1);
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("fails on uncached URL imports with --_offline", async () => {
+      const dir = await mkdtemp(join(tmpdir(), "runner-offline-"));
+      try {
+        env.addFile(join(dir, "rules.echo.md"), "@https://example.invalid/rules.md");
+        const processEnv: Record<string, string | undefined> = { PATH: process.env.PATH };
+        const runner = new CliRunner({ env, isStdinTTY: false, stdinContent: "", cwd: dir, processEnv, importCacheDir: join(dir, "cache") });
+        const result = await runner.run(["node", "md", join(dir, "rules.echo.md"), "--_offline", "--_dry-run"]);
+
+        expect(result.exitCode).toBe(1);
+        expect(result.errorMessage).toContain("Offline and not cached: https://example.invalid/rules.md");
+        // Commands the agent runs (nested md calls) stay offline
+        expect(processEnv.MDFLOW_OFFLINE).toBe("1");
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("inserts imported files verbatim with _template_imports: false", async () => {
+      const dir = await mkdtemp(join(tmpdir(), "runner-template-imports-"));
+      try {
+        await Bun.write(join(dir, "greeting.md"), "Hello {{ _name }}");
+        env.addFile(join(dir, "greet.echo.md"), `---
+_name: World
+_template_imports: false
+---
+@./greeting.md`);
+
+        const runner = new CliRunner({ env, isStdinTTY: false, stdinContent: "", cwd: dir });
+        const stdout = await captureStdout(async () => {
+          await runner.run(["node", "md", join(dir, "greet.echo.md"), "--_dry-run", "--_json"]);
+        });
+
+        expect(JSON.parse(stdout).plan.finalPrompt).toBe("Hello {{ _name }}");
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("does not resolve imports or commands inside substituted values", async () => {
+      env.addFile("/test/piped.echo.md", `---
+---
+Review: {{ _stdin }}`);
+
+      const runner = new CliRunner({ env, isStdinTTY: false, stdinContent: "see @./nonexistent.md and !\`false\`", cwd: "/test" });
+      let exitCode = -1;
+      const stdout = await captureStdout(async () => {
+        exitCode = (await runner.run(["node", "md", "/test/piped.echo.md", "--_dry-run", "--_json"])).exitCode;
+      });
+
+      expect(exitCode).toBe(0);
+      expect(JSON.parse(stdout).plan.finalPrompt).toBe("Review: see @./nonexistent.md and !`false`");
+    });
+
+    it("reports captured stdout and exit code for executed runs", async () => {
+      env.addFile("/test/json-run.echo.md", `---
+---
+ran it`);
+
+      const runner = new CliRunner({ env, isStdinTTY: false, stdinContent: "", cwd: "/test" });
+      let exitCode = -1;
+      const stdout = await captureStdout(async () => {
+        exitCode = (await runner.run(["node", "md", "/test/json-run.echo.md", "--_json"])).exitCode;
+      });
+
+      expect(exitCode).toBe(0);
+      const report = JSON.parse(stdout);
+      expect(report.plan.type).toBe("executed");
+      expect(report.stdout.trim()).toBe("ran it");
+      expect(report.exitCode).toBe(0);
+      expect(report.timings.execute).toBeGreaterThanOrEqual(0);
+    });
+  });
+
+  describe("_output_schema", () => {
+    it("writes the validated JSON document to stdout", async () => {
+      env.addFile("/test/schema-ok.echo.md", `---
+_output_schema:
+  type: object
+  required: [ok]
+---
+{"ok": true}`);
+
+      const lines: string[] = [];
+      const originalLog = console.log;
+      console.log = (...args: unknown[]) => lines.push(args.join(" "));
+      const runner = new CliRunner({ env, isStdinTTY: false, stdinContent: "", cwd: "/test" });
+      const result = await runner.run(["node", "md", "/test/schema-ok.echo.md"]);
+      console.log = originalLog;
+
+      expect(result.exitCode).toBe(0);
+      expect(JSON.parse(lines.join("\n"))).toEqual({ ok: true });
+    });
+
+    it("fails after exhausting _output_retries", async () => {
+      env.addFile("/test/schema-bad.echo.md", `---
+_output_schema: '{"type": "object"}'
+_output_retries: 0
+---
+not json at all`);
+
+      const runner = new CliRunner({ env, isStdinTTY: false, stdinContent: "", cwd: "/test" });
+      const result = await runner.run(["node", "md", "/test/schema-bad.echo.md"]);
+
+      expect(result.exitCode).toBe(1);
+      expect(result.errorMessage).toContain("No JSON document found in output");
+    });
+  });
+
+  describe("_prompt_via", () => {
+    const runJson = async (path: string) => {
+      const lines: string[] = [];
+      const originalLog = console.log;
+      console.log = (...args: unknown[]) => lines.push(args.join(" "));
+      const runner = new CliRunner({ env, isStdinTTY: false, stdinContent: "", cwd: "/test" });
+      try {
+        await runner.run(["node", "md", path, "--_json"]);
+      } finally {
+        console.log = originalLog;
+      }
+      return JSON.parse(lines.join("\n"));
+    };
+
+    it("streams the prompt to stdin instead of argv", async () => {
+      env.addFile("/test/via-stdin.cat.md", `---
+_prompt_via: stdin
+---
+hello via stdin`);
+
+      const report = await runJson("/test/via-stdin.cat.md");
+      expect(report.exitCode).toBe(0);
+      expect(report.stdout).toBe("hello via stdin");
+    });
+
+    it("passes a temp file path in place of the prompt", async () => {
+      env.addFile("/test/via-file.cat.md", `---
+_prompt_via: file
+---
+hello via file`);
+
+      const report = await runJson("/test/via-file.cat.md");
+      expect(report.exitCode).toBe(0);
+      expect(report.stdout).toBe("hello via file");
+    });
+  });
+
+  describe("_steps", () => {
+    const runCapturing = async (args: string[]) => {
+      const lines: string[] = [];
+      const originalLog = console.log;
+      console.log = (...logArgs: unknown[]) => lines.push(logArgs.join(" "));
+      const runner = new CliRunner({ env, isStdinTTY: false, stdinContent: "", cwd: "/test" });
+      try {
+        const result = await runner.run(["node", "md", ...args]);
+        return { result, output: lines.join("\n") };
+      } finally {
+        console.log = originalLog;
+      }
+    };
+
+    it("feeds each step's output into the next as _prev", async () => {
+      env.addFile("/test/steps/one.md", "---\n---\nfirst");
+      env.addFile("/test/steps/two.md", "---\n---\nsecond after {{ _prev }}");
+      env.addFile("/test/steps/chain.md", `---
+_steps:
+  - agent: ./one.md
+    command: echo
+  - agent: ./two.md
+    command: echo
+---
+`);
+
+      const { result, output } = await runCapturing(["/test/steps/chain.md", "--_command", "echo", "--_no-session"]);
+      expect(result.exitCode).toBe(0);
+      expect(output).toBe("second after first");
+    });
+
+    it("exposes step outputs to the body as _step_<name>", async () => {
+      env.addFile("/test/steps/topic.echo.md", "---\n_topic: bees\n---\n{{ _topic }}");
+      env.addFile("/test/steps/summary.echo.md", `---
+_steps:
+  - agent: ./topic.echo.md
+    vars:
+      _topic: wasps
+---
+Summarize: {{ _step_topic }}`);
+
+      const { result, output } = await runCapturing(["/test/steps/summary.echo.md", "--_json"]);
+      expect(result.exitCode).toBe(0);
+      expect(JSON.parse(output).stdout.trim()).toBe("Summarize: wasps");
+    });
+
+    it("plans steps in dry-run without executing them", async () => {
+      env.addFile("/test/steps/research.claude.md", "---\n---\nResearch {{ _topic }}");
+      env.addFile("/test/steps/write.md", "---\n---\nWrite about: {{ _prev }}");
+      env.addFile("/test/steps/pipeline.claude.md", `---
+_steps:
+  - agent: ./research.claude.md
+    vars:
+      _topic: bees
+  - agent: ./write.md
+    command: gemini
+---
+Summarize: {{ _step_research }}`);
+
+      const { output } = await runCapturing(["/test/steps/pipeline.claude.md", "--_dry-run", "--_json"]);
+      const report = JSON.parse(output);
+      expect(report.plan.finalPrompt).toBe('Summarize: [output of step "research"]');
+      expect(report.plan.steps).toHaveLength(2);
+      expect(report.plan.steps[0].stepName).toBe("research");
+      expect(report.plan.steps[0].finalPrompt).toBe("Research bees");
+      expect(report.plan.steps[1].command).toBe("gemini");
+      expect(report.plan.steps[1].finalPrompt).toBe('Write about: [output of step "research"]');
+    });
+
+    it("fails when a step exits non-zero", async () => {
+      env.addFile("/test/steps/fail.false.md", "---\n---\nnope");
+      env.addFile("/test/steps/after.echo.md", "---\n_steps:\n  - ./fail.false.md\n---\nAfter {{ _prev }}");
+
+      const { result } = await runCapturing(["/test/steps/after.echo.md", "--_no-session"]);
+      expect(result.exitCode).toBe(1);
+      expect(result.errorMessage).toContain('Step "fail"');
+    });
+
+    it("detects circular steps", async () => {
+      env.addFile("/test/steps/loop.claude.md", "---\n_steps:\n  - ./loop.claude.md\n---\nBody");
+
+      const { result } = await runCapturing(["/test/steps/loop.claude.md", "--_dry-run"]);
+      expect(result.exitCode).not.toBe(0);
+      expect(result.errorMessage).toContain("Circular _steps");
+    });
+  });
+
+  describe("agents installed from a registry", () => {
+    const install = (source: string, body = "Status: !`echo hi`") => {
+      env.addFile("/test/agents/installed.json", JSON.stringify({
+        version: 1,
+        agents: { "acme/status": { version: "1.0.0", file: "status.echo.md", sha256: "x", registry: "r", source } },
+      }));
+      env.addFile("/test/agents/status.echo.md", body);
+    };
+    const run = (...args: string[]) => {
+      const runner = new CliRunner({ env, isStdinTTY: false, stdinContent: "", cwd: "/test", processEnv: { PATH: process.env.PATH } });
+      return runner.run(["node", "md", "/test/agents/status.echo.md", "--_offline", "--_dry-run", ...args]);
+    };
+
+    it("checks agents from remote registries like their URL", async () => {
+      install("https://registry.example.invalid/acme/status/1.0.0/status.echo.md");
+
+      const result = await run();
+      expect(result.exitCode).toBe(1);
+      expect(result.errorMessage).toContain("Untrusted remote domain: registry.example.invalid");
+      // The installed file is not a temporary download
+      expect(await env.fs.exists("/test/agents/status.echo.md")).toBe(true);
+
+      const frozen = await run("--_trust", "--_frozen");
+      expect(frozen.errorMessage).toContain("Remote agent is not pinned");
+
+      const trusted = await run("--_trust");
+      expect(trusted.errorMessage).toContain("remote agents cannot run commands");
+    });
+
+    it("runs agents from local registries as local agents", async () => {
+      install("/srv/registry/acme/status/1.0.0/status.echo.md", "Status");
+      expect((await run()).exitCode).toBe(0);
+    });
+  });
+
+  describe("sessions", () => {
+    let sessionsDir: string;
+
+    beforeEach(async () => {
+      sessionsDir = await mkdtemp(join(tmpdir(), "runner-sessions-"));
+    });
+
+    afterEach(async () => {
+      await rm(sessionsDir, { recursive: true, force: true });
+    });
+
+    it("records a transcript and resumes it with a follow-up", async () => {
+      env.addFile("/test/chat.cat.md", `---
+_prompt_via: stdin
+---
+first question`);
+
+      const runner = new CliRunner({ env, isStdinTTY: false, stdinContent: "", cwd: "/test", sessionsDir });
+      expect((await runner.run(["node", "md", "/test/chat.cat.md", "--_session"])).exitCode).toBe(0);
+
+      const [first] = await listSessions(sessionsDir);
+      expect(first?.agentPath).toBe("/test/chat.cat.md");
+      expect(first?.prompt).toBe("first question");
+      expect(first?.output).toBe("first question");
+
+      expect((await runner.run(["node", "md", "resume", "last", "second question"])).exitCode).toBe(0);
+
+      const [resumed] = await listSessions(sessionsDir);
+      expect(resumed?.parentId).toBe(first!.id);
+      expect(resumed?.prompt).toContain("--- PREVIOUS RESPONSE ---\nfirst question");
+      expect(resumed?.prompt.endsWith("second question")).toBe(true);
+    });
+
+    it("does not record unless opted in", async () => {
+      env.addFile("/test/plain.echo.md", `---
+---
+hi`);
+
+      const runner = new CliRunner({ env, isStdinTTY: false, stdinContent: "", cwd: "/test", sessionsDir });
+      await runner.run(["node", "md", "/test/plain.echo.md"]);
+
+      expect(await listSessions(sessionsDir)).toEqual([]);
+    });
+
+    it("records when the agent sets _session: true", async () => {
+      env.addFile("/test/kept.echo.md", `---
+_session: true
+---
+hi`);
+
+      const runner = new CliRunner({ env, isStdinTTY: false, stdinContent: "", cwd: "/test", sessionsDir });
+      await runner.run(["node", "md", "/test/kept.echo.md"]);
+
+      const [session] = await listSessions(sessionsDir);
+      expect(session?.output.trim()).toBe("hi");
+      expect(session?.args).not.toContain("--_session");
+    });
+
+    it("skips recording with --_no-session", async () => {
+      env.addFile("/test/quiet.echo.md", `---
+---
+hi`);
+
+      const runner = new CliRunner({ env, isStdinTTY: false, stdinContent: "", cwd: "/test", sessionsDir });
+      await runner.run(["node", "md", "/test/quiet.echo.md", "--_session", "--_no-session"]);
+
+      expect(await listSessions(sessionsDir)).toEqual([]);
+    });
+  });
+
   describe("--_command flag", () => {
     it("accepts --_command flag with dry-run", async () => {
       env.addFile("/test/generic.md", `---
@@ -8,7 +8,7 @@
 
 import { parseFrontmatter } from "../core/agent/parse";
 import { parseCliArgs, handleMaCommands } from "./cli";
-import type { AgentFrontmatter, FormInputs } from "../core/types";
+import type { AgentFrontmatter, ExecutionPlan, FormInputs, PolicyRuleConfig, SandboxConfig } from "../core/types";
 import { detectAdhocCommand, createVirtualAgentContent, createVirtualFilename } from "../features/adhoc";
 import {
   isFormInputs,
@@ -17,11 +17,11 @@ import {
   getFormInputDefaults,
   getMissingRequiredInputs,
 } from "../features/forms";
-import { substituteTemplateVars, extractTemplateVars } from "../core/agent/template";
+import { substituteTemplateVars, extractTemplateVars, restoreTemplateValues, INTERNAL_FRONTMATTER_KEYS } from "../core/agent/template";
 import { isRemoteUrl, fetchRemote, cleanupRemote } from "../features/remote";
 import {
   resolveCommand, buildArgs, runCommand, extractPositionalMappings,
-  extractEnvVars, killCurrentChildProcess, hasInteractiveMarker,
+  extractEnvVars, killCurrentChildProcess, hasInteractiveMarker, resolvePromptVia, applyAttachments,
 } from "../core/execution/command";
 import { startSpinner } from "./ui/spinner";
 import { getProcessManager } from "../core/execution/process-manager";
@@ -30,30 +30,43 @@ import {
   expandContentImports, expandCommandImports,
   hasContentImports, hasCommandImports
 } from "../features/imports/index";
+import { getImportCacheDir, pruneImportCache } from "../features/imports/cache";
+import { OFFLINE_ENV, isOfflineMode } from "../features/cache";
 import {
   analyzeContext, printDashboard, shouldShowDashboard
 } from "../features/dashboard";
+import { resolveBudget, createTokenCounter } from "../features/budget";
+import { resolveSandbox } from "../features/sandbox";
+import { PinStore, findLockfile, createImportPinVerifier, promptForPinChange } from "../features/pins";
+import { classifyCapabilities, createPolicyChecker, type Capability, type PolicyChecker } from "../features/policy";
 import { loadEnvFiles } from "../features/env";
 import {
-  loadGlobalConfig, getCommandDefaults, applyDefaults, applyInteractiveMode,
+  loadGlobalConfig, loadFullConfig, getCommandDefaults, applyDefaults, applyInteractiveMode,
+  registerConfiguredAdapters, registerConfiguredTokenizers,
 } from "../features/config";
+import { getAdapter } from "../core/adapters/index";
 import {
   initLogger, getParseLogger, getTemplateLogger, getCommandLogger,
   getImportLogger, getCurrentLogPath,
 } from "../features/logger";
 import { isDomainTrusted, promptForTrust, addTrustedDomain, extractDomain } from "../features/trust";
-import { dirname, resolve, join, delimiter, sep } from "path";
+import { INSTALLED_MANIFEST_FILE, parseInstalled, remoteInstallSource } from "../features/registry";
+import { basename, dirname, resolve, join, delimiter, sep } from "path";
 import { homedir } from "os";
 // Lazy-load heavy dependencies for cold start optimization
 import { exceedsLimit, StdinSizeLimitError } from "../core/agent/limits";
-import { countTokensAsync, estimateTokens } from "../core/agent/tokenizer";
+import { countTokensForModel, estimateTokens } from "../core/agent/tokenizer";
 import {
   MarkdownAgentError, EarlyExitRequest, UserCancelledError, FileNotFoundError,
   NetworkError, SecurityError, ConfigurationError, TemplateError, ImportError,
+  OutputValidationError, CommandError,
 } from "../core/errors";
 import type { SystemEnvironment } from "../core/system-environment";
 import { editPrompt } from "./edit-prompt";
 import { maskArgsArray } from "../features/secrets";
+import { buildRunReport, formatRunReport, elapsedMs } from "./json-report";
+import type { ResolvedImportsTracker, AttachmentsTracker, ImportContext } from "../features/imports/index";
+import { runSteps, type StepsResult } from "../features/steps";
 
 // Lazy-load @inquirer/prompts input function
 let _input: typeof import("@inquirer/prompts").input | null = null;
@@ -112,6 +125,10 @@ export interface CliRunnerOptions {
   promptInput?: (message: string) => Promise<string>;
   /** Custom prompt with history function (for testing) */
   promptInputWithHistory?: (message: string, defaultValue?: string) => Promise<string>;
+  /** Directory for session transcripts (defaults to ~/.mdflow/sessions) */
+  sessionsDir?: string;
+  /** Import cache directory (defaults to MDFLOW_IMPORT_CACHE_DIR or ~/.mdflow/cache/imports) */
+  importCacheDir?: string;
 }
 
 /** CliRunner - Main orchestrator for mdflow CLI */
@@ -124,6 +141,18 @@ export class CliRunner {
   private stdinContent: string | undefined;
   private promptInput: (message: string) => Promise<string>;
   private promptInputWithHistory: (message: string, defaultValue?: string) => Promise<string>;
+  private sessionsDir: string | undefined;
+  private importCacheDir: string;
+  /** `sandbox:` from the merged config (loaded in runInternal) */
+  private sandboxConfig: SandboxConfig | undefined;
+  /** `trusted_keys:` from the merged config (loaded in runInternal) */
+  private trustedKeysConfig: string[] | undefined;
+  /** `policy:` rules from the merged config (loaded in runInternal) */
+  private policyRules: PolicyRuleConfig[] = [];
+  /** Serve remote content only from cache (--_offline / MDFLOW_OFFLINE) */
+  private offline = false;
+  /** Agent path, final prompt and imports of the latest run (for --_watch) */
+  private lastPrepared: { localFilePath: string; prompt: string; resolvedImports: string[] } | undefined;
 
   constructor(options: CliRunnerOptions) {
     this.env = options.env;
@@ -132,6 +161,8 @@ export class CliRunner {
     this.isStdinTTY = options.isStdinTTY ?? Boolean(process.stdin.isTTY);
     this.isStdoutTTY = options.isStdoutTTY ?? Boolean(process.stdout.isTTY);
     this.stdinContent = options.stdinContent;
+    this.sessionsDir = options.sessionsDir;
+    this.importCacheDir = options.importCacheDir ?? getImportCacheDir(this.processEnv);
     // Lazy-load input prompt only when actually needed
     this.promptInput = options.promptInput ?? (async (msg) => {
       const inputFn = await getInputPrompt();
@@ -235,6 +266,21 @@ export class CliRunner {
     argv: string[],
     setLogPath: (lp: string | null) => void
   ): Promise<CliRunResult> {
+    // Register adapters and tokenizers declared in config before resolving any command
+    const config = await loadFullConfig(this.cwd);
+    await registerConfiguredAdapters(config);
+    await registerConfiguredTokenizers(config);
+    this.sandboxConfig = config.sandbox;
+    this.trustedKeysConfig = config.trusted_keys;
+    this.policyRules = config.policy ?? [];
+
+    // --_offline applies to subcommands too, and to md runs started by the agent
+    if (argv.includes("--_offline")) {
+      argv = argv.filter((arg) => arg !== "--_offline");
+      this.processEnv[OFFLINE_ENV] = "1";
+    }
+    this.offline = isOfflineMode(this.processEnv);
+
     // Check for ad-hoc command invocation (md.claude, md.gemini, etc.)
     const adhocResult = detectAdhocCommand(argv);
     if (adhocResult.isAdhoc) {
@@ -272,6 +318,36 @@ export class CliRunner {
       await runExplain(cliArgs.passthroughArgs);
       return { exitCode: 0 };
     }
+    if (subcommand === "map") {
+      const { runMap } = await import("./map");
+      const exitCode = await runMap(cliArgs.passthroughArgs, await this.readStdin());
+      return { exitCode };
+    }
+    if (subcommand === "sessions") {
+      const { listSessions, formatSessionList } = await import("../features/sessions");
+      this.writeStdout(formatSessionList(await listSessions(this.sessionsDir)));
+      return { exitCode: 0 };
+    }
+    if (subcommand === "sign") {
+      const { runSign } = await import("./keys");
+      return { exitCode: await runSign(cliArgs.passthroughArgs) };
+    }
+    if (subcommand === "keys") {
+      const { runKeys } = await import("./keys");
+      return { exitCode: await runKeys(cliArgs.passthroughArgs) };
+    }
+    if (subcommand === "cache") {
+      const { runCache } = await import("./cache");
+      return { exitCode: await runCache(cliArgs.passthroughArgs, { importCacheDir: this.importCacheDir }) };
+    }
+    if (subcommand === "install" || subcommand === "update" || subcommand === "list") {
+      const { runInstall, runUpdate, runList } = await import("./install");
+      const run = subcommand === "install" ? runInstall : subcommand === "update" ? runUpdate : runList;
+      return { exitCode: await run(cliArgs.passthroughArgs, { registries: config.registries }) };
+    }
+    if (subcommand === "resume") {
+      return this.runResume(cliArgs.passthroughArgs, setLogPath);
+    }
     if (subcommand === "help") cliArgs.help = true;
 
     let filePath = cliArgs.filePath;
@@ -287,7 +363,7 @@ export class CliRunner {
       } else if (!result.handled) {
         this.writeStderr("Usage: md <file.md> [flags for command]");
         this.writeStderr("       md <command> [options]");
-        this.writeStderr("\nCommands: create, setup, logs, help");
+        this.writeStderr("\nCommands: create, setup, logs, explain, map, sessions, resume, sign, keys, install, update, list, cache, help");
         this.writeStderr("Run 'md help' for more info");
         throw new ConfigurationError("No agent file specified", 1);
       }
@@ -361,12 +437,19 @@ export class CliRunner {
     // Parse CLI flags
     const parsed = this.parseFlags(passthroughArgs);
 
-    const { command, frontmatter, templateVars, finalBody, args, positionalMappings } =
-      await this.processAgent(virtualFilename, baseFrontmatter, rawBody, stdinContent, parsed);
+    const timings: Record<string, number> = {};
+    const { command, frontmatter, templateVars, finalBody, args, positionalMappings, resolvedImports, attachments } =
+      await this.processAgent(virtualFilename, baseFrontmatter, rawBody, stdinContent, parsed, timings);
 
     // Dry run
     if (parsed.dryRun) {
-      return this.handleDryRun(command, frontmatter, args, [finalBody], positionalMappings, logger, false, virtualFilename, logPath);
+      if (parsed.json) {
+        await this.writeJsonReport("dry-run", {
+          command, frontmatter, args, finalPrompt: finalBody, positionalMappings, templateVars, resolvedImports, attachments, timings,
+        });
+        throw new EarlyExitRequest();
+      }
+      return this.handleDryRun(command, frontmatter, args, [finalBody], positionalMappings, logger, false, virtualFilename, logPath, undefined, attachments);
     }
 
     // Edit before execute
@@ -391,26 +474,41 @@ export class CliRunner {
     getCommandLogger().info({ command, argsCount: finalRunArgs.length, promptLength: promptToRun.length, adhoc: true }, "Executing ad-hoc command");
 
     // Start spinner with command preview
-    const preview = formatCommandPreview(command, finalRunArgs);
-    startSpinner(preview);
+    if (!parsed.json) {
+      const preview = formatCommandPreview(command, finalRunArgs);
+      startSpinner(preview);
+    }
 
     // Determine if we should capture output for post-run menu
     // Disable when piping (stdout not TTY) to support: foo.md | bar.md
-    const shouldShowMenu = this.isStdinTTY && this.isStdoutTTY && !parsed.noMenu;
-    const captureMode = shouldShowMenu ? "tee" as const : false;
+    const shouldShowMenu = this.isStdinTTY && this.isStdoutTTY && !parsed.noMenu && !parsed.json;
+    const captureMode = parsed.json ? "silent" as const : shouldShowMenu ? "tee" as const : false;
 
+    const phaseStart = performance.now();
     const runResult = await runCommand({
       command,
       args: finalRunArgs,
       positionals: [promptToRun],
       positionalMappings,
       captureOutput: captureMode,
+      captureStderr: parsed.json,
       env: extractEnvVars(frontmatter),
       rawOutput: parsed.rawOutput,
+      promptVia: resolvePromptVia(frontmatter, getAdapter(command).promptVia),
+      attachments,
+      attachmentVia: getAdapter(command).attachments,
     });
+    timings.execute = elapsedMs(phaseStart);
 
     getCommandLogger().info({ exitCode: runResult.exitCode, adhoc: true }, "Ad-hoc command completed");
 
+    if (parsed.json) {
+      await this.writeJsonReport("executed", {
+        command, frontmatter, args: finalRunArgs, finalPrompt: promptToRun, positionalMappings,
+        templateVars, resolvedImports, attachments, timings, runResult,
+      });
+    }
+
     if (runResult.exitCode !== 0) {
       this.printErrorWithLogPath(`Agent exited with code ${runResult.exitCode}`, logPath);
     }
@@ -432,13 +530,96 @@ export class CliRunner {
     return { exitCode: runResult.exitCode, logPath };
   }
 
-  private async runAgent(
+  /**
+   * Handle `md resume <id> "follow-up" [flags]`
+   *
+   * Re-runs the session's agent with its original flags, replacing the body
+   * with the previous exchange followed by the follow-up prompt.
+   */
+  private async runResume(
+    args: string[],
+    setLogPath: (lp: string | null) => void
+  ): Promise<CliRunResult> {
+    const [id, followUp, ...flags] = args;
+    if (!id || !followUp) {
+      this.writeStderr('Usage: md resume <session-id|last> "follow-up prompt" [flags]');
+      this.writeStderr("\nRun 'md sessions' to list recorded sessions.");
+      throw new ConfigurationError("md resume requires a session ID and a follow-up prompt", 1);
+    }
+
+    const { loadSession, buildResumePrompt } = await import("../features/sessions");
+    const session = await loadSession(id, this.sessionsDir);
+    return this.runAgent(session.agentPath, [...session.invocationArgs, ...flags], setLogPath, {
+      parentId: session.id,
+      prompt: buildResumePrompt(session, followUp),
+    });
+  }
+
+  /**
+   * Handle `--_watch`: run the agent, then re-run on every change to the
+   * agent file or its imports until interrupted.
+   */
+  private async runWatchMode(
     filePath: string,
     passthroughArgs: string[],
     setLogPath: (lp: string | null) => void
   ): Promise<CliRunResult> {
+    if (isRemoteUrl(filePath)) {
+      throw new ConfigurationError("--_watch is only supported for local agent files", 1);
+    }
+
+    const { runWatch, resolveWatchPaths } = await import("./watch");
+    const agentPath = resolve(await this.resolveFilePath(filePath));
+    getProcessManager().initialize();
+
+    const exitCode = await runWatch({
+      initialPaths: [agentPath],
+      clearScreen: this.isStdoutTTY,
+      log: (message) => this.writeStderr(message),
+      runOnce: async () => {
+        this.lastPrepared = undefined;
+        let exitCode: number;
+        try {
+          // Menus would block the loop
+          exitCode = (await this.runAgent(filePath, ["--_no-menu", ...passthroughArgs], setLogPath)).exitCode;
+        } catch (err) {
+          if (err instanceof EarlyExitRequest) {
+            exitCode = err.code;
+          } else {
+            this.writeStderr(`Error: ${(err as Error).message}`);
+            exitCode = err instanceof MarkdownAgentError ? err.code : 1;
+          }
+        }
+        const prepared = this.lastPrepared as CliRunner["lastPrepared"];
+        return {
+          exitCode,
+          prompt: prepared?.prompt,
+          watchPaths: prepared ? resolveWatchPaths(prepared.localFilePath, prepared.resolvedImports) : [],
+        };
+      },
+    });
+
+    return { exitCode };
+  }
+
+  private async runAgent(
+    filePath: string,
+    passthroughArgs: string[],
+    setLogPath: (lp: string | null) => void,
+    resume?: { parentId: string; prompt: string }
+  ): Promise<CliRunResult> {
+    // --_watch: re-run whenever the agent or its imports change
+    const watchIdx = passthroughArgs.indexOf("--_watch");
+    if (watchIdx !== -1) {
+      const otherArgs = [...passthroughArgs.slice(0, watchIdx), ...passthroughArgs.slice(watchIdx + 1)];
+      return this.runWatchMode(filePath, otherArgs, setLogPath);
+    }
+
+    const invocationArgs = [...passthroughArgs];
     let localFilePath = filePath;
     let isRemote = false;
+    const timings: Record<string, number> = {};
+    let phaseStart = performance.now();
 
     // Check for --_no-cache flag early (needed before fetchRemote call)
     let noCacheFlag = false;
@@ -449,7 +630,7 @@ export class CliRunner {
     }
 
     if (isRemoteUrl(filePath)) {
-      const remoteResult = await fetchRemote(filePath, { noCache: noCacheFlag });
+      const remoteResult = await fetchRemote(filePath, { noCache: noCacheFlag, offline: this.offline });
       if (!remoteResult.success) {
         throw new NetworkError(`Failed to fetch remote file: ${remoteResult.error}`);
       }
@@ -459,6 +640,8 @@ export class CliRunner {
       // Resolve local file path by checking multiple directories
       localFilePath = await this.resolveFilePath(filePath);
     }
+    // Agents installed from a remote registry get the trust checks of their URL
+    const remoteSource = isRemote ? filePath : await this.registrySource(localFilePath);
 
     // Initialize ProcessManager for centralized lifecycle management
     const pm = getProcessManager();
@@ -475,12 +658,14 @@ export class CliRunner {
 
     const fileDir = dirname(resolve(localFilePath));
     await loadEnvFiles(fileDir);
+    timings.resolve = elapsedMs(phaseStart);
 
     const logger = initLogger(localFilePath);
     const logPath = getCurrentLogPath();
     setLogPath(logPath);
     logger.info({ filePath: localFilePath }, "Session started");
 
+    phaseStart = performance.now();
     const stdinContent = await this.readStdin();
     const content = await this.env.fs.readText(localFilePath);
     const { frontmatter: baseFrontmatter, body: rawBody } = parseFrontmatter(content);
@@ -488,6 +673,10 @@ export class CliRunner {
 
     // Parse CLI flags
     const parsed = this.parseFlags(passthroughArgs);
+    parsed.noCache ||= noCacheFlag;
+    // Pins of approved remote content (the project's mdflow.lock, else ~/.mdflow/pins.json)
+    const pins = new PinStore({ lockfile: findLockfile(this.cwd) });
+    timings.parse = elapsedMs(phaseStart);
 
     // Context-only mode: show dashboard and exit without executing
     if (parsed.contextOnly) {
@@ -501,18 +690,67 @@ export class CliRunner {
       throw new EarlyExitRequest();
     }
 
-    const { command, frontmatter, templateVars, finalBody, args, positionalMappings } =
-      await this.processAgent(localFilePath, baseFrontmatter, rawBody, stdinContent, parsed);
+    // Trust policy: capabilities the policy denies stop here; a remote agent's
+    // other capabilities are listed in the trust prompt, before anything runs
+    const policy = createPolicyChecker({
+      rules: this.policyRules, scope: remoteSource ?? resolve(localFilePath), remote: remoteSource !== undefined, interactive: this.isStdinTTY,
+    });
+    const capabilities = classifyCapabilities(baseFrontmatter as AgentFrontmatter, rawBody);
+    policy.assertAllowed(capabilities);
+
+    // TOFU and pin check (--_frozen applies even with --_trust)
+    if (remoteSource) {
+      if (!parsed.trustFlag || parsed.frozen) {
+        const promptCommand = parsed.commandFromCli ?? (() => {
+          try { return resolveCommand(localFilePath); } catch { return "(none)"; }
+        })();
+        try {
+          await this.handleTOFU(remoteSource, promptCommand, baseFrontmatter, rawBody, content, pins, parsed, capabilities);
+        } catch (err) {
+          if (isRemote) await cleanupRemote(localFilePath);
+          throw err;
+        }
+      }
+      policy.approve(capabilities);
+    }
 
-    // Show context dashboard before execution (unless --_quiet)
-    if (!parsed.quiet && shouldShowDashboard(rawBody)) {
-      const analysis = await analyzeContext(localFilePath, rawBody, fileDir);
-      printDashboard(analysis);
+    const {
+      command, frontmatter, templateVars, templatedBody, finalBody: agentBody, args, positionalMappings,
+      resolvedImports, attachments, budgetReport, cacheHits, stepPlans, stepOutput,
+    } = await this.processAgent(localFilePath, baseFrontmatter, rawBody, stdinContent, parsed, timings, { remote: remoteSource !== undefined, pins, policy });
+
+    // md resume: the previous exchange plus follow-up replaces the agent body
+    const finalBody = resume ? resume.prompt : agentBody;
+    this.lastPrepared = { localFilePath, prompt: finalBody, resolvedImports };
+
+    // Show context dashboard before execution (unless --_quiet or --_json)
+    // Uses the templated body so import paths built from variables are shown resolved
+    if (!parsed.quiet && !parsed.json && shouldShowDashboard(templatedBody)) {
+      const analysis = await analyzeContext(localFilePath, templatedBody, fileDir, cacheHits);
+      const tokenCount = await countTokensForModel(finalBody, { model: frontmatter.model as string | undefined, command });
+      printDashboard({ ...analysis, estimatedTokens: tokenCount.tokens, tokenizer: tokenCount.tokenizer, budget: budgetReport });
     }
 
     // Dry run
     if (parsed.dryRun) {
-      return this.handleDryRun(command, frontmatter, args, [finalBody], positionalMappings, logger, isRemote, localFilePath, logPath);
+      if (parsed.json) {
+        await this.writeJsonReport("dry-run", {
+          command, frontmatter, args, finalPrompt: finalBody, positionalMappings, templateVars, resolvedImports, attachments, timings,
+          steps: stepPlans,
+        });
+        if (isRemote) await cleanupRemote(localFilePath);
+        logger.info({ dryRun: true, json: true }, "Dry run completed");
+        throw new EarlyExitRequest();
+      }
+      return this.handleDryRun(command, frontmatter, args, [finalBody], positionalMappings, logger, isRemote, localFilePath, logPath, stepPlans, attachments);
+    }
+
+    // A steps-only agent (empty body) yields the last step's output
+    if (stepOutput !== undefined && !finalBody.trim()) {
+      if (isRemote) await cleanupRemote(localFilePath);
+      this.writeStdout(stepOutput);
+      logger.info({ steps: stepPlans?.length ?? 0 }, "Steps completed");
+      return { exitCode: 0, logPath };
     }
 
     // Edit before execute
@@ -528,11 +766,6 @@ export class CliRunner {
       getCommandLogger().debug({ originalLength: finalBody.length, editedLength: promptToRun.length }, "Prompt edited");
     }
 
-    // TOFU check
-    if (isRemote && !parsed.trustFlag) {
-      await this.handleTOFU(filePath, localFilePath, command, baseFrontmatter, rawBody);
-    }
-
     // Execute
     let finalRunArgs = args;
     if (frontmatter._subcommand) {
@@ -540,12 +773,37 @@ export class CliRunner {
       finalRunArgs = [...subs, ...args];
     }
 
+    // Prompt delivery (_prompt_via / adapter): argv, stdin, or temp file
+    const promptVia = resolvePromptVia(frontmatter, getAdapter(command).promptVia);
+
+    // Output schema validation (_output_schema): capture stdout, validate, repair
+    const outputSchemaMod = frontmatter._output_schema !== undefined
+      ? await import("../features/output-schema")
+      : null;
+    const outputSchema = outputSchemaMod
+      ? await outputSchemaMod.loadOutputSchema(frontmatter._output_schema, fileDir, (p) => this.env.fs.readText(p))
+      : null;
+    const outputRetries = outputSchemaMod ? outputSchemaMod.parseOutputRetries(frontmatter._output_retries) : 0;
+    let schemaAttempts = 0;
+    let validatedOutput: unknown;
+
     // Determine if we should capture output for post-run menu
     // Only capture when: TTY (stdin+stdout), not piped, menu not disabled
     // Checking stdout.isTTY enables piping: foo.md | bar.md
-    const shouldShowMenu = this.isStdinTTY && this.isStdoutTTY && !parsed.noMenu;
+    const shouldShowMenu = this.isStdinTTY && this.isStdoutTTY && !parsed.noMenu && !parsed.json && !outputSchema;
+    // Record a session transcript when opted in (--_session, _session: true, or md resume),
+    // unless disabled or the tool runs interactively (needs the real TTY)
+    const interactiveValue = baseFrontmatter._interactive ?? baseFrontmatter._i;
+    const interactiveRun = parsed.interactiveFromCli || hasInteractiveMarker(localFilePath) ||
+      ("_interactive" in baseFrontmatter || "_i" in baseFrontmatter) && interactiveValue !== false;
+    const sessionRequested = parsed.session || frontmatter._session === true || resume !== undefined;
+    const recordSession = sessionRequested && !parsed.noSession && !interactiveRun;
     // Always capture stderr when in interactive mode for failure menu
-    const captureMode = shouldShowMenu ? "tee" as const : false;
+    // JSON mode and schema validation buffer output silently (nothing unvalidated reaches stdout)
+    // Session recording tees stdout so the reply can be stored
+    const captureMode = parsed.json || outputSchema
+      ? "silent" as const
+      : shouldShowMenu || recordSession ? "tee" as const : false;
 
     // Auto-heal retry loop
     let currentPrompt = promptToRun;
@@ -556,22 +814,59 @@ export class CliRunner {
       getCommandLogger().info({ command, argsCount: finalRunArgs.length, promptLength: currentPrompt.length, retryCount }, "Executing command");
 
       // Start spinner with command preview (will be stopped when first output arrives)
-      const preview = formatCommandPreview(command, finalRunArgs);
-      startSpinner(preview);
+      if (captureMode !== "silent") {
+        const preview = formatCommandPreview(command, finalRunArgs);
+        startSpinner(preview);
+      }
 
+      phaseStart = performance.now();
       runResult = await runCommand({
         command,
         args: finalRunArgs,
         positionals: [currentPrompt],
         positionalMappings,
         captureOutput: captureMode,
-        captureStderr: shouldShowMenu, // Capture stderr for failure menu
+        captureStderr: shouldShowMenu || parsed.json, // Capture stderr for failure menu / JSON report
         env: extractEnvVars(frontmatter),
         rawOutput: parsed.rawOutput,
+        promptVia,
+        attachments,
+        attachmentVia: getAdapter(command).attachments,
       });
+      timings.execute = elapsedMs(phaseStart);
 
       getCommandLogger().info({ exitCode: runResult.exitCode, retryCount }, "Command completed");
 
+      // Validate output against _output_schema, re-invoking with a repair prompt on failure
+      if (outputSchemaMod && outputSchema && runResult.exitCode === 0) {
+        const validation = outputSchemaMod.validateOutput(runResult.stdout, outputSchema);
+        if (validation.valid) {
+          validatedOutput = validation.value;
+          break;
+        }
+
+        getCommandLogger().warn({ errors: validation.errors, schemaAttempts }, "Output failed schema validation");
+        if (schemaAttempts >= outputRetries) {
+          if (isRemote) await cleanupRemote(localFilePath);
+          if (parsed.json) {
+            await this.writeJsonReport("error", {
+              command, frontmatter, args: finalRunArgs, finalPrompt: currentPrompt, positionalMappings,
+              templateVars, resolvedImports, attachments, timings, runResult,
+            });
+          }
+          throw new OutputValidationError(
+            `Output did not match _output_schema after ${schemaAttempts + 1} attempt(s):\n` +
+            validation.errors.map((e) => `  - ${e}`).join("\n")
+          );
+        }
+
+        schemaAttempts++;
+        this.writeStderr(`Output failed schema validation (${validation.errors.length} error(s)); retrying ${schemaAttempts}/${outputRetries}...`);
+        currentPrompt = outputSchemaMod.buildSchemaRepairPrompt(promptToRun, runResult.stdout, validation.errors, outputSchema);
+        retryCount++;
+        continue;
+      }
+
       // If command succeeded or we're not in interactive mode, break out of loop
       if (runResult.exitCode === 0 || !shouldShowMenu) {
         break;
@@ -630,6 +925,39 @@ export class CliRunner {
 
     if (isRemote) await cleanupRemote(localFilePath);
 
+    if (recordSession) {
+      try {
+        const { saveSession } = await import("../features/sessions");
+        const session = saveSession({
+          agentPath: isRemote ? filePath : resolve(localFilePath),
+          command,
+          args: finalRunArgs,
+          invocationArgs,
+          prompt: currentPrompt,
+          output: runResult.stdout,
+          exitCode: runResult.exitCode,
+          ...(resume ? { parentId: resume.parentId } : {}),
+        }, this.sessionsDir);
+        logger.info({ sessionId: session.id }, "Session transcript saved");
+      } catch (err) {
+        // Transcripts are best-effort - never fail the run
+        logger.warn({ error: (err as Error).message }, "Failed to save session transcript");
+      }
+    }
+
+    if (parsed.json) {
+      await this.writeJsonReport("executed", {
+        command, frontmatter, args: finalRunArgs, finalPrompt: currentPrompt, positionalMappings,
+        templateVars, resolvedImports, attachments, timings, runResult,
+      });
+    } else if (validatedOutput !== undefined) {
+      // Write the validated document raw (no markdown rendering) so it can be piped to jq
+      this.writeStdout(JSON.stringify(validatedOutput, null, 2));
+    } else if (outputSchema && runResult.stdout) {
+      // Command failed before validation - surface what it printed
+      process.stdout.write(runResult.stdout);
+    }
+
     if (runResult.exitCode !== 0) {
       this.printErrorWithLogPath(`Agent exited with code ${runResult.exitCode}`, logPath);
     }
@@ -654,8 +982,8 @@ export class CliRunner {
   private parseFlags(passthroughArgs: string[]) {
     let remainingArgs = [...passthroughArgs];
     let commandFromCli: string | undefined;
-    let dryRun = false, trustFlag = false, interactiveFromCli = false, noCache = false, rawOutput = false, editFlag = false;
-    let contextOnly = false, quiet = false, noMenu = false, noHistory = false;
+    let dryRun = false, trustFlag = false, frozen = false, interactiveFromCli = false, noCache = false, rawOutput = false, editFlag = false;
+    let contextOnly = false, quiet = false, noMenu = false, noHistory = false, json = false, session = false, noSession = false;
     let cwdFromCli: string | undefined;
 
     const cmdIdx = remainingArgs.findIndex((a) => a === "--_command" || a === "-_c");
@@ -669,6 +997,9 @@ export class CliRunner {
     if (editIdx !== -1) { editFlag = true; remainingArgs.splice(editIdx, 1); }
     const trustIdx = remainingArgs.indexOf("--_trust");
     if (trustIdx !== -1) { trustFlag = true; remainingArgs.splice(trustIdx, 1); }
+    // --_frozen flag: fail on unpinned or changed remote content (CI)
+    const frozenIdx = remainingArgs.indexOf("--_frozen");
+    if (frozenIdx !== -1) { frozen = true; remainingArgs.splice(frozenIdx, 1); }
     const noCacheIdx = remainingArgs.indexOf("--_no-cache");
     if (noCacheIdx !== -1) { noCache = true; remainingArgs.splice(noCacheIdx, 1); }
     const noMenuIdx = remainingArgs.indexOf("--_no-menu");
@@ -676,6 +1007,11 @@ export class CliRunner {
     // --_no-history flag: skip loading/saving variable history
     const noHistoryIdx = remainingArgs.indexOf("--_no-history");
     if (noHistoryIdx !== -1) { noHistory = true; remainingArgs.splice(noHistoryIdx, 1); }
+    // --_session / --_no-session flags: record (or don't record) a session transcript
+    const sessionIdx = remainingArgs.indexOf("--_session");
+    if (sessionIdx !== -1) { session = true; remainingArgs.splice(sessionIdx, 1); }
+    const noSessionIdx = remainingArgs.indexOf("--_no-session");
+    if (noSessionIdx !== -1) { noSession = true; remainingArgs.splice(noSessionIdx, 1); }
     const intIdx = remainingArgs.findIndex((a) => a === "--_interactive" || a === "-_i");
     if (intIdx !== -1) { interactiveFromCli = true; remainingArgs.splice(intIdx, 1); }
     const cwdIdx = remainingArgs.findIndex((a) => a === "--_cwd");
@@ -691,8 +1027,11 @@ export class CliRunner {
     if (contextIdx !== -1) { contextOnly = true; remainingArgs.splice(contextIdx, 1); }
     const quietIdx = remainingArgs.indexOf("--_quiet");
     if (quietIdx !== -1) { quiet = true; remainingArgs.splice(quietIdx, 1); }
+    // --_json flag: emit a single JSON run report to stdout
+    const jsonIdx = remainingArgs.indexOf("--_json");
+    if (jsonIdx !== -1) { json = true; remainingArgs.splice(jsonIdx, 1); }
 
-    return { remainingArgs, commandFromCli, dryRun, editFlag, trustFlag, interactiveFromCli, cwdFromCli, noCache, rawOutput, contextOnly, quiet, noMenu, noHistory };
+    return { remainingArgs, commandFromCli, dryRun, editFlag, trustFlag, frozen, interactiveFromCli, cwdFromCli, noCache, rawOutput, contextOnly, quiet, noMenu, noHistory, json, session, noSession };
   }
 
   private async processAgent(
@@ -700,9 +1039,29 @@ export class CliRunner {
     baseFrontmatter: Record<string, unknown>,
     rawBody: string,
     stdinContent: string,
-    parsed: ReturnType<typeof this.parseFlags>
+    parsed: ReturnType<typeof this.parseFlags>,
+    timings: Record<string, number> = {},
+    inherited: {
+      vars?: Record<string, string>; stepChain?: string[]; remote?: boolean; pins?: PinStore; policy?: PolicyChecker;
+    } = {}
   ) {
-    const { remainingArgs, commandFromCli, interactiveFromCli, cwdFromCli, noHistory } = parsed;
+    const { remainingArgs, commandFromCli, interactiveFromCli, cwdFromCli, noHistory, noCache } = parsed;
+    const resolvedImports: ResolvedImportsTracker = [];
+    // Binary imports (images, ...) passed to the command as attachments
+    const attachments: AttachmentsTracker = [];
+    // Imports served from the persistent import cache (skipped with --_no-cache)
+    const cacheHits = new Set<string>();
+    const cache: ImportContext["cache"] = noCache ? undefined : { hits: cacheHits, dir: this.importCacheDir };
+    // URL imports are pinned only in a project lockfile (and must be pinned with --_frozen)
+    const pinStore = inherited.pins ?? new PinStore({ lockfile: findLockfile(this.cwd) });
+    const pins = pinStore.isLockfile || parsed.frozen
+      ? createImportPinVerifier({ store: pinStore, frozen: parsed.frozen, interactive: this.isStdinTTY })
+      : undefined;
+    // Trust policy checks for the agent's own capabilities and those met while resolving imports
+    const policy = inherited.policy ?? createPolicyChecker({
+      rules: this.policyRules, scope: resolve(localFilePath), remote: false, interactive: this.isStdinTTY,
+    });
+    await policy.check(classifyCapabilities(baseFrontmatter as AgentFrontmatter, rawBody));
     let remaining = [...remainingArgs];
 
     // Resolve command
@@ -734,8 +1093,7 @@ export class CliRunner {
 
     // Extract _varname fields from frontmatter and match with --_varname CLI flags
     // Variables starting with _ are template variables (except internal keys)
-    const internalKeys = new Set(["_interactive", "_i", "_cwd", "_subcommand"]);
-    const namedVarFields = Object.keys(frontmatter).filter((k) => k.startsWith("_") && !internalKeys.has(k));
+    const namedVarFields = Object.keys(frontmatter).filter((k) => k.startsWith("_") && !INTERNAL_FRONTMATTER_KEYS.has(k));
     for (const key of namedVarFields) {
       const defaultValue = frontmatter[key];
       // CLI flag matches the full key including underscore: --_name
@@ -760,11 +1118,11 @@ export class CliRunner {
       if (arg.startsWith("--_") && arg.includes("=")) {
         const eqIndex = arg.indexOf("=");
         const key = arg.slice(2, eqIndex); // Remove -- and get key before =
-        if (!internalKeys.has(key)) {
+        if (!INTERNAL_FRONTMATTER_KEYS.has(key)) {
           templateVars[key] = arg.slice(eqIndex + 1);
           remaining.splice(i, 1);
         }
-      } else if (arg.startsWith("--_") && !internalKeys.has(arg.slice(2))) {
+      } else if (arg.startsWith("--_") && !INTERNAL_FRONTMATTER_KEYS.has(arg.slice(2))) {
         const key = arg.slice(2); // Remove --
         const nextArg = remaining[i + 1];
         if (i + 1 < remaining.length && nextArg && !nextArg.startsWith("-")) {
@@ -778,6 +1136,16 @@ export class CliRunner {
       }
     }
 
+    // Variables passed down by a parent agent's _steps (step vars, previous outputs)
+    if (inherited.vars) Object.assign(templateVars, inherited.vars);
+
+    // _steps: run child agents first; their outputs become {{ _prev }} / {{ _step_<name> }}
+    let steps: Awaited<ReturnType<typeof this.runSteps>> | undefined;
+    if (frontmatter._steps !== undefined) {
+      steps = await this.runSteps(localFilePath, frontmatter._steps, stdinContent, parsed, inherited.stepChain ?? []);
+      Object.assign(templateVars, steps.templateVars);
+    }
+
     // Inject positional CLI args as template variables (_1, _2, etc.)
     // First, separate flags from positional args in remaining
     const positionalCliArgs: string[] = [];
@@ -812,28 +1180,13 @@ export class CliRunner {
     remaining = flagArgs;
 
     // 3-Phase Import Pipeline:
-    // Phase 1: Expand content imports (file, glob, url, symbol) - leave commands untouched
-    // Phase 2: LiquidJS template processing ({% capture %}, {{ var }}, etc.)
+    // Phase 1: LiquidJS template processing, so {{ vars }} in import paths and {% if %} gating resolve first
+    // Phase 2: Expand content imports (file, glob, url, symbol, git) - leave commands untouched
     // Phase 3: Expand command imports with resolved template vars
 
     const fileDir = dirname(resolve(localFilePath));
     const commandCwd = cwdFromCli ?? (frontmatter._cwd as string | undefined) ?? this.cwd;
 
-    // Phase 1: Expand content imports only
-    let phase1Body = rawBody;
-    if (hasContentImports(rawBody)) {
-      try {
-        getImportLogger().debug({ fileDir, commandCwd }, "Phase 1: Expanding content imports");
-        phase1Body = await expandContentImports(rawBody, fileDir, new Set(), false, {
-          invocationCwd: commandCwd,
-        });
-        getImportLogger().debug({ originalLength: rawBody.length, expandedLength: phase1Body.length }, "Phase 1 complete");
-      } catch (err) {
-        getImportLogger().error({ error: (err as Error).message }, "Phase 1 import expansion failed");
-        throw new ImportError(`Import error: ${(err as Error).message}`);
-      }
-    }
-
     // Handle form inputs if using the new object format
     if (isFormInputs(frontmatter._inputs)) {
       const formInputs = frontmatter._inputs as FormInputs;
@@ -859,9 +1212,10 @@ export class CliRunner {
       }
     }
 
-    // Check for missing template vars (based on Phase 1 result)
+    // Check for missing template vars (based on the agent body; imported content
+    // is templated during Phase 2, which fails on missing vars itself)
     // This handles both legacy _inputs and template vars not defined in form inputs
-    const requiredVars = extractTemplateVars(phase1Body);
+    const requiredVars = extractTemplateVars(rawBody);
     const missingVars = requiredVars.filter((v) => !(v in templateVars));
 
     // Load variable history for this agent (unless --_no-history)
@@ -895,19 +1249,59 @@ export class CliRunner {
     (templateVars as Record<string, unknown>)["__noHistory__"] = noHistory;
     (templateVars as Record<string, unknown>)["__resolvedFilePath__"] = resolvedFilePath;
 
-    // Phase 2: LiquidJS template substitution
-    getTemplateLogger().debug({ vars: Object.keys(templateVars) }, "Phase 2: Substituting template variables");
-    const phase2Body = substituteTemplateVars(phase1Body, templateVars);
-    getTemplateLogger().debug({ bodyLength: phase2Body.length }, "Phase 2 complete");
+    // Phase 1: LiquidJS template substitution on the agent body
+    // (import syntax inside values is protected, so only imports written in the agent resolve)
+    let phaseStart = performance.now();
+    getTemplateLogger().debug({ vars: Object.keys(templateVars) }, "Phase 1: Substituting template variables");
+    const phase1Body = substituteTemplateVars(rawBody, templateVars, { protectImports: true });
+    getTemplateLogger().debug({ bodyLength: phase1Body.length }, "Phase 1 complete");
+    timings.template = elapsedMs(phaseStart);
+
+    // Phase 2: Expand content imports only (trimmed to fit _budget, if declared)
+    phaseStart = performance.now();
+    let phase2Body = phase1Body;
+    const budgetPolicy = resolveBudget(frontmatter);
+    const budget: ImportContext["budget"] = budgetPolicy
+      ? { policy: budgetPolicy, count: createTokenCounter({ model: frontmatter.model as string | undefined, command }) }
+      : undefined;
+    if (hasContentImports(phase1Body)) {
+      try {
+        getImportLogger().debug({ fileDir, commandCwd }, "Phase 2: Expanding content imports");
+        phase2Body = await expandContentImports(phase1Body, fileDir, new Set(), false, {
+          invocationCwd: commandCwd,
+          resolvedImports,
+          attachments,
+          budget,
+          templateVars,
+          templateImports: frontmatter._template_imports !== false,
+          cache,
+          pins,
+          policy,
+          offline: this.offline,
+        });
+        getImportLogger().debug({ originalLength: phase1Body.length, expandedLength: phase2Body.length }, "Phase 2 complete");
+      } catch (err) {
+        getImportLogger().error({ error: (err as Error).message }, "Phase 2 import expansion failed");
+        throw new ImportError(`Import error: ${(err as Error).message}`);
+      }
+    }
+
+    timings.contentImports = elapsedMs(phaseStart);
 
     // Phase 3: Expand command imports with resolved template vars
+    // (sandboxed per _sandbox / config; remote agents only run commands when allowed)
+    phaseStart = performance.now();
     let phase3Body = phase2Body;
+    const sandbox = resolveSandbox(frontmatter, this.sandboxConfig, inherited.remote);
     if (hasCommandImports(phase2Body)) {
       try {
         getImportLogger().debug({ commandCwd, templateVarCount: Object.keys(templateVars).length }, "Phase 3: Expanding command imports");
         phase3Body = await expandCommandImports(phase2Body, fileDir, false, {
           invocationCwd: commandCwd,
           templateVars,
+          cache,
+          sandbox,
+          policy,
         });
         getImportLogger().debug({ expandedLength: phase3Body.length }, "Phase 3 complete");
       } catch (err) {
@@ -916,30 +1310,167 @@ export class CliRunner {
       }
     }
 
-    // Cat file if no frontmatter
-    if (Object.keys(baseFrontmatter).length === 0 && !commandDefaults) {
+    timings.commandImports = elapsedMs(phaseStart);
+
+    // Best-effort cleanup of old entries (at most once a day; offline runs keep expired ones)
+    if (cache && !this.offline) await pruneImportCache(cache.dir).catch(() => {});
+
+    // Cat file if no frontmatter (steps must resolve a command instead)
+    if (Object.keys(baseFrontmatter).length === 0 && !commandDefaults && !inherited.stepChain) {
       try { resolveCommand(localFilePath); }
       catch { this.writeStdout(await this.env.fs.readText(localFilePath)); throw new EarlyExitRequest(); }
     }
 
-    let finalBody = phase3Body;
+    let finalBody = restoreTemplateValues(phase3Body);
 
     const templateVarSet = new Set(Object.keys(templateVars));
     const args = [...buildArgs(frontmatter, templateVarSet), ...remaining];
     const positionalMappings = extractPositionalMappings(frontmatter);
 
-    return { command, frontmatter, templateVars, finalBody, args, positionalMappings };
+    return { command, frontmatter, templateVars, templatedBody: restoreTemplateValues(phase1Body), finalBody, args, positionalMappings, resolvedImports, attachments, budgetReport: budget?.report, cacheHits,
+      stepPlans: steps?.plans, stepOutput: steps?.templateVars._prev,
+    };
+  }
+
+  /**
+   * Run an agent's `_steps` in order (see ../features/steps)
+   *
+   * Each step is prepared like a top-level agent and executed with stdout captured.
+   * In dry-run mode steps are planned instead and outputs are placeholders.
+   *
+   * @throws ConfigurationError for remote or circular steps, CommandError if a step fails
+   */
+  private runSteps(
+    parentPath: string, value: unknown, stdinContent: string,
+    flags: { dryRun: boolean; frozen: boolean }, chain: string[]
+  ): Promise<StepsResult> {
+    return runSteps(value, parentPath, {
+      chain,
+      dryRun: flags.dryRun,
+      exists: (path) => this.env.fs.exists(path),
+      runStep: async (step, stepPath, inherited) => {
+        getCommandLogger().debug({ step: step.name, agent: stepPath }, "Running step");
+        const { frontmatter: stepFrontmatter, body } = parseFrontmatter(await this.env.fs.readText(stepPath));
+        const stepParsed = this.parseFlags(step.command ? ["--_command", step.command] : []);
+        stepParsed.dryRun = flags.dryRun;
+        stepParsed.frozen = flags.frozen;
+        const prepared = await this.processAgent(stepPath, stepFrontmatter, body, stdinContent, stepParsed, {}, inherited);
+        let runArgs = prepared.args;
+        if (prepared.frontmatter._subcommand) {
+          const subs = prepared.frontmatter._subcommand;
+          runArgs = [...(Array.isArray(subs) ? subs.map(String) : [String(subs)]), ...runArgs];
+        }
+
+        if (flags.dryRun) {
+          const tokenCount = await countTokensForModel(prepared.finalBody, {
+            model: prepared.frontmatter.model as string | undefined,
+            command: prepared.command,
+          });
+          const { plan } = buildRunReport({
+            type: "dry-run",
+            command: prepared.command,
+            args: runArgs,
+            finalPrompt: prepared.finalBody,
+            estimatedTokens: tokenCount.tokens,
+            tokenizer: tokenCount.tokenizer,
+            frontmatter: prepared.frontmatter,
+            env: extractEnvVars(prepared.frontmatter),
+            resolvedImports: prepared.resolvedImports,
+            attachments: prepared.attachments,
+            templateVars: prepared.templateVars,
+            positionalMappings: prepared.positionalMappings,
+            timings: {},
+          });
+          return { exitCode: 0, plan: prepared.stepPlans ? { ...plan, steps: prepared.stepPlans } : plan };
+        }
+        // A steps-only child yields its last step's output
+        if (!prepared.finalBody.trim() && prepared.stepOutput !== undefined) {
+          return { exitCode: 0, output: prepared.stepOutput };
+        }
+        const result = await runCommand({
+          command: prepared.command,
+          args: runArgs,
+          positionals: [prepared.finalBody],
+          positionalMappings: prepared.positionalMappings,
+          captureOutput: "silent",
+          env: extractEnvVars(prepared.frontmatter),
+          rawOutput: true,
+          promptVia: resolvePromptVia(prepared.frontmatter, getAdapter(prepared.command).promptVia),
+          attachments: prepared.attachments,
+          attachmentVia: getAdapter(prepared.command).attachments,
+        });
+        if (result.exitCode !== 0) {
+          getCommandLogger().error({ step: step.name, exitCode: result.exitCode }, "Step failed");
+        }
+        return { exitCode: result.exitCode, output: result.stdout };
+      },
+    });
+  }
+
+  /**
+   * Write a single JSON run report to stdout (--_json mode)
+   */
+  private async writeJsonReport(
+    type: "dry-run" | "executed" | "error",
+    data: {
+      command: string; frontmatter: AgentFrontmatter; args: string[]; finalPrompt: string;
+      positionalMappings: Map<number, string>; templateVars: Record<string, string>;
+      resolvedImports: string[]; attachments?: string[]; timings: Record<string, number>;
+      runResult?: Awaited<ReturnType<typeof runCommand>>;
+      steps?: ExecutionPlan[];
+    }
+  ): Promise<void> {
+    let args = [...data.args];
+    // Dry-run args don't include subcommands yet (executed args already do)
+    if (type === "dry-run" && data.frontmatter._subcommand) {
+      const subCmd = data.frontmatter._subcommand;
+      args = [...(Array.isArray(subCmd) ? subCmd.map(String) : [String(subCmd)]), ...args];
+    }
+
+    const tokenCount = await countTokensForModel(data.finalPrompt, {
+      model: data.frontmatter.model as string | undefined,
+      command: data.command,
+    });
+    const report = buildRunReport({
+      type,
+      command: data.command,
+      args,
+      finalPrompt: data.finalPrompt,
+      estimatedTokens: tokenCount.tokens,
+      tokenizer: tokenCount.tokenizer,
+      frontmatter: data.frontmatter,
+      env: extractEnvVars(data.frontmatter),
+      resolvedImports: data.resolvedImports,
+      attachments: data.attachments,
+      templateVars: data.templateVars,
+      positionalMappings: data.positionalMappings,
+      timings: data.timings,
+      stdout: data.runResult?.stdout,
+      stderr: data.runResult?.stderr,
+      exitCode: data.runResult?.exitCode,
+    });
+    if (data.steps) report.plan.steps = data.steps;
+    this.writeStdout(formatRunReport(report));
   }
 
   private async handleDryRun(
     command: string, frontmatter: Record<string, unknown>, args: string[],
     positionals: string[], positionalMappings: Map<number, string>,
-    logger: ReturnType<typeof initLogger>, isRemote: boolean, localFilePath: string, logPath: string | null
+    logger: ReturnType<typeof initLogger>, isRemote: boolean, localFilePath: string, logPath: string | null,
+    steps?: ExecutionPlan[], attachments: string[] = []
   ): Promise<CliRunResult> {
     this.writeStdout("═══════════════════════════════════════════════════════════");
     this.writeStdout("DRY RUN - Command will NOT be executed");
     this.writeStdout("═══════════════════════════════════════════════════════════\n");
 
+    if (steps?.length) {
+      this.writeStdout(`Steps (${steps.length}):`);
+      steps.forEach((step, i) => {
+        this.writeStdout(`   ${i + 1}. ${step.stepName}: ${step.command} ${step.args.join(" ")} (~${step.estimatedTokens.toLocaleString()} tokens)`);
+      });
+      this.writeStdout("");
+    }
+
     let dryRunArgs = [...args];
     if (frontmatter._subcommand) {
       const subCmd = frontmatter._subcommand;
@@ -947,6 +1478,15 @@ export class CliRunner {
       dryRunArgs = [...subs, ...dryRunArgs];
     }
 
+    // Attachments as the tool receives them: mentions in the prompt, flags after it, or stdin
+    const adapter = getAdapter(command);
+    const attached = applyAttachments(
+      positionals[0], attachments, adapter.attachments, resolvePromptVia(frontmatter as AgentFrontmatter, adapter.promptVia)
+    );
+    if (attachments.length > 0 && positionals.length > 0) {
+      positionals = [attached.prompt ?? "", ...positionals.slice(1)];
+    }
+
     for (let i = 0; i < positionals.length; i++) {
       const pos = i + 1, value = positionals[i] ?? "";
       if (positionalMappings.has(pos)) {
@@ -956,40 +1496,104 @@ export class CliRunner {
         dryRunArgs.push(`"${value.replace(/"/g, '\\"')}"`);
       }
     }
+    dryRunArgs.push(...attached.args);
 
     this.writeStdout("Command:");
     // Mask sensitive argument values in console output
-    this.writeStdout(`   ${command} ${maskArgsArray(dryRunArgs).join(" ")}\n`);
+    this.writeStdout(`   ${command} ${maskArgsArray(dryRunArgs).join(" ")}${attached.stdinFile ? ` < ${attached.stdinFile}` : ""}\n`);
+    if (attachments.length > 0) {
+      this.writeStdout(attached.skipped.length > 0 ? `Attachments (skipped, ${command} does not accept attachments):` : "Attachments:");
+      attachments.forEach((path) => this.writeStdout(`   ${path}`));
+      this.writeStdout("");
+    }
     this.writeStdout("Final Prompt:");
     this.writeStdout("───────────────────────────────────────────────────────────");
     this.writeStdout(positionals[0] ?? "");
     this.writeStdout("───────────────────────────────────────────────────────────\n");
     // Use async token counting to avoid loading tokenizer eagerly
-    const tokenCount = await countTokensAsync(positionals[0] ?? "");
-    this.writeStdout(`Estimated tokens: ~${tokenCount.toLocaleString()}`);
+    const tokenCount = await countTokensForModel(positionals[0] ?? "", {
+      model: frontmatter.model as string | undefined,
+      command,
+    });
+    this.writeStdout(`Estimated tokens: ~${tokenCount.tokens.toLocaleString()} (${tokenCount.tokenizer})`);
 
     if (isRemote) await cleanupRemote(localFilePath);
     logger.info({ dryRun: true }, "Dry run completed");
     throw new EarlyExitRequest();
   }
 
+  /**
+   * URL an agent file was installed from (`md install`), if from a remote registry
+   */
+  private async registrySource(localFilePath: string): Promise<string | undefined> {
+    const manifestPath = join(dirname(resolve(localFilePath)), INSTALLED_MANIFEST_FILE);
+    if (!(await this.env.fs.exists(manifestPath))) return undefined;
+    const manifest = parseInstalled(await this.env.fs.readText(manifestPath), manifestPath);
+    return remoteInstallSource(manifest, basename(localFilePath));
+  }
+
   private async handleTOFU(
-    filePath: string, localFilePath: string, command: string,
-    baseFrontmatter: Record<string, unknown>, rawBody: string
+    filePath: string, command: string,
+    baseFrontmatter: Record<string, unknown>, rawBody: string,
+    content: string, pins: PinStore, flags: { frozen: boolean; noCache: boolean }, capabilities: Capability[]
   ): Promise<void> {
+    const { frozen } = flags;
     const domain = extractDomain(filePath);
+
+    // A signature that doesn't verify means the agent was tampered with (or mis-signed)
+    const { verifyAgentSignature, fetchDetachedSignature, loadTrustedKeys, addTrustedKey } = await import("../features/signatures");
+    const signature = verifyAgentSignature(
+      content,
+      await fetchDetachedSignature(filePath, { noCache: flags.noCache, offline: this.offline }),
+      await loadTrustedKeys(this.trustedKeysConfig)
+    );
+    if (signature.status === "invalid") {
+      throw new SecurityError(`Signature check failed for ${filePath}: ${signature.reason}`);
+    }
+
+    const pin = await pins.check("agents", filePath, content);
+
+    // Content approved earlier runs without asking again
+    if (pin.status === "pinned") {
+      getCommandLogger().debug({ url: filePath, sha256: pin.hash }, "Remote agent matches its pin");
+      return;
+    }
+    if (frozen) {
+      throw new SecurityError(pin.status === "changed"
+        ? `Remote agent changed since it was pinned: ${filePath} (sha256 ${pin.pinned} → ${pin.hash})`
+        : `Remote agent is not pinned in ${pins.path}: ${filePath}. Run it without --_frozen to review and pin it.`);
+    }
+    // Releases signed by a trusted key run without review (and update the pin)
+    if (signature.status === "verified" && signature.trusted) {
+      this.writeStderr(`Verified signature by ${signature.signer}`);
+      await pins.pin("agents", filePath, content);
+      return;
+    }
+    if (pin.status === "changed") {
+      if (!this.isStdinTTY) {
+          throw new SecurityError(`Remote agent changed since it was pinned: ${filePath} (sha256 ${pin.pinned} → ${pin.hash}). Run interactively to review the change.`);
+      }
+      if (!(await promptForPinChange(filePath, pin, content))) {
+          throw new UserCancelledError("Execution cancelled by user");
+      }
+      await pins.pin("agents", filePath, content);
+      return;
+    }
+
     const trusted = await isDomainTrusted(filePath);
 
     if (!trusted) {
       if (!this.isStdinTTY) {
-        await cleanupRemote(localFilePath);
-        throw new SecurityError(`Untrusted remote domain: ${domain}. Use --_trust flag to bypass this check in non-interactive mode, or run interactively to add the domain to known_hosts.`);
+          throw new SecurityError(`Untrusted remote domain: ${domain}. Use --_trust flag to bypass this check in non-interactive mode, or run interactively to add the domain to known_hosts.`);
       }
 
-      const trustResult = await promptForTrust(filePath, command, baseFrontmatter as AgentFrontmatter, rawBody);
+      const trustResult = await promptForTrust(filePath, command, baseFrontmatter as AgentFrontmatter, rawBody, signature, capabilities);
       if (!trustResult.approved) {
-        await cleanupRemote(localFilePath);
-        throw new UserCancelledError("Execution cancelled by user");
+          throw new UserCancelledError("Execution cancelled by user");
+      }
+      if (trustResult.trustKey && signature.key) {
+        await addTrustedKey({ key: signature.key, signer: signature.signer ?? domain });
+        this.writeStderr(`\nKey of ${signature.signer} added to trusted_keys.\n`);
       }
       if (trustResult.rememberDomain) {
         await addTrustedDomain(filePath);
@@ -998,6 +1602,7 @@ export class CliRunner {
     } else {
       getCommandLogger().debug({ domain }, "Domain already trusted");
     }
+    await pins.pin("agents", filePath, content);
   }
 }
 
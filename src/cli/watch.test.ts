@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, rm, writeFile, utimes } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import {
+  resolveWatchPaths,
+  waitForChange,
+  diffLines,
+  formatPromptDiff,
+  runWatch,
+  type WatchIteration,
+} from "./watch";
+
+describe("resolveWatchPaths", () => {
+  it("resolves tracked imports relative to the agent and skips URLs", () => {
+    const paths = resolveWatchPaths("/agents/task.claude.md", [
+      "./src/a.ts",
+      "./src/b.ts:10-20",
+      "./src/c.ts#Widget",
+      "/abs/glob-match.ts",
+      "https://example.com/x.md",
+      "./src/a.ts",
+    ]);
+
+    expect(paths).toEqual([
+      "/agents/task.claude.md",
+      "/agents/src/a.ts",
+      "/agents/src/b.ts",
+      "/agents/src/c.ts",
+      "/abs/glob-match.ts",
+    ]);
+  });
+});
+
+describe("diffLines / formatPromptDiff", () => {
+  it("reports added and removed lines", () => {
+    expect(diffLines("a\nb\nc", "a\nB\nc\nd")).toEqual(["- b", "+ B", "+ d"]);
+  });
+
+  it("summarizes unchanged prompts", () => {
+    expect(formatPromptDiff("same", "same")).toBe("Prompt unchanged");
+    expect(formatPromptDiff("one", "two")).toContain("Prompt changed (+1 -1 lines)");
+  });
+});
+
+describe("watching files", () => {
+  let tempDir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "watch-test-"));
+    file = join(tempDir, "task.md");
+    await writeFile(file, "v1");
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  const touch = (path: string) => utimes(path, new Date(), new Date(Date.now() + 5000));
+
+  it("waitForChange resolves with the changed path", async () => {
+    const waiting = waitForChange([file], { intervalMs: 10, debounceMs: 10 });
+    await Bun.sleep(30);
+    await touch(file);
+    expect(await waiting).toEqual([file]);
+  });
+
+  it("waitForChange resolves empty when aborted", async () => {
+    const controller = new AbortController();
+    const waiting = waitForChange([file], { intervalMs: 10, signal: controller.signal });
+    controller.abort();
+    expect(await waiting).toEqual([]);
+  });
+
+  it("runWatch re-runs on change and prints a prompt diff", async () => {
+    const controller = new AbortController();
+    const messages: string[] = [];
+    let runs = 0;
+
+    const exitCode = await runWatch({
+      initialPaths: [file],
+      intervalMs: 10,
+      debounceMs: 10,
+      signal: controller.signal,
+      log: (m) => messages.push(m),
+      runOnce: async (): Promise<WatchIteration> => {
+        runs++;
+        if (runs === 1) setTimeout(() => touch(file), 30);
+        else controller.abort();
+        return { exitCode: 0, prompt: `prompt v${runs}`, watchPaths: [file] };
+      },
+    });
+
+    expect(exitCode).toBe(0);
+    expect(runs).toBe(2);
+    expect(messages.join("\n")).toContain("- prompt v1\n+ prompt v2");
+  });
+
+  it("runWatch kills the in-flight run when a file changes mid-run", async () => {
+    const controller = new AbortController();
+    let runs = 0;
+    let killed = 0;
+    let release: (() => void) | undefined;
+
+    await runWatch({
+      initialPaths: [file],
+      intervalMs: 10,
+      debounceMs: 10,
+      signal: controller.signal,
+      log: () => {},
+      killInFlight: () => {
+        killed++;
+        release?.();
+      },
+      runOnce: async (): Promise<WatchIteration> => {
+        runs++;
+        if (runs === 1) {
+          setTimeout(() => touch(file), 30);
+          await new Promise<void>((r) => { release = r; });
+          return { exitCode: 130, watchPaths: [] };
+        }
+        controller.abort();
+        return { exitCode: 0, watchPaths: [] };
+      },
+    });
+
+    expect(killed).toBe(1);
+    expect(runs).toBe(2);
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * `--_watch` mode - Re-run an agent when it or its imports change
+ *
+ *   md task.claude.md --_watch
+ *
+ * Watches the agent file plus every path recorded in the import tracker
+ * (including glob matches). On change, the in-flight child is killed via
+ * the ProcessManager, the screen is cleared and the pipeline re-runs.
+ * After each iteration a line diff of the final prompt is printed to stderr.
+ *
+ * Files are polled by mtime rather than using fs.watch so that editors
+ * which save via rename-and-replace are detected reliably.
+ */
+
+import { dirname, resolve } from "path";
+import { homedir } from "os";
+import { statSync } from "fs";
+import { parseLineRange, parseSymbolExtraction } from "../features/imports/parser";
+import { getProcessManager } from "../core/execution/process-manager";
+
+/** How often watched files are polled */
+export const DEFAULT_WATCH_INTERVAL_MS = 250;
+
+/** Quiet period after a change before re-running */
+export const DEFAULT_WATCH_DEBOUNCE_MS = 150;
+
+/** Maximum number of diff lines printed per iteration */
+const MAX_DIFF_LINES = 40;
+
+/** Outcome of one watch iteration */
+export interface WatchIteration {
+  exitCode: number;
+  /** Final prompt, when the agent got far enough to build one */
+  prompt?: string;
+  /** Files to watch for the next iteration (empty keeps the previous set) */
+  watchPaths: string[];
+}
+
+/** Options for runWatch */
+export interface WatchOptions {
+  /** Run the agent once */
+  runOnce: () => Promise<WatchIteration>;
+  /** Files to watch before the first iteration has reported its own */
+  initialPaths: string[];
+  /** Clear the terminal before each run (TTY only) */
+  clearScreen?: boolean;
+  /** Status output (defaults to stderr) */
+  log?: (message: string) => void;
+  /** Kill the in-flight child when a change arrives mid-run */
+  killInFlight?: () => void;
+  intervalMs?: number;
+  debounceMs?: number;
+  /** Stops watching (ProcessManager signal by default) */
+  signal?: AbortSignal;
+}
+
+/**
+ * Resolve tracked import entries to absolute file paths to watch
+ *
+ * Import entries are recorded as written (e.g., "./a.ts:10-20" or
+ * "./a.ts#Foo") relative to the agent; glob matches are already absolute.
+ * URLs are skipped.
+ */
+export function resolveWatchPaths(agentPath: string, resolvedImports: string[]): string[] {
+  const agentDir = dirname(resolve(agentPath));
+  const paths = new Set<string>([resolve(agentPath)]);
+
+  for (const entry of resolvedImports) {
+    if (/^https?:\/\//.test(entry)) continue;
+    let path = parseSymbolExtraction(parseLineRange(entry).path).path;
+    if (path.startsWith("~/")) path = homedir() + path.slice(1);
+    paths.add(resolve(agentDir, path));
+  }
+
+  return [...paths];
+}
+
+/**
+ * Snapshot modification times (-1 for missing files)
+ */
+export function snapshotMtimes(paths: string[]): Map<string, number> {
+  const snapshot = new Map<string, number>();
+  for (const path of paths) {
+    try {
+      snapshot.set(path, statSync(path).mtimeMs);
+    } catch {
+      snapshot.set(path, -1);
+    }
+  }
+  return snapshot;
+}
+
+/**
+ * Resolve with the changed paths once any watched file changes
+ * Returns an empty list if the signal aborts first.
+ */
+export function waitForChange(
+  paths: string[],
+  options: { intervalMs?: number; debounceMs?: number; signal?: AbortSignal } = {}
+): Promise<string[]> {
+  const { intervalMs = DEFAULT_WATCH_INTERVAL_MS, debounceMs = DEFAULT_WATCH_DEBOUNCE_MS, signal } = options;
+  const baseline = snapshotMtimes(paths);
+
+  return new Promise((resolvePromise) => {
+    let timer: ReturnType<typeof setInterval> | undefined;
+
+    const finish = (changed: string[]) => {
+      if (timer) clearInterval(timer);
+      signal?.removeEventListener("abort", onAbort);
+      resolvePromise(changed);
+    };
+    const onAbort = () => finish([]);
+
+    if (signal?.aborted) return finish([]);
+    signal?.addEventListener("abort", onAbort);
+
+    timer = setInterval(() => {
+      const current = snapshotMtimes(paths);
+      const changed = paths.filter((p) => current.get(p) !== baseline.get(p));
+      if (changed.length === 0) return;
+
+      // Debounce: let bursts of writes (formatters, multi-file saves) settle
+      clearInterval(timer);
+      timer = undefined;
+      setTimeout(() => {
+        const settled = snapshotMtimes(paths);
+        finish(paths.filter((p) => settled.get(p) !== baseline.get(p)));
+      }, debounceMs);
+    }, intervalMs);
+  });
+}
+
+/**
+ * Line diff between two prompts (LCS), as "+ " / "- " prefixed lines
+ */
+export function diffLines(previous: string, next: string): string[] {
+  const a = previous.split("\n");
+  const b = next.split("\n");
+
+  // Trim the common prefix/suffix so the LCS table stays small
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  // Very large rewrites: report as full replacement
+  if (midA.length * midB.length > 1_000_000) {
+    return [...midA.map((l) => `- ${l}`), ...midB.map((l) => `+ ${l}`)];
+  }
+
+  const lcs: number[][] = Array.from({ length: midA.length + 1 }, () => new Array(midB.length + 1).fill(0));
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lcs[i]![j] = midA[i] === midB[j]
+        ? lcs[i + 1]![j + 1]! + 1
+        : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!);
+    }
+  }
+
+  const out: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < midA.length && j < midB.length) {
+    if (midA[i] === midB[j]) {
+      i++;
+      j++;
+    } else if (lcs[i + 1]![j]! >= lcs[i]![j + 1]!) {
+      out.push(`- ${midA[i++]}`);
+    } else {
+      out.push(`+ ${midB[j++]}`);
+    }
+  }
+  while (i < midA.length) out.push(`- ${midA[i++]}`);
+  while (j < midB.length) out.push(`+ ${midB[j++]}`);
+  return out;
+}
+
+/**
+ * Format the per-iteration prompt diff
+ */
+export function formatPromptDiff(previous: string, next: string): string {
+  const lines = diffLines(previous, next);
+  if (lines.length === 0) return "Prompt unchanged";
+
+  const added = lines.filter((l) => l.startsWith("+")).length;
+  const removed = lines.length - added;
+  const shown = lines.slice(0, MAX_DIFF_LINES);
+  if (lines.length > shown.length) {
+    shown.push(`... (${lines.length - shown.length} more changed lines)`);
+  }
+  return [`Prompt changed (+${added} -${removed} lines):`, ...shown].join("\n");
+}
+
+/**
+ * Run the agent repeatedly, re-running whenever watched files change
+ *
+ * @returns Exit code of the last completed iteration
+ */
+export async function runWatch(options: WatchOptions): Promise<number> {
+  const {
+    runOnce,
+    clearScreen = false,
+    log = (message) => console.error(message),
+    killInFlight = () => getProcessManager().killAll(),
+    intervalMs,
+    debounceMs,
+    signal = getProcessManager().signal,
+  } = options;
+
+  let paths = options.initialPaths;
+  let previousPrompt: string | undefined;
+  let lastExitCode = 0;
+  let iteration = 0;
+
+  while (!signal.aborted) {
+    iteration++;
+    if (clearScreen) process.stdout.write("\x1b[2J\x1b[H");
+    log(`[watch] Run #${iteration}`);
+
+    // Watch while the agent runs so a mid-run edit restarts it
+    const midRun = new AbortController();
+    const onAbort = () => midRun.abort();
+    signal.addEventListener("abort", onAbort);
+    const run = runOnce();
+    const first = await Promise.race([
+      run.then((result) => ({ result })),
+      waitForChange(paths, { intervalMs, debounceMs, signal: midRun.signal }).then((changed) => ({ changed })),
+    ]);
+    midRun.abort();
+    signal.removeEventListener("abort", onAbort);
+
+    if ("changed" in first) {
+      if (first.changed.length === 0) break;
+      log(`[watch] Change detected during run (${first.changed.join(", ")}); restarting`);
+      killInFlight();
+      await run.catch(() => undefined);
+      continue;
+    }
+
+    const { result } = first;
+    lastExitCode = result.exitCode;
+    if (result.watchPaths.length > 0) paths = result.watchPaths;
+
+    if (result.prompt !== undefined) {
+      if (previousPrompt !== undefined) log(formatPromptDiff(previousPrompt, result.prompt));
+      previousPrompt = result.prompt;
+    }
+
+    log(`[watch] Exit code ${result.exitCode}. Watching ${paths.length} file(s) for changes...`);
+    const changed = await waitForChange(paths, { intervalMs, debounceMs, signal });
+    if (changed.length === 0) break;
+    log(`[watch] Changed: ${changed.join(", ")}`);
+  }
+
+  return lastExitCode;
+}
@@ -11,6 +11,8 @@ import {
   buildBuiltinDefaults,
   clearAdapterRegistry,
   getDefaultAdapter,
+  createConfigAdapter,
+  isToolAdapter,
 } from "./index";
 import { claudeAdapter } from "./claude";
 import { copilotAdapter } from "./copilot";
@@ -290,3 +292,47 @@ describe("Default Adapter", () => {
     expect(result).not.toBe(frontmatter);
   });
 });
+
+describe("Config Adapter", () => {
+  test("uses defaults and maps the prompt flag to $1", () => {
+    const adapter = createConfigAdapter("aider", {
+      defaults: { "yes-always": true },
+      prompt: "flag",
+      prompt_flag: "message",
+    });
+    expect(adapter.name).toBe("aider");
+    expect(adapter.getDefaults()).toEqual({ "yes-always": true, $1: "message" });
+    expect(adapter.promptVia).toBe("argv");
+  });
+
+  test("delivers prompt via stdin when configured", () => {
+    const adapter = createConfigAdapter("llm", { prompt: "stdin" });
+    expect(adapter.getDefaults()).toEqual({});
+    expect(adapter.promptVia).toBe("stdin");
+  });
+
+  test("prompt_via takes precedence over prompt: stdin", () => {
+    expect(createConfigAdapter("big", { prompt: "stdin", prompt_via: "file" }).promptVia).toBe("file");
+  });
+
+  test("declares attachment delivery", () => {
+    expect(createConfigAdapter("vision", { attachments: "flag", attachment_flag: "file" }).attachments)
+      .toEqual({ via: "flag", flag: "file" });
+    expect(createConfigAdapter("plain", {}).attachments).toBeUndefined();
+  });
+
+  test("applyInteractiveMode removes and adds keys", () => {
+    const adapter = createConfigAdapter("aider", {
+      defaults: { "yes-always": true },
+      interactive: { remove: ["yes-always"], add: { chat: true } },
+    });
+    const result = adapter.applyInteractiveMode({ "yes-always": true, model: "opus" });
+    expect(result).toEqual({ model: "opus", chat: true });
+  });
+
+  test("isToolAdapter validates module exports", () => {
+    expect(isToolAdapter(createConfigAdapter("x", {}))).toBe(true);
+    expect(isToolAdapter({ name: "x" })).toBe(false);
+    expect(isToolAdapter(null)).toBe(false);
+  });
+});
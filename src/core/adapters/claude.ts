@@ -3,6 +3,7 @@
  *
  * Print mode: --print flag for non-interactive output
  * Interactive mode: Remove --print flag (interactive is the default)
+ * Attachments: `@path` mentions in the prompt
  */
 
 import type { ToolAdapter, CommandDefaults, AgentFrontmatter } from "../types";
@@ -22,6 +23,8 @@ export const claudeAdapter: ToolAdapter = {
     delete result.print;
     return result;
   },
+
+  attachments: { via: "mention" },
 };
 
 export default claudeAdapter;
@@ -3,6 +3,7 @@
  *
  * Print mode: Use 'exec' subcommand for non-interactive execution
  * Interactive mode: Remove subcommand (interactive is the default)
+ * Attachments: --image <path> per file
  */
 
 import type { ToolAdapter, CommandDefaults, AgentFrontmatter } from "../types";
@@ -22,6 +23,8 @@ export const codexAdapter: ToolAdapter = {
     delete result._subcommand;
     return result;
   },
+
+  attachments: { via: "flag", flag: "image" },
 };
 
 export default codexAdapter;
@@ -0,0 +1,58 @@
+/**
+ * Config-declared tool adapters
+ *
+ * Builds ToolAdapter instances from the `adapters:` section of
+ * ~/.mdflow/config.yaml or a project config, so new CLIs (aider, llm,
+ * ollama, ...) can be supported without patching the source.
+ *
+ * Print mode: `defaults` (plus `$1: <prompt_flag>` when prompt is "flag")
+ * Interactive mode: remove `interactive.remove` keys, merge `interactive.add`
+ * Attachments: `attachments: flag|mention|stdin` (+ `attachment_flag`)
+ */
+
+import type { ToolAdapter, CommandDefaults, AgentFrontmatter, AdapterConfig } from "../types";
+
+/**
+ * Create a ToolAdapter from a declarative config entry
+ *
+ * @param name - Tool name (the key under `adapters:`)
+ * @param config - Adapter config entry
+ * @returns A ToolAdapter ready for registerAdapter()
+ */
+export function createConfigAdapter(name: string, config: AdapterConfig): ToolAdapter {
+  return {
+    name,
+
+    getDefaults(): CommandDefaults {
+      const defaults: CommandDefaults = { ...(config.defaults ?? {}) };
+      if (config.prompt === "flag" && config.prompt_flag) {
+        defaults.$1 = config.prompt_flag;
+      }
+      return defaults;
+    },
+
+    applyInteractiveMode(frontmatter: AgentFrontmatter): AgentFrontmatter {
+      const result = { ...frontmatter };
+      for (const key of config.interactive?.remove ?? []) {
+        delete result[key];
+      }
+      Object.assign(result, config.interactive?.add ?? {});
+      return result;
+    },
+
+    promptVia: config.prompt_via ?? (config.prompt === "stdin" ? "stdin" : "argv"),
+
+    ...(config.attachments ? { attachments: { via: config.attachments, flag: config.attachment_flag } } : {}),
+  };
+}
+
+/**
+ * Check whether a loaded module export looks like a ToolAdapter
+ */
+export function isToolAdapter(value: unknown): value is ToolAdapter {
+  if (!value || typeof value !== "object") return false;
+  const candidate = value as Partial<ToolAdapter>;
+  return typeof candidate.name === "string" &&
+    typeof candidate.getDefaults === "function" &&
+    typeof candidate.applyInteractiveMode === "function";
+}
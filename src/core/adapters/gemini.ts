@@ -3,6 +3,7 @@
  *
  * Print mode: One-shot mode (no special flags needed - default behavior)
  * Interactive mode: Add --prompt-interactive flag
+ * Attachments: `@path` mentions in the prompt
  */
 
 import type { ToolAdapter, CommandDefaults, AgentFrontmatter } from "../types";
@@ -21,6 +22,8 @@ export const geminiAdapter: ToolAdapter = {
     result.$1 = "prompt-interactive";
     return result;
   },
+
+  attachments: { via: "mention" },
 };
 
 export default geminiAdapter;
@@ -4,9 +4,9 @@
  * Central registry for tool adapters. Adapters define tool-specific behavior
  * for default configuration and interactive mode transformations.
  *
- * Adding a new tool requires:
- * 1. Creating a new adapter file (e.g., src/adapters/mytool.ts)
- * 2. Registering it in this file
+ * Adding a new tool requires either:
+ * 1. Creating a new adapter file (e.g., src/adapters/mytool.ts) and registering it here, or
+ * 2. Declaring it under `adapters:` in config.yaml (see config-adapter.ts)
  *
  * The registry provides a fallback "default" adapter for unknown tools.
  */
@@ -38,6 +38,18 @@ const defaultAdapter: ToolAdapter = {
   },
 };
 
+/**
+ * Names of the adapters that ship with mdflow
+ */
+export const BUILTIN_ADAPTER_NAMES = [
+  "claude",
+  "copilot",
+  "codex",
+  "gemini",
+  "droid",
+  "opencode",
+] as const;
+
 /**
  * Registry of tool adapters indexed by tool name
  */
@@ -132,4 +144,5 @@ initializeBuiltinAdapters();
 
 // Re-export for convenience
 export { defaultAdapter };
+export { createConfigAdapter, isToolAdapter } from "./config-adapter";
 export type { ToolAdapter } from "../types";
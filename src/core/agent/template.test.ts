@@ -2,6 +2,7 @@ import { expect, test, describe } from "bun:test";
 import {
   extractTemplateVars,
   substituteTemplateVars,
+  restoreTemplateValues,
   parseTemplateArgs,
 } from "./template";
 
@@ -412,6 +413,24 @@ describe("substituteTemplateVars", () => {
   });
 });
 
+describe("protectImports", () => {
+  test("hides import syntax in values until restored", () => {
+    const result = substituteTemplateVars("Input: {{ _in }}\n!`echo {{ _x }}`", {
+      _in: "see @./a.md and `b`",
+      _x: "c@d",
+    }, { protectImports: true });
+    expect(result).not.toContain("@");
+    expect(result.match(/`/g)).toHaveLength(2);
+    expect(restoreTemplateValues(result)).toBe("Input: see @./a.md and `b`\n!`echo c@d`");
+  });
+
+  test("keeps the first word of values that continue an import path", () => {
+    const result = substituteTemplateVars("@./skills/{{ _lang }}-style.md", { _lang: "go" }, { protectImports: true });
+    expect(result).toBe("@./skills/go-style.md");
+    expect(substituteTemplateVars("@./{{ _p }}", { _p: "a.md @./b.md" }, { protectImports: true })).not.toContain("@./b.md");
+  });
+});
+
 describe("parseTemplateArgs", () => {
   const knownFlags = new Set(["--model", "-m", "--silent"]);
 
@@ -9,6 +9,15 @@ export interface TemplateVars {
   [key: string]: string;
 }
 
+/**
+ * Frontmatter `_` keys that configure mdflow rather than declare template variables
+ * (`_name: default` declares `{{ _name }}` and its `--_name` flag)
+ */
+export const INTERNAL_FRONTMATTER_KEYS: ReadonlySet<string> = new Set([
+  "_interactive", "_i", "_cwd", "_subcommand", "_output_schema", "_output_retries", "_prompt_via",
+  "_budget", "_template_imports", "_steps", "_session", "_sandbox", "_signature",
+]);
+
 /**
  * Cross-platform shell escaping helper
  * Prevents command injection when template variables are used in shell commands
@@ -29,9 +38,26 @@ const engine = new Liquid({
   strictFilters: false, // Don't throw on undefined filters
 });
 
+/** Private-use markers around each `{{ }}` output (see protectImportSyntax) */
+const VALUE_START = "\uE000";
+const VALUE_END = "\uE001";
+
+/** Stand-ins for import syntax inside substituted values, restored by restoreTemplateValues */
+const PROTECTED_CHARS: Record<string, string> = { "@": "\uE040", "`": "\uE060" };
+const RESTORED_CHARS: Record<string, string> = { "\uE040": "@", "\uE060": "`" };
+
+// Same settings, but every output is marked so its value can be told apart from the template
+const markingEngine = new Liquid({
+  strictVariables: false,
+  strictFilters: false,
+  outputEscape: (value: unknown) => `${VALUE_START}${String(value ?? "")}${VALUE_END}`,
+});
+
 // Register security filters for shell escaping
-engine.registerFilter("shell_escape", shellEscape);
-engine.registerFilter("q", shellEscape); // Short alias
+for (const liquid of [engine, markingEngine]) {
+  liquid.registerFilter("shell_escape", shellEscape);
+  liquid.registerFilter("q", shellEscape); // Short alias
+}
 
 /**
  * Extract template variables from content using LiquidJS AST parsing
@@ -73,13 +99,16 @@ export function extractTemplateVars(content: string): string[] {
  * - Loops: {% for item in items %}...{% endfor %}
  * - Filters: {{ name | upcase }}
  * - Default values: {{ name | default: "World" }}
+ *
+ * With `protectImports`, import syntax inside substituted values is replaced
+ * with stand-ins until restoreTemplateValues (the agent body's Phase 1).
  */
 export function substituteTemplateVars(
   content: string,
   vars: TemplateVars,
-  options: { strict?: boolean } = {}
+  options: { strict?: boolean; protectImports?: boolean } = {}
 ): string {
-  const { strict = false } = options;
+  const { strict = false, protectImports = false } = options;
 
   if (strict) {
     // In strict mode, check for missing variables before rendering
@@ -90,10 +119,45 @@ export function substituteTemplateVars(
     }
   }
 
+  if (protectImports) {
+    return protectImportSyntax(markingEngine.parseAndRenderSync(content, vars));
+  }
+
   // Use synchronous renderSync for compatibility
   return engine.parseAndRenderSync(content, vars);
 }
 
+/**
+ * Replace `@` and backticks in marked values with private-use stand-ins,
+ * so values (e.g. piped stdin) are never parsed as imports or commands.
+ *
+ * A value that continues an import written in the template
+ * (`@./skills/{{ _lang }}.md`) keeps its first word, so paths still resolve.
+ */
+function protectImportSyntax(rendered: string): string {
+  let result = "";
+  let last = 0;
+  const values = new RegExp(`${VALUE_START}([^]*?)${VALUE_END}`, "g");
+
+  for (const match of rendered.matchAll(values)) {
+    result += rendered.slice(last, match.index);
+    const value = match[1]!;
+    const inImport = /@\S*$/.test(result);
+    const kept = inImport ? value.match(/^\S*/)![0] : "";
+    result += kept + value.slice(kept.length).replace(/[@`]/g, (ch) => PROTECTED_CHARS[ch]!);
+    last = match.index + match[0].length;
+  }
+
+  return result + rendered.slice(last);
+}
+
+/**
+ * Restore the import syntax protected by `substituteTemplateVars(..., { protectImports: true })`
+ */
+export function restoreTemplateValues(content: string): string {
+  return content.replace(/[\uE040\uE060]/g, (ch) => RESTORED_CHARS[ch]!);
+}
+
 /**
  * Parse CLI arguments into template variables
  * Extracts --key value pairs that aren't known flags
@@ -1,10 +1,16 @@
-import { describe, it, expect } from "bun:test";
+import { describe, it, expect, afterEach } from "bun:test";
 import {
   countTokens,
   getContextLimit,
   exceedsTokenLimit,
   getTokenUsage,
   MODEL_CONTEXT_LIMITS,
+  resolveTokenizerFamily,
+  countTokensForModel,
+  countTokensAsync,
+  registerTokenizer,
+  clearCustomTokenizers,
+  createEstimatorTokenizer,
 } from "./tokenizer";
 
 describe("tokenizer", () => {
@@ -214,4 +220,51 @@ describe("tokenizer", () => {
       expect(MODEL_CONTEXT_LIMITS.gemini).toBeDefined();
     });
   });
+
+  describe("tokenizer registry", () => {
+    afterEach(() => {
+      clearCustomTokenizers();
+    });
+
+    it("resolves families from the model, then the command", () => {
+      expect(resolveTokenizerFamily("claude-sonnet-4")).toBe("claude");
+      expect(resolveTokenizerFamily("opus")).toBe("claude");
+      expect(resolveTokenizerFamily("gemini-2.0-flash")).toBe("gemini");
+      expect(resolveTokenizerFamily("gpt-4o-mini")).toBe("o200k");
+      expect(resolveTokenizerFamily("o3-mini")).toBe("o200k");
+      expect(resolveTokenizerFamily("gpt-4-turbo")).toBe("cl100k");
+      expect(resolveTokenizerFamily(undefined, "claude")).toBe("claude");
+      expect(resolveTokenizerFamily("unknown-model", "gemini")).toBe("gemini");
+      expect(resolveTokenizerFamily(undefined, "copilot")).toBe("o200k");
+    });
+
+    it("reports which tokenizer produced the count", async () => {
+      const text = "The quick brown fox jumps over the lazy dog.";
+
+      const openai = await countTokensForModel(text, { model: "gpt-4o" });
+      expect(openai).toEqual({ tokens: await countTokensAsync(text), tokenizer: "o200k_base", exact: true });
+
+      const claude = await countTokensForModel(text, { command: "claude" });
+      expect(claude.tokenizer).toContain("claude");
+      expect(claude.exact).toBe(false);
+      expect(claude.tokens).toBeGreaterThanOrEqual(openai.tokens);
+
+      expect(await countTokensForModel("", { model: "gpt-4o" })).toMatchObject({ tokens: 0 });
+    });
+
+    it("routes models to registered custom tokenizers", async () => {
+      registerTokenizer("local", createEstimatorTokenizer("local", { charsPerToken: 2 }), { models: ["mistral"] });
+
+      expect(resolveTokenizerFamily("Mistral-7B")).toBe("local");
+      expect(await countTokensForModel("abcdef", { model: "mistral-7b" })).toEqual({
+        tokens: 3, tokenizer: "local", exact: false,
+      });
+    });
+
+    it("scales a built-in base tokenizer", async () => {
+      const base = await countTokensForModel("hello world, hello tokens", { model: "gpt-4" });
+      const scaled = createEstimatorTokenizer("scaled", { base: "cl100k", ratio: 2 });
+      expect(await scaled.count("hello world, hello tokens")).toBe(base.tokens * 2);
+    });
+  });
 });
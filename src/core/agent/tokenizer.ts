@@ -4,6 +4,10 @@
  * Uses gpt-tokenizer for accurate token counting instead of length/4 heuristic.
  * Provides model-specific context window limits with config override support.
  *
+ * A tokenizer registry (countTokensForModel) picks a counter per model family:
+ * exact o200k/cl100k encodings for OpenAI models, calibrated estimators for
+ * Claude and Gemini, and custom tokenizers registered for local models.
+ *
  * Cold start optimization: Lazy-loads gpt-tokenizer only when accurate counts
  * are needed. Uses cheap char/4 estimate for early bailout checks.
  */
@@ -19,6 +23,16 @@ async function getEncoder() {
   return _encode;
 }
 
+let _encodeCl100k: typeof import("gpt-tokenizer").encode | null = null;
+
+async function getCl100kEncoder() {
+  if (!_encodeCl100k) {
+    const mod = await import("gpt-tokenizer/encoding/cl100k_base");
+    _encodeCl100k = mod.encode;
+  }
+  return _encodeCl100k;
+}
+
 /** Cheap token estimate (~4 chars per token) - good for early bailout checks */
 export const CHARS_PER_TOKEN_ESTIMATE = 4;
 
@@ -249,3 +263,188 @@ export function getTokenUsage(
     exceeds: tokens > limit,
   };
 }
+
+// ============================================================================
+// Tokenizer Registry
+// ============================================================================
+
+/** A token counter for one model family */
+export interface Tokenizer {
+  /** Name shown in reports (e.g., "o200k_base") */
+  name: string;
+  /** True when counts come from the family's own vocabulary, false for calibrated estimates */
+  exact: boolean;
+  count(text: string): number | Promise<number>;
+}
+
+/** Token count together with the tokenizer that produced it */
+export interface TokenCount {
+  tokens: number;
+  tokenizer: string;
+  exact: boolean;
+}
+
+/**
+ * Approximate ratios of a family's token count to cl100k_base
+ * Claude's vocabulary is not published; its counts run higher than cl100k.
+ */
+const CLAUDE_CL100K_RATIO = 1.15;
+
+/** Google documents Gemini tokens as roughly 4 characters */
+const GEMINI_CHARS_PER_TOKEN = 4;
+
+/** Built-in tokenizers by family */
+const BUILTIN_TOKENIZERS: Record<string, Tokenizer> = {
+  o200k: { name: "o200k_base", exact: true, count: countTokensAsync },
+  cl100k: {
+    name: "cl100k_base",
+    exact: true,
+    count: async (text) => (text ? (await getCl100kEncoder())(text).length : 0),
+  },
+  claude: {
+    name: `claude (cl100k_base x${CLAUDE_CL100K_RATIO})`,
+    exact: false,
+    count: async (text) => (text ? Math.ceil((await getCl100kEncoder())(text).length * CLAUDE_CL100K_RATIO) : 0),
+  },
+  gemini: {
+    name: `gemini (chars/${GEMINI_CHARS_PER_TOKEN})`,
+    exact: false,
+    count: (text) => Math.ceil(text.length / GEMINI_CHARS_PER_TOKEN),
+  },
+};
+
+/** Family used when neither the model nor the command is recognized */
+export const DEFAULT_TOKENIZER_FAMILY = "o200k";
+
+/** Model name patterns by family (checked in order, case-insensitive) */
+const MODEL_TOKENIZER_PATTERNS: Array<[RegExp, string]> = [
+  [/claude|opus|sonnet|haiku/, "claude"],
+  [/gemini/, "gemini"],
+  [/gpt-4o|gpt-4\.1|gpt-5|(^|[^a-z])o[134](-|$)|codex/, "o200k"],
+  [/gpt-4|gpt-3\.5/, "cl100k"],
+];
+
+/** Adapter (command) name -> family, used when no model is set */
+const COMMAND_TOKENIZERS: Record<string, string> = {
+  claude: "claude",
+  gemini: "gemini",
+  codex: "o200k",
+};
+
+/** Tokenizers registered at runtime (config or API), by family */
+const customTokenizers: Map<string, Tokenizer> = new Map();
+
+/** Model / command routes to custom tokenizers, checked before built-in patterns */
+const customRoutes: Array<{ family: string; models: string[]; commands: string[] }> = [];
+
+/**
+ * Register a custom tokenizer (e.g., for a local model)
+ *
+ * @param family - Family name (overrides a built-in family with the same name)
+ * @param tokenizer - The tokenizer
+ * @param routes - Model names (substring match) and commands that use it
+ */
+export function registerTokenizer(
+  family: string,
+  tokenizer: Tokenizer,
+  routes: { models?: string[]; commands?: string[] } = {}
+): void {
+  customTokenizers.set(family, tokenizer);
+  const existing = customRoutes.findIndex((r) => r.family === family);
+  if (existing !== -1) customRoutes.splice(existing, 1);
+  customRoutes.push({
+    family,
+    models: (routes.models ?? []).map((m) => m.toLowerCase()),
+    commands: routes.commands ?? [],
+  });
+}
+
+/**
+ * Clear custom tokenizers (for testing)
+ */
+export function clearCustomTokenizers(): void {
+  customTokenizers.clear();
+  customRoutes.length = 0;
+}
+
+/**
+ * Get the tokenizer for a family (falls back to the default family)
+ */
+export function getTokenizer(family: string): Tokenizer {
+  return customTokenizers.get(family) ?? BUILTIN_TOKENIZERS[family] ?? BUILTIN_TOKENIZERS[DEFAULT_TOKENIZER_FAMILY]!;
+}
+
+/**
+ * Resolve the tokenizer family for a model and/or command
+ *
+ * Order: custom model routes, built-in model patterns, custom command
+ * routes, built-in command map, then the default family.
+ *
+ * @param model - The `model` frontmatter value
+ * @param command - The resolved command / adapter name (e.g., "claude")
+ */
+export function resolveTokenizerFamily(model?: string, command?: string): string {
+  if (model) {
+    const normalizedModel = model.toLowerCase();
+    const custom = customRoutes.find((r) => r.models.some((m) => normalizedModel.includes(m)));
+    if (custom) return custom.family;
+    const builtin = MODEL_TOKENIZER_PATTERNS.find(([pattern]) => pattern.test(normalizedModel));
+    if (builtin) return builtin[1];
+  }
+
+  if (command) {
+    const custom = customRoutes.find((r) => r.commands.includes(command));
+    if (custom) return custom.family;
+    const builtin = COMMAND_TOKENIZERS[command];
+    if (builtin) return builtin;
+  }
+
+  return DEFAULT_TOKENIZER_FAMILY;
+}
+
+/**
+ * Count tokens with the tokenizer for a model / command
+ *
+ * @param text - The text to count tokens for
+ * @param target - The `model` frontmatter value and resolved command
+ * @returns Token count and the tokenizer used
+ */
+export async function countTokensForModel(
+  text: string,
+  target: { model?: string; command?: string } = {}
+): Promise<TokenCount> {
+  const tokenizer = getTokenizer(resolveTokenizerFamily(target.model, target.command));
+  const tokens = text ? await tokenizer.count(text) : 0;
+  return { tokens, tokenizer: tokenizer.name, exact: tokenizer.exact };
+}
+
+/**
+ * Create a calibrated estimator tokenizer
+ *
+ * @param name - Name shown in reports
+ * @param options - chars_per_token estimate, or a built-in base family scaled by ratio
+ */
+export function createEstimatorTokenizer(
+  name: string,
+  options: { charsPerToken?: number; base?: string; ratio?: number }
+): Tokenizer {
+  const { charsPerToken, base, ratio = 1 } = options;
+  if (charsPerToken) {
+    return { name, exact: false, count: (text) => Math.ceil((text.length / charsPerToken) * ratio) };
+  }
+  const baseTokenizer = getTokenizer(base ?? DEFAULT_TOKENIZER_FAMILY);
+  return {
+    name,
+    exact: false,
+    count: async (text) => Math.ceil((await baseTokenizer.count(text)) * ratio),
+  };
+}
+
+/**
+ * Check whether a loaded module export looks like a Tokenizer
+ */
+export function isTokenizer(value: unknown): value is Tokenizer {
+  if (!value || typeof value !== "object") return false;
+  const candidate = value as Partial<Tokenizer>;
+  return typeof candidate.name === "string" && typeof candidate.count === "function";
+}
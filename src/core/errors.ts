@@ -121,6 +121,16 @@ export class HookError extends MarkdownAgentError {
   }
 }
 
+/**
+ * Agent output failed `_output_schema` validation (after all retries)
+ */
+export class OutputValidationError extends MarkdownAgentError {
+  constructor(message: string, code: number = 1) {
+    super(message, code);
+    this.name = "OutputValidationError";
+  }
+}
+
 /**
  * User cancelled the operation (e.g., declined trust prompt)
  */
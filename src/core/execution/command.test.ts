@@ -0,0 +1,102 @@
+/**
+ * Tests for command execution - prompt delivery to the child process
+ */
+
+import { describe, test, expect } from "bun:test";
+import { runCommand, resolvePromptVia, buildArgs, applyAttachments } from "./command";
+
+describe("runCommand promptVia", () => {
+  test("promptVia 'stdin' writes the prompt to stdin instead of argv", async () => {
+    const result = await runCommand({
+      command: "sh",
+      args: ["-c", "echo \"args=$#\"; cat"],
+      positionals: ["prompt from stdin"],
+      positionalMappings: new Map(),
+      captureOutput: true,
+      promptVia: "stdin",
+    });
+
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toBe("args=0\nprompt from stdin");
+  });
+
+  test("promptVia 'file' passes a private temp file and removes it afterwards", async () => {
+    const result = await runCommand({
+      command: "sh",
+      args: ["-c", "stat -c %a \"$1\"; cat \"$1\"; echo; echo \"$1\"", "sh"],
+      positionals: ["prompt from file"],
+      positionalMappings: new Map(),
+      captureOutput: true,
+      promptVia: "file",
+    });
+
+    expect(result.exitCode).toBe(0);
+    const [mode, content, path] = result.stdout.trim().split("\n");
+    expect(mode).toBe("600");
+    expect(content).toBe("prompt from file");
+    expect(await Bun.file(path!).exists()).toBe(false);
+  });
+});
+
+describe("resolvePromptVia", () => {
+  test("defaults to the adapter setting", () => {
+    expect(resolvePromptVia({})).toBe("argv");
+    expect(resolvePromptVia({}, "stdin")).toBe("stdin");
+  });
+
+  test("_prompt_via overrides the adapter", () => {
+    expect(resolvePromptVia({ _prompt_via: "file" }, "stdin")).toBe("file");
+  });
+
+  test("throws on unknown values", () => {
+    expect(() => resolvePromptVia({ _prompt_via: "pipe" })).toThrow("Invalid _prompt_via");
+  });
+
+  test("_prompt_via is not passed as a CLI flag", () => {
+    expect(buildArgs({ _prompt_via: "stdin", model: "opus" }, new Set())).toEqual(["--model", "opus"]);
+  });
+});
+
+describe("applyAttachments", () => {
+  test("mention appends @paths to the prompt", () => {
+    const result = applyAttachments("Describe these", ["/a.png", "/b.png"], { via: "mention" });
+    expect(result.prompt).toBe("Describe these\n\n@/a.png @/b.png");
+    expect(result.args).toEqual([]);
+  });
+
+  test("flag passes each file after its flag", () => {
+    const result = applyAttachments("Describe", ["/a.png", "/b.png"], { via: "flag", flag: "image" });
+    expect(result.prompt).toBe("Describe");
+    expect(result.args).toEqual(["--image", "/a.png", "--image", "/b.png"]);
+  });
+
+  test("stdin takes one file, and only when the prompt is not on stdin", () => {
+    expect(applyAttachments("p", ["/a.png"], { via: "stdin" }).stdinFile).toBe("/a.png");
+    expect(() => applyAttachments("p", ["/a.png", "/b.png"], { via: "stdin" })).toThrow("Only one attachment");
+    expect(() => applyAttachments("p", ["/a.png"], { via: "stdin" }, "stdin")).toThrow("_prompt_via: stdin");
+  });
+
+  test("skips attachments when the tool does not accept them", () => {
+    const result = applyAttachments("p", ["/a.png"], undefined);
+    expect(result).toEqual({ prompt: "p", args: [], skipped: ["/a.png"] });
+  });
+
+  test("runCommand sends a stdin attachment to the child process", async () => {
+    const path = `${process.env.TMPDIR ?? "/tmp"}/mdflow-attachment-${process.pid}.bin`;
+    await Bun.write(path, "binary bytes");
+    try {
+      const result = await runCommand({
+        command: "sh",
+        args: ["-c", "echo \"$1\"; cat", "sh"],
+        positionals: ["prompt"],
+        positionalMappings: new Map(),
+        captureOutput: true,
+        attachments: [path],
+        attachmentVia: { via: "stdin" },
+      });
+      expect(result.stdout).toBe("prompt\nbinary bytes");
+    } finally {
+      await Bun.file(path).delete();
+    }
+  });
+});
@@ -5,8 +5,11 @@
  * Integrates with ProcessManager for centralized process lifecycle management
  */
 
-import type { AgentFrontmatter } from "../types";
-import { basename } from "path";
+import type { AgentFrontmatter, AttachmentDelivery, PromptDelivery } from "../types";
+import { basename, join } from "path";
+import { tmpdir } from "os";
+import { mkdtempSync, writeFileSync, rmSync } from "fs";
+import { ConfigurationError } from "../errors";
 import { teeToStdoutAndCollect, teeToStderrAndCollect, teeToStdoutWithMarkdownAndCollect } from "../../utils/stream";
 import { stopSpinner, isSpinnerRunning } from "../../cli/ui/spinner";
 import { getProcessManager } from "./process-manager";
@@ -79,12 +82,21 @@ const SYSTEM_KEYS = new Set([
 
   // Execution control
   "_subcommand",
+  "_steps", // Multi-step pipeline definition
   "_cwd",
   "_dry-run",
   "_edit",
   "_trust",
   "_no-cache",
   "_no-menu", // Disable post-run action menu
+  "_json", // Emit JSON run report
+  "_session", // Record a session transcript
+  "_no-session", // Skip session transcript
+  "_watch", // Re-run on file changes
+  "_output_schema", // JSON Schema for validating command output
+  "_output_retries", // Repair attempts when output fails validation
+  "_prompt_via", // Prompt delivery: argv, stdin, or file
+  "_budget", // Token budget for content imports
 
   // Command override
   "_command",
@@ -272,8 +284,9 @@ export function extractEnvVars(frontmatter: AgentFrontmatter): Record<string, st
  * - "none": Inherit stdout/stderr, no capture (streaming to terminal)
  * - "capture": Pipe and buffer output, print after completion
  * - "tee": Tee streams - simultaneous display and capture (best of both)
+ * - "silent": Pipe and buffer output without printing (for --_json)
  */
-export type CaptureMode = "none" | "capture" | "tee";
+export type CaptureMode = "none" | "capture" | "tee" | "silent";
 
 export interface RunContext {
   /** The command to execute */
@@ -289,6 +302,7 @@ export interface RunContext {
    * - false / "none": inherit stdout, no capture
    * - true / "capture": pipe and buffer, print after completion
    * - "tee": stream to stdout while capturing (simultaneous display + capture)
+   * - "silent": pipe and buffer without printing anything
    */
   captureOutput: boolean | CaptureMode;
   /** Environment variables to add */
@@ -303,6 +317,17 @@ export interface RunContext {
    * Default: false (render markdown with syntax highlighting)
    */
   rawOutput?: boolean;
+  /**
+   * How the prompt ($1) reaches the command (see resolvePromptVia)
+   * - "argv" (default): positional argument or mapped flag
+   * - "stdin": written to the child's stdin, omitted from argv
+   * - "file": written to a 0600 temp file whose path replaces $1 in argv
+   */
+  promptVia?: PromptDelivery;
+  /** Binary files imported as attachments, passed per `attachmentVia` (see applyAttachments) */
+  attachments?: string[];
+  /** How the tool accepts attachments (the tool adapter's `attachments`) */
+  attachmentVia?: AttachmentDelivery;
 }
 
 export interface RunResult {
@@ -328,6 +353,84 @@ function normalizeCaptureMode(mode: boolean | CaptureMode): CaptureMode {
   return mode;
 }
 
+/** Valid `_prompt_via` values */
+export const PROMPT_DELIVERY_MODES: readonly PromptDelivery[] = ["argv", "stdin", "file"];
+
+/**
+ * Resolve how the prompt is delivered to the command
+ * Frontmatter `_prompt_via` (including config `commands` defaults) wins over the adapter.
+ *
+ * @param frontmatter - Frontmatter after defaults are applied
+ * @param adapterDefault - The tool adapter's promptVia
+ * @throws ConfigurationError for unknown values
+ */
+export function resolvePromptVia(
+  frontmatter: AgentFrontmatter,
+  adapterDefault: PromptDelivery = "argv"
+): PromptDelivery {
+  const value = frontmatter._prompt_via;
+  if (value === undefined || value === null || value === "") return adapterDefault;
+  if (!PROMPT_DELIVERY_MODES.includes(value as PromptDelivery)) {
+    throw new ConfigurationError(
+      `Invalid _prompt_via: ${String(value)} (expected ${PROMPT_DELIVERY_MODES.join(", ")})`
+    );
+  }
+  return value as PromptDelivery;
+}
+
+/**
+ * Apply attachments to a command invocation
+ *
+ * @param prompt - The prompt ($1)
+ * @param attachments - Attached file paths
+ * @param delivery - How the tool accepts attachments; undefined skips them all
+ * @param promptVia - Prompt delivery (stdin can carry the prompt or an attachment, not both)
+ * @returns The prompt (with `@path` mentions), args to append after the
+ *   prompt, the file to stream on stdin, and attachments the tool cannot take
+ * @throws ConfigurationError when stdin cannot carry the attachments
+ */
+export function applyAttachments(
+  prompt: string | undefined,
+  attachments: string[],
+  delivery: AttachmentDelivery | undefined,
+  promptVia: PromptDelivery = "argv"
+): { prompt: string | undefined; args: string[]; stdinFile?: string; skipped: string[] } {
+  if (attachments.length === 0) return { prompt, args: [], skipped: [] };
+  if (!delivery) return { prompt, args: [], skipped: attachments };
+
+  switch (delivery.via) {
+    case "mention": {
+      const mentions = attachments.map((path) => `@${path}`).join(" ");
+      return { prompt: prompt ? `${prompt}\n\n${mentions}` : mentions, args: [], skipped: [] };
+    }
+    case "flag":
+      if (!delivery.flag) throw new ConfigurationError("Attachment delivery via flag requires a flag name");
+      return { prompt, args: attachments.flatMap((path) => [toFlag(delivery.flag!), path]), skipped: [] };
+    case "stdin":
+      if (promptVia === "stdin") {
+        throw new ConfigurationError("Attachments cannot be sent on stdin when the prompt is (_prompt_via: stdin)");
+      }
+      if (attachments.length > 1) {
+        throw new ConfigurationError(`Only one attachment can be sent on stdin (got ${attachments.length})`);
+      }
+      return { prompt, args: [], stdinFile: attachments[0], skipped: [] };
+  }
+}
+
+/**
+ * Write a prompt to a private temp file (0600, inside a 0700 directory)
+ * Returns the file path and an idempotent cleanup function.
+ */
+function writePromptFile(prompt: string): { path: string; cleanup: () => void } {
+  const dir = mkdtempSync(join(tmpdir(), "mdflow-prompt-"));
+  const path = join(dir, "prompt.md");
+  writeFileSync(path, prompt, { mode: 0o600 });
+  return {
+    path,
+    cleanup: () => rmSync(dir, { recursive: true, force: true }),
+  };
+}
+
 /**
  * Execute command with positional arguments
  * Positionals are either passed as-is or mapped to flags via $N mappings
@@ -336,13 +439,20 @@ function normalizeCaptureMode(mode: boolean | CaptureMode): CaptureMode {
  * - "none": Inherit stdout/stderr (streaming to terminal, no capture)
  * - "capture": Pipe and buffer output, print after completion
  * - "tee": Stream to stdout/stderr while capturing (simultaneous display + capture)
+ * - "silent": Buffer stdout/stderr without printing (caller decides what to emit)
  *
  * Markdown rendering:
  * - By default, stdout is rendered as markdown with syntax highlighting
  * - Use rawOutput: true (--raw flag) to bypass rendering for piping
+ *
+ * Prompt delivery (promptVia) keeps large prompts out of argv and `ps` output.
+ * Attachments are passed the way the tool adapter declares (see applyAttachments).
  */
 export async function runCommand(ctx: RunContext): Promise<RunResult> {
-  const { command, args, positionals, positionalMappings, captureOutput, env, captureStderr = false, rawOutput = false } = ctx;
+  const {
+    command, args, positionalMappings, captureOutput, env,
+    captureStderr = false, rawOutput = false, promptVia = "argv", attachments = [], attachmentVia,
+  } = ctx;
 
   const mode = normalizeCaptureMode(captureOutput);
 
@@ -356,14 +466,34 @@ export async function runCommand(ctx: RunContext): Promise<RunResult> {
     return { exitCode: 127, stdout: "", stderr: "", output: "", process: null as unknown as ReturnType<typeof Bun.spawn> };
   }
 
+  // Attachments: `@path` mentions join the prompt, flags follow it, or a file goes to stdin
+  const attached = applyAttachments(ctx.positionals[0], attachments, attachmentVia, promptVia);
+  if (attached.skipped.length > 0) {
+    console.error(`Warning: ${command} does not accept attachments; skipped: ${attached.skipped.join(", ")}`);
+  }
+  const positionals = attachments.length > 0 && ctx.positionals.length > 0
+    ? [attached.prompt!, ...ctx.positionals.slice(1)]
+    : ctx.positionals;
+
+  const pm = getProcessManager();
+
+  // File delivery: $1 becomes the path of a private temp file holding the prompt
+  let promptFile: { path: string; cleanup: () => void } | undefined;
+  if (promptVia === "file" && positionals[0] !== undefined) {
+    promptFile = writePromptFile(positionals[0]);
+    pm.onCleanup(promptFile.cleanup);
+  }
+
   // Build final command args
   const finalArgs = [...args];
 
   // Process positional arguments
   for (let i = 0; i < positionals.length; i++) {
     const pos = i + 1; // $1 is first positional
-    const value = positionals[i];
+    const value = pos === 1 && promptFile ? promptFile.path : positionals[i];
     if (value === undefined) continue;
+    // Prompt delivered via stdin instead of argv
+    if (pos === 1 && promptVia === "stdin") continue;
 
     if (positionalMappings.has(pos)) {
       // Map to flag: $1: prompt → --prompt <value>
@@ -374,6 +504,7 @@ export async function runCommand(ctx: RunContext): Promise<RunResult> {
       finalArgs.push(value);
     }
   }
+  finalArgs.push(...attached.args);
 
   // Merge process.env with provided env
   const runEnv = env
@@ -383,18 +514,22 @@ export async function runCommand(ctx: RunContext): Promise<RunResult> {
   // Determine stdout/stderr pipe config based on mode
   // When spinner is running, we need to pipe stdout to detect first output
   const spinnerActive = isSpinnerRunning();
-  const shouldPipeStdout = mode === "capture" || mode === "tee" || spinnerActive;
-  const shouldPipeStderr = (mode === "capture" || mode === "tee") && captureStderr;
+  const shouldPipeStdout = mode === "capture" || mode === "tee" || mode === "silent" || spinnerActive;
+  const shouldPipeStderr = (mode === "capture" || mode === "tee" || mode === "silent") && captureStderr;
 
   const proc = Bun.spawn([command, ...finalArgs], {
     stdout: shouldPipeStdout ? "pipe" : "inherit",
     stderr: shouldPipeStderr ? "pipe" : "inherit",
-    stdin: "inherit",
+    stdin: promptVia === "stdin" ? "pipe" : attached.stdinFile ? Bun.file(attached.stdinFile) : "inherit",
     env: runEnv,
   });
 
+  if (promptVia === "stdin" && typeof proc.stdin === "object" && proc.stdin) {
+    proc.stdin.write(positionals[0] ?? "");
+    proc.stdin.end();
+  }
+
   // Register with ProcessManager for centralized lifecycle management
-  const pm = getProcessManager();
   pm.register(proc, command);
 
   // Store reference for legacy signal handling (deprecated)
@@ -431,6 +566,14 @@ export async function runCommand(ctx: RunContext): Promise<RunResult> {
     }
 
     await Promise.all(promises);
+  } else if (mode === "silent") {
+    stopSpinner();
+
+    // Silent mode: buffer raw output, nothing is printed or rendered
+    [stdout, stderr] = await Promise.all([
+      proc.stdout ? new Response(proc.stdout).text() : Promise.resolve(""),
+      proc.stderr && shouldPipeStderr ? new Response(proc.stderr).text() : Promise.resolve(""),
+    ]);
   } else if (mode === "capture") {
     // Stop spinner before reading output
     stopSpinner();
@@ -482,6 +625,11 @@ export async function runCommand(ctx: RunContext): Promise<RunResult> {
 
   const exitCode = await proc.exited;
 
+  if (promptFile) {
+    promptFile.cleanup();
+    pm.offCleanup(promptFile.cleanup);
+  }
+
   // Ensure spinner is stopped (in case process exited without output)
   stopSpinner();
 
@@ -10,17 +10,25 @@
 
 import { dirname, resolve } from "path";
 import { parseFrontmatter } from "./agent/parse";
-import { substituteTemplateVars, extractTemplateVars } from "./agent/template";
+import { substituteTemplateVars, extractTemplateVars, INTERNAL_FRONTMATTER_KEYS } from "./agent/template";
 import { isRemoteUrl, fetchRemote, cleanupRemote } from "../features/remote";
-import { resolveCommand, buildArgs, runCommand, extractPositionalMappings, extractEnvVars, killCurrentChildProcess } from "./execution/command";
+import {
+  resolveCommand, buildArgs, runCommand, extractPositionalMappings, extractEnvVars, killCurrentChildProcess,
+  resolvePromptVia,
+} from "./execution/command";
 import { expandImports, hasImports, type ResolvedImportsTracker } from "../features/imports/index";
 import { loadEnvFiles } from "../features/env";
-import { loadGlobalConfig, getCommandDefaults, applyDefaults } from "../features/config";
+import {
+  loadGlobalConfig, loadFullConfig, getCommandDefaults, applyDefaults, registerConfiguredAdapters,
+  registerConfiguredTokenizers,
+} from "../features/config";
+import { getAdapter } from "./adapters/index";
 import { initLogger, getParseLogger, getTemplateLogger, getCommandLogger, getImportLogger, getCurrentLogPath } from "../features/logger";
 import type { AgentFrontmatter, ExecutionPlan } from "./types";
 import type { RunResult } from "./execution/command";
-import { countTokens } from "./agent/tokenizer";
+import { countTokensForModel } from "./agent/tokenizer";
 import {
+  ConfigurationError,
   FileNotFoundError,
   NetworkError,
   ImportError,
@@ -28,6 +36,8 @@ import {
   HookError,
 } from "./errors";
 import { maskArgsArray } from "../features/secrets";
+import { runSteps, type StepsResult } from "../features/steps";
+import { classifyCapabilities, createPolicyChecker } from "../features/policy";
 
 /**
  * Run a lifecycle hook command and capture its output
@@ -142,6 +152,11 @@ export interface RuntimeOptions {
    * When true, dry-run returns ExecutionPlan instead of logging
    */
   returnPlan?: boolean;
+  /**
+   * Absolute paths of agents currently running as `_steps` ancestors
+   * Used internally to detect step cycles
+   */
+  stepChain?: string[];
 }
 
 /**
@@ -158,6 +173,8 @@ export interface RuntimeResult {
   dryRun: boolean;
   /** Structured execution plan (when returnPlan is true or dryRun is true) */
   plan?: ExecutionPlan;
+  /** Captured output of each `_steps` entry, keyed by step name */
+  stepOutputs?: Record<string, string>;
 }
 
 /**
@@ -244,11 +261,22 @@ export class AgentRuntime {
       getCommandLogger().debug({ command }, "Command resolved from filename");
     }
 
-    // Load global config and apply command defaults
+    // Register config-declared adapters and tokenizers, then load global config and apply command defaults
+    const config = await loadFullConfig(resolved.directory);
+    await registerConfiguredAdapters(config);
+    await registerConfiguredTokenizers(config);
     await loadGlobalConfig();
     const commandDefaults = await getCommandDefaults(command);
     const frontmatter = applyDefaults(baseFrontmatter, commandDefaults);
 
+    // Trust policy (config `policy:`): there is no prompt here, so a remote
+    // agent's capabilities must be allowed by config
+    const remote = resolved.type === "remote";
+    const policy = createPolicyChecker({
+      rules: config.policy ?? [], scope: remote ? resolved.originalSource : resolve(resolved.path), remote, interactive: false,
+    });
+    await policy.check(classifyCapabilities(baseFrontmatter, rawBody));
+
     // Extract and apply environment variables (object form) to process.env
     // This must happen BEFORE import expansion so !`command` inlines can use them
     const envVars = extractEnvVars(frontmatter);
@@ -265,7 +293,7 @@ export class AgentRuntime {
     if (hasImports(rawBody)) {
       try {
         getImportLogger().debug({ directory: resolved.directory }, "Expanding imports");
-        expandedBody = await expandImports(rawBody, resolved.directory, new Set(), false, resolvedImports);
+        expandedBody = await expandImports(rawBody, resolved.directory, new Set(), false, { resolvedImports, policy });
         getImportLogger().debug({ originalLength: rawBody.length, expandedLength: expandedBody.length }, "Imports expanded");
       } catch (err) {
         getImportLogger().error({ error: (err as Error).message }, "Import expansion failed");
@@ -328,9 +356,8 @@ export class AgentRuntime {
 
     // Extract _varname fields from frontmatter and match with --_varname CLI flags
     // Variables starting with _ are template variables (except internal keys)
-    const internalKeys = new Set(["_interactive", "_i", "_cwd", "_subcommand"]);
     const namedVarFields = Object.keys(frontmatter)
-      .filter(key => key.startsWith("_") && !internalKeys.has(key));
+      .filter(key => key.startsWith("_") && !INTERNAL_FRONTMATTER_KEYS.has(key));
 
     for (const key of namedVarFields) {
       const defaultValue = frontmatter[key];
@@ -405,7 +432,7 @@ export class AgentRuntime {
     processed: ProcessedTemplate,
     options: RuntimeOptions = {}
   ): Promise<RunResult> {
-    const { command, envVars, preHookOutput } = context;
+    const { command, envVars, preHookOutput, frontmatter } = context;
     const { body, args, positionalMappings } = processed;
 
     // Build final prompt with pre-hook output
@@ -429,6 +456,7 @@ export class AgentRuntime {
       positionalMappings,
       captureOutput: options.captureOutput ?? false,
       env: envVars,
+      promptVia: resolvePromptVia(frontmatter, getAdapter(command).promptVia),
     });
 
     getCommandLogger().info({ exitCode: result.exitCode }, "Command completed");
@@ -436,6 +464,49 @@ export class AgentRuntime {
     return result;
   }
 
+  /**
+   * Steps Phase - Run `_steps` child agents in order
+   *
+   * Each step's captured stdout is fed into the next step as `{{ _prev }}`,
+   * and every output is exposed by name as `{{ _step_<name> }}`.
+   * In dry-run mode, steps are planned rather than executed and their
+   * outputs are replaced with placeholders.
+   *
+   * @param resolved - Resolved source of the parent agent
+   * @param context - Parent agent context
+   * @param options - Runtime options of the parent agent
+   * @returns Step output variables and nested plans
+   * @throws CommandError if a step exits non-zero
+   */
+  async runSteps(
+    resolved: ResolvedSource,
+    context: AgentContext,
+    options: RuntimeOptions = {}
+  ): Promise<StepsResult> {
+    return runSteps(context.frontmatter._steps, resolved.path, {
+      chain: options.stepChain || [],
+      dryRun: !!options.dryRun,
+      exists: (path) => Bun.file(path).exists(),
+      runStep: async (step, stepPath, inherited) => {
+        getCommandLogger().debug({ step: step.name, agent: stepPath }, "Running step");
+        const result = await new AgentRuntime().run(stepPath, {
+          command: step.command,
+          stdinContent: options.stdinContent,
+          dryRun: options.dryRun,
+          returnPlan: true,
+          captureOutput: true,
+          templateVars: { ...(options.templateVars || {}), ...inherited.vars },
+          promptForMissing: options.promptForMissing,
+          stepChain: inherited.stepChain,
+        });
+        if (result.exitCode !== 0) {
+          getCommandLogger().error({ step: step.name, exitCode: result.exitCode }, "Step failed");
+        }
+        return result;
+      },
+    });
+  }
+
   /**
    * Run a complete agent pipeline
    *
@@ -453,6 +524,40 @@ export class AgentRuntime {
       // Phase 2: Context Building
       const context = await this.buildContext(resolved, options);
 
+      // Phase 2b: Steps (if configured) - outputs become template variables
+      let stepPlans: ExecutionPlan[] | undefined;
+      let stepOutputs: Record<string, string> | undefined;
+      if (context.frontmatter._steps !== undefined) {
+        const steps = await this.runSteps(resolved, context, options);
+        stepPlans = steps.plans;
+        stepOutputs = Object.fromEntries(
+          Object.entries(steps.templateVars)
+            .filter(([key]) => key.startsWith("_step_"))
+            .map(([key, value]) => [key.slice("_step_".length), value])
+        );
+
+        options = {
+          ...options,
+          templateVars: { ...(options.templateVars || {}), ...steps.templateVars },
+        };
+
+        // A steps-only agent (empty body) yields the last step's output
+        if (!context.expandedBody.trim() && !options.dryRun) {
+          const output = steps.templateVars["_prev"] ?? "";
+          if (!options.captureOutput && output) {
+            console.log(output);
+          }
+          await this.cleanup();
+          return {
+            exitCode: 0,
+            output,
+            logPath: this.logPath,
+            dryRun: false,
+            stepOutputs,
+          };
+        }
+      }
+
       // Phase 3: Template Processing
       const processed = await this.processTemplate(context, options);
 
@@ -466,8 +571,11 @@ export class AgentRuntime {
         }
         // Note: stdin is already substituted as $stdin during processTemplate phase
 
-        // Use real token counting instead of approximation
-        const estimatedTokens = countTokens(finalBody);
+        // Use the model's tokenizer instead of approximation
+        const { tokens: estimatedTokens, tokenizer } = await countTokensForModel(finalBody, {
+          model: context.frontmatter.model as string | undefined,
+          command: context.command,
+        });
 
         // Convert positionalMappings Map to plain object for ExecutionPlan
         const positionalMappingsObj: Record<number, string> = {};
@@ -483,10 +591,12 @@ export class AgentRuntime {
           args: processed.args,
           env: context.envVars || {},
           estimatedTokens,
+          tokenizer,
           frontmatter: context.frontmatter,
           resolvedImports: context.resolvedImports,
           templateVars: processed.templateVars,
           positionalMappings: positionalMappingsObj,
+          ...(stepPlans ? { steps: stepPlans } : {}),
         };
 
         // Only log to console if not in returnPlan mode (backward compatibility for CLI)
@@ -504,7 +614,14 @@ export class AgentRuntime {
           console.log(finalBody);
           console.log("───────────────────────────────────────────────────────────\n");
 
-          console.log(`Estimated tokens: ~${estimatedTokens.toLocaleString()}`);
+          console.log(`Estimated tokens: ~${estimatedTokens.toLocaleString()} (${tokenizer})`);
+
+          if (stepPlans && stepPlans.length > 0) {
+            console.log(`\nSteps (${stepPlans.length}):`);
+            for (const stepPlan of stepPlans) {
+              console.log(`   ${stepPlan.stepName}: ${stepPlan.command} (~${stepPlan.estimatedTokens.toLocaleString()} tokens)`);
+            }
+          }
         }
 
         await this.cleanup();
@@ -514,6 +631,7 @@ export class AgentRuntime {
           logPath: this.logPath,
           dryRun: true,
           plan,
+          stepOutputs,
         };
       }
 
@@ -542,6 +660,7 @@ export class AgentRuntime {
         output: result.output,
         logPath: this.logPath,
         dryRun: false,
+        stepOutputs,
       };
 
     } catch (err) {
@@ -599,6 +718,9 @@ export function createRuntime(): AgentRuntime {
   return new AgentRuntime();
 }
 
+// Re-export step parsing (shared with CliRunner)
+export { parseSteps, type StepDefinition, type StepsResult } from "../features/steps";
+
 // Re-export ExecutionPlan for convenience
 export type { ExecutionPlan } from "./types";
 
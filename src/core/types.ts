@@ -129,14 +129,42 @@ export interface ExecutionPlan {
   env: Record<string, string>;
   /** Estimated token count for the final prompt */
   estimatedTokens: number;
+  /** Tokenizer used for estimatedTokens (e.g., "o200k_base") */
+  tokenizer?: string;
   /** The parsed and merged frontmatter configuration */
   frontmatter: AgentFrontmatter;
   /** List of files that were imported/resolved (relative paths) */
   resolvedImports: string[];
+  /** Binary files imported as attachments (absolute paths), passed per the tool adapter */
+  attachments?: string[];
   /** Template variables that were substituted */
   templateVars: Record<string, string>;
   /** Positional mappings from frontmatter ($1, $2, etc.) */
   positionalMappings: Record<number, string>;
+  /** Step name when this plan belongs to a `_steps` entry */
+  stepName?: string;
+  /** Nested plans for each `_steps` entry, in execution order */
+  steps?: ExecutionPlan[];
+}
+
+/**
+ * Single JSON document emitted by `--_json` mode
+ *
+ * Wraps the ExecutionPlan (with masked args) together with per-phase
+ * timings and the child's captured output, so scripts can consume a run
+ * without parsing terminal output.
+ */
+export interface RunReport {
+  /** The plan that was executed (type "executed") or previewed (type "dry-run") */
+  plan: ExecutionPlan;
+  /** Wall-clock duration of each phase in milliseconds */
+  timings: Record<string, number>;
+  /** Captured stdout of the command (empty for dry runs) */
+  stdout: string;
+  /** Captured stderr of the command (empty for dry runs) */
+  stderr: string;
+  /** Exit code of the command (0 for dry runs) */
+  exitCode: number;
 }
 
 /**
@@ -162,6 +190,165 @@ export interface Logger {
 export interface GlobalConfig {
   /** Default settings per command */
   commands?: Record<string, CommandDefaults>;
+  /** Tool adapters declared in config (registered at startup) */
+  adapters?: Record<string, AdapterConfig>;
+  /** Custom tokenizers declared in config (registered at startup) */
+  tokenizers?: Record<string, TokenizerConfig>;
+  /** Sandbox applied to every agent's commands (see SandboxConfig) */
+  sandbox?: SandboxConfig;
+  /** Keys trusted to sign remote agents: `ed25519 <base64 key> <signer>` lines */
+  trusted_keys?: string[];
+  /** Trust policy rules allowing or denying capabilities (see PolicyRuleConfig) */
+  policy?: PolicyRuleConfig[];
+  /** Agent registries for md install: index.json URLs or directories, searched in order */
+  registries?: string[];
+}
+
+/**
+ * Trust policy rule (config `policy:`, see features/policy)
+ *
+ * Example:
+ * ```yaml
+ * policy:
+ *   - match: raw.githubusercontent.com
+ *     allow: [command, "import:*.github.com"]
+ *     deny: [hook]
+ * ```
+ */
+export interface PolicyRuleConfig {
+  /** Agents and imports the rule applies to: domain, URL glob, or path glob */
+  match: string;
+  /** Capabilities allowed: import[:domain], command, code-fence, hook, env, or * */
+  allow?: string[];
+  /** Capabilities denied (wins over allow) */
+  deny?: string[];
+}
+
+/**
+ * Sandbox for command inlines and executable code fences
+ * (config `sandbox:` and frontmatter `_sandbox:`, see features/sandbox)
+ *
+ * Example:
+ * ```yaml
+ * sandbox:
+ *   commands: [git, ls]
+ *   timeout: 10s
+ * ```
+ */
+export interface SandboxConfig {
+  /** Programs commands may run (default: any) */
+  commands?: string[];
+  /** "strip" (default) drops env vars that look like secrets */
+  env?: "strip" | "inherit";
+  /** Wall-clock limit per command: milliseconds or a duration like "30s" */
+  timeout?: number | string;
+  /** Characters kept from each command's output */
+  max_output?: number;
+  /** Run with a read-only working directory (default: true) */
+  read_only?: boolean;
+  /** Let remote agents run commands (global config only) */
+  remote?: boolean;
+}
+
+/**
+ * Custom tokenizer from config.yaml / project config (e.g., for local models)
+ *
+ * Example:
+ * ```yaml
+ * tokenizers:
+ *   llama:
+ *     models: [llama, mistral]
+ *     commands: [ollama]
+ *     chars_per_token: 3.6
+ *   qwen:
+ *     models: [qwen]
+ *     base: cl100k
+ *     ratio: 1.1
+ *   sentencepiece:
+ *     models: [my-model]
+ *     module: ./tokenizers/sp.ts
+ * ```
+ */
+export interface TokenizerConfig {
+  /** Model names (substring match) that use this tokenizer */
+  models?: string[];
+  /** Commands (adapter names) that use this tokenizer when no model matches */
+  commands?: string[];
+  /** Estimate tokens as characters / chars_per_token */
+  chars_per_token?: number;
+  /** Built-in family (o200k, cl100k, claude, gemini) scaled by `ratio` */
+  base?: string;
+  /** Multiplier applied to the estimate (default: 1) */
+  ratio?: number;
+  /**
+   * Path to a TypeScript/JavaScript module exporting a Tokenizer
+   * (default export or named `tokenizer`). Relative to the config file.
+   */
+  module?: string;
+}
+
+/**
+ * How the prompt body is delivered to the command
+ * - argv: as a positional argument (or a $N-mapped flag)
+ * - stdin: streamed to the child's stdin
+ * - file: written to a 0600 temp file whose path replaces the prompt in args
+ */
+export type PromptDelivery = "argv" | "stdin" | "file";
+
+/**
+ * How attachments (binary imports such as images) are passed to the command
+ * - flag: `--<flag> <path>` per file, after the prompt (e.g., codex --image)
+ * - mention: `@<path>` per file, appended to the prompt (e.g., claude, gemini)
+ * - stdin: the file's bytes streamed to stdin (one file; not with `_prompt_via: stdin`)
+ */
+export interface AttachmentDelivery {
+  via: "flag" | "mention" | "stdin";
+  /** Flag name when via is "flag" (e.g., "image" → --image <path>) */
+  flag?: string;
+}
+
+/**
+ * Declarative tool adapter from config.yaml / project config
+ *
+ * Example:
+ * ```yaml
+ * adapters:
+ *   aider:
+ *     defaults:
+ *       yes-always: true
+ *     interactive:
+ *       remove: [yes-always]
+ *     prompt: flag
+ *     prompt_flag: message
+ *   ollama:
+ *     module: ./adapters/ollama.ts
+ * ```
+ */
+export interface AdapterConfig {
+  /** Print-mode defaults (same shape as `commands.<tool>`) */
+  defaults?: CommandDefaults;
+  /** Interactive mode transformations */
+  interactive?: {
+    /** Frontmatter keys (flags) to remove in interactive mode */
+    remove?: string[];
+    /** Frontmatter keys (flags) to add or override in interactive mode */
+    add?: CommandDefaults;
+  };
+  /** How the prompt is passed: positional (default), flag, or stdin */
+  prompt?: "positional" | "flag" | "stdin";
+  /** Flag name used when prompt is "flag" (e.g., "message" → --message <body>) */
+  prompt_flag?: string;
+  /** Prompt delivery (overrides `prompt: stdin`); "file" passes a temp file path */
+  prompt_via?: PromptDelivery;
+  /** How attachments are passed (see AttachmentDelivery); without it they are skipped */
+  attachments?: AttachmentDelivery["via"];
+  /** Flag name used when attachments is "flag" (e.g., "image" → --image <path>) */
+  attachment_flag?: string;
+  /**
+   * Path to a TypeScript/JavaScript module exporting a ToolAdapter
+   * (default export or named `adapter`). Relative to the config file.
+   */
+  module?: string;
 }
 
 /**
@@ -241,4 +428,15 @@ export interface ToolAdapter {
    * @returns Transformed frontmatter for interactive mode
    */
   applyInteractiveMode(frontmatter: AgentFrontmatter): AgentFrontmatter;
+
+  /**
+   * How the prompt body is delivered to the tool (defaults to "argv")
+   */
+  promptVia?: PromptDelivery;
+
+  /**
+   * How attachments (binary imports such as images) are passed to the tool
+   * Tools without it cannot receive attachments; they are skipped with a warning.
+   */
+  attachments?: AttachmentDelivery;
 }
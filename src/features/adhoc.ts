@@ -9,9 +9,13 @@
  * 2. Treat the first non-flag argument as the prompt body
  * 3. Create a virtual agent with the prompt as body content
  * 4. Pass through the normal execution flow
+ *
+ * Besides the built-in commands, any tool with a registered adapter
+ * (including adapters declared under `adapters:` in config) is accepted.
  */
 
 import { basename } from "path";
+import { hasAdapter } from "../core/adapters/index";
 
 /** Supported command aliases */
 export const SUPPORTED_COMMANDS = [
@@ -25,6 +29,14 @@ export const SUPPORTED_COMMANDS = [
 
 export type SupportedCommand = typeof SUPPORTED_COMMANDS[number];
 
+/**
+ * Check whether a name can be used as an ad-hoc command
+ * (built-in alias or a registered tool adapter)
+ */
+export function isAdhocCommandName(name: string): boolean {
+  return (SUPPORTED_COMMANDS as readonly string[]).includes(name) || hasAdapter(name);
+}
+
 /**
  * Result of parsing an ad-hoc command invocation
  */
@@ -32,7 +44,7 @@ export interface AdhocCommandResult {
   /** Whether this was an ad-hoc invocation (md.COMMAND) */
   isAdhoc: boolean;
   /** The extracted command name (e.g., "claude") */
-  command?: SupportedCommand;
+  command?: SupportedCommand | string;
   /** The prompt body (first non-flag argument) */
   body?: string;
   /** Remaining arguments (flags to pass through) */
@@ -80,24 +92,24 @@ export function detectAdhocCommand(argv: string[]): AdhocCommandResult {
  * - md.i.claude -> claude (interactive mode)
  * - md.claude.ts -> claude (for bun run scenarios)
  */
-function parseAdhocFromName(name: string): { isAdhoc: boolean; command?: SupportedCommand; interactive?: boolean } {
+function parseAdhocFromName(name: string): { isAdhoc: boolean; command?: string; interactive?: boolean } {
   // Remove common extensions
   const cleanName = name.replace(/\.(ts|js|mjs|cjs)$/, "");
 
   // Pattern: md.i.COMMAND (interactive mode)
-  const interactiveMatch = cleanName.match(/^md\.i\.([a-z]+)$/i);
+  const interactiveMatch = cleanName.match(/^md\.i\.([a-z][a-z0-9_-]*)$/i);
   if (interactiveMatch) {
-    const cmd = interactiveMatch[1]?.toLowerCase() as SupportedCommand;
-    if (SUPPORTED_COMMANDS.includes(cmd)) {
+    const cmd = interactiveMatch[1]!.toLowerCase();
+    if (isAdhocCommandName(cmd)) {
       return { isAdhoc: true, command: cmd, interactive: true };
     }
   }
 
   // Pattern: md.COMMAND
-  const match = cleanName.match(/^md\.([a-z]+)$/i);
+  const match = cleanName.match(/^md\.([a-z][a-z0-9_-]*)$/i);
   if (match) {
-    const cmd = match[1]?.toLowerCase() as SupportedCommand;
-    if (SUPPORTED_COMMANDS.includes(cmd)) {
+    const cmd = match[1]!.toLowerCase();
+    if (isAdhocCommandName(cmd)) {
       return { isAdhoc: true, command: cmd, interactive: false };
     }
   }
@@ -154,7 +166,7 @@ function flagTakesValue(flag: string): boolean {
  * - OR is the first non-flag arg after processing known flag/value pairs
  */
 function parseAdhocArgs(
-  command: SupportedCommand,
+  command: string,
   interactive: boolean,
   args: string[]
 ): AdhocCommandResult {
@@ -201,7 +213,7 @@ function parseAdhocArgs(
  * Generates markdown content that can be processed by the normal flow
  */
 export function createVirtualAgentContent(
-  command: SupportedCommand,
+  command: SupportedCommand | string,
   body: string,
   interactive: boolean = false
 ): string {
@@ -219,7 +231,7 @@ export function createVirtualAgentContent(
  *
  * Returns a filename pattern that will resolve to the correct command
  */
-export function createVirtualFilename(command: SupportedCommand, interactive: boolean = false): string {
+export function createVirtualFilename(command: SupportedCommand | string, interactive: boolean = false): string {
   if (interactive) {
     return `adhoc.i.${command}.md`;
   }
@@ -0,0 +1,209 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, rm, writeFile, mkdir, utimes } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import {
+  resolveBudget,
+  getImportPriority,
+  outlineSource,
+  truncateToTokens,
+  fitToBudget,
+  DEFAULT_RESERVE_FOR_OUTPUT,
+  type BudgetPolicy,
+  type BudgetMember,
+  type TokenCounter,
+} from "./budget";
+import { expandContentImports, type ImportContext } from "./imports/index";
+import { renderDashboard } from "./dashboard";
+import { estimateTokens } from "../core/agent/tokenizer";
+
+const policy = (maxTokens: number, extra: Partial<BudgetPolicy> = {}): BudgetPolicy => ({
+  maxTokens, reserveForOutput: 0, priorities: {}, drop: "size", ...extra,
+});
+
+const renderGlob = (members: BudgetMember[]) => members.map((m) => `<${m.path}>\n${m.content}`).join("\n");
+
+describe("resolveBudget", () => {
+  it("returns undefined without _budget", () => {
+    expect(resolveBudget({})).toBeUndefined();
+    expect(resolveBudget({ _budget: false })).toBeUndefined();
+  });
+
+  it("defaults max_tokens to the model context window", () => {
+    expect(resolveBudget({ _budget: true, model: "gpt-4" })).toEqual({
+      maxTokens: 128000, reserveForOutput: DEFAULT_RESERVE_FOR_OUTPUT, priorities: {}, drop: "size",
+    });
+    expect(resolveBudget({ _budget: 20000 })?.maxTokens).toBe(20000);
+  });
+
+  it("parses the object form", () => {
+    const parsed = resolveBudget({
+      _budget: { max_tokens: 10000, reserve_for_output: 2000, drop: "recency", priority: { "./src/**": 5 } },
+    });
+    expect(parsed).toEqual({ maxTokens: 10000, reserveForOutput: 2000, priorities: { "./src/**": 5 }, drop: "recency" });
+  });
+
+  it("rejects malformed policies", () => {
+    expect(() => resolveBudget({ _budget: "lots" })).toThrow("_budget must be");
+    expect(() => resolveBudget({ _budget: { max_tokens: 100, reserve_for_output: 100 } })).toThrow("must be less than");
+    expect(() => resolveBudget({ _budget: { drop: "random" } })).toThrow("Invalid _budget.drop");
+    expect(() => resolveBudget({ _budget: { priority: { "./a.ts": "high" } } })).toThrow("must be a number");
+  });
+});
+
+describe("getImportPriority", () => {
+  it("matches exact imports and globs, ignoring ./", () => {
+    const priorities = { "./src/**": 5, "docs/*.md": -1, "./src/**/*.ts": 9 };
+    expect(getImportPriority("./src/a.ts", priorities)).toBe(5);
+    expect(getImportPriority("./docs/intro.md", priorities)).toBe(-1);
+    expect(getImportPriority("./src/**/*.ts", priorities)).toBe(9);
+    expect(getImportPriority("./README.md", priorities)).toBe(0);
+  });
+});
+
+describe("outlineSource / truncateToTokens", () => {
+  it("keeps only declaration lines of source files", async () => {
+    const source = [
+      "import { x } from './x';",
+      "export interface Widget {",
+      "  id: string;",
+      "}",
+      "export async function build(id: string): Promise<Widget> {",
+      "  return { id };",
+      "}",
+    ].join("\n");
+    const outline = (await outlineSource(source, "widget.ts"))!;
+    expect(outline).toContain("export interface Widget\n");
+    expect(outline).toContain("export async function build(id: string): Promise<Widget>");
+    expect(outline).not.toContain("return { id }");
+    expect(await outlineSource(source, "notes.md")).toBeUndefined();
+  });
+
+  it("truncates by lines with a marker", () => {
+    const text = Array.from({ length: 100 }, (_, i) => `line ${i}`).join("\n");
+    const truncated = truncateToTokens(text, 20);
+    expect(truncated.startsWith("line 0\nline 1")).toBe(true);
+    expect(truncated).toContain("truncated by _budget");
+    expect(truncateToTokens("short", 20)).toBe("short");
+  });
+});
+
+describe("fitToBudget", () => {
+  const big = (label: string, lines: number) =>
+    Array.from({ length: lines }, (_, i) => `${label} paragraph ${i} with some filler text`).join("\n");
+
+  it("leaves imports alone when they fit", async () => {
+    const { contents, report } = await fitToBudget([{ source: "./a.md", kind: "file", content: "hi" }], 10, policy(1000), renderGlob);
+    expect(contents).toEqual(["hi"]);
+    expect(report).toMatchObject({ fits: true, trims: [] });
+  });
+
+  it("trims lower-priority imports first", async () => {
+    const items = [
+      { source: "./keep.md", kind: "file" as const, content: big("keep", 50) },
+      { source: "./notes.md", kind: "file" as const, content: big("notes", 50) },
+    ];
+    const keepTokens = estimateTokens(items[0]!.content);
+    const { contents, report } = await fitToBudget(
+      items, 0, policy(keepTokens + 200, { priorities: { "./keep.md": 1 } }), renderGlob
+    );
+
+    expect(contents[0]).toBe(items[0]!.content);
+    expect(contents[1]).toContain("truncated by _budget");
+    expect(report.fits).toBe(true);
+    expect(report.trims.map((t) => [t.source, t.actions])).toEqual([["./notes.md", ["truncated"]]]);
+  });
+
+  it("drops glob members largest-first or oldest-first", async () => {
+    const members: BudgetMember[] = [
+      { path: "small.md", content: big("small", 5), mtimeMs: 1 },
+      { path: "large.md", content: big("large", 60), mtimeMs: 3 },
+      { path: "medium.md", content: big("medium", 30), mtimeMs: 2 },
+    ];
+    const item = { source: "./docs/*.md", kind: "glob" as const, content: renderGlob(members), members };
+    const limit = estimateTokens(renderGlob(members)) - 50;
+
+    const bySize = await fitToBudget([item], 0, policy(limit), renderGlob);
+    expect(bySize.contents[0]).not.toContain("<large.md>");
+    expect(bySize.contents[0]).toContain("<medium.md>");
+    expect(bySize.report.trims[0]!.detail).toBe("dropped 1 of 3 files (largest first)");
+
+    const byRecency = await fitToBudget([item], 0, policy(limit, { drop: "recency" }), renderGlob);
+    expect(byRecency.contents[0]).not.toContain("<small.md>");
+    expect(byRecency.contents[0]).not.toContain("<medium.md>");
+    expect(byRecency.contents[0]).toContain("<large.md>");
+  });
+
+  it("outlines source files before truncating", async () => {
+    const source = Array.from({ length: 40 }, (_, i) =>
+      `export function fn${i}(value: number): number {\n  const doubled = value * 2;\n  return doubled + ${i};\n}`
+    ).join("\n");
+    const item = { source: "./lib.ts", kind: "file" as const, content: source };
+    const { contents, report } = await fitToBudget([item], 0, policy(estimateTokens(source) / 2), renderGlob);
+
+    expect(contents[0]).toContain("export function fn0(value: number): number");
+    expect(contents[0]).not.toContain("doubled");
+    expect(report.trims[0]!.actions).toEqual(["outlined"]);
+  });
+
+  it("reports when the fixed body alone exceeds the limit", async () => {
+    const { report } = await fitToBudget([{ source: "./a.md", kind: "file", content: big("a", 20) }], 500, policy(100), renderGlob);
+    expect(report.fits).toBe(false);
+    expect(report.trims[0]!.actions).toEqual(["dropped"]);
+  });
+
+  it("counts with the given tokenizer", async () => {
+    const content = big("notes", 50);
+    // A tokenizer counting twice the estimate needs the import cut to about half
+    const double: TokenCounter = async (text) => 2 * estimateTokens(text);
+    const limit = estimateTokens(content);
+    const { contents, report } = await fitToBudget([{ source: "./notes.md", kind: "file", content }], 0, policy(limit), renderGlob, double);
+
+    expect(report.tokensBefore).toBe(2 * limit);
+    expect(report.fits).toBe(true);
+    expect(await double(contents[0]!)).toBeLessThanOrEqual(limit);
+  });
+});
+
+describe("budget in the import pipeline", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "budget-test-"));
+    await mkdir(join(dir, "docs"));
+    await writeFile(join(dir, "docs", "old.md"), "old ".repeat(400));
+    await writeFile(join(dir, "docs", "new.md"), "new ".repeat(400));
+    await utimes(join(dir, "docs", "old.md"), new Date(1000), new Date(1000));
+    await writeFile(join(dir, "main.md"), "Main file content");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("trims glob members and records a report for the dashboard", async () => {
+    const budget: NonNullable<ImportContext["budget"]> = {
+      policy: policy(600, { drop: "recency", priorities: { "./main.md": 10 } }),
+    };
+    const result = await expandContentImports("@./main.md\n\n@./docs/*.md", dir, new Set(), false, { budget });
+
+    expect(result).toContain("Main file content");
+    expect(result).toContain("new new");
+    expect(result).not.toContain("old old");
+    expect(budget.report?.fits).toBe(true);
+    expect(budget.report?.trims).toHaveLength(1);
+
+    const dashboard = renderDashboard(
+      { promptFile: "agent.md", items: [], totalSize: 0, totalFiles: 1, estimatedTokens: 0, budget: budget.report },
+      { color: false }
+    );
+    expect(dashboard).toContain("Budget: ~");
+    expect(dashboard).toContain("./docs/*.md dropped 1 of 2 files (oldest first)");
+  });
+
+  it("does not trim without a budget", async () => {
+    const result = await expandContentImports("@./docs/*.md", dir, new Set(), false, {});
+    expect(result).toContain("old old");
+    expect(result).toContain("new new");
+  });
+});
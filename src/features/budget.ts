@@ -0,0 +1,382 @@
+/**
+ * Token budget enforcement for content imports (`_budget`)
+ *
+ * ```yaml
+ * _budget:
+ *   max_tokens: 60000          # defaults to the model's context window
+ *   reserve_for_output: 8000   # tokens kept free for the response
+ *   drop: size                 # glob members dropped largest-first (or "recency": oldest-first)
+ *   priority:
+ *     "./src/core/**": 10      # higher priority is trimmed last
+ *     "./docs/*.md": -5
+ * ```
+ *
+ * After Phase 1 resolves the agent's top-level imports, fitToBudget shrinks
+ * the lowest-priority imports first until the prompt fits:
+ *   1. Source files are replaced with symbol-only outlines
+ *   2. Glob members are dropped by size or recency
+ *   3. Remaining content is truncated (or dropped entirely)
+ *
+ * Token counts use the model's tokenizer (see countTokensForModel), matching
+ * the context dashboard. Command inlines (!`cmd`) run after Phase 1 and are not trimmed.
+ */
+
+import { Glob } from "bun";
+import { ConfigurationError } from "../core/errors";
+import { estimateTokens, getContextLimit, countTokensForModel } from "../core/agent/tokenizer";
+import type { AgentFrontmatter } from "../core/types";
+import { outlineFile } from "./imports/outline";
+
+/** Default tokens kept free for the model's response */
+export const DEFAULT_RESERVE_FOR_OUTPUT = 4096;
+
+/** Priority of imports not listed under `_budget.priority` */
+export const DEFAULT_IMPORT_PRIORITY = 0;
+
+/** Slack left for truncation markers; imports that would keep less than twice this are dropped */
+const MIN_TRUNCATED_TOKENS = 32;
+
+/** Counts tokens for budget fitting */
+export type TokenCounter = (text: string) => Promise<number>;
+
+/** How glob members are dropped */
+export type BudgetDropOrder = "size" | "recency";
+
+/** Parsed `_budget` policy */
+export interface BudgetPolicy {
+  /** Total prompt window in tokens */
+  maxTokens: number;
+  /** Tokens kept free for the response */
+  reserveForOutput: number;
+  /** Import pattern -> priority (higher is trimmed last) */
+  priorities: Record<string, number>;
+  drop: BudgetDropOrder;
+}
+
+/** A file matched by a glob import */
+export interface BudgetMember {
+  /** Path as shown in the prompt (relative to the glob base) */
+  path: string;
+  content: string;
+  /** Modification time, for recency-based dropping */
+  mtimeMs: number;
+}
+
+/** A resolved top-level import subject to the budget */
+export interface BudgetItem {
+  /** Import as written (e.g., "./src/**\/*.ts") */
+  source: string;
+  kind: "file" | "glob" | "symbol" | "url" | "git";
+  content: string;
+  /** Glob members (only for kind "glob") */
+  members?: BudgetMember[];
+}
+
+/** Trimming step applied to an import */
+export type BudgetAction = "outlined" | "dropped-members" | "truncated" | "dropped";
+
+/** What was trimmed from one import */
+export interface BudgetTrim {
+  source: string;
+  priority: number;
+  actions: BudgetAction[];
+  tokensBefore: number;
+  tokensAfter: number;
+  /** Human-readable summary, e.g. "dropped 4 of 9 files (largest first)" */
+  detail: string;
+}
+
+/** Budget outcome, surfaced in the context dashboard */
+export interface BudgetReport {
+  /** Prompt token limit (max_tokens - reserve_for_output) */
+  limit: number;
+  tokensBefore: number;
+  tokensAfter: number;
+  /** Whether the prompt fits after trimming */
+  fits: boolean;
+  trims: BudgetTrim[];
+}
+
+/**
+ * Resolve the `_budget` policy from frontmatter
+ *
+ * Accepts `true` (model limit, default reserve), a number (max_tokens)
+ * or an object. Returns undefined when `_budget` is absent or false.
+ *
+ * @throws ConfigurationError for malformed values
+ */
+export function resolveBudget(frontmatter: AgentFrontmatter): BudgetPolicy | undefined {
+  const value = frontmatter._budget;
+  if (value === undefined || value === null || value === false) return undefined;
+
+  const modelLimit = getContextLimit(
+    frontmatter.model as string | undefined,
+    frontmatter.context_window
+  );
+
+  if (value === true) {
+    return { maxTokens: modelLimit, reserveForOutput: DEFAULT_RESERVE_FOR_OUTPUT, priorities: {}, drop: "size" };
+  }
+
+  if (typeof value !== "number" && (typeof value !== "object" || Array.isArray(value))) {
+    throw new ConfigurationError("_budget must be true, a token count, or an object");
+  }
+  const options: Record<string, unknown> =
+    typeof value === "number" ? { max_tokens: value } : value as Record<string, unknown>;
+
+  const readCount = (key: string, fallback: number): number => {
+    const raw = options[key];
+    if (raw === undefined) return fallback;
+    if (typeof raw !== "number" || !Number.isInteger(raw) || raw < 0) {
+      throw new ConfigurationError(`_budget.${key} must be a non-negative integer`);
+    }
+    return raw;
+  };
+
+  const maxTokens = readCount("max_tokens", modelLimit);
+  const reserveForOutput = readCount("reserve_for_output", DEFAULT_RESERVE_FOR_OUTPUT);
+  if (reserveForOutput >= maxTokens) {
+    throw new ConfigurationError(
+      `_budget.reserve_for_output (${reserveForOutput}) must be less than max_tokens (${maxTokens})`
+    );
+  }
+
+  const drop = options.drop ?? "size";
+  if (drop !== "size" && drop !== "recency") {
+    throw new ConfigurationError(`Invalid _budget.drop: ${String(drop)} (expected size, recency)`);
+  }
+
+  const priorities: Record<string, number> = {};
+  const rawPriorities = options.priority;
+  if (rawPriorities !== undefined) {
+    if (!rawPriorities || typeof rawPriorities !== "object" || Array.isArray(rawPriorities)) {
+      throw new ConfigurationError("_budget.priority must map import patterns to numbers");
+    }
+    for (const [pattern, priority] of Object.entries(rawPriorities)) {
+      if (typeof priority !== "number") {
+        throw new ConfigurationError(`_budget.priority["${pattern}"] must be a number`);
+      }
+      priorities[pattern] = priority;
+    }
+  }
+
+  return { maxTokens, reserveForOutput, priorities, drop };
+}
+
+/**
+ * Prompt token limit for a policy
+ */
+export function getBudgetLimit(policy: BudgetPolicy): number {
+  return policy.maxTokens - policy.reserveForOutput;
+}
+
+/**
+ * Look up the priority of an import
+ * Exact keys win over glob keys; "./" prefixes are ignored.
+ */
+export function getImportPriority(source: string, priorities: Record<string, number>): number {
+  const normalize = (p: string) => p.replace(/^\.\//, "");
+  const path = normalize(source);
+  const entries = Object.entries(priorities).map(([pattern, priority]) => [normalize(pattern), priority] as const);
+
+  const exact = entries.find(([key]) => key === path);
+  if (exact) return exact[1];
+  const matched = entries.find(([key]) => new Glob(key).match(path));
+  return matched ? matched[1] : DEFAULT_IMPORT_PRIORITY;
+}
+
+/**
+ * Reduce source code to a symbol-only outline (see ./imports/outline)
+ *
+ * @returns The outline, or undefined if the file has no symbol extractor or no declarations
+ */
+export async function outlineSource(content: string, path: string): Promise<string | undefined> {
+  const outline = await outlineFile(content, path);
+  if (!outline) return undefined;
+
+  const kept = outline.split("\n").length;
+  return `${outline}\n[outline: ${kept} of ${content.split("\n").length} lines kept by _budget]`;
+}
+
+/**
+ * Create a token counter for a model / command (memoized: trimming re-counts the same contents)
+ */
+export function createTokenCounter(target: { model?: string; command?: string } = {}): TokenCounter {
+  const counts = new Map<string, number>();
+  return async (text) => {
+    let tokens = counts.get(text);
+    if (tokens === undefined) {
+      tokens = (await countTokensForModel(text, target)).tokens;
+      counts.set(text, tokens);
+    }
+    return tokens;
+  };
+}
+
+/**
+ * Keep the head of content within a token target (`by` names the limit in the marker)
+ */
+export function truncateToTokens(
+  content: string,
+  maxTokens: number,
+  by: string = "_budget",
+  count: (text: string) => number = estimateTokens
+): string {
+  if (count(content) <= maxTokens) return content;
+
+  const lines = content.split("\n");
+  const kept: string[] = [];
+  let used = 0;
+  for (const line of lines) {
+    const cost = count(line + "\n");
+    if (used + cost > maxTokens) break;
+    kept.push(line);
+    used += cost;
+  }
+  return `${kept.join("\n")}\n[... truncated by ${by}: ${lines.length - kept.length} of ${lines.length} lines omitted]`;
+}
+
+/**
+ * truncateToTokens with an async counter
+ * Lines are costed at the content's own chars-per-token ratio, then the
+ * result is re-counted and cut further until it fits.
+ */
+async function truncateCounted(content: string, maxTokens: number, count: TokenCounter): Promise<string> {
+  const charsPerToken = content.length / Math.max(await count(content), 1);
+  const estimate = (text: string) => Math.ceil(text.length / charsPerToken);
+
+  let target = maxTokens;
+  let result = truncateToTokens(content, target, "_budget", estimate);
+  while (target > 0 && (await count(result)) > maxTokens) {
+    target = Math.floor(target * 0.9);
+    result = truncateToTokens(content, target, "_budget", estimate);
+  }
+  return result;
+}
+
+/**
+ * Trim imports until the prompt fits the budget
+ *
+ * Items are visited lowest priority first (largest first within a priority);
+ * each is shrunk only as far as needed before moving to the next.
+ *
+ * @param items - Resolved top-level imports
+ * @param fixedTokens - Tokens in the body outside of imports
+ * @param policy - Parsed `_budget` policy
+ * @param renderGlob - Formats the remaining glob members (formatFilesAsXml)
+ * @param count - Token counter (createTokenCounter for the model; defaults to the char/4 estimate)
+ * @returns The (possibly trimmed) content for each item, in input order, and a report
+ */
+export async function fitToBudget(
+  items: BudgetItem[],
+  fixedTokens: number,
+  policy: BudgetPolicy,
+  renderGlob: (members: BudgetMember[]) => string,
+  count: TokenCounter = async (text) => estimateTokens(text)
+): Promise<{ contents: string[]; report: BudgetReport }> {
+  const limit = getBudgetLimit(policy);
+  const contents = items.map((item) => item.content);
+  const tokensOf = (i: number) => count(contents[i]!);
+  const total = async () => {
+    let sum = fixedTokens;
+    for (const c of contents) sum += await count(c);
+    return sum;
+  };
+
+  const tokensBefore = await total();
+  const trims: BudgetTrim[] = [];
+
+  const order = await Promise.all(
+    items.map(async (item, i) => ({ item, i, priority: getImportPriority(item.source, policy.priorities), tokens: await tokensOf(i) }))
+  );
+  order.sort((a, b) => a.priority - b.priority || b.tokens - a.tokens);
+
+  for (const { item, i, priority, tokens } of order) {
+    if ((await total()) <= limit) break;
+
+    const actions: BudgetAction[] = [];
+    const details: string[] = [];
+
+    if (item.kind === "glob" && item.members) {
+      let members = item.members;
+
+      // 1. Outline source members
+      let outlined = 0;
+      members = await Promise.all(members.map(async (m) => {
+        const outline = await outlineSource(m.content, m.path);
+        if (!outline || outline.length >= m.content.length) return m;
+        outlined++;
+        return { ...m, content: outline };
+      }));
+      if (outlined > 0) {
+        contents[i] = renderGlob(members);
+        actions.push("outlined");
+        details.push(`outlined ${outlined} file${outlined === 1 ? "" : "s"}`);
+      }
+
+      // 2. Drop members until it fits
+      if ((await total()) > limit) {
+        const dropOrder = [...members].sort((a, b) =>
+          policy.drop === "recency" ? a.mtimeMs - b.mtimeMs : b.content.length - a.content.length
+        );
+        const dropped = new Set<BudgetMember>();
+        for (const member of dropOrder) {
+          if ((await total()) <= limit) break;
+          dropped.add(member);
+          const remaining = members.filter((m) => !dropped.has(m));
+          contents[i] = remaining.length > 0
+            ? `${renderGlob(remaining)}\n[${dropped.size} file(s) omitted by _budget]`
+            : `[${item.source}: all ${members.length} file(s) omitted by _budget]`;
+        }
+        if (dropped.size > 0) {
+          actions.push(dropped.size === members.length ? "dropped" : "dropped-members");
+          details.push(
+            `dropped ${dropped.size} of ${members.length} files (${policy.drop === "recency" ? "oldest" : "largest"} first)`
+          );
+        }
+      }
+    } else {
+      // 1. Outline source files
+      if (item.kind === "file") {
+        const outline = await outlineSource(contents[i]!, item.source);
+        if (outline && outline.length < contents[i]!.length) {
+          contents[i] = outline;
+          actions.push("outlined");
+          details.push("replaced with outline");
+        }
+      }
+
+      // 2. Truncate to the remaining overage (or drop when too little would remain)
+      const overage = (await total()) - limit;
+      if (overage > 0) {
+        const target = (await tokensOf(i)) - overage;
+        if (target < 2 * MIN_TRUNCATED_TOKENS) {
+          contents[i] = `[${item.source}: omitted by _budget]`;
+          actions.push("dropped");
+          details.push("omitted");
+        } else {
+          contents[i] = await truncateCounted(contents[i]!, target - MIN_TRUNCATED_TOKENS, count);
+          actions.push("truncated");
+          details.push(`truncated to ~${(await tokensOf(i)).toLocaleString()} tokens`);
+        }
+      }
+    }
+
+    if (actions.length > 0) {
+      trims.push({ source: item.source, priority, actions, tokensBefore: tokens, tokensAfter: await tokensOf(i), detail: details.join(", ") });
+    }
+  }
+
+  const tokensAfter = await total();
+  return { contents, report: { limit, tokensBefore, tokensAfter, fits: tokensAfter <= limit, trims } };
+}
+
+/**
+ * One-line summary of a budget report for stderr
+ */
+export function formatBudgetSummary(report: BudgetReport): string {
+  const usage = `~${report.tokensAfter.toLocaleString()}/${report.limit.toLocaleString()} tokens`;
+  if (report.trims.length === 0) return `[budget] Within budget (${usage})`;
+  const status = report.fits ? "" : " - still over budget (body or commands exceed the limit)";
+  return `[budget] Trimmed ${report.trims.length} import(s) from ~${report.tokensBefore.toLocaleString()} to ${usage}${status}`;
+}
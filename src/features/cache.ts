@@ -4,6 +4,9 @@
  * Stores fetched remote content in ~/.mdflow/cache/ using SHA-256 hashes
  * of URLs as filenames. Implements TTL-based cache expiration with
  * HTTP conditional request support (ETag/Last-Modified).
+ *
+ * In offline mode (--_offline or MDFLOW_OFFLINE=1) remote content is served
+ * only from the cache, expired or not.
  */
 
 import { mkdir, stat, readFile, writeFile, rm, readdir } from "fs/promises";
@@ -17,6 +20,17 @@ export const DEFAULT_CACHE_TTL_MS = 60 * 60 * 1000;
 /** Cache directory path */
 export const CACHE_DIR = join(homedir(), ".mdflow", "cache");
 
+/** Environment variable that turns on offline mode (like --_offline) */
+export const OFFLINE_ENV = "MDFLOW_OFFLINE";
+
+/**
+ * Whether offline mode is on: MDFLOW_OFFLINE set to anything but "", "0" or "false"
+ */
+export function isOfflineMode(env: Record<string, string | undefined> = process.env): boolean {
+  const value = env[OFFLINE_ENV]?.trim().toLowerCase();
+  return value !== undefined && value !== "" && value !== "0" && value !== "false";
+}
+
 /** Cache entry metadata stored alongside content */
 export interface CacheMetadata {
   url: string;
@@ -128,6 +142,8 @@ export interface CacheOptions {
   ttlMs?: number;
   /** Force bypass cache on read (still writes to cache) */
   noCache?: boolean;
+  /** Serve expired entries too (offline mode) */
+  ignoreTtl?: boolean;
   /** ETag from HTTP response header */
   etag?: string;
   /** Last-Modified from HTTP response header */
@@ -166,7 +182,7 @@ export async function getCachedContent(
   url: string,
   options: CacheOptions = {}
 ): Promise<CacheResult> {
-  const { ttlMs = DEFAULT_CACHE_TTL_MS, noCache = false } = options;
+  const { ttlMs = DEFAULT_CACHE_TTL_MS, noCache = false, ignoreTtl = false } = options;
 
   // If noCache is set, always return miss
   if (noCache) {
@@ -185,7 +201,7 @@ export async function getCachedContent(
     const age = now - metadata.fetchedAt;
     const effectiveTtl = metadata.ttlMs || ttlMs;
 
-    if (age > effectiveTtl) {
+    if (age > effectiveTtl && !ignoreTtl) {
       return { hit: false, metadata, expired: true };
     }
 
@@ -389,3 +405,47 @@ export async function getCacheStats(): Promise<{
 
   return { entries, totalSize, oldestEntry, newestEntry };
 }
+
+/** A cached remote file (md cache list) */
+export interface CacheEntry {
+  url: string;
+  fetchedAt: number;
+  ttlMs: number;
+  /** Content size in bytes */
+  size: number;
+  expired: boolean;
+}
+
+/**
+ * List cache entries, most recently fetched first
+ */
+export async function listCacheEntries(): Promise<CacheEntry[]> {
+  const entries: CacheEntry[] = [];
+  let files: string[];
+  try {
+    files = await readdir(CACHE_DIR);
+  } catch {
+    // Cache directory doesn't exist
+    return entries;
+  }
+
+  const now = Date.now();
+  for (const metaFile of files.filter((f) => f.endsWith(".meta.json"))) {
+    const hash = metaFile.replace(".meta.json", "");
+    try {
+      const metadata: CacheMetadata = JSON.parse(await readFile(join(CACHE_DIR, metaFile), "utf-8"));
+      const contentStat = await stat(join(CACHE_DIR, `${hash}.content`));
+      entries.push({
+        url: metadata.url,
+        fetchedAt: metadata.fetchedAt,
+        ttlMs: metadata.ttlMs,
+        size: contentStat.size,
+        expired: now - metadata.fetchedAt > metadata.ttlMs,
+      });
+    } catch {
+      // Skip corrupted entries
+    }
+  }
+
+  return entries.sort((a, b) => b.fetchedAt - a.fetchedAt);
+}
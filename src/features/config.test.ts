@@ -9,7 +9,11 @@ import {
   loadProjectConfig,
   loadFullConfig,
   clearProjectConfigCache,
+  registerConfiguredAdapters,
+  registerConfiguredTokenizers,
 } from "./config";
+import { getAdapter, hasAdapter } from "../core/adapters/index";
+import { countTokensForModel, resolveTokenizerFamily, clearCustomTokenizers } from "../core/agent/tokenizer";
 import type { AgentFrontmatter } from "./types";
 import { mkdirSync, writeFileSync, rmSync, existsSync } from "fs";
 import { join } from "path";
@@ -239,6 +243,194 @@ describe("loadFullConfig", () => {
   });
 });
 
+describe("registerConfiguredAdapters", () => {
+  const testDir = join(tmpdir(), `md-adapters-test-${Date.now()}`);
+
+  beforeEach(() => {
+    mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test("registers declarative adapters from project config", async () => {
+    writeFileSync(
+      join(testDir, "mdflow.config.yaml"),
+      `adapters:
+  test-aider:
+    defaults:
+      yes-always: true
+    prompt: flag
+    prompt_flag: message
+    interactive:
+      remove: [yes-always]
+`
+    );
+
+    const registered = await registerConfiguredAdapters(await loadFullConfig(testDir));
+    expect(registered).toEqual(["test-aider"]);
+    expect(hasAdapter("test-aider")).toBe(true);
+    expect(getAdapter("test-aider").getDefaults()).toEqual({ "yes-always": true, $1: "message" });
+
+    // Adapter defaults flow into the merged config
+    const config = await loadFullConfig(testDir);
+    expect(config.commands?.["test-aider"]?.$1).toBe("message");
+    expect(config.adapters?.["test-aider"]?.prompt_flag).toBe("message");
+  });
+
+  test("loads module adapters, keeping class methods", async () => {
+    writeFileSync(
+      join(testDir, "my-adapter.ts"),
+      `class MyAdapter {
+  name = "ignored";
+  promptVia = "stdin";
+  getDefaults() { return { quiet: true }; }
+  applyInteractiveMode(fm) { return { ...fm, quiet: false }; }
+}
+export default new MyAdapter();
+`
+    );
+
+    const registered = await registerConfiguredAdapters({
+      adapters: { "test-module-tool": { module: join(testDir, "my-adapter.ts") } },
+    });
+    expect(registered).toEqual(["test-module-tool"]);
+    const adapter = getAdapter("test-module-tool");
+    expect(adapter.name).toBe("test-module-tool");
+    expect(adapter.getDefaults()).toEqual({ quiet: true });
+    expect(adapter.applyInteractiveMode({ quiet: true })).toEqual({ quiet: false });
+    expect(adapter.promptVia).toBe("stdin");
+  });
+
+  test("ignores module adapters declared in project config", async () => {
+    writeFileSync(join(testDir, "evil.ts"), `throw new Error("should not run");\n`);
+    writeFileSync(
+      join(testDir, "mdflow.config.yaml"),
+      `adapters:
+  test-project-module:
+    module: ./evil.ts
+`
+    );
+
+    const project = await loadProjectConfig(testDir);
+    expect(project.adapters?.["test-project-module"]).toBeUndefined();
+    expect(await registerConfiguredAdapters(await loadFullConfig(testDir))).toEqual([]);
+    expect(hasAdapter("test-project-module")).toBe(false);
+  });
+
+  test("ignores sandbox.remote in project config", async () => {
+    writeFileSync(
+      join(testDir, "mdflow.config.yaml"),
+      `sandbox:
+  commands: [git]
+  remote: true
+`
+    );
+
+    expect((await loadProjectConfig(testDir)).sandbox).toEqual({ commands: ["git"] });
+  });
+
+  test("reads trusted_keys and ignores configs with malformed entries", async () => {
+    const key = "ed25519 1mpVcclHDEEcxu7bCvZX8CBT89AuEvhB5sQJooq2SOI= Jane";
+    writeFileSync(join(testDir, "mdflow.config.yaml"), `trusted_keys:\n  - "${key}"\n`);
+    expect((await loadProjectConfig(testDir)).trusted_keys).toEqual([key]);
+
+    clearProjectConfigCache();
+    writeFileSync(join(testDir, "mdflow.config.yaml"), `trusted_keys:\n  - "ssh-rsa AAAA"\n`);
+    expect((await loadProjectConfig(testDir)).trusted_keys).toBeUndefined();
+  });
+
+  test("reads policy rules and ignores unknown capabilities", async () => {
+    writeFileSync(join(testDir, "mdflow.config.yaml"), `policy:\n  - match: example.com\n    allow: [command, "import:*.example.com"]\n`);
+    expect((await loadProjectConfig(testDir)).policy).toEqual([{ match: "example.com", allow: ["command", "import:*.example.com"] }]);
+
+    clearProjectConfigCache();
+    writeFileSync(join(testDir, "mdflow.config.yaml"), `policy:\n  - match: example.com\n    allow: [network]\n`);
+    expect((await loadProjectConfig(testDir)).policy).toBeUndefined();
+  });
+
+  test("resolves local registries against the config directory", async () => {
+    writeFileSync(join(testDir, "mdflow.config.yaml"), `registries:\n  - ./registry\n  - https://example.com/agents\n`);
+    expect((await loadProjectConfig(testDir)).registries).toEqual([join(testDir, "registry"), "https://example.com/agents"]);
+  });
+
+  test("skips modules that do not export an adapter", async () => {
+    writeFileSync(join(testDir, "bad.ts"), `export const nothing = 1;\n`);
+
+    expect(await registerConfiguredAdapters({
+      adapters: { "test-bad-tool": { module: join(testDir, "bad.ts") } },
+    })).toEqual([]);
+    expect(hasAdapter("test-bad-tool")).toBe(false);
+  });
+});
+
+describe("registerConfiguredTokenizers", () => {
+  const testDir = join(tmpdir(), `md-tokenizers-test-${Date.now()}`);
+
+  beforeEach(() => {
+    mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+    clearCustomTokenizers();
+  });
+
+  test("registers calibrated estimators routed by model and command", async () => {
+    writeFileSync(
+      join(testDir, "mdflow.config.yaml"),
+      `tokenizers:
+  llama:
+    models: [llama]
+    commands: [ollama]
+    chars_per_token: 2
+`
+    );
+
+    expect(await registerConfiguredTokenizers(await loadFullConfig(testDir))).toEqual(["llama"]);
+    expect(resolveTokenizerFamily("llama3.1:8b")).toBe("llama");
+    expect(resolveTokenizerFamily(undefined, "ollama")).toBe("llama");
+    expect(await countTokensForModel("abcdefgh", { model: "llama3.1:8b" })).toEqual({
+      tokens: 4, tokenizer: "llama", exact: false,
+    });
+  });
+
+  test("loads module tokenizers, keeping class methods", async () => {
+    writeFileSync(
+      join(testDir, "words.ts"),
+      `class Words {
+  name = "words";
+  count(text) { return text.split(" ").filter(Boolean).length; }
+}
+export const tokenizer = new Words();
+`
+    );
+
+    await registerConfiguredTokenizers({
+      tokenizers: { words: { models: ["my-local-model"], module: join(testDir, "words.ts") } },
+    });
+    expect(await countTokensForModel("one two three", { model: "my-local-model" })).toEqual({
+      tokens: 3, tokenizer: "words", exact: false,
+    });
+  });
+
+  test("ignores module tokenizers declared in project config", async () => {
+    writeFileSync(join(testDir, "evil.ts"), `throw new Error("should not run");\n`);
+    writeFileSync(
+      join(testDir, "mdflow.config.yaml"),
+      `tokenizers:
+  evil:
+    models: [evil-model]
+    module: ./evil.ts
+`
+    );
+
+    expect(await registerConfiguredTokenizers(await loadFullConfig(testDir))).toEqual([]);
+    expect(resolveTokenizerFamily("evil-model")).not.toBe("evil");
+  });
+});
+
 describe("config cascade", () => {
   let testDir: string;
   let gitRoot: string;
@@ -49,8 +49,13 @@ import { homedir } from "os";
 import { join, dirname, resolve } from "path";
 import { existsSync, statSync } from "fs";
 import yaml from "js-yaml";
-import type { AgentFrontmatter, GlobalConfig, CommandDefaults, RunContext } from "../core/types";
-import { getAdapter, buildBuiltinDefaults } from "../core/adapters/index";
+import type {
+  AgentFrontmatter, GlobalConfig, CommandDefaults, RunContext, AdapterConfig, TokenizerConfig, ToolAdapter,
+} from "../core/types";
+import {
+  getAdapter, buildBuiltinDefaults, registerAdapter, createConfigAdapter, isToolAdapter,
+} from "../core/adapters/index";
+import { registerTokenizer, createEstimatorTokenizer, isTokenizer, type Tokenizer } from "../core/agent/tokenizer";
 import { safeParseConfig } from "./schema";
 
 // Re-export types for convenience
@@ -199,7 +204,7 @@ async function loadConfigFile(filePath: string, throwOnInvalid: boolean = false)
       return null;
     }
 
-    return validation.data as GlobalConfig;
+    return resolveModulePaths(dropConfigModules(validation.data as GlobalConfig, filePath), dirname(filePath));
   } catch (err) {
     if (throwOnInvalid) throw err;
     // Log parse errors instead of failing silently
@@ -257,16 +262,16 @@ export async function loadGlobalConfig(): Promise<GlobalConfig> {
     const file = Bun.file(CONFIG_FILE);
     if (await file.exists()) {
       const content = await file.text();
-      const parsed = yaml.load(content) as GlobalConfig;
-      // Merge with built-in defaults (user config takes priority)
-      return mergeConfigs(BUILTIN_DEFAULTS, parsed);
+      const parsed = resolveModulePaths((yaml.load(content) ?? {}) as GlobalConfig, CONFIG_DIR);
+      // Merge with adapter defaults (user config takes priority)
+      return mergeConfigs({ commands: buildBuiltinDefaults() }, parsed);
     }
   } catch (err) {
     // Log error and fall back to built-in defaults
     console.warn(`Warning: Failed to load global config ${CONFIG_FILE}: ${err instanceof Error ? err.message : String(err)}`);
   }
-  // Return a deep clone to ensure callers get an independent copy
-  return mergeConfigs(BUILTIN_DEFAULTS, {});
+  // Adapter defaults are rebuilt on each call so config-declared adapters are included
+  return mergeConfigs({ commands: buildBuiltinDefaults() }, {});
 }
 
 /**
@@ -295,6 +300,36 @@ function deepCloneConfig(config: GlobalConfig): GlobalConfig {
     }
   }
 
+  if (config.adapters) {
+    result.adapters = {};
+    for (const [name, adapter] of Object.entries(config.adapters)) {
+      result.adapters[name] = { ...adapter };
+    }
+  }
+
+  if (config.tokenizers) {
+    result.tokenizers = {};
+    for (const [name, tokenizer] of Object.entries(config.tokenizers)) {
+      result.tokenizers[name] = { ...tokenizer };
+    }
+  }
+
+  if (config.sandbox) {
+    result.sandbox = { ...config.sandbox };
+  }
+
+  if (config.trusted_keys) {
+    result.trusted_keys = [...config.trusted_keys];
+  }
+
+  if (config.policy) {
+    result.policy = config.policy.map((rule) => ({ ...rule }));
+  }
+
+  if (config.registries) {
+    result.registries = [...config.registries];
+  }
+
   return result;
 }
 
@@ -316,9 +351,212 @@ export function mergeConfigs(base: GlobalConfig, override: GlobalConfig): Global
     }
   }
 
+  if (override.adapters) {
+    result.adapters = result.adapters ? { ...result.adapters } : {};
+    for (const [name, adapter] of Object.entries(override.adapters)) {
+      result.adapters[name] = {
+        ...(result.adapters[name] || {}),
+        ...adapter,
+      };
+    }
+  }
+
+  if (override.tokenizers) {
+    result.tokenizers = result.tokenizers ? { ...result.tokenizers } : {};
+    for (const [name, tokenizer] of Object.entries(override.tokenizers)) {
+      result.tokenizers[name] = {
+        ...(result.tokenizers[name] || {}),
+        ...tokenizer,
+      };
+    }
+  }
+
+  if (override.sandbox) {
+    result.sandbox = { ...(result.sandbox || {}), ...override.sandbox };
+  }
+
+  // Keys trusted by either config are trusted
+  if (override.trusted_keys) {
+    result.trusted_keys = [...new Set([...(result.trusted_keys || []), ...override.trusted_keys])];
+  }
+
+  // Rules of both configs apply (a deny in either wins)
+  if (override.policy) {
+    result.policy = [...(result.policy || []), ...override.policy.map((rule) => ({ ...rule }))];
+  }
+
+  // Registries of the overriding config are searched first
+  if (override.registries) {
+    result.registries = [...new Set([...override.registries, ...(result.registries || [])])];
+  }
+
+  return result;
+}
+
+/**
+ * Resolve relative adapter and tokenizer `module` paths (and local
+ * `registries`) against the config file's directory
+ * Returns a new config - does not modify the input.
+ */
+function resolveModulePaths(config: GlobalConfig, baseDir: string): GlobalConfig {
+  const resolveEntries = <T extends { module?: string }>(entries: Record<string, T>): Record<string, T> => {
+    const resolved: Record<string, T> = {};
+    for (const [name, entry] of Object.entries(entries)) {
+      resolved[name] = entry.module
+        ? { ...entry, module: resolve(baseDir, entry.module.replace(/^~(?=\/)/, homedir())) }
+        : entry;
+    }
+    return resolved;
+  };
+
+  const result = { ...config };
+  if (config.adapters) result.adapters = resolveEntries<AdapterConfig>(config.adapters);
+  if (config.tokenizers) result.tokenizers = resolveEntries<TokenizerConfig>(config.tokenizers);
+  if (config.registries) {
+    result.registries = config.registries.map((registry) =>
+      /^https?:\/\//.test(registry) ? registry : resolve(baseDir, registry.replace(/^~(?=\/|$)/, homedir()))
+    );
+  }
   return result;
 }
 
+/**
+ * Drop adapter and tokenizer entries with a `module` path from a project config
+ * Importing a module runs its code, so only the global config (which the user
+ * owns) may declare them - a checked-out repository must not. The same goes
+ * for `sandbox.remote`, which lets remote agents run commands.
+ * Returns a new config - does not modify the input.
+ */
+function dropConfigModules(config: GlobalConfig, filePath: string): GlobalConfig {
+  const dropEntries = <T extends { module?: string }>(kind: string, entries: Record<string, T>): Record<string, T> => {
+    const kept: Record<string, T> = {};
+    for (const [name, entry] of Object.entries(entries)) {
+      if (entry.module) {
+        console.warn(`Warning: Ignoring ${kind} "${name}" in ${filePath}: modules can only be declared in ${CONFIG_FILE}`);
+      } else {
+        kept[name] = entry;
+      }
+    }
+    return kept;
+  };
+
+  const result = { ...config };
+  if (config.adapters) result.adapters = dropEntries<AdapterConfig>("adapter", config.adapters);
+  if (config.tokenizers) result.tokenizers = dropEntries<TokenizerConfig>("tokenizer", config.tokenizers);
+  if (config.sandbox?.remote !== undefined) {
+    console.warn(`Warning: Ignoring sandbox.remote in ${filePath}: it can only be set in ${CONFIG_FILE}`);
+    const { remote: _remote, ...sandbox } = config.sandbox;
+    result.sandbox = sandbox;
+  }
+  return result;
+}
+
+/**
+ * Expose a module's adapter under its config key
+ * Delegates instead of spreading so class-based adapters keep their prototype methods.
+ */
+function renameAdapter(adapter: ToolAdapter, name: string): ToolAdapter {
+  return {
+    name,
+    getDefaults: () => adapter.getDefaults(),
+    applyInteractiveMode: (frontmatter) => adapter.applyInteractiveMode(frontmatter),
+    promptVia: adapter.promptVia,
+    attachments: adapter.attachments,
+  };
+}
+
+/**
+ * Register tool adapters declared in config
+ *
+ * Declarative entries are turned into adapters via createConfigAdapter();
+ * entries with a `module` path (global config only) are imported and their
+ * exported ToolAdapter (default export or `adapter`) is registered under the
+ * config key. Config adapters override built-ins with the same name.
+ *
+ * @param config - Merged config (see loadFullConfig)
+ * @returns Names of the adapters that were registered
+ */
+export async function registerConfiguredAdapters(config: GlobalConfig): Promise<string[]> {
+  const registered: string[] = [];
+
+  for (const [name, adapterConfig] of Object.entries(config.adapters ?? {})) {
+    if (adapterConfig.module) {
+      try {
+        const mod = await import(adapterConfig.module);
+        const exported = mod.default ?? mod.adapter;
+        if (!isToolAdapter(exported)) {
+          console.warn(`Warning: Adapter module ${adapterConfig.module} does not export a ToolAdapter`);
+          continue;
+        }
+        registerAdapter(renameAdapter(exported, name));
+      } catch (err) {
+        console.warn(`Warning: Failed to load adapter module ${adapterConfig.module}: ${err instanceof Error ? err.message : String(err)}`);
+        continue;
+      }
+    } else {
+      registerAdapter(createConfigAdapter(name, adapterConfig));
+    }
+    registered.push(name);
+  }
+
+  return registered;
+}
+
+/**
+ * Wrap a module's tokenizer, defaulting `exact` to false
+ * Delegates instead of spreading so class-based tokenizers keep their prototype methods.
+ */
+function wrapTokenizer(tokenizer: Tokenizer): Tokenizer {
+  return {
+    name: tokenizer.name,
+    exact: tokenizer.exact ?? false,
+    count: (text) => tokenizer.count(text),
+  };
+}
+
+/**
+ * Register custom tokenizers declared in config
+ *
+ * Entries with a `module` path (global config only) are imported and their
+ * exported Tokenizer (default export or `tokenizer`) is registered; other
+ * entries become calibrated estimators (chars_per_token, or a built-in base
+ * scaled by ratio).
+ *
+ * @param config - Merged config (see loadFullConfig)
+ * @returns Names of the tokenizers that were registered
+ */
+export async function registerConfiguredTokenizers(config: GlobalConfig): Promise<string[]> {
+  const registered: string[] = [];
+
+  for (const [name, tokenizerConfig] of Object.entries(config.tokenizers ?? {})) {
+    const routes = { models: tokenizerConfig.models, commands: tokenizerConfig.commands };
+    if (tokenizerConfig.module) {
+      try {
+        const mod = await import(tokenizerConfig.module);
+        const exported = mod.default ?? mod.tokenizer;
+        if (!isTokenizer(exported)) {
+          console.warn(`Warning: Tokenizer module ${tokenizerConfig.module} does not export a Tokenizer`);
+          continue;
+        }
+        registerTokenizer(name, wrapTokenizer(exported), routes);
+      } catch (err) {
+        console.warn(`Warning: Failed to load tokenizer module ${tokenizerConfig.module}: ${err instanceof Error ? err.message : String(err)}`);
+        continue;
+      }
+    } else {
+      const tokenizer = createEstimatorTokenizer(name, {
+        charsPerToken: tokenizerConfig.chars_per_token,
+        base: tokenizerConfig.base,
+        ratio: tokenizerConfig.ratio,
+      });
+      registerTokenizer(name, tokenizer, routes);
+    }
+    registered.push(name);
+  }
+
+  return registered;
+}
+
 /**
  * Get defaults for a specific command
  */
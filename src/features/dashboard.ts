@@ -10,9 +10,12 @@
 
 import { dirname, resolve, basename, relative } from "path";
 import { Glob } from "bun";
-import { parseImports } from "./imports/parser";
+import { parseImports, parseOutlineImport } from "./imports/parser";
 import type { ImportAction } from "./imports/types";
 import { estimateTokens } from "../core/agent/tokenizer";
+import { resolveGitImport } from "./imports/git";
+import { extractDocument, getDocumentExtractor } from "./imports/documents";
+import type { BudgetReport } from "./budget";
 
 /** Size thresholds for color coding (in bytes) */
 const SIZE_THRESHOLD_SMALL = 5 * 1024;    // 5KB - green
@@ -43,7 +46,7 @@ export interface ContextItem {
   /** Display name (relative path or URL) */
   name: string;
   /** Type of import */
-  type: "file" | "glob" | "url" | "command" | "symbol" | "prompt";
+  type: "file" | "glob" | "url" | "command" | "symbol" | "git" | "prompt";
   /** Size in bytes (0 for commands/urls that haven't been fetched) */
   size: number;
   /** Number of files (for globs) */
@@ -52,6 +55,8 @@ export interface ContextItem {
   children?: ContextItem[];
   /** Original import path */
   originalPath?: string;
+  /** Served from the import cache on the last expansion */
+  cached?: boolean;
 }
 
 /** Result of context analysis */
@@ -66,6 +71,10 @@ export interface ContextAnalysis {
   totalFiles: number;
   /** Estimated token count */
   estimatedTokens: number;
+  /** Tokenizer used for estimatedTokens (char/4 estimate when unset) */
+  tokenizer?: string;
+  /** What `_budget` trimmed (set after imports are expanded) */
+  budget?: BudgetReport;
 }
 
 /** Color config type for renderDashboard */
@@ -100,11 +109,13 @@ export function formatTokens(tokens: number): string {
 /**
  * Analyze imports from content without expanding them
  * Returns information about what would be imported
+ * `cacheHits` (from ImportContext.cache) marks imports served from the import cache.
  */
 export async function analyzeContext(
   filePath: string,
   content: string,
-  currentDir?: string
+  currentDir?: string,
+  cacheHits?: Set<string>
 ): Promise<ContextAnalysis> {
   const fileDir = currentDir ?? dirname(resolve(filePath));
   const items: ContextItem[] = [];
@@ -131,6 +142,7 @@ export async function analyzeContext(
   for (const imp of imports) {
     const item = await analyzeImport(imp, fileDir);
     if (item) {
+      if (cacheHits?.has(imp.original)) item.cached = true;
       items.push(item);
       totalSize += item.size;
       totalFiles += item.fileCount ?? 1;
@@ -162,7 +174,7 @@ async function analyzeImport(
       const file = Bun.file(resolvedPath);
       let size = 0;
       if (await file.exists()) {
-        size = file.size;
+        size = await importedSize(resolvedPath, action.options?.maxRows);
       }
       return {
         name: `@${action.path}`,
@@ -173,7 +185,8 @@ async function analyzeImport(
     }
 
     case "glob": {
-      const { files, totalSize } = await analyzeGlob(action.pattern, fileDir);
+      // Outline imports report the size of the files they summarize
+      const { files, totalSize } = await analyzeGlob(parseOutlineImport(action.pattern).path, fileDir, action.options?.maxRows);
       return {
         name: `@${action.pattern}`,
         type: "glob",
@@ -216,6 +229,21 @@ async function analyzeImport(
       };
     }
 
+    case "git": {
+      // Git sources are cheap and read-only, so resolve them for an accurate size
+      let size = 0;
+      try {
+        size = Buffer.byteLength(await resolveGitImport(action, fileDir));
+      } catch {
+        // Not a repository or unknown revision - the run will report the error
+      }
+      return {
+        name: action.original,
+        type: "git",
+        size,
+      };
+    }
+
     case "executable_code_fence": {
       // Code fences are executed at runtime
       return {
@@ -230,12 +258,30 @@ async function analyzeImport(
   }
 }
 
+/**
+ * Size of a file as imported: documents (PDF, DOCX, ...) count their
+ * extracted text, falling back to the file size when extraction fails
+ */
+async function importedSize(filePath: string, maxRows?: number): Promise<number> {
+  const file = Bun.file(filePath);
+  if (!getDocumentExtractor(filePath)) {
+    return file.size;
+  }
+  try {
+    const text = await extractDocument(new Uint8Array(await file.arrayBuffer()), filePath, { maxRows });
+    return Buffer.byteLength(text);
+  } catch {
+    return file.size;
+  }
+}
+
 /**
  * Analyze glob pattern and return file info
  */
 async function analyzeGlob(
   pattern: string,
-  fileDir: string
+  fileDir: string,
+  maxRows?: number
 ): Promise<{ files: string[]; totalSize: number }> {
   const glob = new Glob(pattern.replace(/^\.\//, ""));
   const files: string[] = [];
@@ -243,9 +289,8 @@ async function analyzeGlob(
 
   try {
     for await (const file of glob.scan({ cwd: fileDir, absolute: true, onlyFiles: true })) {
-      const bunFile = Bun.file(file);
       files.push(relative(fileDir, file));
-      totalSize += bunFile.size;
+      totalSize += await importedSize(file, maxRows);
     }
   } catch {
     // Glob pattern might not match anything
@@ -304,6 +349,7 @@ export function renderDashboard(
     const sizeColor = getSizeColor(item.size, c);
     const sizeStr = item.size > 0 ? ` ${c.dim}(${formatSize(item.size)})${c.reset}` : "";
     const countStr = item.fileCount ? ` ${c.dim}(${item.fileCount} files)${c.reset}` : "";
+    const cachedStr = item.cached ? ` ${c.dim}[cached]${c.reset}` : "";
 
     let typeIndicator = "";
     switch (item.type) {
@@ -322,12 +368,15 @@ export function renderDashboard(
       case "symbol":
         typeIndicator = `${c.dim}[sym]${c.reset}`;
         break;
+      case "git":
+        typeIndicator = `${c.dim}[git]${c.reset}`;
+        break;
     }
 
     if (compact) {
-      lines.push(`${prefix}${sizeColor}${item.name}${c.reset}${sizeStr}${countStr}`);
+      lines.push(`${prefix}${sizeColor}${item.name}${c.reset}${sizeStr}${countStr}${cachedStr}`);
     } else {
-      lines.push(`${prefix}${sizeColor}${item.name}${c.reset}${sizeStr}${countStr} ${typeIndicator}`);
+      lines.push(`${prefix}${sizeColor}${item.name}${c.reset}${sizeStr}${countStr} ${typeIndicator}${cachedStr}`);
     }
   });
 
@@ -335,7 +384,25 @@ export function renderDashboard(
   lines.push("");
   const tokenColor = analysis.estimatedTokens > 50000 ? c.yellow :
                      analysis.estimatedTokens > 100000 ? c.red : c.green;
-  lines.push(`${c.dim}Estimated: ${c.reset}${tokenColor}~${formatTokens(analysis.estimatedTokens)} tokens${c.reset}`);
+  const tokenizerStr = analysis.tokenizer ? ` ${c.dim}(${analysis.tokenizer})${c.reset}` : "";
+  lines.push(`${c.dim}Estimated: ${c.reset}${tokenColor}~${formatTokens(analysis.estimatedTokens)} tokens${c.reset}${tokenizerStr}`);
+
+  // Budget trims
+  const budget = analysis.budget;
+  if (budget) {
+    const budgetColor = budget.fits ? c.green : c.red;
+    lines.push(
+      `${c.dim}Budget: ${c.reset}${budgetColor}~${formatTokens(budget.tokensAfter)} / ${formatTokens(budget.limit)} tokens${c.reset}` +
+      (budget.trims.length > 0 ? ` ${c.dim}(trimmed from ~${formatTokens(budget.tokensBefore)})${c.reset}` : "")
+    );
+    budget.trims.forEach((trim, index) => {
+      const prefix = index === budget.trims.length - 1 ? `${BOX.corner}${BOX.horizontal}${BOX.horizontal} ` : `${BOX.branch}${BOX.horizontal}${BOX.horizontal} `;
+      lines.push(
+        `${prefix}${c.yellow}${truncate(trim.source, 50)}${c.reset} ${c.dim}${trim.detail} ` +
+        `(~${formatTokens(trim.tokensBefore)} -> ~${formatTokens(trim.tokensAfter)})${c.reset}`
+      );
+    });
+  }
   lines.push("");
 
   return lines.join("\n");
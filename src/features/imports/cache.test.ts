@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, rm, writeFile, mkdir, utimes, readdir, readFile } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import {
+  parseCacheDuration,
+  getCachedImport,
+  setCachedImport,
+  fingerprintFile,
+  getImportCacheDir,
+  getImportCachePaths,
+  pruneImportCache,
+  listImportCache,
+  invalidateCachedImport,
+  clearImportCache,
+  IMPORT_CACHE_DIR,
+} from "./cache";
+import { registerSymbolExtractor, getSymbolExtractor } from "./symbols";
+import { expandContentImports, expandCommandImports } from "./index";
+import { parseImports } from "./parser";
+import { analyzeContext } from "../dashboard";
+
+describe("parseCacheDuration", () => {
+  it("parses seconds, minutes, hours and days", () => {
+    expect(parseCacheDuration("30s")).toBe(30_000);
+    expect(parseCacheDuration("10m")).toBe(600_000);
+    expect(parseCacheDuration("2h")).toBe(7_200_000);
+    expect(parseCacheDuration("1d")).toBe(86_400_000);
+    expect(parseCacheDuration("soon")).toBeUndefined();
+  });
+});
+
+describe("import cache", () => {
+  let dir: string;
+  let cacheDir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "import-cache-test-"));
+    cacheDir = join(dir, ".cache");
+    await mkdir(join(dir, "src"));
+    await writeFile(join(dir, "src", "a.ts"), "export const a = 1;\n");
+    await writeFile(join(dir, "src", "b.ts"), "export function b() {\n  return 2;\n}\n");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("keeps entries for touched but unchanged files and drops edited ones", async () => {
+    const path = join(dir, "src", "a.ts");
+    const fingerprint = await fingerprintFile(path, "export const a = 1;\n");
+    await setCachedImport("symbol:a", "cached", { files: [fingerprint], dir: cacheDir });
+
+    await utimes(path, new Date(), new Date(Date.now() + 5000));
+    expect(await getCachedImport("symbol:a", cacheDir)).toBe("cached");
+
+    await writeFile(path, "export const a = 42;\n");
+    expect(await getCachedImport("symbol:a", cacheDir)).toBeUndefined();
+  });
+
+  it("expires entries with a TTL", async () => {
+    await setCachedImport("url:x", "fresh", { ttlMs: 60_000, dir: cacheDir });
+    await setCachedImport("url:y", "stale", { ttlMs: -1, dir: cacheDir });
+
+    expect(await getCachedImport("url:x", cacheDir)).toBe("fresh");
+    expect(await getCachedImport("url:y", cacheDir)).toBeUndefined();
+  });
+
+  it("serves expired URL imports offline and fails for missing ones", async () => {
+    await setCachedImport("url:https://example.invalid/style.md", "Style guide", { ttlMs: -1, dir: cacheDir });
+    const cache = { hits: new Set<string>(), dir: cacheDir };
+    const content = "@https://example.invalid/style.md";
+    expect(await expandContentImports(content, dir, new Set(), false, { cache, offline: true })).toBe("Style guide");
+    expect([...cache.hits]).toEqual([content]);
+
+    await expect(expandContentImports("@https://example.invalid/other.md", dir, new Set(), false, { cache, offline: true }))
+      .rejects.toThrow("Offline and not cached: https://example.invalid/other.md");
+  });
+
+  it("lists, invalidates and clears entries", async () => {
+    await setCachedImport("url:a", "aaa", { ttlMs: 60_000, dir: cacheDir });
+    await setCachedImport("url:b", "b", { ttlMs: -1, dir: cacheDir });
+    expect((await listImportCache(cacheDir)).map((e) => [e.key, e.size, e.expired]).sort()).toEqual([
+      ["url:a", 3, false],
+      ["url:b", 1, true],
+    ]);
+
+    expect(await invalidateCachedImport("url:a", cacheDir)).toBe(true);
+    expect(await invalidateCachedImport("url:a", cacheDir)).toBe(false);
+    expect(await clearImportCache(cacheDir)).toBe(1);
+    expect(await listImportCache(cacheDir)).toEqual([]);
+  });
+
+  it("reuses glob and symbol imports until the matched files change", async () => {
+    const content = "@./src/*.ts\n@./src/b.ts#b";
+    const first = { hits: new Set<string>(), dir: cacheDir };
+    const expanded = await expandContentImports(content, dir, new Set(), false, { cache: first });
+    expect(first.hits.size).toBe(0);
+
+    const second = { hits: new Set<string>(), dir: cacheDir };
+    expect(await expandContentImports(content, dir, new Set(), false, { cache: second })).toBe(expanded);
+    expect([...second.hits].sort()).toEqual(["@./src/*.ts", "@./src/b.ts#b"]);
+
+    await writeFile(join(dir, "src", "c.ts"), "export const c = 3;\n");
+    const third = { hits: new Set<string>(), dir: cacheDir };
+    const result = await expandContentImports(content, dir, new Set(), false, { cache: third });
+    expect(result).toContain("export const c = 3;");
+    expect([...third.hits]).toEqual(["@./src/b.ts#b"]);
+  });
+
+  it("caches command output only with a cache modifier", async () => {
+    const cached = "!`date +%s%N`{cache: 10m}";
+    const first = await expandCommandImports(cached, dir, false, { cache: { hits: new Set(), dir: cacheDir } });
+    const hits = new Set<string>();
+    expect(await expandCommandImports(cached, dir, false, { cache: { hits, dir: cacheDir } })).toBe(first);
+    expect([...hits]).toEqual([cached]);
+
+    const uncached = { hits: new Set<string>(), dir: cacheDir };
+    await expandCommandImports("!`date +%s%N`", dir, false, { cache: uncached });
+    await expandCommandImports("!`date +%s%N`", dir, false, { cache: uncached });
+    expect(uncached.hits.size).toBe(0);
+  });
+
+  it("ignores entries written by another cache version", async () => {
+    await setCachedImport("url:v", "old", { dir: cacheDir });
+    const { metadataPath } = getImportCachePaths("url:v", cacheDir);
+    const metadata = JSON.parse(await readFile(metadataPath, "utf-8"));
+    await writeFile(metadataPath, JSON.stringify({ ...metadata, version: 0 }));
+
+    expect(await getCachedImport("url:v", cacheDir)).toBeUndefined();
+  });
+
+  it("misses symbol imports when the extractor version changes", async () => {
+    const content = "@./src/b.ts#b";
+    await expandContentImports(content, dir, new Set(), false, { cache: { hits: new Set(), dir: cacheDir } });
+
+    const typescript = getSymbolExtractor("b.ts");
+    registerSymbolExtractor({ ...typescript, version: "next" });
+    try {
+      const hits = new Set<string>();
+      await expandContentImports(content, dir, new Set(), false, { cache: { hits, dir: cacheDir } });
+      expect(hits.size).toBe(0);
+    } finally {
+      registerSymbolExtractor(typescript);
+    }
+  });
+
+  it("prunes expired, old and outdated entries at most once a day", async () => {
+    await setCachedImport("url:fresh", "a", { ttlMs: 60_000, dir: cacheDir });
+    await setCachedImport("url:expired", "b", { ttlMs: -1, dir: cacheDir });
+    await setCachedImport("symbol:old", "c", { dir: cacheDir });
+    const { metadataPath } = getImportCachePaths("symbol:old", cacheDir);
+    const metadata = JSON.parse(await readFile(metadataPath, "utf-8"));
+    await writeFile(metadataPath, JSON.stringify({ ...metadata, createdAt: 0 }));
+
+    expect(await pruneImportCache(cacheDir)).toBe(2);
+    expect(await getCachedImport("url:fresh", cacheDir)).toBe("a");
+    expect((await readdir(cacheDir)).filter((f) => f.endsWith(".content"))).toHaveLength(1);
+
+    await setCachedImport("url:expired", "b", { ttlMs: -1, dir: cacheDir });
+    expect(await pruneImportCache(cacheDir)).toBe(0);
+    expect(await pruneImportCache(cacheDir, { force: true })).toBe(1);
+  });
+
+  it("reads the directory from MDFLOW_IMPORT_CACHE_DIR", () => {
+    expect(getImportCacheDir({ MDFLOW_IMPORT_CACHE_DIR: cacheDir })).toBe(cacheDir);
+    expect(getImportCacheDir({})).toBe(IMPORT_CACHE_DIR);
+  });
+
+  it("marks cache hits in the context dashboard", async () => {
+    const analysis = await analyzeContext(join(dir, "agent.md"), "@./src/*.ts @./src/a.ts", dir, new Set(["@./src/*.ts"]));
+    expect(analysis.items.slice(1).map((i) => [i.name, i.cached ?? false])).toEqual([
+      ["@./src/*.ts", true],
+      ["@./src/a.ts", false],
+    ]);
+  });
+});
+
+describe("parseImports command cache modifier", () => {
+  it("attaches the TTL and consumes the modifier", () => {
+    const [action] = parseImports("Log: !`git log -5`{cache: 10m} done");
+    expect(action).toMatchObject({ type: "command", command: "git log -5", cacheTtlMs: 600_000, original: "!`git log -5`{cache: 10m}" });
+  });
+
+  it("leaves invalid modifiers as text", () => {
+    const [action] = parseImports("!`ls`{cache: forever}");
+    expect(action).toMatchObject({ original: "!`ls`" });
+    expect(action).not.toHaveProperty("cacheTtlMs");
+  });
+});
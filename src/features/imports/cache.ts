@@ -0,0 +1,320 @@
+/**
+ * Persistent import cache (~/.mdflow/cache/imports/)
+ *
+ * Uses the layout of the remote cache (../cache): each entry is a
+ * `<sha256>.content` file plus a `<sha256>.meta.json` sidecar. Entries are
+ * validated before use rather than only aged:
+ * - File-backed results (symbols, glob members) store a fingerprint per file
+ *   (mtime, size, SHA-256). Unchanged mtime/size is a hit; otherwise the file
+ *   is re-hashed, so touching a file without editing it keeps the entry.
+ * - Glob keys include the matched file list and the .gitignore rules that
+ *   filtered it, so added, removed or newly ignored files miss.
+ * - URL imports and `!`cmd`{cache: 10m}` inlines expire after a TTL.
+ * - Symbol and glob keys include the symbol extractor's name and version, and
+ *   entries written by another IMPORT_CACHE_VERSION are ignored.
+ *
+ * The directory can be moved with MDFLOW_IMPORT_CACHE_DIR (or per run via
+ * ImportCacheOptions.dir). pruneImportCache removes expired, stale and
+ * outdated entries at most once a day.
+ */
+
+import { mkdir, readFile, writeFile, stat, readdir, rm } from "fs/promises";
+import { join } from "path";
+import { createHash } from "crypto";
+import { CACHE_DIR, hashUrl } from "../cache";
+
+/** Default import cache directory path */
+export const IMPORT_CACHE_DIR = join(CACHE_DIR, "imports");
+
+/** Environment variable that overrides the import cache directory */
+export const IMPORT_CACHE_DIR_ENV = "MDFLOW_IMPORT_CACHE_DIR";
+
+/** Version of the entry format; entries written by another version are misses */
+export const IMPORT_CACHE_VERSION = 1;
+
+/** Entries older than this are pruned, even when still valid */
+export const IMPORT_CACHE_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** Minimum time between two prunes of the same directory */
+const PRUNE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+/** Marker file whose mtime records the last prune */
+const PRUNE_MARKER = ".last-prune";
+
+/**
+ * Get the import cache directory (MDFLOW_IMPORT_CACHE_DIR or the default)
+ */
+export function getImportCacheDir(env: Record<string, string | undefined> = process.env): string {
+  return env[IMPORT_CACHE_DIR_ENV] || IMPORT_CACHE_DIR;
+}
+
+/** Snapshot of a file an entry was built from */
+export interface FileFingerprint {
+  path: string;
+  mtimeMs: number;
+  size: number;
+  /** SHA-256 of the file's text */
+  hash: string;
+}
+
+/** Import cache entry metadata stored alongside content */
+export interface ImportCacheMetadata {
+  /** Readable cache key (kind and source) */
+  key: string;
+  /** IMPORT_CACHE_VERSION the entry was written with */
+  version?: number;
+  createdAt: number;
+  /** Entry expires after this long (URLs, commands) */
+  ttlMs?: number;
+  /** Files the entry is valid for (symbols, globs) */
+  files?: FileFingerprint[];
+}
+
+/**
+ * Per-run cache settings, passed to the import pipeline via ImportContext.cache
+ * Imports are only cached when this is set.
+ */
+export interface ImportCacheOptions {
+  /** Original import text of every import served from the cache */
+  hits: Set<string>;
+  /** Cache directory (default: getImportCacheDir()) */
+  dir?: string;
+}
+
+/** Units accepted by `cache: <n><unit>` */
+const DURATION_UNITS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parse a cache duration such as `30s`, `10m`, `2h` or `1d` to milliseconds
+ * Returns undefined for anything else.
+ */
+export function parseCacheDuration(value: string): number | undefined {
+  const match = value.trim().match(/^(\d+)\s*([smhd])$/);
+  if (!match) return undefined;
+  return Number(match[1]) * DURATION_UNITS[match[2]!]!;
+}
+
+/**
+ * SHA-256 of text content
+ */
+export function hashContent(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Get the file paths for an import cache key
+ */
+export function getImportCachePaths(key: string, dir: string = getImportCacheDir()): { contentPath: string; metadataPath: string } {
+  const hash = hashUrl(key);
+  return {
+    contentPath: join(dir, `${hash}.content`),
+    metadataPath: join(dir, `${hash}.meta.json`),
+  };
+}
+
+/**
+ * Fingerprint a file whose text has already been read
+ */
+export async function fingerprintFile(path: string, content: string): Promise<FileFingerprint> {
+  const info = await stat(path);
+  return { path, mtimeMs: info.mtimeMs, size: info.size, hash: hashContent(content) };
+}
+
+/**
+ * Check that a file still matches its fingerprint
+ * Falls back to hashing when mtime or size changed.
+ */
+async function isFileUnchanged(fingerprint: FileFingerprint): Promise<boolean> {
+  try {
+    const info = await stat(fingerprint.path);
+    if (info.mtimeMs === fingerprint.mtimeMs && info.size === fingerprint.size) {
+      return true;
+    }
+    const content = await readFile(fingerprint.path, "utf-8");
+    return hashContent(content) === fingerprint.hash;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether an entry's TTL has run out
+ */
+function isExpired(metadata: ImportCacheMetadata, now: number = Date.now()): boolean {
+  return metadata.ttlMs !== undefined && now - metadata.createdAt > metadata.ttlMs;
+}
+
+/**
+ * Look up a valid import cache entry
+ * Returns undefined when the entry is missing, expired (unless `ignoreTtl`,
+ * for offline mode) or any of its files changed.
+ */
+export async function getCachedImport(
+  key: string,
+  dir: string = getImportCacheDir(),
+  options: { ignoreTtl?: boolean } = {}
+): Promise<string | undefined> {
+  const { contentPath, metadataPath } = getImportCachePaths(key, dir);
+
+  try {
+    const metadata: ImportCacheMetadata = JSON.parse(await readFile(metadataPath, "utf-8"));
+
+    if (metadata.version !== IMPORT_CACHE_VERSION || (isExpired(metadata) && !options.ignoreTtl)) {
+      return undefined;
+    }
+
+    for (const fingerprint of metadata.files ?? []) {
+      if (!await isFileUnchanged(fingerprint)) return undefined;
+    }
+
+    return await readFile(contentPath, "utf-8");
+  } catch {
+    // Cache miss - entry doesn't exist or is corrupted
+    return undefined;
+  }
+}
+
+/**
+ * Store an import result in the cache
+ */
+export async function setCachedImport(
+  key: string,
+  content: string,
+  options: { ttlMs?: number; files?: FileFingerprint[]; dir?: string } = {}
+): Promise<void> {
+  const { ttlMs, files, dir = getImportCacheDir() } = options;
+
+  await mkdir(dir, { recursive: true });
+
+  const { contentPath, metadataPath } = getImportCachePaths(key, dir);
+
+  const metadata: ImportCacheMetadata = {
+    key,
+    version: IMPORT_CACHE_VERSION,
+    createdAt: Date.now(),
+    ...(ttlMs !== undefined && { ttlMs }),
+    ...(files && { files }),
+  };
+
+  await Promise.all([
+    writeFile(contentPath, content, "utf-8"),
+    writeFile(metadataPath, JSON.stringify(metadata, null, 2), "utf-8"),
+  ]);
+}
+
+/**
+ * Remove expired entries, entries older than `maxAgeMs`, entries from another
+ * IMPORT_CACHE_VERSION and unreadable ones
+ *
+ * Skipped when the directory was pruned less than a day ago (unless `force`).
+ * File-backed entries are not re-validated here; they are checked on lookup.
+ *
+ * @returns Number of entries removed
+ */
+export async function pruneImportCache(
+  dir: string = getImportCacheDir(),
+  options: { maxAgeMs?: number; force?: boolean } = {}
+): Promise<number> {
+  const { maxAgeMs = IMPORT_CACHE_MAX_AGE_MS, force = false } = options;
+  const marker = join(dir, PRUNE_MARKER);
+  const now = Date.now();
+
+  try {
+    if (!force && now - (await stat(marker)).mtimeMs < PRUNE_INTERVAL_MS) return 0;
+  } catch {
+    // Never pruned
+  }
+
+  let names: string[];
+  try {
+    names = await readdir(dir);
+  } catch {
+    // Cache directory doesn't exist
+    return 0;
+  }
+
+  let removed = 0;
+  for (const name of names.filter((n) => n.endsWith(".meta.json"))) {
+    const metadataPath = join(dir, name);
+    const contentPath = join(dir, name.replace(/\.meta\.json$/, ".content"));
+    try {
+      const metadata: ImportCacheMetadata = JSON.parse(await readFile(metadataPath, "utf-8"));
+      const stale = metadata.version !== IMPORT_CACHE_VERSION || isExpired(metadata, now) || now - metadata.createdAt > maxAgeMs;
+      if (!stale) continue;
+    } catch {
+      // Corrupted entry
+    }
+    await Promise.all([rm(contentPath, { force: true }), rm(metadataPath, { force: true })]);
+    removed++;
+  }
+
+  await writeFile(marker, "", "utf-8");
+  return removed;
+}
+
+/** An import cache entry (md cache list) */
+export interface ImportCacheEntry {
+  key: string;
+  createdAt: number;
+  /** Content size in bytes */
+  size: number;
+  expired: boolean;
+}
+
+/**
+ * List import cache entries, newest first
+ */
+export async function listImportCache(dir: string = getImportCacheDir()): Promise<ImportCacheEntry[]> {
+  let names: string[];
+  try {
+    names = await readdir(dir);
+  } catch {
+    // Cache directory doesn't exist
+    return [];
+  }
+
+  const entries: ImportCacheEntry[] = [];
+  for (const name of names.filter((n) => n.endsWith(".meta.json"))) {
+    try {
+      const metadata: ImportCacheMetadata = JSON.parse(await readFile(join(dir, name), "utf-8"));
+      const info = await stat(join(dir, name.replace(/\.meta\.json$/, ".content")));
+      entries.push({ key: metadata.key, createdAt: metadata.createdAt, size: info.size, expired: isExpired(metadata) });
+    } catch {
+      // Skip corrupted entries
+    }
+  }
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Remove one import cache entry
+ * @returns Whether the entry existed
+ */
+export async function invalidateCachedImport(key: string, dir: string = getImportCacheDir()): Promise<boolean> {
+  const { contentPath, metadataPath } = getImportCachePaths(key, dir);
+  let existed = true;
+  await stat(metadataPath).catch(() => { existed = false; });
+  await Promise.all([rm(contentPath, { force: true }), rm(metadataPath, { force: true })]);
+  return existed;
+}
+
+/**
+ * Remove every import cache entry
+ * @returns Number of entries removed
+ */
+export async function clearImportCache(dir: string = getImportCacheDir()): Promise<number> {
+  let names: string[];
+  try {
+    names = await readdir(dir);
+  } catch {
+    // Cache directory doesn't exist
+    return 0;
+  }
+  await Promise.all(names.map((name) => rm(join(dir, name), { force: true })));
+  return names.filter((n) => n.endsWith(".meta.json")).length;
+}
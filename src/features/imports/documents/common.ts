@@ -0,0 +1,50 @@
+/**
+ * Shared types and helpers for document extractors
+ */
+
+/** Options passed to DocumentExtractor.extract */
+export interface DocumentOptions {
+  /** Rows kept per table (CSV, spreadsheet sheets); the rest are summarized */
+  maxRows: number;
+}
+
+/** Turns a non-text document into markdown */
+export interface DocumentExtractor {
+  /** Extractor name (e.g., "pdf") */
+  name: string;
+  /** File extensions handled, including the dot (e.g., ".pdf") */
+  extensions: string[];
+  /** MIME types handled (e.g., "application/pdf"), used for URL imports */
+  mimeTypes: string[];
+  /** Bumped when the extracted text changes; part of import cache keys */
+  version?: string;
+  extract(data: Uint8Array, options: DocumentOptions): string | Promise<string>;
+}
+
+/** Escape a table cell: pipes would split it, newlines would end the row */
+function escapeCell(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>").trim();
+}
+
+/**
+ * Render rows as a markdown table, the first row being the header
+ * Rows beyond `maxRows` (header excluded) are summarized in a note.
+ */
+export function markdownTable(rows: string[][], maxRows: number): string {
+  if (rows.length === 0) return "";
+
+  const width = Math.max(...rows.map((row) => row.length));
+  const pad = (row: string[]) => Array.from({ length: width }, (_, i) => escapeCell(row[i] ?? ""));
+  const line = (cells: string[]) => `| ${cells.join(" | ")} |`;
+
+  const [header, ...body] = rows;
+  const kept = body.slice(0, maxRows);
+  const table = [
+    line(pad(header!)),
+    line(Array.from({ length: width }, () => "---")),
+    ...kept.map((row) => line(pad(row))),
+  ].join("\n");
+
+  const omitted = body.length - kept.length;
+  return omitted > 0 ? `${table}\n\n[... ${omitted} more rows omitted]` : table;
+}
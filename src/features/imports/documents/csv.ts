@@ -0,0 +1,72 @@
+/**
+ * Document extraction for CSV and TSV tables
+ *
+ * Rendered as a markdown table with the first row as header. The delimiter
+ * (comma, semicolon or tab) is the one most frequent in the first line.
+ */
+
+import { markdownTable, type DocumentExtractor } from "./common";
+
+const DELIMITERS = [",", ";", "\t"];
+
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const count = (delimiter: string) => firstLine.split(delimiter).length;
+  return DELIMITERS.reduce((best, delimiter) => (count(delimiter) > count(best) ? delimiter : best));
+}
+
+/**
+ * Parse delimited text (RFC 4180): quoted fields may contain delimiters,
+ * newlines and doubled quotes; blank lines are skipped
+ */
+export function parseDelimited(text: string, delimiter: string = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]!;
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      // Blank lines are not rows
+      if (row.length > 1 || field !== "") rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+export const csvExtractor: DocumentExtractor = {
+  name: "csv",
+  extensions: [".csv", ".tsv"],
+  mimeTypes: ["text/csv", "text/tab-separated-values"],
+  version: "1",
+
+  extract(data, { maxRows }) {
+    return markdownTable(parseDelimited(new TextDecoder().decode(data)), maxRows);
+  },
+};
@@ -0,0 +1,260 @@
+import { describe, it, expect } from "bun:test";
+import { deflateRawSync, deflateSync } from "zlib";
+import {
+  extractDocument,
+  getDocumentExtractor,
+  registerDocumentExtractor,
+  markdownTable,
+} from "./index";
+import { parseDelimited } from "./csv";
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+/** Build a ZIP archive with deflated entries (declaredSize overrides the recorded uncompressed sizes) */
+function zip(entries: Record<string, string>, declaredSize?: number): Uint8Array {
+  const local: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(entries)) {
+    const nameBytes = Buffer.from(name);
+    const raw = Buffer.from(content);
+    const compressed = deflateRawSync(raw);
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(8, 8);
+    header.writeUInt32LE(compressed.length, 18);
+    header.writeUInt32LE(declaredSize ?? raw.length, 22);
+    header.writeUInt16LE(nameBytes.length, 26);
+    local.push(header, nameBytes, compressed);
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(8, 10);
+    entry.writeUInt32LE(compressed.length, 20);
+    entry.writeUInt32LE(declaredSize ?? raw.length, 24);
+    entry.writeUInt16LE(nameBytes.length, 28);
+    entry.writeUInt32LE(offset, 42);
+    central.push(entry, nameBytes);
+
+    offset += header.length + nameBytes.length + compressed.length;
+  }
+
+  const directory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(entries).length, 8);
+  end.writeUInt16LE(Object.keys(entries).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return new Uint8Array(Buffer.concat([...local, directory, end]));
+}
+
+/** Build a PDF from object bodies (1-based ids); streams are deflated */
+function pdf(objects: Array<string | { dict: string; stream: string }>): Uint8Array {
+  const parts: Buffer[] = [Buffer.from("%PDF-1.7\n")];
+  objects.forEach((object, i) => {
+    if (typeof object === "string") {
+      parts.push(Buffer.from(`${i + 1} 0 obj\n${object}\nendobj\n`));
+    } else {
+      const data = deflateSync(Buffer.from(object.stream, "latin1"));
+      parts.push(
+        Buffer.from(`${i + 1} 0 obj\n<< ${object.dict} /Length ${data.length} /Filter /FlateDecode >>\nstream\n`),
+        data,
+        Buffer.from("\nendstream\nendobj\n")
+      );
+    }
+  });
+  parts.push(Buffer.from("trailer\n<< /Root 1 0 R >>\n%%EOF\n"));
+  return new Uint8Array(Buffer.concat(parts));
+}
+
+describe("registry", () => {
+  it("selects extractors by MIME type before extension", () => {
+    expect(getDocumentExtractor("spec.pdf")?.name).toBe("pdf");
+    expect(getDocumentExtractor("/files/export", "text/csv; charset=utf-8")?.name).toBe("csv");
+    expect(getDocumentExtractor("data.txt", "application/pdf")?.name).toBe("pdf");
+    expect(getDocumentExtractor("notes.txt")).toBeUndefined();
+  });
+
+  it("accepts custom extractors", async () => {
+    registerDocumentExtractor({
+      name: "upper",
+      extensions: [".upper"],
+      mimeTypes: [],
+      extract: (data) => new TextDecoder().decode(data).toUpperCase(),
+    });
+    expect(await extractDocument(encode("shout"), "a.upper")).toBe("SHOUT");
+  });
+
+  it("names the format when extraction fails", async () => {
+    await expect(extractDocument(encode("not a zip"), "report.docx")).rejects.toThrow(
+      "Cannot extract docx document report.docx: not a ZIP archive"
+    );
+  });
+});
+
+describe("tables", () => {
+  it("renders rows with escaped cells and a row limit", () => {
+    const table = markdownTable([["name", "note"], ["a|b", "two\nlines"], ["c"], ["d", "e"]], 2);
+    expect(table).toBe([
+      "| name | note |",
+      "| --- | --- |",
+      "| a\\|b | two<br>lines |",
+      "| c |  |",
+      "",
+      "[... 1 more rows omitted]",
+    ].join("\n"));
+  });
+
+  it("parses quoted CSV fields and detects the delimiter", () => {
+    expect(parseDelimited('a,b\n"x, y","say ""hi"""\n\n1,2\n')).toEqual([["a", "b"], ["x, y", 'say "hi"'], ["1", "2"]]);
+    expect(parseDelimited("a;b\r\n1;2")).toEqual([["a", "b"], ["1", "2"]]);
+    expect(parseDelimited("a\tb\n1\t2")).toEqual([["a", "b"], ["1", "2"]]);
+  });
+
+  it("limits CSV rows with rows=N", async () => {
+    const csv = encode(["id", ...Array.from({ length: 10 }, (_, i) => String(i))].join("\n"));
+    const result = await extractDocument(csv, "ids.csv", { maxRows: 3 });
+    expect(result.split("\n").slice(0, 5)).toEqual(["| id |", "| --- |", "| 0 |", "| 1 |", "| 2 |"]);
+    expect(result).toEndWith("[... 7 more rows omitted]");
+  });
+});
+
+describe("notebook extractor", () => {
+  it("renders markdown cells, code cells and their outputs", async () => {
+    const notebook = {
+      metadata: { language_info: { name: "python" } },
+      cells: [
+        { cell_type: "markdown", source: ["# Analysis\n", "Loading data."] },
+        {
+          cell_type: "code",
+          source: "print('hi')\n1 + 1",
+          outputs: [
+            { output_type: "stream", name: "stdout", text: ["hi\n"] },
+            { output_type: "execute_result", data: { "text/plain": "2", "text/html": "<b>2</b>" } },
+            { output_type: "display_data", data: { "image/png": "iVBOR..." } },
+          ],
+        },
+        {
+          cell_type: "code",
+          source: "1/0",
+          outputs: [{ output_type: "error", ename: "ZeroDivisionError", evalue: "division by zero", traceback: ["\u001b[31mZeroDivisionError\u001b[0m: division by zero"] }],
+        },
+      ],
+    };
+    const result = await extractDocument(encode(JSON.stringify(notebook)), "analysis.ipynb");
+    expect(result).toBe([
+      "# Analysis\nLoading data.",
+      "```python\nprint('hi')\n1 + 1\n```",
+      "Output:\n\n```\nhi\n```",
+      "Output:\n\n```\n2\n```",
+      "Output:\n\n[image/png output]",
+      "```python\n1/0\n```",
+      "Output:\n\n```\nZeroDivisionError: division by zero\n```",
+    ].join("\n\n"));
+  });
+});
+
+describe("office extractors", () => {
+  it("extracts DOCX headings, paragraphs, lists and tables", async () => {
+    const document = `<?xml version="1.0" encoding="UTF-8"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>
+<w:p><w:pPr><w:pStyle w:val="Heading1"/></w:pPr><w:r><w:t>Spec</w:t></w:r></w:p>
+<w:p><w:r><w:t xml:space="preserve">Fast &amp; </w:t></w:r><w:r><w:t>small</w:t></w:r><w:del><w:r><w:delText>slow</w:delText></w:r></w:del></w:p>
+<w:p><w:pPr><w:numPr><w:ilvl w:val="0"/></w:numPr></w:pPr><w:r><w:t>First item</w:t></w:r></w:p>
+<w:tbl><w:tr><w:tc><w:p><w:r><w:t>Key</w:t></w:r></w:p></w:tc><w:tc><w:p><w:r><w:t>Value</w:t></w:r></w:p></w:tc></w:tr>
+<w:tr><w:tc><w:p><w:r><w:t>port</w:t></w:r></w:p></w:tc><w:tc><w:p><w:r><w:t>8080</w:t></w:r></w:p></w:tc></w:tr></w:tbl>
+</w:body></w:document>`;
+    const result = await extractDocument(zip({ "word/document.xml": document }), "spec.docx");
+    expect(result).toBe("# Spec\n\nFast & small\n\n- First item\n\n| Key | Value |\n| --- | --- |\n| port | 8080 |");
+  });
+
+  it("refuses entries larger than the import size limit", async () => {
+    const bomb = "0".repeat(11 * 1024 * 1024);
+    await expect(extractDocument(zip({ "word/document.xml": "<w:document/>" }, 11 * 1024 * 1024), "big.docx")).rejects.toThrow(
+      "ZIP entry word/document.xml is larger than 10.0MB"
+    );
+    // Declared as tiny, but inflates past the limit
+    await expect(extractDocument(zip({ "word/document.xml": bomb }, 100), "bomb.docx")).rejects.toThrow(
+      "ZIP entry word/document.xml is larger than 10.0MB"
+    );
+  });
+
+  it("extracts ODT headings, spaced text and lists", async () => {
+    const content = `<office:document-content><office:body><office:text>
+<text:h text:outline-level="2">Notes</text:h>
+<text:p>a<text:s text:c="2"/>b<text:span> c</text:span></text:p>
+<text:list><text:list-item><text:p>one</text:p></text:list-item><text:list-item><text:p>two</text:p></text:list-item></text:list>
+</office:text></office:body></office:document-content>`;
+    const result = await extractDocument(zip({ "content.xml": content }), "notes.odt");
+    expect(result).toBe("## Notes\n\na  b c\n\n- one\n- two");
+  });
+
+  it("renders XLSX sheets as tables with shared strings", async () => {
+    const result = await extractDocument(zip({
+      "xl/workbook.xml": `<workbook><sheets><sheet name="Budget" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+      "xl/_rels/workbook.xml.rels": `<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>`,
+      "xl/sharedStrings.xml": `<sst><si><t>Item</t></si><si><t>Cost</t></si><si><r><t>Lap</t></r><r><t>top</t></r></si></sst>`,
+      "xl/worksheets/sheet1.xml": `<worksheet><sheetData>
+<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c></row>
+<row r="2"><c r="A2" t="s"><v>2</v></c><c r="C2"><v>1200</v></c></row>
+<row r="4"><c r="B4" t="b"><v>1</v></c></row>
+</sheetData></worksheet>`,
+    }), "budget.xlsx");
+    expect(result).toBe([
+      "## Budget",
+      "",
+      "| Item | Cost |  |",
+      "| --- | --- | --- |",
+      "| Laptop |  | 1200 |",
+      "|  |  |  |",
+      "|  | TRUE |  |",
+    ].join("\n"));
+  });
+});
+
+describe("pdf extractor", () => {
+  it("extracts text lines from content streams", async () => {
+    const content = [
+      "BT /F1 12 Tf 72 720 Td (Hello \\(PDF\\)) Tj 0 -14 Td [(W) 120 (orld) -400 (again)] TJ ET",
+      "BT 72 690 Td <4869> Tj ET",
+    ].join("\n");
+    const data = pdf([
+      "<< /Type /Catalog /Pages 2 0 R >>",
+      "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+      "<< /Type /Page /Parent 2 0 R /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>",
+      { dict: "", stream: content },
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>",
+    ]);
+    expect(await extractDocument(data, "doc.pdf")).toBe("Hello (PDF)\nWorld again\nHi");
+  });
+
+  it("decodes fonts through their ToUnicode CMap and keeps page order", async () => {
+    const cmap = "begincmap\n1 begincodespacerange <0000> <FFFF> endcodespacerange\n" +
+      "2 beginbfchar <0001> <0048> <0002> <0069> endbfchar\n1 beginbfrange <0010> <0012> <0061> endbfrange\nendcmap";
+    const data = pdf([
+      "<< /Type /Catalog /Pages 2 0 R >>",
+      "<< /Type /Pages /Kids [4 0 R 3 0 R] /Count 2 /Resources << /Font << /F1 6 0 R >> >> >>",
+      "<< /Type /Page /Parent 2 0 R /Contents 5 0 R >>",
+      "<< /Type /Page /Parent 2 0 R /Contents [7 0 R] >>",
+      { dict: "", stream: "BT /F1 10 Tf <000100020010001100120012> Tj ET" },
+      "<< /Type /Font /Subtype /Type0 /ToUnicode 8 0 R >>",
+      { dict: "", stream: "BT /F1 10 Tf <0001> Tj ET" },
+      { dict: "", stream: cmap },
+    ]);
+    expect(await extractDocument(data, "doc.pdf")).toBe("H\n\nHiabcc");
+  });
+
+  it("rejects PDFs without text", async () => {
+    const data = pdf([
+      "<< /Type /Catalog /Pages 2 0 R >>",
+      "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+      "<< /Type /Page /Parent 2 0 R /Contents 4 0 R >>",
+      { dict: "", stream: "q 100 0 0 100 0 0 cm /Im1 Do Q" },
+    ]);
+    await expect(extractDocument(data, "scan.pdf")).rejects.toThrow("no extractable text");
+    await expect(extractDocument(encode("fake pdf"), "fake.pdf")).rejects.toThrow("not a PDF file");
+  });
+});
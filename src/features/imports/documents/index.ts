@@ -0,0 +1,104 @@
+/**
+ * Document extraction for non-text imports (`@./spec.pdf`, `@./data.xlsx`)
+ *
+ * Each format has a DocumentExtractor that turns the file's bytes into
+ * markdown. Extractors are chosen by MIME type (URL imports) or file
+ * extension and can be replaced or extended via registerDocumentExtractor().
+ *
+ * Built-in extractors (all offline, in TypeScript):
+ * - PDF: page text
+ * - DOCX, ODT: paragraphs, headings, lists and tables
+ * - Jupyter notebooks: markdown cells, code cells with their outputs
+ * - CSV/TSV, XLSX: markdown tables, at most `rows=N` rows per table
+ */
+
+import { extname } from "path";
+import { pdfExtractor } from "./pdf";
+import { docxExtractor, odtExtractor, xlsxExtractor } from "./office";
+import { notebookExtractor } from "./notebook";
+import { csvExtractor } from "./csv";
+import type { DocumentExtractor, DocumentOptions } from "./common";
+
+export type { DocumentExtractor, DocumentOptions } from "./common";
+export { markdownTable } from "./common";
+
+/** Rows kept per table when the import has no `rows=N` option */
+export const DEFAULT_MAX_ROWS = 100;
+
+/**
+ * Registries of document extractors indexed by file extension and MIME type
+ */
+const extensionRegistry: Map<string, DocumentExtractor> = new Map();
+const mimeTypeRegistry: Map<string, DocumentExtractor> = new Map();
+
+/**
+ * Register a document extractor for its extensions and MIME types
+ * Later registrations override earlier ones.
+ */
+export function registerDocumentExtractor(extractor: DocumentExtractor): void {
+  for (const ext of extractor.extensions) {
+    extensionRegistry.set(ext.toLowerCase(), extractor);
+  }
+  for (const mimeType of extractor.mimeTypes) {
+    mimeTypeRegistry.set(mimeType.toLowerCase(), extractor);
+  }
+}
+
+/**
+ * Get the extractor for a file or URL path, if its type is a document
+ * A MIME type (e.g., a Content-Type header with parameters) takes precedence
+ * over the extension.
+ */
+export function getDocumentExtractor(filePath: string, mimeType?: string | null): DocumentExtractor | undefined {
+  const baseType = mimeType?.split(";")[0]?.trim().toLowerCase();
+  return (baseType ? mimeTypeRegistry.get(baseType) : undefined) ?? extensionRegistry.get(extname(filePath).toLowerCase());
+}
+
+/**
+ * Name and version of the extractor for a document (part of import cache keys)
+ */
+export function getDocumentExtractorTag(filePath: string): string | undefined {
+  const extractor = getDocumentExtractor(filePath);
+  return extractor && `${extractor.name}@${extractor.version ?? "0"}`;
+}
+
+/**
+ * Extract a document's text as markdown
+ *
+ * @param data - File content
+ * @param filePath - Path or URL of the document (selects the extractor, used in errors)
+ * @param options.maxRows - Rows kept per table (default DEFAULT_MAX_ROWS)
+ * @param options.mimeType - MIME type, when known (URL imports)
+ * @throws Error if no extractor handles the document or it cannot be read
+ */
+export async function extractDocument(
+  data: Uint8Array,
+  filePath: string,
+  options: Partial<DocumentOptions> & { mimeType?: string | null } = {}
+): Promise<string> {
+  const extractor = getDocumentExtractor(filePath, options.mimeType);
+  if (!extractor) {
+    throw new Error(`No document extractor for ${filePath}`);
+  }
+  try {
+    return await extractor.extract(data, { maxRows: options.maxRows ?? DEFAULT_MAX_ROWS });
+  } catch (error) {
+    throw new Error(`Cannot extract ${extractor.name} document ${filePath}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Initialize the registry with built-in extractors
+ * Called automatically on module load
+ */
+function initializeBuiltinExtractors(): void {
+  registerDocumentExtractor(pdfExtractor);
+  registerDocumentExtractor(docxExtractor);
+  registerDocumentExtractor(odtExtractor);
+  registerDocumentExtractor(xlsxExtractor);
+  registerDocumentExtractor(notebookExtractor);
+  registerDocumentExtractor(csvExtractor);
+}
+
+// Initialize built-in extractors on module load
+initializeBuiltinExtractors();
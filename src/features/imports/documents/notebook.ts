@@ -0,0 +1,99 @@
+/**
+ * Document extraction for Jupyter notebooks (.ipynb)
+ *
+ * Markdown cells are kept as written, code cells become fenced blocks in the
+ * kernel's language followed by their outputs: stream text, text results and
+ * errors (tracebacks without ANSI colors). Rich outputs like images are
+ * listed by MIME type only.
+ */
+
+import type { DocumentExtractor } from "./common";
+
+/** nbformat multiline strings are a string or a list of lines */
+type MultilineString = string | string[];
+
+interface NotebookOutput {
+  output_type: "stream" | "execute_result" | "display_data" | "error";
+  text?: MultilineString;
+  data?: Record<string, MultilineString | object>;
+  ename?: string;
+  evalue?: string;
+  traceback?: string[];
+}
+
+interface NotebookCell {
+  cell_type: "markdown" | "code" | "raw";
+  source: MultilineString;
+  outputs?: NotebookOutput[];
+}
+
+interface Notebook {
+  cells?: NotebookCell[];
+  metadata?: {
+    kernelspec?: { language?: string };
+    language_info?: { name?: string };
+  };
+}
+
+/** Text outputs in order of preference */
+const TEXT_MIME_TYPES = ["text/markdown", "text/plain"];
+
+const ANSI_ESCAPE = /\u001b\[[0-9;]*[A-Za-z]/g;
+
+const joinLines = (value: MultilineString | undefined) => (Array.isArray(value) ? value.join("") : value ?? "");
+
+/** Fence that no line of the content can close */
+function fence(content: string, language = ""): string {
+  const longest = Math.max(2, ...(content.match(/^`{3,}/gm) ?? []).map((ticks) => ticks.length));
+  const ticks = "`".repeat(longest + 1);
+  return `${ticks}${language}\n${content}\n${ticks}`;
+}
+
+function renderOutput(output: NotebookOutput): string {
+  switch (output.output_type) {
+    case "stream":
+      return fence(joinLines(output.text).trimEnd());
+    case "error": {
+      const traceback = output.traceback?.join("\n") ?? `${output.ename}: ${output.evalue}`;
+      return fence(traceback.replace(ANSI_ESCAPE, "").trimEnd());
+    }
+    default: {
+      const data = output.data ?? {};
+      const mimeType = TEXT_MIME_TYPES.find((type) => type in data);
+      if (mimeType === "text/markdown") return joinLines(data[mimeType] as MultilineString).trim();
+      if (mimeType) return fence(joinLines(data[mimeType] as MultilineString).trimEnd());
+      const types = Object.keys(data);
+      return types.length > 0 ? `[${types.join(", ")} output]` : "";
+    }
+  }
+}
+
+export const notebookExtractor: DocumentExtractor = {
+  name: "ipynb",
+  extensions: [".ipynb"],
+  mimeTypes: ["application/x-ipynb+json"],
+  version: "1",
+
+  extract(data) {
+    let notebook: Notebook;
+    try {
+      notebook = JSON.parse(new TextDecoder().decode(data));
+    } catch (error) {
+      throw new Error(`not a Jupyter notebook: ${(error as Error).message}`);
+    }
+    if (!Array.isArray(notebook.cells)) throw new Error("not a Jupyter notebook (no cells)");
+
+    const language = notebook.metadata?.language_info?.name ?? notebook.metadata?.kernelspec?.language ?? "";
+    const blocks = notebook.cells.flatMap((cell) => {
+      const source = joinLines(cell.source).trim();
+      if (cell.cell_type === "markdown") return source ? [source] : [];
+      if (cell.cell_type === "raw") return source ? [fence(source)] : [];
+
+      const outputs = (cell.outputs ?? []).map(renderOutput).filter(Boolean);
+      if (!source && outputs.length === 0) return [];
+      return [fence(source, language), ...outputs.map((output) => `Output:\n\n${output}`)];
+    });
+
+    return blocks.join("\n\n");
+  },
+};
@@ -0,0 +1,242 @@
+/**
+ * Document extraction for office formats
+ *
+ * - DOCX (Word) and ODT (OpenDocument text): paragraphs, with headings and
+ *   list items marked up and tables rendered as markdown tables
+ * - XLSX (Excel): one markdown table per sheet; cells show their stored
+ *   values (dates stay serial numbers, formulas show their last result)
+ */
+
+import { markdownTable, type DocumentExtractor } from "./common";
+import { readZip, type ZipArchive } from "./zip";
+import { parseXml, childElements, findElements, textContent, type XmlElement } from "./xml";
+
+/** Read and parse an archive part that the format requires */
+function requirePart(archive: ZipArchive, path: string, format: string): XmlElement {
+  const xml = archive.text(path);
+  if (xml === undefined) throw new Error(`not a ${format} document (missing ${path})`);
+  return parseXml(xml);
+}
+
+/** Join paragraphs, dropping runs of empty ones */
+function joinBlocks(blocks: string[]): string {
+  return blocks.join("\n\n").replace(/\n{3,}/g, "\n\n").trim();
+}
+
+// ============================================================================
+// DOCX
+// ============================================================================
+
+/** Text of a Word paragraph or cell: runs, tabs and line breaks */
+function wordText(element: XmlElement): string {
+  return element.children.map((child) => {
+    if (typeof child === "string") return "";
+    switch (child.name) {
+      case "w:t": return textContent(child);
+      case "w:tab": return "\t";
+      case "w:br":
+      case "w:cr": return "\n";
+      case "w:p": return `${wordText(child)}\n`;
+      // Deleted revisions and field codes are not part of the visible text
+      case "w:del":
+      case "w:instrText": return "";
+      default: return wordText(child);
+    }
+  }).join("");
+}
+
+function wordParagraph(paragraph: XmlElement): string {
+  const properties = childElements(paragraph, "w:pPr")[0];
+  const style = properties && childElements(properties, "w:pStyle")[0]?.attributes["w:val"];
+  const text = wordText(paragraph).trim();
+  if (!text) return "";
+
+  const heading = style?.match(/^Heading(\d)$/i)?.[1] ?? (style === "Title" ? "1" : undefined);
+  if (heading) return `${"#".repeat(Number(heading))} ${text}`;
+  if (properties && childElements(properties, "w:numPr").length > 0) return `- ${text}`;
+  return text;
+}
+
+function wordBlocks(container: XmlElement, maxRows: number): string[] {
+  return childElements(container).flatMap((element) => {
+    if (element.name === "w:p") return [wordParagraph(element)];
+    if (element.name === "w:tbl") {
+      const rows = childElements(element, "w:tr").map((row) =>
+        childElements(row, "w:tc").map((cell) => wordText(cell).trim())
+      );
+      return [markdownTable(rows, maxRows)];
+    }
+    // Content controls wrap ordinary paragraphs
+    if (element.name === "w:sdt") return childElements(element, "w:sdtContent").flatMap((c) => wordBlocks(c, maxRows));
+    return [];
+  });
+}
+
+export const docxExtractor: DocumentExtractor = {
+  name: "docx",
+  extensions: [".docx"],
+  mimeTypes: ["application/vnd.openxmlformats-officedocument.wordprocessingml.document"],
+  version: "1",
+
+  extract(data, { maxRows }) {
+    const document = requirePart(readZip(data), "word/document.xml", "DOCX");
+    const body = findElements(document, "w:body")[0] ?? document;
+    return joinBlocks(wordBlocks(body, maxRows));
+  },
+};
+
+// ============================================================================
+// ODT
+// ============================================================================
+
+/** Text of an OpenDocument paragraph: spans, links, spaces, tabs and breaks */
+function odfText(element: XmlElement): string {
+  return element.children.map((child) => {
+    if (typeof child === "string") return child;
+    switch (child.name) {
+      case "text:s": return " ".repeat(Number(child.attributes["text:c"] ?? 1));
+      case "text:tab": return "\t";
+      case "text:line-break": return "\n";
+      // Footnote bodies and annotations would interrupt the sentence
+      case "text:note":
+      case "office:annotation": return "";
+      default: return odfText(child);
+    }
+  }).join("");
+}
+
+function odfBlocks(container: XmlElement, maxRows: number, listDepth = 0): string[] {
+  return childElements(container).flatMap((element): string[] => {
+    switch (element.name) {
+      case "text:p": {
+        const text = odfText(element).trim();
+        return [listDepth > 0 && text ? `${"  ".repeat(listDepth - 1)}- ${text}` : text];
+      }
+      case "text:h": {
+        const level = Math.min(6, Number(element.attributes["text:outline-level"] ?? 1));
+        return [`${"#".repeat(level)} ${odfText(element).trim()}`];
+      }
+      case "text:list": {
+        // One block per list, one line per item
+        const items = childElements(element, "text:list-item").flatMap((item) => odfBlocks(item, maxRows, listDepth + 1));
+        return [items.filter(Boolean).join("\n")];
+      }
+      case "table:table": {
+        const rows = findElements(element, "table:table-row").map((row) =>
+          childElements(row, "table:table-cell").map((cell) =>
+            childElements(cell).map((paragraph) => odfText(paragraph).trim()).filter(Boolean).join("\n")
+          )
+        );
+        return [markdownTable(rows, maxRows)];
+      }
+      case "text:section":
+      case "text:list-header":
+        return odfBlocks(element, maxRows, listDepth);
+      default:
+        return [];
+    }
+  });
+}
+
+export const odtExtractor: DocumentExtractor = {
+  name: "odt",
+  extensions: [".odt"],
+  mimeTypes: ["application/vnd.oasis.opendocument.text"],
+  version: "1",
+
+  extract(data, { maxRows }) {
+    const content = requirePart(readZip(data), "content.xml", "ODT");
+    const text = findElements(content, "office:text")[0] ?? content;
+    return joinBlocks(odfBlocks(text, maxRows));
+  },
+};
+
+// ============================================================================
+// XLSX
+// ============================================================================
+
+/** Zero-based column of a cell reference ("C7" -> 2) */
+function columnIndex(reference: string): number {
+  const letters = reference.match(/^[A-Z]+/)?.[0] ?? "";
+  let index = 0;
+  for (const letter of letters) index = index * 26 + letter.charCodeAt(0) - 64;
+  return index - 1;
+}
+
+/** Text of a shared or inline string: plain or rich-text runs, without phonetic hints */
+function spreadsheetString(item: XmlElement): string {
+  return childElements(item).map((child) => {
+    if (child.name === "t") return textContent(child);
+    if (child.name === "r") return childElements(child, "t").map(textContent).join("");
+    return "";
+  }).join("");
+}
+
+function cellValue(cell: XmlElement, sharedStrings: string[]): string {
+  const value = childElements(cell, "v")[0];
+  const raw = value ? textContent(value) : "";
+  switch (cell.attributes["t"]) {
+    case "s": return sharedStrings[Number(raw)] ?? "";
+    case "inlineStr": {
+      const inline = childElements(cell, "is")[0];
+      return inline ? spreadsheetString(inline) : "";
+    }
+    case "b": return raw === "1" ? "TRUE" : "FALSE";
+    default: return raw;
+  }
+}
+
+function sheetRows(sheet: XmlElement, sharedStrings: string[]): string[][] {
+  const rows: string[][] = [];
+  for (const row of findElements(sheet, "row")) {
+    const rowIndex = row.attributes["r"] ? Number(row.attributes["r"]) - 1 : rows.length;
+    const cells: string[] = [];
+    for (const cell of childElements(row, "c")) {
+      const column = cell.attributes["r"] ? columnIndex(cell.attributes["r"]) : cells.length;
+      cells[column] = cellValue(cell, sharedStrings);
+    }
+    rows[rowIndex] = Array.from(cells, (cell) => cell ?? "");
+  }
+  // Rows left out of the sheet are empty
+  return Array.from(rows, (row) => row ?? []);
+}
+
+/** Resolve a relationship target against the workbook part ("worksheets/sheet1.xml" -> "xl/worksheets/sheet1.xml") */
+function resolveTarget(target: string): string {
+  return target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+}
+
+export const xlsxExtractor: DocumentExtractor = {
+  name: "xlsx",
+  extensions: [".xlsx", ".xlsm"],
+  mimeTypes: ["application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"],
+  version: "1",
+
+  extract(data, { maxRows }) {
+    const archive = readZip(data);
+    const workbook = requirePart(archive, "xl/workbook.xml", "XLSX");
+
+    const targets = new Map<string, string>();
+    const relationships = archive.text("xl/_rels/workbook.xml.rels");
+    if (relationships) {
+      for (const relationship of findElements(parseXml(relationships), "Relationship")) {
+        targets.set(relationship.attributes["Id"] ?? "", resolveTarget(relationship.attributes["Target"] ?? ""));
+      }
+    }
+
+    const sharedStringsXml = archive.text("xl/sharedStrings.xml");
+    const sharedStrings = sharedStringsXml
+      ? findElements(parseXml(sharedStringsXml), "si").map(spreadsheetString)
+      : [];
+
+    const sheets = findElements(workbook, "sheet").map((sheet, i) => {
+      const path = targets.get(sheet.attributes["r:id"] ?? "") ?? `xl/worksheets/sheet${i + 1}.xml`;
+      const xml = archive.text(path);
+      const rows = xml ? sheetRows(parseXml(xml), sharedStrings) : [];
+      const name = sheet.attributes["name"] ?? `Sheet${i + 1}`;
+      return rows.length > 0 ? `## ${name}\n\n${markdownTable(rows, maxRows)}` : `## ${name}\n\n(empty sheet)`;
+    });
+
+    return sheets.join("\n\n");
+  },
+};
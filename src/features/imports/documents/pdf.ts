@@ -0,0 +1,539 @@
+/**
+ * Document extraction for PDF
+ *
+ * Reads the object table (including compressed object streams), walks the
+ * page tree and runs each page's content stream through the text operators
+ * (Tj, TJ, ', "), starting a new line when the text position moves down.
+ * Fonts with a ToUnicode CMap are decoded through it; other strings are
+ * read as Latin-1 (or UTF-16 with a byte order mark). Form XObjects are
+ * followed; only FlateDecode (or unfiltered) streams are read.
+ *
+ * Scanned PDFs carry no text and are rejected, as are encrypted ones.
+ */
+
+import { inflateSync } from "zlib";
+import type { DocumentExtractor } from "./common";
+
+class PdfName {
+  constructor(readonly value: string) {}
+}
+
+/** String bytes as Latin-1 characters (one char per byte) */
+class PdfString {
+  constructor(readonly bytes: string) {}
+}
+
+class PdfRef {
+  constructor(readonly id: number) {}
+}
+
+/** A content stream operator (or any bare keyword) */
+class PdfOperator {
+  constructor(readonly value: string) {}
+}
+
+type PdfDict = Map<string, PdfValue>;
+type PdfValue = number | boolean | null | PdfName | PdfString | PdfRef | PdfOperator | PdfValue[] | PdfDict;
+
+interface PdfObject {
+  value: PdfValue;
+  stream?: Uint8Array;
+}
+
+const WHITESPACE = new Set(["\0", "\t", "\n", "\f", "\r", " "]);
+const DELIMITERS = new Set(["(", ")", "<", ">", "[", "]", "{", "}", "/", "%"]);
+const ESCAPES: Record<string, string> = { n: "\n", r: "\r", t: "\t", b: "\b", f: "\f" };
+
+/** Maximum nesting of form XObjects */
+const MAX_FORM_DEPTH = 5;
+
+/**
+ * Tokenizer and object parser over Latin-1 text (one char per byte)
+ */
+class PdfLexer {
+  constructor(readonly source: string, public pos = 0) {}
+
+  private skipWhitespace(): void {
+    while (this.pos < this.source.length) {
+      const char = this.source[this.pos]!;
+      if (WHITESPACE.has(char)) {
+        this.pos++;
+      } else if (char === "%") {
+        while (this.pos < this.source.length && this.source[this.pos] !== "\n" && this.source[this.pos] !== "\r") this.pos++;
+      } else {
+        break;
+      }
+    }
+  }
+
+  /** Whether the next token starts with `text` (skips whitespace) */
+  peek(text: string): boolean {
+    this.skipWhitespace();
+    return this.source.startsWith(text, this.pos);
+  }
+
+  /** Next value, or undefined at the end of input */
+  next(): PdfValue | undefined {
+    this.skipWhitespace();
+    const { source } = this;
+    if (this.pos >= source.length) return undefined;
+    const char = source[this.pos]!;
+
+    if (char === "(") return this.literalString();
+    if (source.startsWith("<<", this.pos)) {
+      this.pos += 2;
+      const dict: PdfDict = new Map();
+      while (!this.peek(">>") && this.pos < source.length) {
+        const key = this.next();
+        const value = this.next();
+        if (key instanceof PdfName && value !== undefined) dict.set(key.value, value);
+      }
+      this.pos += 2;
+      return dict;
+    }
+    if (char === "<") {
+      const end = source.indexOf(">", this.pos);
+      const hex = source.slice(this.pos + 1, end === -1 ? undefined : end).replace(/\s/g, "");
+      this.pos = end === -1 ? source.length : end + 1;
+      return new PdfString(hexToBytes(hex));
+    }
+    if (char === "[") {
+      this.pos++;
+      const array: PdfValue[] = [];
+      while (!this.peek("]") && this.pos < source.length) {
+        const value = this.next();
+        if (value !== undefined) array.push(value);
+      }
+      this.pos++;
+      return array;
+    }
+    if (char === "/") {
+      const start = ++this.pos;
+      while (this.pos < source.length && !WHITESPACE.has(source[this.pos]!) && !DELIMITERS.has(source[this.pos]!)) this.pos++;
+      return new PdfName(source.slice(start, this.pos).replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))));
+    }
+
+    const number = /[+-]?(?:\d+\.?\d*|\.\d+)/y;
+    number.lastIndex = this.pos;
+    const numberMatch = number.exec(source);
+    if (numberMatch) {
+      this.pos += numberMatch[0].length;
+      // `12 0 R` is a reference
+      const ref = /\s+\d+\s+R(?![^\s()<>[\]{}/%])/y;
+      ref.lastIndex = this.pos;
+      const refMatch = /^\d+$/.test(numberMatch[0]) ? ref.exec(source) : null;
+      if (refMatch) {
+        this.pos += refMatch[0].length;
+        return new PdfRef(Number(numberMatch[0]));
+      }
+      return Number(numberMatch[0]);
+    }
+
+    // Keywords and operators; stray delimiters are consumed one char at a time
+    const start = this.pos;
+    while (this.pos < source.length && !WHITESPACE.has(source[this.pos]!) && !DELIMITERS.has(source[this.pos]!)) this.pos++;
+    if (this.pos === start) this.pos++;
+    const word = source.slice(start, this.pos);
+    if (word === "true") return true;
+    if (word === "false") return false;
+    if (word === "null") return null;
+    return new PdfOperator(word);
+  }
+
+  private literalString(): PdfString {
+    const { source } = this;
+    let depth = 1;
+    let bytes = "";
+    this.pos++;
+
+    while (this.pos < source.length) {
+      const char = source[this.pos++]!;
+      if (char === "\\") {
+        const escaped = source[this.pos++] ?? "";
+        if (/[0-7]/.test(escaped)) {
+          const octal = /[0-7]{1,2}/y;
+          octal.lastIndex = this.pos;
+          const rest = octal.exec(source)?.[0] ?? "";
+          this.pos += rest.length;
+          bytes += String.fromCharCode(parseInt(escaped + rest, 8) & 0xff);
+        } else if (escaped === "\r" || escaped === "\n") {
+          // Line continuation
+          if (escaped === "\r" && source[this.pos] === "\n") this.pos++;
+        } else {
+          bytes += ESCAPES[escaped] ?? escaped;
+        }
+      } else if (char === "(") {
+        depth++;
+        bytes += char;
+      } else if (char === ")") {
+        if (--depth === 0) break;
+        bytes += char;
+      } else {
+        bytes += char;
+      }
+    }
+    return new PdfString(bytes);
+  }
+}
+
+function hexToBytes(hex: string): string {
+  const padded = hex.length % 2 === 0 ? hex : `${hex}0`;
+  let bytes = "";
+  for (let i = 0; i < padded.length; i += 2) bytes += String.fromCharCode(parseInt(padded.slice(i, i + 2), 16));
+  return bytes;
+}
+
+/** Decode UTF-16BE bytes (Latin-1 chars) */
+function utf16(bytes: string): string {
+  let text = "";
+  for (let i = 0; i + 1 < bytes.length; i += 2) text += String.fromCharCode((bytes.charCodeAt(i) << 8) | bytes.charCodeAt(i + 1));
+  return text;
+}
+
+const latin1 = (data: Uint8Array) => Buffer.from(data.buffer, data.byteOffset, data.byteLength).toString("latin1");
+
+/**
+ * Objects of a PDF file, with streams and references resolved on demand
+ */
+class PdfDocument {
+  private readonly objects = new Map<number, PdfObject>();
+
+  constructor(private readonly data: Uint8Array) {
+    const source = latin1(data);
+    const header = /(\d+)\s+\d+\s+obj\b/g;
+    const objectStreams: PdfObject[] = [];
+
+    let match: RegExpExecArray | null;
+    while ((match = header.exec(source))) {
+      const lexer = new PdfLexer(source, match.index + match[0].length);
+      const value = lexer.next();
+      if (value === undefined) break;
+      const object: PdfObject = { value };
+
+      const streamStart = /\s*stream(?:\r\n|\n|\r)/y;
+      streamStart.lastIndex = lexer.pos;
+      const streamMatch = value instanceof Map ? streamStart.exec(source) : null;
+      if (streamMatch) {
+        const start = lexer.pos + streamMatch[0].length;
+        const length = value instanceof Map ? value.get("Length") : undefined;
+        let end = typeof length === "number" && /^\s*endstream/.test(source.slice(start + length, start + length + 20))
+          ? start + length
+          : source.indexOf("endstream", start);
+        if (end === -1) end = source.length;
+        object.stream = data.subarray(start, end);
+        lexer.pos = end;
+        if (value instanceof Map && (value.get("Type") as PdfName | undefined)?.value === "ObjStm") objectStreams.push(object);
+      }
+
+      // Later definitions (incremental updates) replace earlier ones
+      this.objects.set(Number(match[1]), object);
+      header.lastIndex = lexer.pos;
+    }
+
+    for (const objectStream of objectStreams) this.readObjectStream(objectStream);
+  }
+
+  /** Objects packed in a compressed object stream (never override direct objects) */
+  private readObjectStream(objectStream: PdfObject): void {
+    const decoded = this.decodeStream(objectStream);
+    const dict = objectStream.value as PdfDict;
+    const count = dict.get("N");
+    const first = dict.get("First");
+    if (!decoded || typeof count !== "number" || typeof first !== "number") return;
+
+    const source = latin1(decoded);
+    const header = new PdfLexer(source);
+    for (let i = 0; i < count; i++) {
+      const id = header.next();
+      const offset = header.next();
+      if (typeof id !== "number" || typeof offset !== "number") break;
+      if (this.objects.has(id)) continue;
+      const value = new PdfLexer(source, first + offset).next();
+      if (value !== undefined) this.objects.set(id, { value });
+    }
+  }
+
+  resolve(value: PdfValue | undefined): PdfValue | undefined {
+    let resolved = value;
+    // References may point at references
+    for (let hops = 0; resolved instanceof PdfRef && hops < 10; hops++) {
+      resolved = this.objects.get(resolved.id)?.value;
+    }
+    return resolved;
+  }
+
+  dict(value: PdfValue | undefined): PdfDict | undefined {
+    const resolved = this.resolve(value);
+    return resolved instanceof Map ? resolved : undefined;
+  }
+
+  /** Decoded stream data, or undefined for unsupported filters */
+  decodeStream(object: PdfObject | undefined): Uint8Array | undefined {
+    if (!object?.stream) return undefined;
+    const dict = object.value as PdfDict;
+    const filter = this.resolve(dict.get("Filter"));
+    const filters = (Array.isArray(filter) ? filter : filter ? [filter] : []).map((f) => (f as PdfName).value);
+
+    let data = object.stream;
+    for (const name of filters) {
+      if (name !== "FlateDecode" && name !== "Fl") return undefined;
+      try {
+        data = new Uint8Array(inflateSync(data));
+      } catch {
+        return undefined;
+      }
+    }
+    return data;
+  }
+
+  streamOf(value: PdfValue | undefined): PdfObject | undefined {
+    return value instanceof PdfRef ? this.objects.get(value.id) : undefined;
+  }
+
+  /** Trailer or catalog says the file is encrypted */
+  get isEncrypted(): boolean {
+    return /\/Encrypt\s/.test(latin1(this.data));
+  }
+
+  /** Pages in document order with their (possibly inherited) resources */
+  pages(): Array<{ page: PdfDict; resources: PdfDict | undefined }> {
+    const catalog = [...this.objects.values()]
+      .map((object) => object.value)
+      .filter((value): value is PdfDict => value instanceof Map && (value.get("Type") as PdfName | undefined)?.value === "Catalog")
+      .pop();
+
+    const pages: Array<{ page: PdfDict; resources: PdfDict | undefined }> = [];
+    const seen = new Set<PdfDict>();
+    const walk = (node: PdfDict | undefined, inherited: PdfDict | undefined) => {
+      if (!node || seen.has(node)) return;
+      seen.add(node);
+      const resources = this.dict(node.get("Resources")) ?? inherited;
+      const kids = this.resolve(node.get("Kids"));
+      if (Array.isArray(kids)) {
+        for (const kid of kids) walk(this.dict(kid), resources);
+      } else {
+        pages.push({ page: node, resources });
+      }
+    };
+    walk(this.dict(catalog?.get("Pages")), undefined);
+    return pages;
+  }
+}
+
+/** Code width and code -> text of a ToUnicode CMap */
+interface CMap {
+  width: number;
+  map: Map<number, string>;
+}
+
+function parseCMap(source: string): CMap {
+  const map = new Map<number, string>();
+  const codespace = source.match(/begincodespacerange\s*<([0-9a-fA-F]+)>/);
+  let width = codespace ? codespace[1]!.length / 2 : 0;
+
+  for (const [, body] of source.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const [, code, text] of body!.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g)) {
+      width ||= code!.length / 2;
+      map.set(parseInt(code!, 16), utf16(hexToBytes(text!)));
+    }
+  }
+  for (const [, body] of source.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    for (const [, low, high, target] of body!.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g)) {
+      width ||= low!.length / 2;
+      const start = parseInt(low!, 16);
+      const end = parseInt(high!, 16);
+      if (target!.startsWith("[")) {
+        const targets = [...target!.matchAll(/<([0-9a-fA-F]*)>/g)].map((t) => utf16(hexToBytes(t[1]!)));
+        targets.forEach((text, i) => map.set(start + i, text));
+      } else {
+        // The last UTF-16 unit increments across the range
+        const base = utf16(hexToBytes(target!.slice(1, -1)));
+        for (let code = start; code <= end && code - start < 0x10000; code++) {
+          map.set(code, base.slice(0, -1) + String.fromCharCode(base.charCodeAt(base.length - 1) + code - start));
+        }
+      }
+    }
+  }
+  return { width: width || 1, map };
+}
+
+type FontDecoder = (bytes: string) => string;
+
+/** Plain strings: UTF-16 with a byte order mark, otherwise one byte per char */
+const decodePlain: FontDecoder = (bytes) => (bytes.startsWith("\xfe\xff") ? utf16(bytes.slice(2)) : bytes);
+
+function fontDecoders(document: PdfDocument, resources: PdfDict | undefined, cache: Map<PdfDict, FontDecoder>): Map<string, FontDecoder> {
+  const decoders = new Map<string, FontDecoder>();
+  const fonts = document.dict(resources?.get("Font"));
+  for (const [name, ref] of fonts ?? []) {
+    const font = document.dict(ref);
+    if (!font) continue;
+    let decoder = cache.get(font);
+    if (!decoder) {
+      const cmapData = document.decodeStream(document.streamOf(font.get("ToUnicode")));
+      if (cmapData) {
+        const { width, map } = parseCMap(latin1(cmapData));
+        decoder = (bytes) => {
+          let text = "";
+          for (let i = 0; i + width <= bytes.length; i += width) {
+            let code = 0;
+            for (let j = 0; j < width; j++) code = (code << 8) | bytes.charCodeAt(i + j);
+            text += map.get(code) ?? "";
+          }
+          return text;
+        };
+      } else {
+        decoder = decodePlain;
+      }
+      cache.set(font, decoder);
+    }
+    decoders.set(name, decoder);
+  }
+  return decoders;
+}
+
+/**
+ * Text shown by a content stream
+ */
+function contentText(
+  document: PdfDocument,
+  content: Uint8Array,
+  resources: PdfDict | undefined,
+  fontCache: Map<PdfDict, FontDecoder>,
+  depth = 0
+): string {
+  const decoders = fontDecoders(document, resources, fontCache);
+  const lexer = new PdfLexer(latin1(content));
+  const operands: PdfValue[] = [];
+  let out = "";
+  let decode = decodePlain;
+  // Vertical text position and the position of the last text shown
+  let y = 0;
+  let scale = 1;
+  let leading = 0;
+  let shownY: number | undefined;
+  let newline = false;
+
+  const show = (text: string) => {
+    if (shownY !== undefined && (newline || Math.abs(y - shownY) > 1)) out += "\n";
+    newline = false;
+    shownY = y;
+    out += text;
+  };
+  const number = (index: number) => {
+    const value = operands[operands.length + index];
+    return typeof value === "number" ? value : 0;
+  };
+
+  for (let token = lexer.next(); token !== undefined; token = lexer.next()) {
+    if (!(token instanceof PdfOperator)) {
+      operands.push(token);
+      continue;
+    }
+
+    switch (token.value) {
+      case "BT":
+        y = 0;
+        scale = 1;
+        break;
+      case "Tf": {
+        const font = operands[operands.length - 2];
+        decode = (font instanceof PdfName && decoders.get(font.value)) || decodePlain;
+        break;
+      }
+      case "TL":
+        leading = number(-1);
+        break;
+      case "Tm":
+        scale = number(-3) || 1;
+        y = number(-1);
+        break;
+      case "TD":
+      case "Td":
+        if (token.value === "TD") leading = -number(-1);
+        if (number(-1) === 0 && number(-2) > 0 && shownY !== undefined && !/\s$/.test(out)) out += " ";
+        y += number(-1) * scale;
+        break;
+      case "T*":
+        y -= leading * scale;
+        newline = true;
+        break;
+      case "Tj":
+      case "'":
+      case '"': {
+        if (token.value !== "Tj") {
+          y -= leading * scale;
+          newline = true;
+        }
+        const text = operands[operands.length - 1];
+        if (text instanceof PdfString) show(decode(text.bytes));
+        break;
+      }
+      case "TJ": {
+        const items = operands[operands.length - 1];
+        if (!Array.isArray(items)) break;
+        let text = "";
+        for (const item of items) {
+          if (item instanceof PdfString) text += decode(item.bytes);
+          // Large negative adjustments (thousandths of an em) separate words
+          else if (typeof item === "number" && item < -200 && !/\s$/.test(text)) text += " ";
+        }
+        show(text);
+        break;
+      }
+      case "Do": {
+        const name = operands[operands.length - 1];
+        const xobject = name instanceof PdfName ? document.dict(resources?.get("XObject"))?.get(name.value) : undefined;
+        const form = document.streamOf(xobject);
+        const formDict = form?.value instanceof Map ? form.value : undefined;
+        if (formDict && (formDict.get("Subtype") as PdfName | undefined)?.value === "Form" && depth < MAX_FORM_DEPTH) {
+          const formContent = document.decodeStream(form);
+          const formResources = document.dict(formDict.get("Resources")) ?? resources;
+          if (formContent) {
+            const text = contentText(document, formContent, formResources, fontCache, depth + 1);
+            if (text) show(text);
+          }
+        }
+        break;
+      }
+      case "BI": {
+        // Inline image data runs from ID to EI
+        const end = lexer.source.indexOf("EI", lexer.source.indexOf("ID", lexer.pos));
+        lexer.pos = end === -1 ? lexer.source.length : end + 2;
+        break;
+      }
+    }
+    operands.length = 0;
+  }
+
+  return out;
+}
+
+export const pdfExtractor: DocumentExtractor = {
+  name: "pdf",
+  extensions: [".pdf"],
+  mimeTypes: ["application/pdf"],
+  version: "1",
+
+  extract(data) {
+    if (!latin1(data.subarray(0, 1024)).includes("%PDF-")) throw new Error("not a PDF file");
+
+    const document = new PdfDocument(data);
+    if (document.isEncrypted) throw new Error("encrypted PDFs are not supported");
+
+    const fontCache = new Map<PdfDict, FontDecoder>();
+    const pages = document.pages().map(({ page, resources }) => {
+      const contents = document.resolve(page.get("Contents"));
+      const streams = Array.isArray(contents) ? contents : [page.get("Contents")];
+      const content = streams
+        .map((ref) => document.decodeStream(document.streamOf(ref as PdfValue)))
+        .filter((stream): stream is Uint8Array => stream !== undefined);
+      const text = content.map((stream) => contentText(document, stream, resources, fontCache)).join("\n");
+      return text.split("\n").map((line) => line.trimEnd()).join("\n").trim();
+    });
+
+    const text = pages.filter(Boolean).join("\n\n");
+    if (!text) throw new Error("no extractable text (scanned or image-only PDF?)");
+    return text;
+  },
+};
@@ -0,0 +1,83 @@
+/**
+ * Minimal XML parser for the parts of office documents
+ *
+ * Builds an element tree with namespaced names kept as written
+ * (e.g., "w:p"). Declarations, comments and processing instructions are
+ * dropped; DTDs are not expanded.
+ */
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+}
+
+export type XmlNode = XmlElement | string;
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+
+/** Decode entity and character references */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (match, ref: string) => {
+    if (ref.startsWith("#x")) return String.fromCodePoint(parseInt(ref.slice(2), 16));
+    if (ref.startsWith("#")) return String.fromCodePoint(parseInt(ref.slice(1), 10));
+    return ENTITIES[ref] ?? match;
+  });
+}
+
+const TAG = /<(\/?)([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<[?!][\s\S]*?>/g;
+const ATTRIBUTE = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/**
+ * Parse an XML document into its root element
+ * Unbalanced closing tags are tolerated.
+ */
+export function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: "#document", attributes: {}, children: [] };
+  const stack: XmlElement[] = [root];
+  let last = 0;
+
+  for (const match of xml.matchAll(TAG)) {
+    const parent = stack[stack.length - 1]!;
+    const text = xml.slice(last, match.index);
+    if (text) parent.children.push(decodeEntities(text));
+    last = match.index! + match[0].length;
+
+    const [, closing, name, attributeText, selfClosing, cdata] = match;
+    if (cdata !== undefined) {
+      parent.children.push(cdata);
+    } else if (!name) {
+      continue;
+    } else if (closing) {
+      const open = stack.findLastIndex((element) => element.name === name);
+      if (open > 0) stack.length = open;
+    } else {
+      const attributes: Record<string, string> = {};
+      for (const [, key, double, single] of (attributeText ?? "").matchAll(ATTRIBUTE)) {
+        attributes[key!] = decodeEntities(double ?? single ?? "");
+      }
+      const element: XmlElement = { name, attributes, children: [] };
+      parent.children.push(element);
+      if (!selfClosing) stack.push(element);
+    }
+  }
+
+  return (root.children.find((child) => typeof child !== "string") as XmlElement | undefined) ?? root;
+}
+
+/** Child elements, optionally only those with a name */
+export function childElements(element: XmlElement, name?: string): XmlElement[] {
+  return element.children.filter(
+    (child): child is XmlElement => typeof child !== "string" && (name === undefined || child.name === name)
+  );
+}
+
+/** Depth-first search for elements with a name (not descending into matches) */
+export function findElements(element: XmlElement, name: string): XmlElement[] {
+  return childElements(element).flatMap((child) => (child.name === name ? [child] : findElements(child, name)));
+}
+
+/** Concatenated text content */
+export function textContent(node: XmlNode): string {
+  return typeof node === "string" ? node : node.children.map(textContent).join("");
+}
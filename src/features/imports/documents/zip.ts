@@ -0,0 +1,107 @@
+/**
+ * Minimal ZIP reader for office documents (DOCX, XLSX, ODT)
+ *
+ * Reads the central directory and inflates entries on demand with zlib.
+ * Only stored and deflated entries are supported (all that office suites
+ * write); ZIP64 and encrypted archives are rejected. Entries larger than the
+ * import size limit are refused, by their declared size before inflating and
+ * by capping the inflated output (archives can lie about sizes).
+ */
+
+import { inflateRawSync } from "zlib";
+import { MAX_INPUT_SIZE, formatBytes } from "../../../core/agent/limits";
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+/** Entries of an archive by path, read lazily */
+export interface ZipArchive {
+  has(path: string): boolean;
+  /** Entry contents, or undefined if the archive has no such entry */
+  read(path: string): Uint8Array | undefined;
+  /** Entry contents decoded as UTF-8 */
+  text(path: string): string | undefined;
+}
+
+interface ZipEntry {
+  method: number;
+  flags: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+/**
+ * Open a ZIP archive
+ * @param maxEntrySize - Largest entry to read, in bytes (default: the import size limit)
+ * @throws Error if the data is not a readable ZIP archive
+ */
+export function readZip(data: Uint8Array, maxEntrySize: number = MAX_INPUT_SIZE): ZipArchive {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  // The end record is last, followed by a comment of up to 64KB
+  let end = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) throw new Error("not a ZIP archive");
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  if (offset === 0xffffffff) throw new Error("ZIP64 archives are not supported");
+
+  const decoder = new TextDecoder();
+  const entries = new Map<string, ZipEntry>();
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) throw new Error("corrupt ZIP central directory");
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(data.subarray(offset + 46, offset + 46 + nameLength));
+    entries.set(name, {
+      flags: view.getUint16(offset + 8, true),
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      uncompressedSize: view.getUint32(offset + 24, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  const read = (path: string): Uint8Array | undefined => {
+    const entry = entries.get(path);
+    if (!entry) return undefined;
+    if (entry.flags & 1) throw new Error(`encrypted ZIP entry: ${path}`);
+    const tooLarge = () => new Error(`ZIP entry ${path} is larger than ${formatBytes(maxEntrySize)}`);
+    if (entry.uncompressedSize > maxEntrySize) throw tooLarge();
+
+    const header = entry.localHeaderOffset;
+    if (view.getUint32(header, true) !== LOCAL_FILE_HEADER) throw new Error(`corrupt ZIP entry: ${path}`);
+    const start = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+    const compressed = data.subarray(start, start + entry.compressedSize);
+
+    if (entry.method === 0) return compressed;
+    if (entry.method === 8) {
+      try {
+        return new Uint8Array(inflateRawSync(compressed, { maxOutputLength: maxEntrySize }));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") throw tooLarge();
+        throw error;
+      }
+    }
+    throw new Error(`unsupported ZIP compression method ${entry.method}: ${path}`);
+  };
+
+  return {
+    has: (path) => entries.has(path),
+    read,
+    text: (path) => {
+      const bytes = read(path);
+      return bytes && decoder.decode(bytes);
+    },
+  };
+}
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import {
+  createTestEnvironment,
+  setSystemEnvironment,
+  resetSystemEnvironment,
+  type InMemorySystemEnvironment,
+} from "../../core/system-environment";
+import { gitImportArgs, resolveGitImport } from "./git";
+import { parseImports } from "./parser";
+import { expandContentImports } from "./index";
+import { analyzeContext } from "../dashboard";
+import type { GitImportAction } from "./types";
+
+const action = (fields: Partial<GitImportAction>): GitImportAction => ({
+  type: "git", operation: "diff", original: "@git:diff", index: 0, ...fields,
+});
+
+describe("gitImportArgs", () => {
+  it("builds argv for each operation", () => {
+    expect(gitImportArgs(action({}))).toEqual(["diff", "--no-color", "--no-ext-diff"]);
+    expect(gitImportArgs(action({ staged: true }))).toEqual(["diff", "--no-color", "--no-ext-diff", "--cached"]);
+    expect(gitImportArgs(action({ ref: "origin/main" }))).toEqual(["diff", "--no-color", "--no-ext-diff", "origin/main"]);
+    expect(gitImportArgs(action({ operation: "show", ref: "HEAD~3", path: "src/a.ts" }))).toEqual(
+      ["show", "--no-color", "HEAD~3:src/a.ts"]
+    );
+    expect(gitImportArgs(action({ operation: "log", count: 5 }))).toContain("5");
+    expect(gitImportArgs(action({ operation: "blame", path: "a.ts", lineRange: { start: 3, end: 9 } }))).toEqual(
+      ["blame", "-L", "3,9", "--", "a.ts"]
+    );
+  });
+
+  it("rejects refs and paths that look like options", () => {
+    expect(() => gitImportArgs(action({ ref: "--output=/tmp/x" }))).toThrow("Invalid git ref");
+    expect(() => gitImportArgs(action({ operation: "show", ref: "HEAD;rm", path: "a" }))).toThrow("Invalid git ref");
+    expect(() => gitImportArgs(action({ operation: "blame", path: "-L1,2" }))).toThrow("Invalid git path");
+  });
+});
+
+describe("git imports through SystemEnvironment.shell", () => {
+  let env: InMemorySystemEnvironment;
+
+  beforeEach(() => {
+    env = createTestEnvironment();
+    setSystemEnvironment(env);
+  });
+
+  afterEach(() => {
+    resetSystemEnvironment();
+  });
+
+  it("runs git without a shell in the importing file's directory", async () => {
+    env.mockCommand("git diff --no-color --no-ext-diff --cached", { exitCode: 0, stdout: "+added\n", stderr: "" });
+
+    expect(await resolveGitImport(action({ staged: true }), "/repo")).toBe("+added");
+    expect(env.executedCommands[0]).toMatchObject({ cmd: "git", options: { cwd: "/repo" } });
+  });
+
+  it("reports empty diffs and git failures", async () => {
+    env.mockCommand("git diff --no-color --no-ext-diff", { exitCode: 0, stdout: "", stderr: "" });
+    env.mockCommand("git show --no-color nope:a.ts", { exitCode: 128, stdout: "", stderr: "fatal: invalid object name 'nope'" });
+
+    expect(await resolveGitImport(action({}), "/repo")).toBe("(no changes)");
+    await expect(resolveGitImport(action({ operation: "show", ref: "nope", path: "a.ts" }), "/repo"))
+      .rejects.toThrow("invalid object name");
+  });
+
+  it("expands @git: imports as content imports", async () => {
+    env.mockCommand("git show --no-color HEAD~1:src/a.ts", { exitCode: 0, stdout: "export const a = 1;\n", stderr: "" });
+
+    const result = await expandContentImports("Before:\n@git:HEAD~1:src/a.ts\n\nKeep !`git status`", "/repo");
+    expect(result).toBe("Before:\nexport const a = 1;\n\nKeep !`git status`");
+  });
+
+  it("lists git imports as named items in analyzeContext", async () => {
+    env.mockCommand("git diff --no-color --no-ext-diff", { exitCode: 0, stdout: "+line\n", stderr: "" });
+
+    const analysis = await analyzeContext("/repo/review.md", "Review @git:diff and @git:log", "/repo");
+    expect(analysis.items.slice(1).map((i) => [i.name, i.type, i.size])).toEqual([
+      ["@git:diff", "git", 5],
+      ["@git:log", "git", 0],
+    ]);
+  });
+});
+
+describe("parseImports git sources", () => {
+  it("parses each git import form", () => {
+    const actions = parseImports(
+      "@git:diff @git:diff:staged @git:diff:main @git:HEAD~3:src/a.ts @git:log:20 @git:blame:src/a.ts:10-20 @git:nothing"
+    );
+    expect(actions.map(({ original, index, type, ...rest }) => rest)).toEqual([
+      { operation: "diff" },
+      { operation: "diff", staged: true },
+      { operation: "diff", ref: "main" },
+      { operation: "show", ref: "HEAD~3", path: "src/a.ts" },
+      { operation: "log", count: 20 },
+      { operation: "blame", path: "src/a.ts", lineRange: { start: 10, end: 20 } },
+    ]);
+  });
+
+  it("ignores git imports inside code spans", () => {
+    expect(parseImports("Use `@git:diff` to import changes")).toEqual([]);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Git import sources: @git:diff, @git:HEAD~3:path, @git:log, @git:blame:path:10-20
+ *
+ * Runs `git` directly through SystemEnvironment.shell (no `sh -c`), so these
+ * imports do not need a trusted shell, work under InMemorySystemEnvironment in
+ * tests, and are treated like file content (budgeted, shown in the dashboard).
+ */
+
+import { getSystemEnvironment, type SystemEnvironment } from "../../core/system-environment";
+import type { GitImportAction } from "./types";
+
+/** Commits shown by @git:log without a count */
+export const DEFAULT_GIT_LOG_COUNT = 10;
+
+/**
+ * Refs and paths become git arguments; reject anything that could be read as an option
+ */
+const SAFE_REF_PATTERN = /^[A-Za-z0-9_.\/~^@{}+-]+$/;
+
+function assertSafeRef(ref: string): void {
+  if (ref.startsWith("-") || !SAFE_REF_PATTERN.test(ref)) {
+    throw new Error(`Invalid git ref in import: ${ref}`);
+  }
+}
+
+function assertSafePath(path: string): void {
+  if (path.startsWith("-")) {
+    throw new Error(`Invalid git path in import: ${path}`);
+  }
+}
+
+/**
+ * Build the git arguments for an import
+ * @throws Error for refs or paths that look like options
+ */
+export function gitImportArgs(action: GitImportAction): string[] {
+  switch (action.operation) {
+    case "diff": {
+      const args = ["diff", "--no-color", "--no-ext-diff"];
+      if (action.staged) args.push("--cached");
+      if (action.ref) {
+        assertSafeRef(action.ref);
+        args.push(action.ref);
+      }
+      return args;
+    }
+    case "show": {
+      assertSafeRef(action.ref ?? "");
+      assertSafePath(action.path ?? "");
+      return ["show", "--no-color", `${action.ref}:${action.path}`];
+    }
+    case "log":
+      return [
+        "log", "--no-color", "-n", String(action.count ?? DEFAULT_GIT_LOG_COUNT),
+        "--date=short", "--pretty=format:%h %ad %an: %s",
+      ];
+    case "blame": {
+      assertSafePath(action.path ?? "");
+      const range = action.lineRange ? ["-L", `${action.lineRange.start},${action.lineRange.end}`] : [];
+      return ["blame", ...range, "--", action.path!];
+    }
+  }
+}
+
+/**
+ * Resolve a git import to text
+ *
+ * @param action - Parsed git import
+ * @param cwd - Directory to run git in (the importing file's directory)
+ * @param env - System environment (defaults to the global one)
+ * @throws Error when git fails (not a repository, unknown revision, ...)
+ */
+export async function resolveGitImport(
+  action: GitImportAction,
+  cwd: string,
+  env: SystemEnvironment = getSystemEnvironment()
+): Promise<string> {
+  const args = gitImportArgs(action);
+  const result = await env.shell.execute("git", args, { cwd });
+
+  if (result.exitCode !== 0) {
+    const output = result.stderr.trim() || result.stdout.trim() || "No output";
+    throw new Error(`Git import failed (Exit ${result.exitCode}): git ${args.join(" ")}\nOutput: ${output}`);
+  }
+
+  const output = result.stdout.trimEnd();
+  if (!output && action.operation === "diff") {
+    return action.staged ? "(no staged changes)" : "(no changes)";
+  }
+  return output;
+}
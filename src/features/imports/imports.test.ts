@@ -1,6 +1,6 @@
 import { test, expect, beforeAll, afterAll, describe } from "bun:test";
-import { expandImports, hasImports, toCanonicalPath, isMarkdownFileCommand } from "./index";
-import { mkdtemp, rm, symlink } from "node:fs/promises";
+import { expandImports, expandContentImports, hasImports, toCanonicalPath, isMarkdownFileCommand } from "./index";
+import { mkdtemp, mkdir, rm, symlink } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 
@@ -585,6 +585,32 @@ describe("template variables in commands", () => {
   });
 });
 
+describe("templated content imports (_template_imports)", () => {
+  test("inserts imported content verbatim by default", async () => {
+    await Bun.write(join(testDir, "tpl-skill.md"), "Use {{ _lang }}");
+    const result = await expandContentImports("@./tpl-skill.md", testDir, new Set(), false, {
+      templateVars: { _lang: "Go" },
+    });
+    expect(result).toBe("Use {{ _lang }}");
+  });
+
+  test("renders imported files, including nested imports, once when opted in", async () => {
+    await Bun.write(join(testDir, "tpl-outer.md"), "{{ _lang }} @./tpl-skill.md");
+    const result = await expandContentImports("@./tpl-outer.md", testDir, new Set(), false, {
+      templateVars: { _lang: "Go" },
+      templateImports: true,
+    });
+    expect(result).toBe("Go Use Go");
+  });
+
+  test("fails on variables the agent did not receive", async () => {
+    await expect(expandContentImports("@./tpl-skill.md", testDir, new Set(), false, {
+      templateVars: {},
+      templateImports: true,
+    })).rejects.toThrow("Template error in ./tpl-skill.md: Missing required template variable: _lang");
+  });
+});
+
 // Parallel resolution tests
 describe("parallel import resolution", () => {
   test("resolves multiple file imports in parallel", async () => {
@@ -749,3 +775,87 @@ describe("executable code fences", () => {
     expect(hasImports('```sh\n#!/bin/bash\necho hi\n```')).toBe(true);
   });
 });
+
+describe("code fence runtimes", () => {
+  test("runs fences marked run with their language's runtime", async () => {
+    const content = '```python run\nprint(6 * 7)\n```\n\n```js run\nconsole.log("from node")\n```';
+    const result = await expandImports(content, testDir);
+    expect(result).toBe("42\n\nfrom node");
+  });
+
+  test("pipes a fence's stdout into a later fence's stdin", async () => {
+    const content = [
+      '```sh run id=users hidden\necho \'[{"name":"ada"},{"name":"lin"}]\'\n```',
+      '```sh run\necho unrelated\n```',
+      '```jq run stdin=users\n.[].name\n```',
+      '```sh run pipe\ntr a-z A-Z\n```',
+    ].join("\n\n");
+    const result = await expandImports(content, testDir);
+    expect(result).toBe('\n\nunrelated\n\n"ada"\n"lin"\n\n"ADA"\n"LIN"');
+  });
+
+  test("runs sql against a sqlite database in the fence's cwd", async () => {
+    await mkdir(join(testDir, "db"), { recursive: true });
+    // `pipe` also orders the fences: the query waits for the (hidden) setup
+    const content = [
+      '```sql run cwd=db db=test.sqlite hidden\nCREATE TABLE t (n INTEGER); INSERT INTO t VALUES (1), (2);\n```',
+      '```sql run cwd=db db=test.sqlite pipe\nSELECT SUM(n) AS total FROM t;\n```',
+    ].join("\n\n");
+    const result = await expandImports(content, testDir);
+    expect(result).toBe("\n\n| total |\n|-------|\n| 3     |");
+  });
+
+  test("enforces timeout=", async () => {
+    const content = '```sh run timeout=0.1\nsleep 5\n```';
+    await expect(expandImports(content, testDir)).rejects.toThrow("timed out after 100ms");
+  });
+
+  test("reports unknown runtimes and missing pipe sources", async () => {
+    await expect(expandImports('```cobol run\nDISPLAY 1\n```', testDir)).rejects.toThrow("No runtime for language 'cobol'");
+    await expect(expandImports('```sh run stdin=nope\necho\n```', testDir)).rejects.toThrow("no earlier code fence has id=nope");
+  });
+});
+
+describe("document imports", () => {
+  test("renders a CSV import as a table, limited by rows=N", async () => {
+    await Bun.write(join(testDir, "docs/users.csv"), "name,role\nada,admin\n@./simple.md,user\nlin,user\n");
+
+    const result = await expandImports("@./docs/users.csv{rows=2}", testDir);
+    expect(result).toBe([
+      "| name | role |",
+      "| --- | --- |",
+      "| ada | admin |",
+      "| @./simple.md | user |",
+      "",
+      "[... 1 more rows omitted]",
+    ].join("\n"));
+  });
+
+  test("globs read documents through their extractor and skip unreadable ones", async () => {
+    await Bun.write(join(testDir, "docs/run.ipynb"), JSON.stringify({ cells: [{ cell_type: "markdown", source: "# Run" }] }));
+    await Bun.write(join(testDir, "docs/broken.pdf"), "not a pdf");
+
+    const result = await expandImports("@./docs/*.{ipynb,pdf}", testDir);
+    expect(result).toContain('<run path="run.ipynb">\n# Run\n</run>');
+    expect(result).not.toContain("broken");
+  });
+
+  test("reports documents that cannot be read", async () => {
+    await expect(expandImports("@./docs/broken.pdf", testDir)).rejects.toThrow("not a PDF file");
+  });
+});
+
+describe("attachment imports", () => {
+  test("collects binary files as attachments when the caller accepts them", async () => {
+    await Bun.write(join(testDir, "shot.png"), new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x00, 0x01, 0x02]));
+
+    const attachments: string[] = [];
+    const result = await expandContentImports("See @./shot.png and @./shot.png", testDir, new Set(), false, { attachments });
+    expect(result).toBe("See [attachment: shot.png] and [attachment: shot.png]");
+    expect(attachments).toEqual([join(testDir, "shot.png")]);
+  });
+
+  test("rejects binary files without an attachment collector", async () => {
+    await expect(expandImports("@./shot.png", testDir)).rejects.toThrow("Cannot import binary file");
+  });
+});
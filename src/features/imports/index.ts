@@ -8,9 +8,26 @@ import { resilientFetch } from "../../utils/fetch";
 import { MAX_INPUT_SIZE, FileSizeLimitError, exceedsLimit } from "../../core/agent/limits";
 import { estimateTokens, getContextLimit, countTokensAsync } from "../../core/agent/tokenizer";
 import { Semaphore, DEFAULT_CONCURRENCY_LIMIT } from "../../core/execution/concurrency";
-import { substituteTemplateVars } from "../../core/agent/template";
-import { parseImports as parseImportsSafe, hasImportsInContent } from "./parser";
-import type { ImportAction, ExecutableCodeFenceAction } from "../../core/types";
+import { substituteTemplateVars, restoreTemplateValues } from "../../core/agent/template";
+import { parseImports as parseImportsSafe, hasImportsInContent, parseOutlineImport } from "./parser";
+import { extractSymbol, getSymbolExtractorTag, hasSymbolExtractor } from "./symbols";
+import { extractDocument, getDocumentExtractor, getDocumentExtractorTag } from "./documents";
+import { outlineFiles, type OutlineOptions } from "./outline";
+import { resolveGitImport } from "./git";
+import { getCachedImport, setCachedImport, fingerprintFile, hashContent, getImportCacheDir, type ImportCacheOptions } from "./cache";
+import { transformImportContent, presentImportContent, stripComments } from "./options";
+import { DEFAULT_CACHE_TTL_MS, isOfflineMode } from "../cache";
+import {
+  assertSandboxAllows, commandPrograms, shebangProgram, sandboxEnv, wrapSandboxed, type SandboxPolicy,
+} from "../sandbox";
+import type { GitImportAction, ImportOptions, CodeFenceAttributes, ExecutableCodeFenceAction } from "./types";
+import { getFenceRuntime, getFenceRuntimeNames } from "./runtimes";
+import { classifyCapabilities, importCapability, codeFenceCapability, type PolicyChecker } from "../policy";
+import type { ImportAction } from "../../core/types";
+import {
+  fitToBudget, formatBudgetSummary, createTokenCounter,
+  type BudgetPolicy, type BudgetReport, type BudgetItem, type BudgetMember, type TokenCounter,
+} from "../budget";
 
 // Lazy-load ignore package (only needed for glob imports)
 type IgnoreFactory = typeof import("ignore");
@@ -105,7 +122,7 @@ class ParallelDashboard {
 }
 
 // Re-export pipeline components for direct access
-export { parseImports, hasImportsInContent, isGlobPattern, parseLineRange, parseSymbolExtraction } from "./parser";
+export { parseImports, hasImportsInContent, isGlobPattern, parseLineRange, parseSymbolExtraction, parseOutlineImport } from "./parser";
 export { injectImports, createResolvedImport } from "./injector";
 export type { ImportAction, ResolvedImport, SystemEnvironment } from "../../core/types";
 export { Semaphore, DEFAULT_CONCURRENCY_LIMIT } from "../../core/execution/concurrency";
@@ -117,7 +134,10 @@ export { Semaphore, DEFAULT_CONCURRENCY_LIMIT } from "../../core/execution/concu
  * - @~/path/to/file.md or @./relative/path.md - Inline file contents
  * - @./src/**\/*.ts - Glob patterns (respects .gitignore)
  * - @./file.ts:10-50 - Line range extraction
- * - @./file.ts#SymbolName - Symbol extraction (interface, function, class, type, const)
+ * - @./file.ts#SymbolName - Symbol extraction (TS/JS, Python, Go, Rust, Java; dotted members like #Class.method)
+ * - @./src/**\/*.ts?outline - Exported signatures and doc comments only (?outline=ranked orders by references)
+ * - @./file.ts{lines=10-50,strip=comments,fence=ts,max_tokens=2000} - Per-import options (see ./options)
+ * - @git:diff, @git:diff:staged, @git:diff:<ref>, @git:<rev>:<path>, @git:log, @git:blame:<path>:<a>-<b> - Git sources
  * - @https://example.com/docs or @http://... - Fetch URL content (markdown/json only)
  * - !`command` - Execute command and inline stdout/stderr
  *
@@ -141,6 +161,9 @@ type ImportStack = Set<string>;
 /** Track resolved import paths for introspection */
 export type ResolvedImportsTracker = string[];
 
+/** Collect binary imports (absolute paths) passed to the command as attachments */
+export type AttachmentsTracker = string[];
+
 /**
  * Import context for passing runtime dependencies
  * Used to inject environment variables and track resolved imports
@@ -150,12 +173,24 @@ export interface ImportContext {
   env?: Record<string, string | undefined>;
   /** Track resolved imports for ExecutionPlan */
   resolvedImports?: ResolvedImportsTracker;
+  /**
+   * Collect binary file imports (images, archives, ...) as attachments.
+   * When set, `@./mockup.png` is replaced by an `[attachment: mockup.png]`
+   * marker and its path is added here; otherwise binary imports are errors.
+   */
+  attachments?: AttachmentsTracker;
   /**
    * Working directory for command execution (!`cmd` inlines).
    * When set, commands run in this directory instead of the agent file's directory.
    * This allows agents in ~/.mdflow to execute commands in the user's invocation directory.
    */
   invocationCwd?: string;
+  /**
+   * Sandbox policy for command inlines and executable code fences (`_sandbox`).
+   * Commands outside the allowlist (or any command, for refused remote agents)
+   * are errors; the rest run with its env, time and output limits.
+   */
+  sandbox?: SandboxPolicy;
   /**
    * Template variables for substitution in inline commands (!`cmd`).
    * When provided, {{ _varname }} patterns in command strings are substituted
@@ -172,6 +207,44 @@ export interface ImportContext {
    * When true, only expand file/url imports; leave commands for later.
    */
   _contentOnly?: boolean;
+  /**
+   * Token budget (`_budget`) applied to the top-level content imports.
+   * expandContentImports trims imports to fit and stores the outcome in `report`.
+   * `count` is the model's token counter (createTokenCounter; defaults to the default tokenizer).
+   */
+  budget?: { policy: BudgetPolicy; report?: BudgetReport; count?: TokenCounter };
+  /** Collects glob members for budget trimming (set per import) */
+  _globMembers?: BudgetMember[];
+  /**
+   * Render imported local files (file, glob, symbol) with `templateVars` (`_template_imports`).
+   * Applied once to the top-level content imports; missing variables are errors.
+   */
+  templateImports?: boolean;
+  /**
+   * Persistent import cache (./cache). When set, globs, symbol extractions and URL
+   * imports are reused while their sources are unchanged, as are `!`cmd`{cache: 10m}`
+   * inlines; the originals of cache hits are collected in `cache.hits`.
+   */
+  cache?: ImportCacheOptions;
+  /**
+   * Check of URL import content against its pin (../pins createImportPinVerifier).
+   * Called with each URL import's content, cached or fetched; throws to reject it.
+   */
+  pins?: (url: string, content: string) => Promise<void>;
+  /**
+   * Trust policy checks (../policy createPolicyChecker). URL imports, their
+   * content's capabilities, commands and code fences are checked before use.
+   */
+  policy?: PolicyChecker;
+  /**
+   * Offline mode (default: MDFLOW_OFFLINE): URL imports come only from the
+   * import cache, expired or not, and are errors when missing.
+   */
+  offline?: boolean;
+  /** Original text of the import being resolved (recorded on cache hits) */
+  _source?: string;
+  /** Options of the glob being resolved; `strip` applies to each matched file */
+  _options?: ImportOptions;
 }
 
 /**
@@ -274,6 +347,32 @@ async function readTextOrBinary(bunFile: import("bun").BunFile): Promise<string
   }
 }
 
+/**
+ * Collect a binary file import as an attachment, returning its marker
+ * @throws Error if the caller does not collect attachments
+ */
+function attachBinaryFile(importPath: string, resolvedPath: string, importCtx?: ImportContext): string {
+  if (!importCtx?.attachments) {
+    throw new Error(`Cannot import binary file: ${importPath} (resolved to ${resolvedPath})`);
+  }
+  console.error(`[imports] Attaching: ${importPath}`);
+  importCtx.resolvedImports?.push(importPath);
+  if (!importCtx.attachments.includes(resolvedPath)) {
+    importCtx.attachments.push(resolvedPath);
+  }
+  return `[attachment: ${basename(resolvedPath)}]`;
+}
+
+/**
+ * Read a document (PDF, DOCX, notebook, ...) as markdown, or null if no
+ * document extractor handles the file type (see ./documents)
+ */
+async function readDocument(filePath: string, options?: ImportOptions): Promise<string | null> {
+  if (!getDocumentExtractor(filePath)) return null;
+  const data = new Uint8Array(await Bun.file(filePath).arrayBuffer());
+  return extractDocument(data, filePath, { maxRows: options?.maxRows });
+}
+
 /** Maximum token count before error (approx 4 chars per token) */
 export const MAX_TOKENS = 100_000;
 /** Warning threshold for high token count */
@@ -300,6 +399,15 @@ function getCommandTimeout(): number {
 /** Maximum command output size in characters (~25k tokens) */
 const MAX_COMMAND_OUTPUT_SIZE = 100_000;
 
+/**
+ * Truncate command output to a size limit, noting how much was removed
+ */
+function truncateCommandOutput(output: string, maxSize: number = MAX_COMMAND_OUTPUT_SIZE): string {
+  if (output.length <= maxSize) return output;
+  const truncatedChars = output.length - maxSize;
+  return output.slice(0, maxSize) + `\n... [Output truncated: ${truncatedChars.toLocaleString()} characters removed]`;
+}
+
 /** Regex to strip ANSI escape codes from command output */
 // eslint-disable-next-line no-control-regex
 const ANSI_ESCAPE_REGEX = /[\u001b\u009b][[()#;?]*(?:[0-9]{1,4}(?:;[0-9]{0,4})*)?[0-9A-ORZcf-nqry=><]/g;
@@ -372,7 +480,7 @@ function parseLineRangeInternal(path: string): { path: string; start?: number; e
  * Parse import path for symbol extraction: @./file.ts#SymbolName
  */
 function parseSymbolExtractionInternal(path: string): { path: string; symbol?: string } {
-  const match = path.match(/^(.+)#([a-zA-Z_$][a-zA-Z0-9_$]*)$/);
+  const match = path.match(/^(.+)#([a-zA-Z_$][a-zA-Z0-9_$]*(?:\.[a-zA-Z_$][a-zA-Z0-9_$]*)*)$/);
   if (match && match[1] && match[2]) {
     return {
       path: match[1],
@@ -393,100 +501,12 @@ function extractLines(content: string, start: number, end: number): string {
   return lines.slice(startIdx, endIdx).join("\n");
 }
 
-/**
- * Extract a symbol definition from TypeScript/JavaScript content
- * Supports: interface, type, function, class, const, let, var, enum
- */
-function extractSymbol(content: string, symbolName: string): string {
-  const lines = content.split("\n");
-
-  // Patterns to match symbol declarations
-  const patterns = [
-    // interface Name { ... }
-    new RegExp(`^(export\\s+)?interface\\s+${symbolName}\\s*(extends\\s+[^{]+)?\\{`),
-    // type Name = ...
-    new RegExp(`^(export\\s+)?type\\s+${symbolName}\\s*(<[^>]+>)?\\s*=`),
-    // function Name(...) { ... }
-    new RegExp(`^(export\\s+)?(async\\s+)?function\\s+${symbolName}\\s*(<[^>]+>)?\\s*\\(`),
-    // class Name { ... }
-    new RegExp(`^(export\\s+)?(abstract\\s+)?class\\s+${symbolName}\\s*(extends\\s+[^{]+)?(implements\\s+[^{]+)?\\{`),
-    // const/let/var Name = ...
-    new RegExp(`^(export\\s+)?(const|let|var)\\s+${symbolName}\\s*(:[^=]+)?\\s*=`),
-    // enum Name { ... }
-    new RegExp(`^(export\\s+)?enum\\s+${symbolName}\\s*\\{`),
-  ];
-
-  let startLine = -1;
-  let braceDepth = 0;
-  let parenDepth = 0;
-  let inString = false;
-  let stringChar = "";
-  let foundDeclaration = false;
-
-  for (let i = 0; i < lines.length; i++) {
-    const currentLine = lines[i];
-    if (!currentLine) continue;
-    const line = currentLine.trim();
-
-    // Check if this line starts the symbol we're looking for
-    if (startLine === -1) {
-      for (const pattern of patterns) {
-        if (pattern.test(line)) {
-          startLine = i;
-          foundDeclaration = true;
-          break;
-        }
-      }
-    }
-
-    if (startLine !== -1) {
-      // Count braces/parens to find the end of the declaration
-      for (let j = 0; j < currentLine.length; j++) {
-        const char = currentLine[j];
-        const prevChar = j > 0 ? currentLine[j - 1] : "";
-
-        // Handle string literals
-        if (!inString && (char === '"' || char === "'" || char === "`")) {
-          inString = true;
-          stringChar = char;
-        } else if (inString && char === stringChar && prevChar !== "\\") {
-          inString = false;
-        }
-
-        if (!inString) {
-          if (char === "{") braceDepth++;
-          else if (char === "}") braceDepth--;
-          else if (char === "(") parenDepth++;
-          else if (char === ")") parenDepth--;
-        }
-      }
-
-      // Check if we've closed all braces (for block declarations)
-      if (foundDeclaration && braceDepth === 0 && parenDepth === 0) {
-        // For type aliases, we need to check for semicolon or end of statement
-        const trimmedLine = currentLine.trim();
-        const nextLine = lines[i + 1];
-        if (trimmedLine.endsWith(";") || trimmedLine.endsWith("}") ||
-            (i + 1 < lines.length && nextLine && !nextLine.trim().startsWith("."))) {
-          return lines.slice(startLine, i + 1).join("\n");
-        }
-      }
-    }
-  }
-
-  if (startLine !== -1) {
-    // Return everything from start to end if we couldn't find proper closure
-    return lines.slice(startLine).join("\n");
-  }
-
-  throw new Error(`Symbol "${symbolName}" not found in file`);
-}
-
 /**
  * Load .gitignore patterns from directory and parents
  * Lazy-loads the ignore package on first use
+ * Rules read from .gitignore files are also appended to `rulesOut` (for cache keys)
  */
-async function loadGitignore(dir: string): Promise<ReturnType<Awaited<ReturnType<typeof getIgnore>>>> {
+async function loadGitignore(dir: string, rulesOut?: string[]): Promise<ReturnType<Awaited<ReturnType<typeof getIgnore>>>> {
   const ignore = await getIgnore();
   const ig = ignore();
 
@@ -521,6 +541,7 @@ async function loadGitignore(dir: string): Promise<ReturnType<Awaited<ReturnType
 
     if (rules) {
       ig.add(rules);
+      rulesOut?.push(...rules);
     }
 
     // Stop at git root
@@ -621,11 +642,68 @@ function inferContentType(content: string, url: string): "markdown" | "json" | "
 
 /**
  * Process a URL import by fetching and validating content
+ * Served from the import cache for up to an hour when caching is enabled,
+ * and checked against its pin when pinning is enabled.
  */
 async function processUrlImport(
   url: string,
-  verbose: boolean
+  verbose: boolean,
+  importCtx?: ImportContext
 ): Promise<string> {
+  await importCtx?.policy?.check([importCapability(url)]);
+  const content = await loadUrlImport(url, importCtx);
+  await importCtx?.pins?.(url, content);
+  // Commands and fences in remote content run in Phase 3 like the agent's own
+  await importCtx?.policy?.check(classifyCapabilities({}, content), url);
+  return content;
+}
+
+/**
+ * Import cache key of a URL import
+ */
+function urlImportCacheKey(url: string, maxRows?: number): string {
+  return maxRows ? `url:${url}#rows=${maxRows}` : `url:${url}`;
+}
+
+/**
+ * Load a URL import from the import cache, or fetch it
+ */
+async function loadUrlImport(url: string, importCtx?: ImportContext): Promise<string> {
+  const cache = importCtx?.cache;
+  const maxRows = importCtx?._options?.maxRows;
+  const cacheKey = urlImportCacheKey(url, maxRows);
+  if (importCtx?.offline ?? isOfflineMode()) {
+    const cached = await getCachedImport(cacheKey, cache?.dir ?? getImportCacheDir(), { ignoreTtl: true });
+    if (cached === undefined) {
+      throw new Error(`Offline and not cached: ${url} (run "md cache warm <agent>" while online)`);
+    }
+    console.error(`[imports] Cached (offline): ${url}`);
+    if (importCtx?._source) cache?.hits.add(importCtx._source);
+    return cached;
+  }
+  if (cache) {
+    const cached = await getCachedImport(cacheKey, cache.dir);
+    if (cached !== undefined) {
+      console.error(`[imports] Cached: ${url}`);
+      if (importCtx?._source) cache.hits.add(importCtx._source);
+      return cached;
+    }
+  }
+
+  const content = await fetchUrlImport(url, maxRows);
+  if (cache) {
+    // The cache is best-effort; a failed write only costs the next run a fetch
+    await setCachedImport(cacheKey, content, { ttlMs: DEFAULT_CACHE_TTL_MS, dir: cache.dir }).catch(() => {});
+  }
+  return content;
+}
+
+/**
+ * Fetch a URL import and validate its content type
+ * Documents (PDF, DOCX, CSV, ...) are recognized by content type or URL
+ * extension and read through their extractor.
+ */
+async function fetchUrlImport(url: string, maxRows?: number): Promise<string> {
   // Always log URL fetches to stderr for visibility
   console.error(`[imports] Fetching: ${url}`);
 
@@ -642,6 +720,12 @@ async function processUrlImport(
     }
 
     const contentType = response.headers.get("content-type");
+    const urlPath = new URL(url).pathname;
+    if (getDocumentExtractor(urlPath, contentType)) {
+      const data = new Uint8Array(await response.arrayBuffer());
+      return await extractDocument(data, urlPath, { maxRows, mimeType: contentType });
+    }
+
     const content = await response.text();
 
     // Check content type header
@@ -658,7 +742,7 @@ async function processUrlImport(
     // Cannot determine content type - reject
     throw new Error(
       `URL returned unsupported content type: ${contentType || "unknown"}. ` +
-      `Only markdown and JSON are allowed. URL: ${url}`
+      `Only markdown, JSON and documents (PDF, DOCX, CSV, ...) are allowed. URL: ${url}`
     );
   } catch (err) {
     if (err instanceof Error && err.message.includes("unsupported content type")) {
@@ -668,6 +752,67 @@ async function processUrlImport(
   }
 }
 
+/**
+ * Fetch the URL imports of content into the import cache, following local
+ * file imports, glob matches and the content of fetched URLs (md cache warm)
+ * Commands are not run and imports are not pinned or checked against the
+ * trust policy; this only downloads what a run could.
+ *
+ * @param currentFileDir - Directory of the content, or undefined for fetched
+ *   URL content (only its URL imports are followed)
+ * @returns URLs fetched
+ */
+export async function warmUrlImports(
+  content: string,
+  currentFileDir: string | undefined,
+  options: { dir?: string; visited?: Set<string> } = {}
+): Promise<string[]> {
+  const { dir = getImportCacheDir(), visited = new Set<string>() } = options;
+  const fetched: string[] = [];
+
+  const warmFile = async (path: string) => {
+    if (visited.has(path) || isBinaryFile(path)) return;
+    visited.add(path);
+    // Missing files are reported when the agent runs
+    const text = await Bun.file(path).text().catch(() => undefined);
+    if (text !== undefined) fetched.push(...await warmUrlImports(text, dirname(path), { dir, visited }));
+  };
+
+  for (const action of parseImportsSafe(content)) {
+    if (action.type === 'url') {
+      const key = urlImportCacheKey(action.url, action.options?.maxRows);
+      if (visited.has(key)) continue;
+      visited.add(key);
+      const urlContent = await fetchUrlImport(action.url, action.options?.maxRows);
+      await setCachedImport(key, urlContent, { ttlMs: DEFAULT_CACHE_TTL_MS, dir });
+      fetched.push(action.url);
+      fetched.push(...await warmUrlImports(urlContent, undefined, { dir, visited }));
+    } else if (currentFileDir === undefined) {
+      continue;
+    } else if (action.type === 'file') {
+      await warmFile(resolveImportPath(action.path, currentFileDir));
+    } else if (action.type === 'glob') {
+      const pattern = expandTilde(action.pattern);
+      const glob = new Glob(pattern.startsWith("/") ? pattern : action.pattern.replace(/^\.\//, ""));
+      for await (const path of glob.scan({ cwd: currentFileDir, absolute: true, onlyFiles: true })) {
+        await warmFile(path);
+      }
+    }
+  }
+
+  return fetched;
+}
+
+/**
+ * Process a git import (@git:diff, @git:HEAD~1:path, ...)
+ */
+async function processGitImport(action: GitImportAction, currentFileDir: string, verbose: boolean): Promise<string> {
+  if (verbose) {
+    console.error(`[imports] Git: ${action.original}`);
+  }
+  return resolveGitImport(action, currentFileDir);
+}
+
 /**
  * Format files as XML for LLM consumption
  */
@@ -709,13 +854,98 @@ function extractGlobBaseDir(pattern: string, currentFileDir: string): string {
   return resolve(currentFileDir, dirPart || '.');
 }
 
+/**
+ * Read the text files matched by a glob, skipping binary files
+ */
+async function readGlobMatches(
+  matches: Array<{ file: string; relativePath: string }>,
+  verbose: boolean,
+  resolvedImports?: ResolvedImportsTracker,
+  options?: ImportOptions
+): Promise<Array<{ path: string; content: string; mtimeMs: number }>> {
+  const files: Array<{ path: string; content: string; mtimeMs: number }> = [];
+  const skippedBinaryFiles: string[] = [];
+
+  for (const { file, relativePath } of matches) {
+    const bunFile = Bun.file(file);
+
+    // Check individual file size before reading
+    if (exceedsLimit(bunFile.size)) {
+      throw new FileSizeLimitError(file, bunFile.size);
+    }
+
+    // Documents are read through their extractor; other binary files are skipped
+    let content: string;
+    if (getDocumentExtractor(file)) {
+      try {
+        content = (await readDocument(file, options))!;
+      } catch (error) {
+        if (verbose) {
+          console.error(`[imports] ${(error as Error).message}`);
+        }
+        skippedBinaryFiles.push(relativePath);
+        continue;
+      }
+      resolvedImports?.push(file);
+      files.push({ path: relativePath, content, mtimeMs: bunFile.lastModified });
+      continue;
+    }
+
+    // Check extension first (fast path)
+    if (isBinaryFile(file)) {
+      skippedBinaryFiles.push(relativePath);
+      continue;
+    }
+
+    // Optimized binary check and content reading
+    // For small files (<8KB), read entire file and check buffer to avoid double read
+    // For large files, check first chunk first
+    try {
+      const result = await readTextOrBinary(bunFile);
+      if (result === null) {
+        skippedBinaryFiles.push(relativePath);
+        continue;
+      }
+      content = result;
+    } catch (error) {
+      if (verbose) {
+        console.error(`[imports] Error reading file ${file}: ${(error as Error).message}`);
+      }
+      continue;
+    }
+
+    // Track each glob match (absolute) so callers can see every file that was read
+    if (resolvedImports) {
+      resolvedImports.push(file);
+    }
+
+    files.push({ path: relativePath, content, mtimeMs: bunFile.lastModified });
+  }
+
+  // Log warning about skipped binary files
+  if (skippedBinaryFiles.length > 0 && verbose) {
+    console.error(`[imports] Skipped ${skippedBinaryFiles.length} binary file(s): ${skippedBinaryFiles.join(", ")}`);
+  }
+
+  // Sort by path for consistent ordering
+  files.sort((a, b) => a.path.localeCompare(b.path));
+  return files;
+}
+
 /**
  * Process a glob import pattern
+ * With `outline`, each file is replaced by its exported signatures (see ./outline).
+ * With `importCtx.cache`, the read (and outlined) files are reused while the
+ * matched file list, .gitignore rules and every file's content are unchanged.
  */
 async function processGlobImport(
   pattern: string,
   currentFileDir: string,
-  verbose: boolean
+  verbose: boolean,
+  resolvedImports?: ResolvedImportsTracker,
+  budgetMembers?: BudgetMember[],
+  outline?: OutlineOptions,
+  importCtx?: ImportContext
 ): Promise<string> {
   const resolvedPattern = expandTilde(pattern);
 
@@ -728,15 +958,13 @@ async function processGlobImport(
   }
 
   // Load gitignore from the glob's base directory, not the agent file's directory
-  const ig = await loadGitignore(globBaseDir);
+  const gitignoreRules: string[] = [];
+  const ig = await loadGitignore(globBaseDir, gitignoreRules);
 
   // Collect matching files
   // Use the resolved base directory as cwd for proper pattern matching
   const glob = new Glob(resolvedPattern.startsWith("/") ? resolvedPattern : pattern.replace(/^\.\//, ""));
-  const files: Array<{ path: string; content: string }> = [];
-  let totalChars = 0;
-
-  const skippedBinaryFiles: string[] = [];
+  const matches: Array<{ file: string; relativePath: string }> = [];
 
   for await (const file of glob.scan({ cwd: currentFileDir, absolute: true, onlyFiles: true })) {
     // Check gitignore - calculate relative path from the glob's base directory
@@ -755,49 +983,53 @@ async function processGlobImport(
       continue;
     }
 
-    const bunFile = Bun.file(file);
-
-    // Check individual file size before reading
-    if (exceedsLimit(bunFile.size)) {
-      throw new FileSizeLimitError(file, bunFile.size);
-    }
+    matches.push({ file, relativePath });
+  }
 
-    // Check extension first (fast path)
-    if (isBinaryFile(file)) {
-      skippedBinaryFiles.push(relativePath);
-      continue;
+  // Cache key: pattern, outline mode, the extractors reading or outlining files
+  // (and their row limit), gitignore rules and the matched file list
+  const cache = importCtx?.cache;
+  const mode = outline?.ranked ? "outline=ranked" : outline ? "outline" : "full";
+  const extractors = [...new Set(matches.flatMap((m) => [
+    getDocumentExtractorTag(m.file),
+    outline && hasSymbolExtractor(m.file) ? getSymbolExtractorTag(m.file) : undefined,
+  ]).filter((tag) => tag !== undefined))].sort();
+  const maxRows = importCtx?._options?.maxRows;
+  const cacheKey = `glob:${currentFileDir}:${pattern}:${mode}:` +
+    hashContent(JSON.stringify([gitignoreRules, matches.map((m) => m.file).sort(), extractors, maxRows]));
+  const cached = cache ? await getCachedImport(cacheKey, cache.dir) : undefined;
+
+  let files: Array<{ path: string; content: string; mtimeMs: number }>;
+  if (cache && cached !== undefined) {
+    files = JSON.parse(cached);
+    if (importCtx?._source) cache.hits.add(importCtx._source);
+    if (resolvedImports) {
+      resolvedImports.push(...files.map((f) => resolve(globBaseDir, f.path)));
     }
-
-    // Optimized binary check and content reading
-    // For small files (<8KB), read entire file and check buffer to avoid double read
-    // For large files, check first chunk first
-    let content: string;
-    try {
-      const result = await readTextOrBinary(bunFile);
-      if (result === null) {
-        skippedBinaryFiles.push(relativePath);
-        continue;
-      }
-      content = result;
-    } catch (error) {
-      if (verbose) {
-        console.error(`[imports] Error reading file ${file}: ${(error as Error).message}`);
+  } else {
+    const read = await readGlobMatches(matches, verbose, resolvedImports, importCtx?._options);
+    files = read;
+
+    if (outline) {
+      const outlined = await outlineFiles(files, outline);
+      files = outlined.files;
+      if (outlined.skipped.length > 0 && verbose) {
+        console.error(`[imports] Outline skipped ${outlined.skipped.length} file(s) without a symbol parser: ${outlined.skipped.join(", ")}`);
       }
-      continue;
     }
-    totalChars += content.length;
 
-    files.push({ path: relativePath, content });
+    if (cache) {
+      // Fingerprint the files as read (outlining may drop some); the cache is best-effort
+      await Promise.all(read.map((f) => fingerprintFile(resolve(globBaseDir, f.path), f.content)))
+        .then((fingerprints) => setCachedImport(cacheKey, JSON.stringify(files), { files: fingerprints, dir: cache.dir }))
+        .catch(() => {});
+    }
   }
 
-  // Log warning about skipped binary files
-  if (skippedBinaryFiles.length > 0 && verbose) {
-    console.error(`[imports] Skipped ${skippedBinaryFiles.length} binary file(s): ${skippedBinaryFiles.join(", ")}`);
+  if (importCtx?._options?.strip === "comments") {
+    files = files.map((f) => ({ ...f, content: stripComments(f.content, f.path) }));
   }
 
-  // Sort by path for consistent ordering
-  files.sort((a, b) => a.path.localeCompare(b.path));
-
   // Get context limit (use env vars for model/limit override)
   const contextLimit = getContextLimit(
     process.env.MA_MODEL,
@@ -822,11 +1054,16 @@ async function processGlobImport(
 
   // Always log glob expansion to stderr for visibility
   console.error(
-    `[imports] Expanding ${pattern}: ${files.length} files (~${actualTokens.toLocaleString()} tokens${needsAccurateCount ? "" : " est"})`
+    `[imports] Expanding ${pattern}${outline ? " (outline)" : ""}${cached !== undefined ? " (cached)" : ""}: ${files.length} files (~${actualTokens.toLocaleString()} tokens${needsAccurateCount ? "" : " est"})`
   );
 
+  // Under a _budget the caller trims members instead of failing
+  if (budgetMembers) {
+    budgetMembers.push(...files);
+  }
+
   // Error threshold - use dynamic context limit
-  if (actualTokens > contextLimit && !process.env.MA_FORCE_CONTEXT) {
+  if (actualTokens > contextLimit && !process.env.MA_FORCE_CONTEXT && !budgetMembers) {
     throw new Error(
       `Glob import "${pattern}" would include ~${actualTokens.toLocaleString()} tokens (${files.length} files), ` +
         `which exceeds the ${contextLimit.toLocaleString()} token limit.\n` +
@@ -856,9 +1093,24 @@ async function processFileImport(
   importCtx?: ImportContext
 ): Promise<string> {
   const resolvedImports = importCtx?.resolvedImports;
+
+  // Check for outline mode before globs - "?outline" would otherwise read as a glob
+  const outlineParsed = parseOutlineImport(importPath);
+  if (outlineParsed.outline) {
+    if (!isGlobPatternInternal(outlineParsed.path)) {
+      const resolvedPath = resolveImportPath(outlineParsed.path, currentFileDir);
+      if (!await Bun.file(resolvedPath).exists()) {
+        throw new Error(`Import not found: ${outlineParsed.path} (resolved to ${resolvedPath})`);
+      }
+    }
+    return processGlobImport(
+      outlineParsed.path, currentFileDir, verbose, resolvedImports, importCtx?._globMembers, outlineParsed.outline, importCtx
+    );
+  }
+
   // Check for glob pattern first
   if (isGlobPatternInternal(importPath)) {
-    return processGlobImport(importPath, currentFileDir, verbose);
+    return processGlobImport(importPath, currentFileDir, verbose, resolvedImports, importCtx?._globMembers, undefined, importCtx);
   }
 
   // Check for symbol extraction syntax
@@ -881,6 +1133,20 @@ async function processFileImport(
       throw new Error(`Cannot import binary file: ${symbolParsed.path} (resolved to ${resolvedPath})`);
     }
 
+    // Track the resolved import
+    if (resolvedImports) {
+      resolvedImports.push(importPath);
+    }
+
+    // Reuse the extraction while the file is unchanged
+    const cache = importCtx?.cache;
+    const cacheKey = `symbol:${getSymbolExtractorTag(resolvedPath)}:${resolvedPath}#${symbolParsed.symbol}`;
+    const cached = cache ? await getCachedImport(cacheKey, cache.dir) : undefined;
+    if (cache && cached !== undefined) {
+      if (importCtx?._source) cache.hits.add(importCtx._source);
+      return cached;
+    }
+
     const content = await readTextOrBinary(file);
     if (content === null) {
       throw new Error(`Cannot import binary file: ${symbolParsed.path} (resolved to ${resolvedPath})`);
@@ -889,11 +1155,13 @@ async function processFileImport(
     if (verbose) {
       console.error(`[imports] Extracting symbol "${symbolParsed.symbol}" from: ${symbolParsed.path}`);
     }
-    // Track the resolved import
-    if (resolvedImports) {
-      resolvedImports.push(importPath);
+    const extracted = await extractSymbol(content, symbolParsed.symbol, symbolParsed.path);
+    if (cache) {
+      await fingerprintFile(resolvedPath, content)
+        .then((fingerprint) => setCachedImport(cacheKey, extracted, { files: [fingerprint], dir: cache.dir }))
+        .catch(() => {});
     }
-    return extractSymbol(content, symbolParsed.symbol);
+    return extracted;
   }
 
   // Check for line range syntax
@@ -911,12 +1179,15 @@ async function processFileImport(
       throw new FileSizeLimitError(resolvedPath, file.size);
     }
 
+    // Documents are read through their extractor (see ./documents)
+    const document = await readDocument(resolvedPath, importCtx?._options);
+
     // Check extension first (fast path)
-    if (isBinaryFile(resolvedPath)) {
+    if (document === null && isBinaryFile(resolvedPath)) {
       throw new Error(`Cannot import binary file: ${rangeParsed.path} (resolved to ${resolvedPath})`);
     }
 
-    const content = await readTextOrBinary(file);
+    const content = document ?? await readTextOrBinary(file);
     if (content === null) {
       throw new Error(`Cannot import binary file: ${rangeParsed.path} (resolved to ${resolvedPath})`);
     }
@@ -954,9 +1225,18 @@ async function processFileImport(
     throw new FileSizeLimitError(resolvedPath, file.size);
   }
 
-  // Check extension first (fast path)
-  if (isBinaryFile(resolvedPath)) {
-    throw new Error(`Cannot import binary file: ${importPath} (resolved to ${resolvedPath})`);
+  // Documents are read through their extractor (see ./documents); the
+  // extracted text is not scanned for imports
+  if (getDocumentExtractor(resolvedPath)) {
+    console.error(`[imports] Loading: ${importPath}`);
+    resolvedImports?.push(importPath);
+    return (await readDocument(resolvedPath, importCtx?._options))!;
+  }
+
+  // Read file content; binary files (by extension, fast path, or content) become attachments
+  const content = isBinaryFile(resolvedPath) ? null : await readTextOrBinary(file);
+  if (content === null) {
+    return attachBinaryFile(importPath, resolvedPath, importCtx);
   }
 
   // Always log file loading to stderr for visibility
@@ -967,23 +1247,20 @@ async function processFileImport(
     resolvedImports.push(importPath);
   }
 
-  // Read file content
-  const content = await readTextOrBinary(file);
-  if (content === null) {
-    throw new Error(`Cannot import binary file: ${importPath} (resolved to ${resolvedPath})`);
-  }
-
   // Recursively process imports in the imported file
   // Use canonical path in stack for consistent cycle detection
   const newStack = new Set(stack);
   newStack.add(canonicalPath);
 
+  // Options belong to this import, not to the imports inside it
+  const nestedCtx: ImportContext | undefined = importCtx && { ...importCtx, _options: undefined };
+
   // For 3-phase pipeline: if in content-only mode, skip commands in recursive imports
   if (importCtx?._contentOnly) {
-    return expandContentImports(content, dirname(resolvedPath), newStack, verbose, importCtx);
+    return expandContentImports(content, dirname(resolvedPath), newStack, verbose, nestedCtx);
   }
 
-  return expandImports(content, dirname(resolvedPath), newStack, verbose, importCtx);
+  return expandImports(content, dirname(resolvedPath), newStack, verbose, nestedCtx);
 }
 
 /**
@@ -1009,6 +1286,7 @@ export function isMarkdownFileCommand(command: string): boolean {
  * - ANSI escape code stripping
  * - LiquidJS tag sanitization
  * - Output size limiting
+ * - Sandbox policy (allowlist, env stripping, limits, read-only cwd)
  * - Detailed error reporting
  */
 async function processCommandInline(
@@ -1017,15 +1295,18 @@ async function processCommandInline(
   verbose: boolean,
   importCtx?: ImportContext,
   onProgress?: (chunk: string) => void,
-  useDashboard: boolean = false
+  useDashboard: boolean = false,
+  cacheTtlMs?: number
 ): Promise<string> {
   // Substitute template variables in command string if provided
   // This allows commands like !`echo {{ _name }}` to use frontmatter variables
-  let processedCommand = command;
+  // (values substituted in Phase 1 get their protected import syntax back first)
+  const restoredCommand = restoreTemplateValues(command);
+  let processedCommand = restoredCommand;
   if (importCtx?.templateVars && Object.keys(importCtx.templateVars).length > 0) {
-    processedCommand = substituteTemplateVars(command, importCtx.templateVars);
-    if (processedCommand !== command) {
-      console.error(`[imports] Command with vars: ${command} → ${processedCommand}`);
+    processedCommand = substituteTemplateVars(restoredCommand, importCtx.templateVars);
+    if (processedCommand !== restoredCommand) {
+      console.error(`[imports] Command with vars: ${restoredCommand} → ${processedCommand}`);
     }
   }
 
@@ -1047,13 +1328,29 @@ async function processCommandInline(
     return `[Dry Run: Command "${actualCommand}" not executed]`;
   }
 
+  await importCtx?.policy?.check([{ kind: "command", detail: actualCommand }]);
+  const sandbox = importCtx?.sandbox;
+  if (sandbox) assertSandboxAllows(sandbox, commandPrograms(actualCommand), `command '${actualCommand}'`);
+
   // Use importCtx.env if provided, otherwise fall back to process.env
-  const env = importCtx?.env ?? process.env;
+  const env = sandbox ? sandboxEnv(importCtx?.env ?? process.env, sandbox) : importCtx?.env ?? process.env;
 
   // Use invocationCwd for command execution if provided (allows agents in ~/.mdflow
   // to run commands in the user's current directory), fall back to file directory
   const commandCwd = importCtx?.invocationCwd ?? currentFileDir;
 
+  // Opt-in output caching (!`cmd`{cache: 10m}), keyed by the final command and its cwd
+  const cache = cacheTtlMs !== undefined ? importCtx?.cache : undefined;
+  const cacheKey = `command:${commandCwd}:${actualCommand}`;
+  if (cache) {
+    const cached = await getCachedImport(cacheKey, cache.dir);
+    if (cached !== undefined) {
+      console.error(`[imports] Cached output: ${processedCommand}`);
+      if (importCtx?._source) cache.hits.add(importCtx._source);
+      return cached;
+    }
+  }
+
   // Improvement #5: Cross-platform shell support
   const isWin = platform() === "win32";
   const shell = isWin ? "cmd.exe" : "sh";
@@ -1065,7 +1362,8 @@ async function processCommandInline(
   const pm = getProcessManager();
 
   try {
-    proc = Bun.spawn([shell, ...shellArgs], {
+    const argv = sandbox ? wrapSandboxed([shell, ...shellArgs], commandCwd, sandbox) : [shell, ...shellArgs];
+    proc = Bun.spawn(argv, {
       cwd: commandCwd,
       stdout: "pipe",
       stderr: "pipe",
@@ -1103,7 +1401,7 @@ async function processCommandInline(
 
     // Improvement #4: Execution timeout using Promise.race
     // Uses configurable timeout from ProcessManager
-    const commandTimeout = getCommandTimeout();
+    const commandTimeout = sandbox?.timeoutMs ?? getCommandTimeout();
     const timeoutPromise = new Promise<never>((_, reject) => {
       setTimeout(() => {
         timedOut = true;
@@ -1158,10 +1456,10 @@ async function processCommandInline(
     }
 
     // Improvement #8: Enforce output size limits
-    if (output.length > MAX_COMMAND_OUTPUT_SIZE) {
-      const truncatedChars = output.length - MAX_COMMAND_OUTPUT_SIZE;
-      output = output.slice(0, MAX_COMMAND_OUTPUT_SIZE) +
-        `\n... [Output truncated: ${truncatedChars.toLocaleString()} characters removed]`;
+    output = truncateCommandOutput(output, sandbox?.maxOutput);
+
+    if (cache) {
+      await setCachedImport(cacheKey, output, { ttlMs: cacheTtlMs, dir: cache.dir }).catch(() => {});
     }
 
     // Command output is processed after LiquidJS (Phase 3), so no template escaping needed
@@ -1176,60 +1474,195 @@ async function processCommandInline(
   }
 }
 
+/** Result of running a code fence */
+interface CodeFenceResult {
+  /** Raw stdout, piped to fences that read this one (`stdin=`, `pipe`) */
+  stdout: string;
+  /** Content for the prompt (empty for `hidden` fences) */
+  output: string;
+}
+
 /**
- * Process an executable code fence by writing to temp file, making executable, and running
+ * Process an executable code fence by writing it to a temp file and running it,
+ * either directly (shebang) or with its language's runtime (`run`, see ./runtimes)
+ *
+ * @param stdin - stdout of the fence this one reads from (`stdin=` / `pipe`)
  */
 async function processExecutableCodeFence(
-  action: { shebang: string; language: string; code: string },
+  action: ExecutableCodeFenceAction,
   currentFileDir: string,
   verbose: boolean,
-  importCtx?: ImportContext
-): Promise<string> {
+  importCtx?: ImportContext,
+  stdin?: string
+): Promise<CodeFenceResult> {
   const { shebang, language, code } = action;
-  const fullScript = `${shebang}\n${code}`;
+  const attributes: CodeFenceAttributes = action.attributes ?? {};
+  const runtime = shebang ? undefined : getFenceRuntime(language, attributes.runtime);
+  const label = shebang ?? `${language} run`;
 
-  console.error(`[imports] Executing code fence (${language}): ${shebang}`);
+  console.error(`[imports] Executing code fence (${language}): ${shebang ?? runtime?.name ?? attributes.runtime ?? language}`);
 
   if (importCtx?.dryRun) {
-    return "[Dry Run: Code fence not executed]";
+    return { stdout: "", output: "[Dry Run: Code fence not executed]" };
+  }
+
+  await importCtx?.policy?.check([codeFenceCapability(action)]);
+  if (!shebang && !runtime) {
+    const requested = attributes.runtime ? `runtime=${attributes.runtime}` : `language '${language}'`;
+    throw new Error(`No runtime for ${requested} (available: ${getFenceRuntimeNames().join(", ")})`);
   }
 
-  const ext = { ts: 'ts', js: 'js', py: 'py', sh: 'sh', bash: 'sh' }[language] ?? language;
-  const tmpFile = join(tmpdir(), `mdflow-${Date.now()}-${Math.random().toString(36).slice(2)}.${ext}`);
+  const ext = runtime?.extension ?? `.${{ ts: 'ts', js: 'js', py: 'py', sh: 'sh', bash: 'sh' }[language] ?? language}`;
+  const tmpFile = join(tmpdir(), `mdflow-${Date.now()}-${Math.random().toString(36).slice(2)}${ext}`);
+  const argv = runtime ? runtime.command(tmpFile, attributes, stdin !== undefined) : [tmpFile];
+
+  const sandbox = importCtx?.sandbox;
+  if (sandbox) {
+    assertSandboxAllows(sandbox, [shebang ? shebangProgram(shebang) : argv[0]!], `code fence (${label})`);
+  }
 
   try {
-    await Bun.write(tmpFile, fullScript);
+    await Bun.write(tmpFile, shebang ? `${shebang}\n${restoreTemplateValues(code)}` : restoreTemplateValues(code));
     await chmod(tmpFile, 0o755);
 
-    const proc = Bun.spawn([tmpFile], {
-      cwd: importCtx?.invocationCwd ?? currentFileDir,
+    const baseCwd = importCtx?.invocationCwd ?? currentFileDir;
+    const cwd = attributes.cwd ? resolve(baseCwd, attributes.cwd) : baseCwd;
+    const env = importCtx?.env ?? process.env;
+    const proc = Bun.spawn(sandbox ? wrapSandboxed(argv, cwd, sandbox) : argv, {
+      cwd,
       stdout: "pipe",
       stderr: "pipe",
-      env: (importCtx?.env ?? process.env) as Record<string, string>,
+      ...(stdin !== undefined ? { stdin: new TextEncoder().encode(stdin) } : {}),
+      env: (sandbox ? sandboxEnv(env, sandbox) : env) as Record<string, string>,
     });
 
-    const stdout = await new Response(proc.stdout).text();
-    const stderr = await new Response(proc.stderr).text();
-    await proc.exited;
+    const run = Promise.all([new Response(proc.stdout).text(), new Response(proc.stderr).text(), proc.exited]);
+
+    // `timeout=` and sandboxed fences get a wall-clock limit (the stricter of the two)
+    // (raced, since children of the script may keep its output open)
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const limits = [attributes.timeoutMs, sandbox ? sandbox.timeoutMs ?? getCommandTimeout() : undefined]
+      .filter((ms): ms is number => ms !== undefined);
+    const timeoutMs = limits.length > 0 ? Math.min(...limits) : undefined;
+    const [stdout, stderr] = timeoutMs === undefined ? await run : await Promise.race([
+      run,
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          proc.kill();
+          reject(new Error(`Code fence timed out after ${timeoutMs}ms (${label})`));
+        }, timeoutMs);
+      }),
+    ]).finally(() => clearTimeout(timer));
 
     if (proc.exitCode !== 0) {
       const errorOutput = stderr || stdout || "No output";
       throw new Error(`Code fence failed (Exit ${proc.exitCode}): ${errorOutput}`);
     }
 
+    if (attributes.hidden) return { stdout, output: "" };
+
     // Command output is processed after LiquidJS (Phase 3), so no template escaping needed
-    return (stdout + stderr).trim().replace(ANSI_ESCAPE_REGEX, '');
+    const output = (stdout + stderr).trim().replace(ANSI_ESCAPE_REGEX, '');
+    return { stdout, output: sandbox ? truncateCommandOutput(output, sandbox.maxOutput) : output };
   } finally {
     try { await unlink(tmpFile); } catch {}
   }
 }
 
+/**
+ * Wires code fences that read another fence's stdout (`stdin=<id>`, `pipe`)
+ * to the fence they read from. Readers wait for their source before taking a
+ * concurrency slot, so fences can still run in parallel otherwise.
+ */
+class CodeFencePipes {
+  private sources = new Map<ExecutableCodeFenceAction, ExecutableCodeFenceAction>();
+  private outputs = new Map<ExecutableCodeFenceAction, { promise: Promise<string>; resolve: (stdout: string) => void; reject: (error: unknown) => void }>();
+
+  /**
+   * @param fences - Code fences in document order
+   * @throws Error if a fence reads from a missing or later fence
+   */
+  constructor(fences: ExecutableCodeFenceAction[]) {
+    const byId = new Map<string, ExecutableCodeFenceAction>();
+    let previous: ExecutableCodeFenceAction | undefined;
+
+    for (const fence of fences) {
+      const { stdin, pipe, id } = fence.attributes ?? {};
+      if (stdin || pipe) {
+        const source = stdin ? byId.get(stdin) : previous;
+        if (!source) {
+          throw new Error(stdin
+            ? `Code fence stdin=${stdin}: no earlier code fence has id=${stdin}`
+            : `Code fence pipe: no earlier code fence to read from`);
+        }
+        this.sources.set(fence, source);
+        if (!this.outputs.has(source)) {
+          let resolve!: (stdout: string) => void, reject!: (error: unknown) => void;
+          const promise = new Promise<string>((res, rej) => { resolve = res; reject = rej; });
+          // Failures surface through the source fence itself
+          promise.catch(() => {});
+          this.outputs.set(source, { promise, resolve, reject });
+        }
+      }
+      if (id) byId.set(id, fence);
+      previous = fence;
+    }
+  }
+
+  /** stdout of the fence this fence reads from (undefined if it reads none) */
+  input(fence: ExecutableCodeFenceAction): Promise<string> | undefined {
+    const source = this.sources.get(fence);
+    return source ? this.outputs.get(source)!.promise : undefined;
+  }
+
+  /** Run a fence, publishing its stdout (or failure) to its readers */
+  async run(fence: ExecutableCodeFenceAction, execute: () => Promise<CodeFenceResult>): Promise<string> {
+    const output = this.outputs.get(fence);
+    try {
+      const result = await execute();
+      output?.resolve(result.stdout);
+      return result.output;
+    } catch (error) {
+      output?.reject(error);
+      throw error;
+    }
+  }
+}
+
 /** Import types for categorizing imports during parallel resolution */
-type ParsedImport =
+type ParsedImport = (
   | { type: 'file'; full: string; path: string; index: number }
   | { type: 'url'; full: string; url: string; index: number }
-  | { type: 'command'; full: string; command: string; index: number }
-  | { type: 'executable_code_fence'; full: string; action: ExecutableCodeFenceAction; index: number };
+  | { type: 'command'; full: string; command: string; cacheTtlMs?: number; index: number }
+  | { type: 'git'; full: string; action: GitImportAction; index: number }
+  | { type: 'executable_code_fence'; full: string; action: ExecutableCodeFenceAction; index: number }
+) & { options?: ImportOptions };
+
+/**
+ * Source path of an import, for comment syntax and fence language (./options)
+ */
+function getImportSource(imp: ParsedImport): string {
+  switch (imp.type) {
+    case 'file':
+      return parseSymbolExtractionInternal(parseLineRangeInternal(imp.path).path).path;
+    case 'url':
+      return imp.url;
+    case 'git':
+      return imp.action.path ?? '';
+    default:
+      return '';
+  }
+}
+
+/**
+ * Apply an import's resolver-side options (./options)
+ * Globs strip comments per file in processGlobImport, so only the rest applies to them here.
+ */
+function applyImportOptions(imp: ParsedImport, content: string): string {
+  if (!imp.options) return content;
+  const isGlob = imp.type === 'file' && isGlobPatternInternal(imp.path);
+  return transformImportContent(content, isGlob ? { ...imp.options, strip: undefined } : imp.options, getImportSource(imp));
+}
 
 /** Result of resolving an import */
 interface ResolvedImportResult {
@@ -1301,7 +1734,8 @@ function injectResolvedImports(content: string, resolved: ResolvedImportResult[]
   const sortedResolved = [...resolved].sort((a, b) => b.import.index - a.import.index);
 
   for (const { import: imp, content: replacement } of sortedResolved) {
-    result = result.slice(0, imp.index) + replacement + result.slice(imp.index + imp.full.length);
+    const presented = presentImportContent(replacement, imp.options, getImportSource(imp));
+    result = result.slice(0, imp.index) + presented + result.slice(imp.index + imp.full.length);
   }
 
   return result;
@@ -1357,16 +1791,18 @@ export async function expandImports(
         if (action.lineRange) {
           path = `${action.path}:${action.lineRange.start}-${action.lineRange.end}`;
         }
-        return { type: 'file' as const, full: action.original, path, index: action.index };
+        return { type: 'file' as const, full: action.original, path, options: action.options, index: action.index };
       }
       case 'glob':
-        return { type: 'file' as const, full: action.original, path: action.pattern, index: action.index };
+        return { type: 'file' as const, full: action.original, path: action.pattern, options: action.options, index: action.index };
       case 'symbol':
-        return { type: 'file' as const, full: action.original, path: `${action.path}#${action.symbol}`, index: action.index };
+        return { type: 'file' as const, full: action.original, path: `${action.path}#${action.symbol}`, options: action.options, index: action.index };
       case 'url':
-        return { type: 'url' as const, full: action.original, url: action.url, index: action.index };
+        return { type: 'url' as const, full: action.original, url: action.url, options: action.options, index: action.index };
       case 'command':
-        return { type: 'command' as const, full: action.original, command: action.command, index: action.index };
+        return { type: 'command' as const, full: action.original, command: action.command, cacheTtlMs: action.cacheTtlMs, options: action.options, index: action.index };
+      case 'git':
+        return { type: 'git' as const, full: action.original, action, options: action.options, index: action.index };
       case 'executable_code_fence':
         return { type: 'executable_code_fence' as const, full: action.original, action, index: action.index };
       default:
@@ -1382,6 +1818,7 @@ export async function expandImports(
 
   // Create semaphore for concurrency limiting
   const semaphore = new Semaphore(concurrencyLimit);
+  const pipes = new CodeFencePipes(rawActions.filter((a) => a.type === 'executable_code_fence'));
 
   // Initialize dashboard if we have any commands/fences and are in a TTY environment
   const commandImports = imports.filter(i => i.type === 'command' || i.type === 'executable_code_fence');
@@ -1393,20 +1830,27 @@ export async function expandImports(
   try {
     // Phase 2: Resolve all imports in parallel with concurrency limiting
     const resolvePromises = imports.map(async (imp): Promise<ResolvedImportResult> => {
+      // Fences reading another fence's output wait for it outside the semaphore
+      const stdin = imp.type === 'executable_code_fence' ? await pipes.input(imp.action) : undefined;
       return semaphore.run(async () => {
         let resolvedContent: string;
 
         switch (imp.type) {
           case 'file':
-            resolvedContent = await processFileImport(imp.path, currentFileDir, stack, verbose, importCtx);
+            resolvedContent = await processFileImport(
+              imp.path, currentFileDir, stack, verbose, { ...importCtx, _source: imp.full, _options: imp.options }
+            );
             break;
           case 'url':
-            resolvedContent = await processUrlImport(imp.url, verbose);
+            resolvedContent = await processUrlImport(imp.url, verbose, { ...importCtx, _source: imp.full });
             // Track URL imports
             if (resolvedImportsTracker) {
               resolvedImportsTracker.push(imp.url);
             }
             break;
+          case 'git':
+            resolvedContent = await processGitImport(imp.action, currentFileDir, verbose);
+            break;
           case 'command':
             // Register with dashboard if active
             const cmdId = Math.random().toString(36).substring(7);
@@ -1417,11 +1861,12 @@ export async function expandImports(
                 imp.command,
                 currentFileDir,
                 verbose,
-                importCtx,
+                { ...importCtx, _source: imp.full },
                 (chunk) => {
                   if (dashboard) dashboard.update(cmdId, chunk);
                 },
-                useDashboard
+                useDashboard,
+                imp.cacheTtlMs
               );
             } finally {
               if (dashboard) dashboard.finish(cmdId);
@@ -1433,14 +1878,15 @@ export async function expandImports(
             if (dashboard) dashboard.register(fenceId, `Code Fence (${imp.action.language || 'script'})`);
 
             try {
-              resolvedContent = await processExecutableCodeFence(imp.action, currentFileDir, verbose, importCtx);
+              resolvedContent = await pipes.run(imp.action, () =>
+                processExecutableCodeFence(imp.action, currentFileDir, verbose, importCtx, stdin));
             } finally {
               if (dashboard) dashboard.finish(fenceId);
             }
             break;
         }
 
-        return { import: imp, content: resolvedContent };
+        return { import: imp, content: applyImportOptions(imp, resolvedContent) };
       });
     });
 
@@ -1465,18 +1911,19 @@ export function hasImports(content: string): boolean {
 // ============================================================================
 // 3-Phase Import Pipeline
 // ============================================================================
-// Enables LiquidJS template processing between file imports and command execution:
-// 1. expandContentImports() - Expands @file, @glob, @url, @symbol
-// 2. LiquidJS templates ({% capture %}, {{ var }}, etc.)
+// Runs LiquidJS before imports so template variables and tags can shape them:
+// 1. LiquidJS templates ({% if %}, {{ var }} in import paths, etc.)
+// 2. expandContentImports() - Expands @file, @glob, @url, @symbol, @git:
+//    (imported content is not templated unless `templateImports` is set)
 // 3. expandCommandImports() - Expands !`commands` with resolved template vars
 
 /**
- * Check if content has content imports (file, glob, url, symbol)
+ * Check if content has content imports (file, glob, url, symbol, git)
  */
 export function hasContentImports(content: string): boolean {
   const actions = parseImportsSafe(content);
   return actions.some(a =>
-    a.type === 'file' || a.type === 'glob' || a.type === 'url' || a.type === 'symbol'
+    a.type === 'file' || a.type === 'glob' || a.type === 'url' || a.type === 'symbol' || a.type === 'git'
   );
 }
 
@@ -1489,7 +1936,19 @@ export function hasCommandImports(content: string): boolean {
 }
 
 /**
- * Phase 1: Expand only content imports (file, glob, url, symbol)
+ * Render an imported file with the agent's template variables (`_template_imports`)
+ * Strict, so a variable the agent never received fails instead of rendering empty.
+ */
+function renderImportedContent(content: string, source: string, templateVars: Record<string, string> = {}): string {
+  try {
+    return substituteTemplateVars(content, templateVars, { strict: true, protectImports: true });
+  } catch (err) {
+    throw new Error(`Template error in ${source}: ${(err as Error).message}`);
+  }
+}
+
+/**
+ * Phase 2: Expand only content imports (file, glob, url, symbol, git)
  * Leaves !`command` syntax untouched for Phase 3.
  */
 export async function expandContentImports(
@@ -1500,22 +1959,24 @@ export async function expandContentImports(
   importCtx?: ImportContext,
   concurrencyLimit: number = DEFAULT_CONCURRENCY_LIMIT
 ): Promise<string> {
-  const ctx: ImportContext = importCtx ?? {};
+  // The budget and import templating apply to this level only; nested imports are part of their parent
+  const { budget, templateImports, ...ctx }: ImportContext = importCtx ?? {};
   const tracker = ctx.resolvedImports;
 
   const rawActions = parseImportsSafe(content);
 
   // Filter to content imports only
   const contentActions = rawActions.filter(a =>
-    a.type === 'file' || a.type === 'glob' || a.type === 'symbol' || a.type === 'url'
+    a.type === 'file' || a.type === 'glob' || a.type === 'symbol' || a.type === 'url' || a.type === 'git'
   );
 
   if (contentActions.length === 0) return content;
 
   const semaphore = new Semaphore(concurrencyLimit);
+  const budgetItems: BudgetItem[] = [];
 
   const resolved = await Promise.all(
-    contentActions.map(async (action): Promise<ResolvedImportResult> => {
+    contentActions.map(async (action, i): Promise<ResolvedImportResult> => {
       return semaphore.run(async () => {
         let resolvedContent: string;
         let parsed: ParsedImport;
@@ -1526,22 +1987,49 @@ export async function expandContentImports(
             path = `${action.path}:${action.lineRange.start}-${action.lineRange.end}`;
           }
           parsed = { type: 'file', full: action.original, path, index: action.index };
-          const contentOnlyCtx: ImportContext = { ...ctx, _contentOnly: true };
+          const contentOnlyCtx: ImportContext = { ...ctx, _contentOnly: true, _source: action.original };
           resolvedContent = await processFileImport(path, currentFileDir, stack, verbose, contentOnlyCtx);
+          if (templateImports) resolvedContent = renderImportedContent(resolvedContent, path, ctx.templateVars);
+          budgetItems[i] = { source: path, kind: 'file', content: resolvedContent };
         } else if (action.type === 'glob') {
           parsed = { type: 'file', full: action.original, path: action.pattern, index: action.index };
-          const contentOnlyCtx: ImportContext = { ...ctx, _contentOnly: true };
+          const members: BudgetMember[] | undefined = budget ? [] : undefined;
+          const contentOnlyCtx: ImportContext = {
+            ...ctx, _contentOnly: true, _globMembers: members, _source: action.original, _options: action.options,
+          };
           resolvedContent = await processFileImport(action.pattern, currentFileDir, stack, verbose, contentOnlyCtx);
+          if (templateImports) {
+            resolvedContent = renderImportedContent(resolvedContent, action.pattern, ctx.templateVars);
+            members?.forEach((m) => { m.content = renderImportedContent(m.content, m.path, ctx.templateVars); });
+          }
+          budgetItems[i] = { source: action.pattern, kind: 'glob', content: resolvedContent, members };
         } else if (action.type === 'symbol') {
           const path = `${action.path}#${action.symbol}`;
           parsed = { type: 'file', full: action.original, path, index: action.index };
-          const contentOnlyCtx: ImportContext = { ...ctx, _contentOnly: true };
+          const contentOnlyCtx: ImportContext = { ...ctx, _contentOnly: true, _source: action.original };
           resolvedContent = await processFileImport(path, currentFileDir, stack, verbose, contentOnlyCtx);
+          if (templateImports) resolvedContent = renderImportedContent(resolvedContent, path, ctx.templateVars);
+          budgetItems[i] = { source: path, kind: 'symbol', content: resolvedContent };
+        } else if (action.type === 'git') {
+          parsed = { type: 'git', full: action.original, action, index: action.index };
+          resolvedContent = await processGitImport(action, currentFileDir, verbose);
+          budgetItems[i] = { source: action.original.slice(1), kind: 'git', content: resolvedContent };
         } else {
           // action.type === 'url'
           parsed = { type: 'url', full: action.original, url: action.url, index: action.index };
-          resolvedContent = await processUrlImport(action.url, verbose);
+          resolvedContent = await processUrlImport(action.url, verbose, { ...ctx, _source: action.original });
           if (tracker) tracker.push(action.url);
+          budgetItems[i] = { source: action.url, kind: 'url', content: resolvedContent };
+        }
+
+        if (action.options) {
+          parsed.options = action.options;
+          resolvedContent = applyImportOptions(parsed, resolvedContent);
+          const item = budgetItems[i]!;
+          item.content = resolvedContent;
+          // Glob members no longer add up to a capped or encoded whole, so trim it as one item
+          const { maxLines, maxTokens, base64 } = action.options;
+          if (maxLines !== undefined || maxTokens !== undefined || base64) item.members = undefined;
         }
 
         return { import: parsed, content: resolvedContent };
@@ -1549,6 +2037,18 @@ export async function expandContentImports(
     })
   );
 
+  if (budget) {
+    // Tokens outside of imports are fixed; only import content can be trimmed
+    const count = budget.count ?? createTokenCounter();
+    const fixedTokens = await count(injectResolvedImports(content, resolved.map(r => ({ ...r, content: "" }))));
+    const { contents, report } = await fitToBudget(budgetItems, fixedTokens, budget.policy, formatFilesAsXml, count);
+    budget.report = report;
+    if (report.trims.length > 0 || !report.fits) {
+      console.error(formatBudgetSummary(report));
+    }
+    return injectResolvedImports(content, resolved.map((r, i) => ({ ...r, content: contents[i]! })));
+  }
+
   return injectResolvedImports(content, resolved);
 }
 
@@ -1575,6 +2075,7 @@ export async function expandCommandImports(
   if (cmdActions.length === 0) return content;
 
   const semaphore = new Semaphore(concurrencyLimit);
+  const pipes = new CodeFencePipes(cmdActions.filter((a) => a.type === 'executable_code_fence'));
   const useDashboard = cmdActions.length > 0 && process.stderr.isTTY && !verbose;
   const dashboard = useDashboard ? new ParallelDashboard() : null;
 
@@ -1583,20 +2084,22 @@ export async function expandCommandImports(
   try {
     const resolved = await Promise.all(
       cmdActions.map(async (action): Promise<ResolvedImportResult> => {
+        // Fences reading another fence's output wait for it outside the semaphore
+        const stdin = action.type === 'executable_code_fence' ? await pipes.input(action) : undefined;
         return semaphore.run(async () => {
           let resolvedContent: string;
           let parsed: ParsedImport;
 
           if (action.type === 'command') {
-            parsed = { type: 'command', full: action.original, command: action.command, index: action.index };
+            parsed = { type: 'command', full: action.original, command: action.command, options: action.options, index: action.index };
             const cmdId = Math.random().toString(36).substring(7);
             if (dashboard) dashboard.register(cmdId, action.command);
 
             try {
               resolvedContent = await processCommandInline(
-                action.command, currentFileDir, verbose, ctx,
+                action.command, currentFileDir, verbose, { ...ctx, _source: action.original },
                 (chunk) => { if (dashboard) dashboard.update(cmdId, chunk); },
-                useDashboard
+                useDashboard, action.cacheTtlMs
               );
             } finally {
               if (dashboard) dashboard.finish(cmdId);
@@ -1608,13 +2111,14 @@ export async function expandCommandImports(
             if (dashboard) dashboard.register(fenceId, `Code (${action.language})`);
 
             try {
-              resolvedContent = await processExecutableCodeFence(action, currentFileDir, verbose, ctx);
+              resolvedContent = await pipes.run(action, () =>
+                processExecutableCodeFence(action, currentFileDir, verbose, ctx, stdin));
             } finally {
               if (dashboard) dashboard.finish(fenceId);
             }
           }
 
-          return { import: parsed, content: resolvedContent };
+          return { import: parsed, content: applyImportOptions(parsed, resolvedContent) };
         });
       })
     );
@@ -6,12 +6,14 @@
  */
 
 import type { ResolvedImport } from '../../core/types';
+import { getImportOptions, presentImportContent } from './options';
 
 /**
  * Inject resolved imports back into the original content
  *
  * This is a pure function that replaces import markers with their resolved content.
  * It processes imports in reverse order to preserve string indices.
+ * Imports with `fence` or `label` options are wrapped as they are injected.
  *
  * @param original - The original content with import markers
  * @param resolved - Array of resolved imports with their content
@@ -31,7 +33,8 @@ export function injectImports(original: string, resolved: ResolvedImport[]): str
   for (const { action, content } of sortedResolved) {
     const before = result.slice(0, action.index);
     const after = result.slice(action.index + action.original.length);
-    result = before + content + after;
+    const { options, source } = getImportOptions(action);
+    result = before + presentImportContent(content, options, source) + after;
   }
 
   return result;
@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, rm, writeFile, mkdir } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import {
+  parseImportOptions,
+  splitImportOptions,
+  stripComments,
+  transformImportContent,
+  presentImportContent,
+} from "./options";
+import { expandContentImports, expandCommandImports, injectImports } from "./index";
+import { resolveImports } from "./resolver";
+import { parseImports } from "./parser";
+
+const source = [
+  "#!/usr/bin/env bun",
+  "// Greeting helpers",
+  "import { x } from \"./x\"; // trailing",
+  "/*",
+  " * Block comment",
+  " */",
+  "export const url = \"https://example.com\"; // keep the string",
+  "",
+  "export function greet(name: string) {",
+  "  return `hi // ${name}`;",
+  "}",
+].join("\n");
+
+describe("parseImportOptions", () => {
+  it("parses key=value pairs, key: value pairs and flags", () => {
+    expect(parseImportOptions("lines=10-50,strip=comments,fence=ts,max_tokens=2000")).toEqual({
+      options: { strip: "comments", fence: "ts", maxTokens: 2000 },
+      lines: { start: 10, end: 50 },
+    });
+    expect(parseImportOptions("cache: 10m, base64, fence, label=\"A, B\"")).toEqual({
+      options: { base64: true, fence: true, label: "A, B" },
+      cacheTtlMs: 600_000,
+    });
+  });
+
+  it("rejects unknown keys and invalid values", () => {
+    expect(parseImportOptions("ts,tsx")).toBeNull();
+    expect(parseImportOptions("lines=10")).toBeNull();
+    expect(parseImportOptions("max_tokens=0")).toBeNull();
+    expect(parseImportOptions("strip=whitespace")).toBeNull();
+    expect(parseImportOptions("")).toBeNull();
+  });
+});
+
+describe("splitImportOptions", () => {
+  it("splits a trailing options block off a spec", () => {
+    expect(splitImportOptions("./a.ts{symbol=Foo}")).toEqual({ spec: "./a.ts", parsed: { options: {}, symbol: "Foo" } });
+    expect(splitImportOptions("./src/*.{ts,js}")).toEqual({ spec: "./src/*.{ts,js}" });
+    expect(splitImportOptions("./a.ts")).toEqual({ spec: "./a.ts" });
+  });
+});
+
+describe("stripComments", () => {
+  it("removes line and block comments but keeps strings and the shebang", () => {
+    expect(stripComments(source, "greet.ts")).toBe([
+      "#!/usr/bin/env bun",
+      "import { x } from \"./x\";",
+      "export const url = \"https://example.com\";",
+      "",
+      "export function greet(name: string) {",
+      "  return `hi // ${name}`;",
+      "}",
+    ].join("\n"));
+  });
+
+  it("uses the comment syntax of the file type", () => {
+    expect(stripComments("# setup\nx = '#1'  # note\n", "a.py")).toBe("x = '#1'\n");
+    expect(stripComments("<!-- draft -->\n# Title\n", "README.md")).toBe("# Title\n");
+    expect(stripComments("// kept\n", "notes.txt")).toBe("// kept\n");
+  });
+});
+
+describe("transformImportContent / presentImportContent", () => {
+  it("caps lines and tokens and encodes", () => {
+    expect(transformImportContent("a\nb\nc", { maxLines: 2 }, "x.txt")).toBe("a\nb\n[... 1 more lines omitted by max_lines]");
+    expect(transformImportContent("line one\n".repeat(50), { maxTokens: 10 }, "x.txt")).toContain("truncated by max_tokens");
+    expect(transformImportContent("hi", { base64: true }, "x.txt")).toBe("aGk=");
+  });
+
+  it("fences with the inferred language and labels", () => {
+    expect(presentImportContent("const a = 1;\n", { fence: true }, "./src/a.ts")).toBe("```ts\nconst a = 1;\n```");
+    expect(presentImportContent("x ``` y", { fence: "md", label: "Doc" }, "a")).toBe(
+      "<section label=\"Doc\">\n````md\nx ``` y\n````\n</section>"
+    );
+  });
+});
+
+describe("import options in the pipeline", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "import-options-test-"));
+    await mkdir(join(dir, "src"));
+    await writeFile(join(dir, "src", "greet.ts"), source);
+    await writeFile(join(dir, "src", "other.ts"), "// other\nexport const other = 1;\n");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("applies options to file, symbol and glob imports", async () => {
+    const result = await expandContentImports(
+      "@./src/greet.ts{lines=8-11,fence}\n@./src/greet.ts{symbol=greet,label=Greet}\n@./src/*.ts{strip=comments}",
+      dir
+    );
+    expect(result).toContain("```ts\n\nexport function greet(name: string) {\n  return `hi // ${name}`;\n}\n```");
+    expect(result).toContain("<section label=\"Greet\">\nexport function greet");
+    expect(result).toContain("<other path=\"other.ts\">\nexport const other = 1;\n");
+    expect(result).not.toContain("// Greeting helpers");
+  });
+
+  it("applies options to command output", async () => {
+    const result = await expandCommandImports("Out: !`printf 'a\\nb\\nc'`{max_lines=1,fence=text}", dir);
+    expect(result).toBe("Out: ```text\na\n[... 2 more lines omitted by max_lines]\n```");
+  });
+
+  it("is honoured by the resolver and injector", async () => {
+    const content = "@./src/other.ts{strip=comments,fence}";
+    const env = {
+      cwd: dir,
+      readFile: async () => "// other\nexport const other = 1;\n",
+      fileExists: async () => true,
+      fileSize: async () => 0,
+      isBinaryFile: async () => false,
+      toCanonicalPath: (p: string) => p,
+      expandGlob: async () => [],
+      fetchUrl: async () => ({ content: "", contentType: null }),
+      execCommand: async () => "",
+      verbose: false,
+      log: () => {},
+    };
+    const resolved = await resolveImports(parseImports(content), env);
+    expect(injectImports(content, resolved)).toBe("```ts\nexport const other = 1;\n```");
+  });
+});
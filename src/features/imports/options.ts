@@ -0,0 +1,301 @@
+/**
+ * Per-import options: `@./file.ts{lines=10-50,strip=comments,fence=ts,max_tokens=2000}`
+ *
+ * An options block is a trailing `{...}` of `key=value` (or `key: value`)
+ * pairs and bare flags. Only blocks made entirely of known keys count, so glob
+ * braces like `@./src/*.{ts,tsx}` keep working. `lines` and `symbol` are the
+ * `:10-50` and `#Symbol` suffixes spelled as options; they select what is read
+ * and map onto the action's `lineRange` / symbol import, as `cache` maps onto
+ * a command's `cacheTtlMs` (see ./cache). `rows` caps the rows of each table
+ * extracted from a document (see ./documents).
+ *
+ * The rest shape the resolved content:
+ * - the resolver applies `strip`, `max_lines`, `max_tokens` and `base64`
+ * - the injector applies `fence` and `label`
+ */
+
+import { extname, basename } from "path";
+import type { ImportAction, ImportOptions } from "./types";
+import { parseCacheDuration } from "./cache";
+import { truncateToTokens } from "../budget";
+
+/** Options block parsed from an import, with the selectors that map onto suffixes */
+export interface ParsedImportOptions {
+  options: ImportOptions;
+  /** `lines=10-50` (same as the `:10-50` suffix) */
+  lines?: { start: number; end: number };
+  /** `symbol=Foo.bar` (same as the `#Foo.bar` suffix) */
+  symbol?: string;
+  /** `cache=10m` in milliseconds (command inlines only) */
+  cacheTtlMs?: number;
+}
+
+const OPTION_KEYS = new Set([
+  "lines", "symbol", "max_lines", "max_tokens", "strip", "fence", "base64", "label", "cache", "rows",
+]);
+
+const SYMBOL_PATTERN = /^[a-zA-Z_$][a-zA-Z0-9_$]*(?:\.[a-zA-Z_$][a-zA-Z0-9_$]*)*$/;
+
+/**
+ * Split an options block body into key/value pairs
+ * Values may be double-quoted to contain commas or braces.
+ */
+function splitOptionPairs(body: string): Array<[string, string | undefined]> | null {
+  const pairs: Array<[string, string | undefined]> = [];
+  let i = 0;
+
+  while (i < body.length) {
+    const key = body.slice(i).match(/^\s*([a-z_0-9]+)\s*/);
+    if (!key) return null;
+    i += key[0].length;
+
+    let value: string | undefined;
+    if (body[i] === "=" || body[i] === ":") {
+      i++;
+      while (body[i] === " ") i++;
+      if (body[i] === '"') {
+        const end = body.indexOf('"', i + 1);
+        if (end === -1) return null;
+        value = body.slice(i + 1, end);
+        i = end + 1;
+      } else {
+        const end = body.indexOf(",", i);
+        value = body.slice(i, end === -1 ? body.length : end).trim();
+        i = end === -1 ? body.length : end;
+      }
+      while (body[i] === " ") i++;
+    }
+
+    pairs.push([key[1]!, value]);
+    if (i < body.length) {
+      if (body[i] !== ",") return null;
+      i++;
+    }
+  }
+
+  return pairs;
+}
+
+/**
+ * Parse the body of an options block (without braces)
+ * Returns null if it is not a valid options block.
+ */
+export function parseImportOptions(body: string): ParsedImportOptions | null {
+  const pairs = splitOptionPairs(body);
+  if (!pairs || pairs.length === 0) return null;
+
+  const parsed: ParsedImportOptions = { options: {} };
+  const { options } = parsed;
+  const positive = (value: string | undefined) => (value && /^\d+$/.test(value) && Number(value) > 0 ? Number(value) : undefined);
+
+  for (const [key, value] of pairs) {
+    if (!OPTION_KEYS.has(key)) return null;
+
+    switch (key) {
+      case "lines": {
+        const range = value?.match(/^(\d+)-(\d+)$/);
+        if (!range) return null;
+        parsed.lines = { start: Number(range[1]), end: Number(range[2]) };
+        break;
+      }
+      case "symbol":
+        if (!value || !SYMBOL_PATTERN.test(value)) return null;
+        parsed.symbol = value;
+        break;
+      case "max_lines":
+        options.maxLines = positive(value);
+        if (options.maxLines === undefined) return null;
+        break;
+      case "max_tokens":
+        options.maxTokens = positive(value);
+        if (options.maxTokens === undefined) return null;
+        break;
+      case "strip":
+        if (value !== "comments") return null;
+        options.strip = "comments";
+        break;
+      case "fence":
+        if (value !== undefined && !/^[\w+#.-]+$/.test(value)) return null;
+        options.fence = value ?? true;
+        break;
+      case "base64":
+        if (value !== undefined && value !== "true") return null;
+        options.base64 = true;
+        break;
+      case "label":
+        if (!value) return null;
+        options.label = value;
+        break;
+      case "rows":
+        options.maxRows = positive(value);
+        if (options.maxRows === undefined) return null;
+        break;
+      case "cache":
+        parsed.cacheTtlMs = value ? parseCacheDuration(value) : undefined;
+        if (parsed.cacheTtlMs === undefined) return null;
+        break;
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Split a trailing options block off an import spec
+ * `./a.ts{fence}` -> { spec: "./a.ts", parsed: { options: { fence: true } } }
+ * Specs without a valid block are returned unchanged.
+ */
+export function splitImportOptions(spec: string): { spec: string; parsed?: ParsedImportOptions } {
+  if (!spec.endsWith("}")) return { spec };
+
+  // Find the opening brace of the trailing block, skipping quoted values
+  let inQuotes = false;
+  for (let i = spec.length - 2; i >= 0; i--) {
+    const char = spec[i];
+    if (char === '"') inQuotes = !inQuotes;
+    if (char === "{" && !inQuotes) {
+      const parsed = parseImportOptions(spec.slice(i + 1, -1));
+      if (!parsed || i === 0) return { spec };
+      return { spec: spec.slice(0, i), parsed };
+    }
+  }
+  return { spec };
+}
+
+/** Comment syntax by file extension */
+const COMMENT_SYNTAX: Record<string, { line?: string; block?: [string, string] }> = {};
+for (const ext of [".ts", ".tsx", ".js", ".jsx", ".mjs", ".cjs", ".go", ".rs", ".java", ".c", ".h", ".cc", ".cpp", ".hpp", ".cs", ".swift", ".kt", ".scala", ".php"]) {
+  COMMENT_SYNTAX[ext] = { line: "//", block: ["/*", "*/"] };
+}
+for (const ext of [".css", ".scss", ".less"]) {
+  COMMENT_SYNTAX[ext] = { block: ["/*", "*/"] };
+}
+for (const ext of [".py", ".sh", ".bash", ".zsh", ".rb", ".pl", ".r", ".yaml", ".yml", ".toml"]) {
+  COMMENT_SYNTAX[ext] = { line: "#" };
+}
+for (const ext of [".md", ".html", ".htm", ".xml", ".svg", ".vue"]) {
+  COMMENT_SYNTAX[ext] = { block: ["<!--", "-->"] };
+}
+
+/** Marks where a comment was removed, so comment-only lines can be dropped */
+const REMOVED = "\u0000";
+
+/**
+ * Remove comments from source, keeping string literals and shebangs
+ * Lines left empty by a removed comment are dropped. Unknown file types are returned unchanged.
+ */
+export function stripComments(content: string, source: string): string {
+  const syntax = COMMENT_SYNTAX[extname(source).toLowerCase()];
+  if (!syntax) return content;
+
+  const { line, block } = syntax;
+  const quotes = block?.[0] === "<!--" ? "" : line === "#" ? "\"'" : "\"'`";
+  let out = "";
+  let i = 0;
+
+  // Keep a leading shebang
+  if (content.startsWith("#!")) {
+    const end = content.indexOf("\n");
+    out = end === -1 ? content : content.slice(0, end);
+    i = out.length;
+  }
+
+  while (i < content.length) {
+    const char = content[i]!;
+
+    if (quotes.includes(char)) {
+      // Copy the string literal through its closing quote
+      let j = i + 1;
+      while (j < content.length && content[j] !== char && !(content[j] === "\n" && char !== "`")) {
+        j += content[j] === "\\" ? 2 : 1;
+      }
+      out += content.slice(i, j + 1);
+      i = j + 1;
+    } else if (line && content.startsWith(line, i)) {
+      const end = content.indexOf("\n", i);
+      i = end === -1 ? content.length : end;
+      out += REMOVED;
+    } else if (block && content.startsWith(block[0], i)) {
+      const end = content.indexOf(block[1], i + block[0].length);
+      i = end === -1 ? content.length : end + block[1].length;
+      out += REMOVED;
+    } else {
+      out += char;
+      i++;
+    }
+  }
+
+  // Drop lines that only held a comment, and whitespace left before removed comments
+  return out
+    .split("\n")
+    .filter((l) => !l.includes(REMOVED) || l.replaceAll(REMOVED, "").trim() !== "")
+    .map((l) => (l.includes(REMOVED) ? l.replaceAll(REMOVED, "").trimEnd() : l))
+    .join("\n");
+}
+
+/**
+ * Resolver-side options: strip comments, cap lines and tokens, encode
+ */
+export function transformImportContent(content: string, options: ImportOptions | undefined, source: string): string {
+  if (!options) return content;
+  let result = content;
+
+  if (options.strip === "comments") {
+    result = stripComments(result, source);
+  }
+  if (options.maxLines !== undefined) {
+    const lines = result.split("\n");
+    if (lines.length > options.maxLines) {
+      result = `${lines.slice(0, options.maxLines).join("\n")}\n[... ${lines.length - options.maxLines} more lines omitted by max_lines]`;
+    }
+  }
+  if (options.maxTokens !== undefined) {
+    result = truncateToTokens(result, options.maxTokens, "max_tokens");
+  }
+  if (options.base64) {
+    result = Buffer.from(result, "utf-8").toString("base64");
+  }
+  return result;
+}
+
+/**
+ * Injector-side options: wrap in a code fence and/or a labelled section
+ */
+export function presentImportContent(content: string, options: ImportOptions | undefined, source: string): string {
+  if (!options) return content;
+  let result = content;
+
+  if (options.fence !== undefined) {
+    const language = options.fence === true ? extname(basename(source)).slice(1) : options.fence;
+    // Use a longer fence than any backtick run inside the content
+    const longestRun = Math.max(2, ...(result.match(/`+/g) ?? []).map((run) => run.length));
+    const fence = "`".repeat(longestRun + 1);
+    result = `${fence}${language}\n${result.replace(/\n$/, "")}\n${fence}`;
+  }
+  if (options.label !== undefined) {
+    result = `<section label="${options.label.replace(/"/g, "&quot;")}">\n${result}\n</section>`;
+  }
+  return result;
+}
+
+/**
+ * Options and source path of an action, for the transforms above
+ * The source only drives comment syntax and fence language, so non-file imports may be empty.
+ */
+export function getImportOptions(action: ImportAction): { options?: ImportOptions; source: string } {
+  switch (action.type) {
+    case "file":
+    case "symbol":
+      return { options: action.options, source: action.path };
+    case "glob":
+      return { options: action.options, source: action.pattern };
+    case "url":
+      return { options: action.options, source: action.url };
+    case "command":
+      return { options: action.options, source: "" };
+    case "git":
+      return { options: action.options, source: action.path ?? "" };
+    default:
+      return { source: "" };
+  }
+}
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, rm, writeFile, mkdir } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import { outlineFile, outlineFiles, rankByReferences } from "./outline";
+import { expandContentImports } from "./index";
+
+const service = [
+  "import { db } from './db';",
+  "",
+  "/** Handles user accounts */",
+  "export class UserService {",
+  "  private cache = new Map<string, string>();",
+  "",
+  "  /** Logs a user in */",
+  "  async login(name: string): Promise<boolean> {",
+  "    return db.check(name);",
+  "  }",
+  "}",
+  "",
+  "function helper(): void {",
+  "  console.log('internal');",
+  "}",
+  "",
+  "export type Role = 'admin' | 'user';",
+].join("\n");
+
+describe("outlineFile", () => {
+  it("keeps exported signatures and doc comments, dropping bodies and private members", async () => {
+    expect(await outlineFile(service, "service.ts")).toBe([
+      "/** Handles user accounts */",
+      "export class UserService",
+      "  /** Logs a user in */",
+      "  async login(name: string): Promise<boolean>",
+      "export type Role = 'admin' | 'user';",
+    ].join("\n"));
+  });
+
+  it("cuts arrow functions at =>", async () => {
+    const source = [
+      "export const double = (x: number): number => x * 2;",
+      "export const load = async <T>(",
+      "  id: string,",
+      "): Promise<T> => {",
+      "  return fetch(id) as T;",
+      "};",
+      "export const handlers = {",
+      "  onSave: (doc: string) => save(doc),",
+      "};",
+    ].join("\n");
+    expect(await outlineFile(source, "util.ts")).toBe([
+      "export const double = (x: number): number =>",
+      "export const load = async <T>(",
+      "  id: string,",
+      "): Promise<T> =>",
+      "export const handlers =",
+      "  onSave: (doc: string) =>",
+    ].join("\n"));
+  });
+
+  it("shows everything in files without exports", async () => {
+    const outline = await outlineFile("function main() {\n  run();\n}", "script.js");
+    expect(outline).toBe("function main()");
+  });
+
+  it("outlines Python and Go", async () => {
+    const python = "def _private():\n    pass\n\nclass Client:\n    def connect(self,\n                host):\n        pass\n";
+    expect(await outlineFile(python, "client.py")).toBe("class Client:\n    def connect(self,\n                host):");
+
+    const go = "package x\n\nfunc helper() {\n}\n\n// Start runs it\nfunc Start(addr string) error {\n\treturn nil\n}\n";
+    expect(await outlineFile(go, "main.go")).toBe("// Start runs it\nfunc Start(addr string) error");
+  });
+
+  it("returns undefined for files without a parser", async () => {
+    expect(await outlineFile("# Title", "README.md")).toBeUndefined();
+  });
+});
+
+describe("ranking", () => {
+  it("counts references from other files", () => {
+    const scores = rankByReferences([
+      { path: "core.ts", content: "", names: ["Engine"] },
+      { path: "a.ts", content: "new Engine()", names: ["Alpha"] },
+      { path: "b.ts", content: "Engine.start(); Alpha()", names: ["Beta"] },
+    ]);
+    expect(Object.fromEntries(scores)).toEqual({ "core.ts": 2, "a.ts": 1, "b.ts": 0 });
+  });
+
+  it("orders outlined files by score and drops unsupported files", async () => {
+    const { files, skipped } = await outlineFiles([
+      { path: "a.ts", content: "export function alpha() {}" },
+      { path: "notes.md", content: "# Notes" },
+      { path: "z.ts", content: "export function zulu() {}\nalpha();" },
+    ], { ranked: true });
+
+    expect(files.map((f) => f.path)).toEqual(["a.ts", "z.ts"]);
+    expect(skipped).toEqual(["notes.md"]);
+  });
+});
+
+describe("outline imports", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "outline-test-"));
+    await mkdir(join(dir, "src"));
+    await writeFile(join(dir, "src", "service.ts"), service);
+    await writeFile(join(dir, "src", "util.ts"), "export const VERSION = '1.0';\n");
+    await writeFile(join(dir, "src", "notes.md"), "# Notes");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("expands ?outline globs to per-file outlines", async () => {
+    const result = await expandContentImports("Map:\n@./src/*?outline", dir);
+
+    expect(result).toContain('<service path="service.ts">\n/** Handles user accounts */\nexport class UserService');
+    expect(result).toContain("export const VERSION = '1.0';");
+    expect(result).not.toContain("db.check");
+    expect(result).not.toContain("# Notes");
+  });
+
+  it("outlines a single file", async () => {
+    const result = await expandContentImports("@./src/service.ts?outline", dir);
+    expect(result).toContain("async login(name: string): Promise<boolean>");
+    expect(result).not.toContain("helper");
+  });
+
+  it("reports missing single files", async () => {
+    await expect(expandContentImports("@./src/missing.ts?outline", dir)).rejects.toThrow("Import not found");
+  });
+});
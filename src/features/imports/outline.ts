@@ -0,0 +1,175 @@
+/**
+ * Outline imports: `@./src/**\/*.ts?outline`
+ *
+ * Replaces each matched file with a "repo map" of its public surface:
+ * exported declarations (signatures only, bodies dropped), their members,
+ * and the doc comments above them. Files are parsed with the symbol
+ * extractors from ./symbols; files without an extractor are left out.
+ *
+ * `?outline=ranked` orders files by how often their exported names are
+ * referenced from the other matched files, so the most central modules
+ * come first.
+ */
+
+import { getSymbolExtractor, hasSymbolExtractor, type SymbolNode } from "./symbols";
+
+/** Outline mode parsed from an import suffix */
+export interface OutlineOptions {
+  /** Order files by references from the other matched files */
+  ranked: boolean;
+}
+
+/** Declarations whose header runs longer than this are cut to their first line */
+const MAX_HEADER_LINES = 8;
+
+/**
+ * An arrow function initializer up to its `=>` (`= async <T>(a: T): R =>`,
+ * `= x =>`, or `key: (a) =>` in object literals); the header is cut there
+ */
+const ARROW_FUNCTION = /^(?:[^=]*=|[^:=]*:)\s*(?:async\s+)?(?:<[^>]*>\s*)?(?:\([^)]*\)|[\w$]+)\s*(?::[^=]*?)?=>/;
+
+/** Shorter names are too common to count as references when ranking */
+const MIN_RANKED_NAME_LENGTH = 3;
+
+/**
+ * Header of a declaration: from its first line up to (not including) its body
+ * Returns the header lines and the last source line they cover.
+ */
+function declarationHeader(lines: string[], node: SymbolNode): { header: string[]; lastLine: number } {
+  const first = node.declarationLine ?? node.startLine;
+
+  // Arrow functions (`const f = (a) => a * 2`): keep the signature only
+  if (node.kind === "variable" || node.kind === "property") {
+    const arrow = lines.slice(first, node.endLine + 1).join("\n").match(ARROW_FUNCTION);
+    if (arrow) {
+      const header = arrow[0].split("\n").map((line) => line.trimEnd());
+      const lastLine = first + header.length - 1;
+      return header.length > MAX_HEADER_LINES ? { header: [`${header[0]} ...`], lastLine } : { header, lastLine };
+    }
+  }
+
+  const isPythonBlock = /^\s*(?:async\s+def|def|class)\b/.test(lines[first]!);
+  const header: string[] = [];
+  let i = first;
+
+  for (; i <= node.endLine; i++) {
+    const code = lines[i]!.replace(/\s+(?:\/\/|#).*$/, "").trimEnd();
+
+    // Python blocks end their header with `:`
+    if (isPythonBlock && code.endsWith(":")) {
+      header.push(code);
+      break;
+    }
+    // Brace blocks: keep everything before the body's opening brace
+    // (one-line declarations are kept whole)
+    const brace = code.lastIndexOf("{");
+    if (brace !== -1 && i < node.endLine) {
+      header.push(code.slice(0, brace).trimEnd());
+      break;
+    }
+    header.push(lines[i]!.trimEnd());
+  }
+
+  const lastLine = Math.min(i, node.endLine);
+  if (header.length > MAX_HEADER_LINES) {
+    return { header: [`${header[0]} ...`], lastLine };
+  }
+  return { header, lastLine };
+}
+
+/**
+ * Render the outline of a symbol tree
+ *
+ * Top-level declarations are limited to exported ones when the file exports
+ * anything (scripts without exports show everything); private members are
+ * always left out.
+ */
+export function renderOutline(content: string, nodes: SymbolNode[]): string {
+  const lines = content.split("\n");
+  const output: string[] = [];
+
+  const render = (siblings: SymbolNode[], topLevel: boolean, after: number) => {
+    const anyExported = siblings.some((n) => n.exported === true);
+    for (const node of siblings) {
+      if (node.exported === false && (!topLevel || anyExported)) continue;
+      // Members written on the parent's header line are already shown
+      if (node.startLine <= after) continue;
+
+      // Leading doc comments, decorators and attributes
+      const first = node.declarationLine ?? node.startLine;
+      output.push(...lines.slice(node.startLine, first).map((l) => l.trimEnd()));
+
+      const { header, lastLine } = declarationHeader(lines, node);
+      output.push(...header);
+      render(node.children, false, lastLine);
+    }
+  };
+
+  render(nodes, true, -1);
+  return output.join("\n");
+}
+
+/**
+ * Build the outline for one file
+ * Returns undefined for file types without a symbol extractor.
+ */
+export async function outlineFile(content: string, filePath: string): Promise<string | undefined> {
+  if (!hasSymbolExtractor(filePath)) return undefined;
+  const nodes = await getSymbolExtractor(filePath).parse(content, filePath);
+  return renderOutline(content, nodes);
+}
+
+/**
+ * Count, per file, how many of the other files reference its exported names
+ */
+export function rankByReferences(files: Array<{ path: string; content: string; names: string[] }>): Map<string, number> {
+  const scores = new Map<string, number>();
+
+  for (const file of files) {
+    let score = 0;
+    for (const name of new Set(file.names)) {
+      if (name.length < MIN_RANKED_NAME_LENGTH) continue;
+      const pattern = new RegExp(`\\b${name.replace(/\$/g, "\\$")}\\b`);
+      score += files.filter((other) => other !== file && pattern.test(other.content)).length;
+    }
+    scores.set(file.path, score);
+  }
+
+  return scores;
+}
+
+/**
+ * Replace matched files with their outlines
+ *
+ * Files without a symbol extractor are dropped. With `ranked`, files are
+ * sorted by reference count (descending, then by path).
+ */
+export async function outlineFiles<T extends { path: string; content: string }>(
+  files: T[],
+  options: OutlineOptions
+): Promise<{ files: T[]; skipped: string[] }> {
+  const parsed: Array<{ path: string; content: string; names: string[]; outlined: T }> = [];
+  const skipped: string[] = [];
+
+  for (const file of files) {
+    if (!hasSymbolExtractor(file.path)) {
+      skipped.push(file.path);
+      continue;
+    }
+    const nodes = await getSymbolExtractor(file.path).parse(file.content, file.path);
+    parsed.push({
+      path: file.path,
+      content: file.content,
+      names: nodes.filter((n) => n.exported !== false).map((n) => n.name),
+      outlined: { ...file, content: renderOutline(file.content, nodes) },
+    });
+  }
+
+  if (options.ranked) {
+    // References are counted in the full sources, not the outlines
+    const scores = rankByReferences(parsed);
+    parsed.sort((a, b) => scores.get(b.path)! - scores.get(a.path)! || a.path.localeCompare(b.path));
+  }
+
+  return { files: parsed.map(({ outlined }) => outlined), skipped };
+}
@@ -12,6 +12,8 @@ import {
   isGlobPattern,
   parseLineRange,
   parseSymbolExtraction,
+  parseOutlineImport,
+  parseFenceInfo,
   findSafeRanges,
 } from './parser';
 
@@ -343,6 +345,55 @@ describe('parseImports', () => {
     });
   });
 
+  describe('import options', () => {
+    it('maps lines and symbol options onto the suffix forms', () => {
+      const [lines, symbol] = parseImports('@./file.ts{lines=10-50} @./file.ts{symbol=Foo.bar}');
+      expect(lines).toEqual(parseImports('@./file.ts:10-50').map((a) => ({ ...a, original: '@./file.ts{lines=10-50}' }))[0]!);
+      expect(symbol).toMatchObject({ type: 'symbol', path: './file.ts', symbol: 'Foo.bar', original: '@./file.ts{symbol=Foo.bar}' });
+      expect(symbol).not.toHaveProperty('options');
+    });
+
+    it('attaches typed options to file, glob, URL and git imports', () => {
+      const content = '@./a.ts:1-5{strip=comments,fence=ts,max_tokens=2000} @./src/*.ts{max_lines=20} ' +
+        '@https://example.com/api.md{label=API} @git:diff:main{fence=diff}';
+      const actions = parseImports(content);
+      expect(actions.map((a) => [a.type, (a as any).options])).toEqual([
+        ['file', { strip: 'comments', fence: 'ts', maxTokens: 2000 }],
+        ['glob', { maxLines: 20 }],
+        ['url', { label: 'API' }],
+        ['git', { fence: 'diff' }],
+      ]);
+      expect(actions[0]).toMatchObject({ path: './a.ts', lineRange: { start: 1, end: 5 } });
+      expect(actions[2]).toMatchObject({ url: 'https://example.com/api.md' });
+      expect(actions[3]).toMatchObject({ operation: 'diff', ref: 'main' });
+    });
+
+    it('extends the match over quoted values with spaces', () => {
+      const [action] = parseImports('See @./types.ts{fence,label="API types"} here');
+      expect(action).toMatchObject({
+        type: 'file',
+        path: './types.ts',
+        options: { fence: true, label: 'API types' },
+        original: '@./types.ts{fence,label="API types"}',
+      });
+    });
+
+    it('parses an options block after a command inline', () => {
+      const [action] = parseImports('!`git log -5`{cache: 10m, max_lines=3}');
+      expect(action).toMatchObject({ command: 'git log -5', cacheTtlMs: 600_000, options: { maxLines: 3 } });
+    });
+
+    it('leaves glob braces and unknown keys alone', () => {
+      expect(parseImports('@./src/*.{ts,tsx}')[0]).toEqual({
+        type: 'glob',
+        pattern: './src/*.{ts,tsx}',
+        original: '@./src/*.{ts,tsx}',
+        index: 0,
+      });
+      expect(parseImports('@./a.ts{color=red}')[0]).toMatchObject({ type: 'file', path: './a.ts{color=red}' });
+    });
+  });
+
   describe('edge cases', () => {
     it('returns empty array for content with no imports', () => {
       const actions = parseImports('Just regular text');
@@ -647,6 +698,24 @@ describe('parseSymbolExtraction', () => {
   });
 });
 
+describe('parseOutlineImport', () => {
+  it('parses outline and ranked outline suffixes', () => {
+    expect(parseOutlineImport('./src/**/*.ts?outline')).toEqual({
+      path: './src/**/*.ts',
+      outline: { ranked: false },
+    });
+    expect(parseOutlineImport('./src/app.ts?outline=ranked')).toEqual({
+      path: './src/app.ts',
+      outline: { ranked: true },
+    });
+  });
+
+  it('leaves other globs alone', () => {
+    expect(parseOutlineImport('./src/?.ts')).toEqual({ path: './src/?.ts' });
+    expect(parseOutlineImport('./src/a.ts?outline=full')).toEqual({ path: './src/a.ts?outline=full' });
+  });
+});
+
 describe('executable code fence imports', () => {
   it('parses executable code fence with shebang', () => {
     const content = '```ts\n#!/usr/bin/env bun\nconsole.log("hello")\n```';
@@ -728,6 +797,17 @@ describe('executable code fence imports', () => {
     expect(actions[1]!.type).toBe('executable_code_fence');
   });
 
+  it('parses fences marked run without a shebang', () => {
+    const content = '```python run timeout=5 cwd=repo\nprint("hello")\n```';
+    const actions = parseImports(content);
+    expect(actions).toHaveLength(1);
+    const action = actions[0] as any;
+    expect(action.shebang).toBeUndefined();
+    expect(action.language).toBe('python');
+    expect(action.code).toBe('print("hello")');
+    expect(action.attributes).toEqual({ run: true, timeoutMs: 5000, cwd: 'repo' });
+  });
+
   it('mixes executable fences with file imports', () => {
     const content = '@./config.md\n\n```ts\n#!/usr/bin/env bun\nconsole.log("hello")\n```\n\n@./footer.md';
     const actions = parseImports(content);
@@ -738,6 +818,27 @@ describe('executable code fence imports', () => {
   });
 });
 
+describe('parseFenceInfo', () => {
+  it('reads flags, values and quoted values', () => {
+    expect(parseFenceInfo('sql run id=users db="my data.sqlite" hidden')).toEqual({
+      language: 'sql',
+      attributes: { run: true, id: 'users', db: 'my data.sqlite', hidden: true },
+    });
+    expect(parseFenceInfo('jq run stdin=users').attributes).toEqual({ run: true, stdin: 'users' });
+    expect(parseFenceInfo('sh run pipe runtime=bash').attributes).toEqual({ run: true, pipe: true, runtime: 'bash' });
+  });
+
+  it('accepts timeouts in seconds or with a unit', () => {
+    expect(parseFenceInfo('py run timeout=1.5').attributes.timeoutMs).toBe(1500);
+    expect(parseFenceInfo('py run timeout=2m').attributes.timeoutMs).toBe(120000);
+  });
+
+  it('ignores unknown attributes, invalid values and partial words', () => {
+    expect(parseFenceInfo('ts title=x timeout=soon rerun no-run').attributes).toEqual({});
+    expect(parseFenceInfo('').language).toBe('');
+  });
+});
+
 describe('findSafeRanges', () => {
   it('returns full range for plain text', () => {
     const content = 'plain text content';
@@ -17,8 +17,12 @@ import type {
   UrlImportAction,
   CommandImportAction,
   SymbolImportAction,
+  GitImportAction,
   ExecutableCodeFenceAction,
 } from './imports-types';
+import type { CodeFenceAttributes } from './types';
+import { parseImportOptions, splitImportOptions, type ParsedImportOptions } from './options';
+import { parseCacheDuration } from './cache';
 
 /**
  * Range type for code regions and safe ranges
@@ -150,6 +154,12 @@ const FILE_IMPORT_PATTERN = /@(~?[./][^\s]+)/g;
  */
 const COMMAND_INLINE_PATTERN = /!(`+)([\s\S]+?)\1/g;
 
+/**
+ * Pattern for an options block directly after a command inline
+ * Matches: {cache: 10m}, {max_lines=50,fence=sh}
+ */
+const COMMAND_OPTIONS_PATTERN = /^\{[^}\n]*\}/;
+
 /**
  * Pattern to match @url imports
  * Matches: @https://example.com/path, @http://example.com/path
@@ -159,11 +169,63 @@ const COMMAND_INLINE_PATTERN = /!(`+)([\s\S]+?)\1/g;
 const URL_IMPORT_PATTERN = /@(https?:\/\/[^\s]+)/g;
 
 /**
- * Pattern to match executable code fences
- * Matches: ```lang\n#!shebang\ncode\n```
+ * Pattern to match @git: imports
+ * Matches: @git:diff, @git:diff:staged, @git:HEAD~3:src/a.ts, @git:log:20, @git:blame:src/a.ts:10-20
+ * The spec continues until whitespace or end of line
+ */
+const GIT_IMPORT_PATTERN = /@git:([^\s]+)/g;
+
+/**
+ * Pattern to match code fences that may be executable
+ * Matches: ```lang\n#!shebang\ncode\n``` and ```lang run\ncode\n```
  * Supports variable length fences.
  */
-const EXECUTABLE_FENCE_PATTERN = /(`{3,})(.*?)\n(#![^\n]+)\n([\s\S]*?)\1/g;
+const EXECUTABLE_FENCE_PATTERN = /(`{3,})(.*?)\n(?:(#![^\n]+)\n)?([\s\S]*?)\1/g;
+
+/** One info string attribute: `run`, `key=value` or `key="quoted value"` */
+const FENCE_ATTRIBUTE_PATTERN = /(?:^|\s)([a-z_]+)(?:=(?:"([^"]*)"|(\S+)))?(?=\s|$)/g;
+
+/**
+ * Parse a code fence info string: the language, then attributes
+ * ```` ```python run timeout=5 cwd=repo ```` -> { language: "python", attributes: { run: true, timeoutMs: 5000, cwd: "repo" } }
+ *
+ * `timeout` is in seconds unless it has a unit (`2m`). Unknown attributes and
+ * invalid values are ignored, as other tools use info strings too.
+ */
+export function parseFenceInfo(info: string): { language: string; attributes: CodeFenceAttributes } {
+  const trimmed = info.trim();
+  const language = trimmed.split(/\s+/)[0] ?? '';
+  const attributes: CodeFenceAttributes = {};
+
+  FENCE_ATTRIBUTE_PATTERN.lastIndex = 0;
+  const rest = trimmed.slice(language.length);
+  let match;
+  while ((match = FENCE_ATTRIBUTE_PATTERN.exec(rest)) !== null) {
+    const [, key, quoted, bare] = match;
+    const value = quoted ?? bare;
+    switch (key) {
+      case 'run':
+      case 'pipe':
+      case 'hidden':
+        if (value === undefined) attributes[key] = true;
+        break;
+      case 'timeout': {
+        const timeoutMs = value && /^\d+(\.\d+)?$/.test(value) ? Number(value) * 1000 : value ? parseCacheDuration(value) : undefined;
+        if (timeoutMs) attributes.timeoutMs = timeoutMs;
+        break;
+      }
+      case 'runtime':
+      case 'cwd':
+      case 'id':
+      case 'stdin':
+      case 'db':
+        if (value) attributes[key] = value;
+        break;
+    }
+  }
+
+  return { language, attributes };
+}
 
 /**
  * Check if a path contains glob characters
@@ -187,11 +249,70 @@ export function parseLineRange(path: string): { path: string; start?: number; en
   return { path };
 }
 
+/**
+ * Parse import path for outline mode: @./src/**\/*.ts?outline or ?outline=ranked
+ * Must be checked before isGlobPattern, since "?" is also a glob character.
+ */
+export function parseOutlineImport(path: string): { path: string; outline?: { ranked: boolean } } {
+  const match = path.match(/^(.+)\?outline(?:=(ranked))?$/);
+  if (match && match[1]) {
+    return {
+      path: match[1],
+      outline: { ranked: match[2] === 'ranked' },
+    };
+  }
+  return { path };
+}
+
+/**
+ * Parse the spec of a git import (the part after "@git:")
+ * Returns null when the spec is not a recognized git source.
+ */
+export function parseGitImport(
+  spec: string
+): Omit<GitImportAction, 'type' | 'original' | 'index'> | null {
+  if (spec === 'diff') {
+    return { operation: 'diff' };
+  }
+  if (spec === 'diff:staged') {
+    return { operation: 'diff', staged: true };
+  }
+  if (spec.startsWith('diff:') && spec.length > 'diff:'.length) {
+    return { operation: 'diff', ref: spec.slice('diff:'.length) };
+  }
+
+  const log = spec.match(/^log(?::(\d+))?$/);
+  if (log) {
+    return log[1] ? { operation: 'log', count: parseInt(log[1], 10) } : { operation: 'log' };
+  }
+
+  if (spec.startsWith('blame:')) {
+    const rest = spec.slice('blame:'.length);
+    const range = rest.match(/^(.+):(\d+)-(\d+)$/);
+    if (range && range[1] && range[2] && range[3]) {
+      return {
+        operation: 'blame',
+        path: range[1],
+        lineRange: { start: parseInt(range[2], 10), end: parseInt(range[3], 10) },
+      };
+    }
+    return rest ? { operation: 'blame', path: rest } : null;
+  }
+
+  // <rev>:<path> - the first colon separates the revision from the path
+  const show = spec.match(/^([^:]+):(.+)$/);
+  if (show && show[1] && show[2]) {
+    return { operation: 'show', ref: show[1], path: show[2] };
+  }
+
+  return null;
+}
+
 /**
  * Parse import path for symbol extraction: @./file.ts#SymbolName
  */
 export function parseSymbolExtraction(path: string): { path: string; symbol?: string } {
-  const match = path.match(/^(.+)#([a-zA-Z_$][a-zA-Z0-9_$]*)$/);
+  const match = path.match(/^(.+)#([a-zA-Z_$][a-zA-Z0-9_$]*(?:\.[a-zA-Z_$][a-zA-Z0-9_$]*)*)$/);
   if (match && match[1] && match[2]) {
     return {
       path: match[1],
@@ -201,14 +322,58 @@ export function parseSymbolExtraction(path: string): { path: string; symbol?: st
   return { path };
 }
 
+/**
+ * Extend an import match over a trailing options block that contains spaces
+ * `@./a.ts{label="API types"}` is first matched as `@./a.ts{label="API`.
+ * Advances the pattern's lastIndex when the match is extended.
+ */
+function extendOverOptionsBlock(content: string, match: RegExpExecArray, pattern: RegExp): string {
+  const text = match[0];
+  if (text.lastIndexOf('{') <= text.lastIndexOf('}')) return text;
+
+  const end = match.index + text.length;
+  const close = content.indexOf('}', end);
+  if (close === -1 || content.slice(end, close).includes('\n')) return text;
+
+  const extended = content.slice(match.index, close + 1);
+  if (!splitImportOptions(extended).parsed) return text;
+  pattern.lastIndex = close + 1;
+  return extended;
+}
+
+/**
+ * Options from a block on an import that is not a local file
+ * `lines` and `symbol` only select from local files, so such blocks are not options.
+ */
+function nonFileOptions(parsed: ParsedImportOptions | undefined): ParsedImportOptions | undefined {
+  if (!parsed || parsed.lines || parsed.symbol || parsed.cacheTtlMs !== undefined) return undefined;
+  return parsed;
+}
+
 /**
  * Parse a single file import path into the appropriate action type
+ * A trailing options block is split off first; its `lines` and `symbol`
+ * select the same way as the `:10-50` and `#Symbol` suffixes.
  */
 function parseFileImportPath(
   fullMatch: string,
   path: string,
   index: number
 ): FileImportAction | GlobImportAction | SymbolImportAction {
+  const { spec, parsed } = splitImportOptions(path);
+  if (parsed && parsed.cacheTtlMs === undefined) {
+    let action = parseFileImportPath(fullMatch, spec, index);
+    if (action.type === 'file' && parsed.symbol && !action.lineRange) {
+      action = { type: 'symbol', path: action.path, symbol: parsed.symbol, original: fullMatch, index };
+    } else if (action.type === 'file' && parsed.lines) {
+      action.lineRange = parsed.lines;
+    }
+    if (Object.keys(parsed.options).length > 0) {
+      action.options = parsed.options;
+    }
+    return action;
+  }
+
   // Check for glob pattern first
   if (isGlobPattern(path)) {
     return {
@@ -294,7 +459,8 @@ export function parseImports(content: string): ImportAction[] {
   while ((match = FILE_IMPORT_PATTERN.exec(content)) !== null) {
     // Only include imports that are in safe ranges (outside code blocks)
     if (isInSafeRange(match.index, safeRanges) && match[1]) {
-      const action = parseFileImportPath(match[0], match[1], match.index);
+      const fullMatch = extendOverOptionsBlock(content, match, FILE_IMPORT_PATTERN);
+      const action = parseFileImportPath(fullMatch, fullMatch.slice(1), match.index);
       actions.push(action);
     }
   }
@@ -304,16 +470,40 @@ export function parseImports(content: string): ImportAction[] {
   while ((match = URL_IMPORT_PATTERN.exec(content)) !== null) {
     // Only include imports that are in safe ranges (outside code blocks)
     if (isInSafeRange(match.index, safeRanges) && match[1]) {
+      const fullMatch = extendOverOptionsBlock(content, match, URL_IMPORT_PATTERN);
+      const { spec, parsed } = splitImportOptions(fullMatch.slice(1));
+      const options = nonFileOptions(parsed)?.options;
       const urlAction: UrlImportAction = {
         type: 'url',
-        url: match[1],
-        original: match[0],
+        url: options ? spec : match[1],
+        original: options ? fullMatch : match[0],
         index: match.index,
       };
+      if (options) urlAction.options = options;
       actions.push(urlAction);
     }
   }
 
+  // Parse git imports
+  GIT_IMPORT_PATTERN.lastIndex = 0;
+  while ((match = GIT_IMPORT_PATTERN.exec(content)) !== null) {
+    // Only include imports that are in safe ranges (outside code blocks)
+    const fullMatch = extendOverOptionsBlock(content, match, GIT_IMPORT_PATTERN);
+    const split = splitImportOptions(fullMatch.slice('@git:'.length));
+    const options = nonFileOptions(split.parsed)?.options;
+    const parsed = options ? parseGitImport(split.spec) : match[1] ? parseGitImport(match[1]) : null;
+    if (isInSafeRange(match.index, safeRanges) && parsed) {
+      const gitAction: GitImportAction = {
+        type: 'git',
+        ...parsed,
+        original: options ? fullMatch : match[0],
+        index: match.index,
+      };
+      if (options) gitAction.options = options;
+      actions.push(gitAction);
+    }
+  }
+
   // Parse command inlines (with balanced backtick support)
   // match[1] = backtick delimiter, match[2] = command content
   COMMAND_INLINE_PATTERN.lastIndex = 0;
@@ -327,6 +517,15 @@ export function parseImports(content: string): ImportAction[] {
         original: match[0],
         index: match.index,
       };
+      // An options block may follow directly: !`git log -5`{cache: 10m,max_lines=20}
+      const block = content.slice(match.index + match[0].length).match(COMMAND_OPTIONS_PATTERN);
+      const parsed = block ? parseImportOptions(block[0].slice(1, -1)) : null;
+      if (block && parsed && !parsed.lines && !parsed.symbol) {
+        if (parsed.cacheTtlMs !== undefined) cmdAction.cacheTtlMs = parsed.cacheTtlMs;
+        if (Object.keys(parsed.options).length > 0) cmdAction.options = parsed.options;
+        cmdAction.original += block[0];
+        COMMAND_INLINE_PATTERN.lastIndex += block[0].length;
+      }
       actions.push(cmdAction);
     }
   }
@@ -338,14 +537,16 @@ export function parseImports(content: string): ImportAction[] {
     // Only process if the match aligns exactly with a known code block start
     if (unsafeStarts.has(match.index)) {
       const [fullMatch, fence, infoString, shebang, code] = match;
-      const language = (infoString ?? '').trim().split(/\s+/)[0] ?? ''; // Extract first word as language
+      const { language, attributes } = parseFenceInfo(infoString ?? '');
 
-      if (shebang && code !== undefined) {
+      // Fences run with a shebang, or with their language's runtime when marked `run`
+      if ((shebang || attributes.run) && code !== undefined) {
         const action: ExecutableCodeFenceAction = {
           type: 'executable_code_fence',
           language: language || 'txt',
-          shebang,
+          ...(shebang ? { shebang } : {}),
           code: code.trim(),
+          attributes,
           original: fullMatch,
           index: match.index,
         };
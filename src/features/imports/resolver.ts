@@ -20,6 +20,9 @@ import type {
   SymbolImportAction,
 } from './imports-types';
 import { Semaphore, DEFAULT_CONCURRENCY_LIMIT } from '../../core/execution/concurrency';
+import { extractSymbol } from './symbols';
+import { resolveGitImport } from './git';
+import { getImportOptions, transformImportContent, stripComments } from './options';
 
 /**
  * Extract lines from content by range
@@ -32,97 +35,6 @@ function extractLines(content: string, start: number, end: number): string {
   return lines.slice(startIdx, endIdx).join('\n');
 }
 
-/**
- * Extract a symbol definition from TypeScript/JavaScript content
- * Supports: interface, type, function, class, const, let, var, enum
- */
-function extractSymbol(content: string, symbolName: string): string {
-  const lines = content.split('\n');
-
-  // Patterns to match symbol declarations
-  const patterns = [
-    // interface Name { ... }
-    new RegExp(`^(export\\s+)?interface\\s+${symbolName}\\s*(extends\\s+[^{]+)?\\{`),
-    // type Name = ...
-    new RegExp(`^(export\\s+)?type\\s+${symbolName}\\s*(<[^>]+>)?\\s*=`),
-    // function Name(...) { ... }
-    new RegExp(`^(export\\s+)?(async\\s+)?function\\s+${symbolName}\\s*(<[^>]+>)?\\s*\\(`),
-    // class Name { ... }
-    new RegExp(`^(export\\s+)?(abstract\\s+)?class\\s+${symbolName}\\s*(extends\\s+[^{]+)?(implements\\s+[^{]+)?\\{`),
-    // const/let/var Name = ...
-    new RegExp(`^(export\\s+)?(const|let|var)\\s+${symbolName}\\s*(:[^=]+)?\\s*=`),
-    // enum Name { ... }
-    new RegExp(`^(export\\s+)?enum\\s+${symbolName}\\s*\\{`),
-  ];
-
-  let startLine = -1;
-  let braceDepth = 0;
-  let parenDepth = 0;
-  let inString = false;
-  let stringChar = '';
-  let foundDeclaration = false;
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = (lines[i] ?? '').trim();
-
-    // Check if this line starts the symbol we're looking for
-    if (startLine === -1) {
-      for (const pattern of patterns) {
-        if (pattern.test(line)) {
-          startLine = i;
-          foundDeclaration = true;
-          break;
-        }
-      }
-    }
-
-    if (startLine !== -1) {
-      const currentLineStr = lines[i] ?? '';
-      // Count braces/parens to find the end of the declaration
-      for (let j = 0; j < currentLineStr.length; j++) {
-        const char = currentLineStr[j];
-        const prevChar = j > 0 ? currentLineStr[j - 1] : '';
-
-        // Handle string literals
-        if (!inString && (char === '"' || char === "'" || char === '`')) {
-          inString = true;
-          stringChar = char;
-        } else if (inString && char === stringChar && prevChar !== '\\') {
-          inString = false;
-        }
-
-        if (!inString) {
-          if (char === '{') braceDepth++;
-          else if (char === '}') braceDepth--;
-          else if (char === '(') parenDepth++;
-          else if (char === ')') parenDepth--;
-        }
-      }
-
-      // Check if we've closed all braces (for block declarations)
-      if (foundDeclaration && braceDepth === 0 && parenDepth === 0) {
-        // For type aliases, we need to check for semicolon or end of statement
-        const currentLineTrimmed = (lines[i] ?? '').trim();
-        const nextLine = lines[i + 1];
-        if (
-          currentLineTrimmed.endsWith(';') ||
-          currentLineTrimmed.endsWith('}') ||
-          (i + 1 < lines.length && nextLine && !nextLine.trim().startsWith('.'))
-        ) {
-          return lines.slice(startLine, i + 1).join('\n');
-        }
-      }
-    }
-  }
-
-  if (startLine !== -1) {
-    // Return everything from start to end if we couldn't find proper closure
-    return lines.slice(startLine).join('\n');
-  }
-
-  throw new Error(`Symbol "${symbolName}" not found in file`);
-}
-
 /**
  * Allowed content types for URL imports
  */
@@ -249,7 +161,7 @@ async function resolveSymbolImport(
 
   env.log(`Extracting symbol "${symbol}" from: ${path}`);
   const content = await env.readFile(path);
-  return extractSymbol(content, symbol);
+  return extractSymbol(content, symbol, path);
 }
 
 /**
@@ -275,7 +187,8 @@ async function resolveGlobImport(
         .replace(/[^a-z0-9]+/g, '-')
         .replace(/^-+|-+$/g, '')
         .replace(/^(\d)/, '_$1') || 'file';
-      return `<${name} path="${file.path}">\n${file.content}\n</${name}>`;
+      const content = action.options?.strip === 'comments' ? stripComments(file.content, file.path) : file.content;
+      return `<${name} path="${file.path}">\n${content}\n</${name}>`;
     })
     .join('\n\n');
 }
@@ -339,6 +252,9 @@ async function resolveSingleImport(
       return resolveUrlImport(action, env);
     case 'command':
       return resolveCommandImport(action, env);
+    case 'git':
+      env.log(`Git: ${action.original}`);
+      return resolveGitImport(action, env.cwd);
     default:
       throw new Error(`Unknown import type: ${(action as ImportAction).type}`);
   }
@@ -369,9 +285,12 @@ export async function resolveImports(
   const semaphore = new Semaphore(concurrencyLimit);
 
   // Resolve all imports in parallel with concurrency limiting
+  // Per-import options shape the content here; fences and labels are left to the injector
   const resolvePromises = actions.map(async (action): Promise<ResolvedImport> => {
     return semaphore.run(async () => {
-      const content = await resolveSingleImport(action, env, stack);
+      const { options, source } = getImportOptions(action);
+      const transformOptions = action.type === 'glob' && options ? { ...options, strip: undefined } : options;
+      const content = transformImportContent(await resolveSingleImport(action, env, stack), transformOptions, source);
       return { action, content };
     });
   });
@@ -0,0 +1,107 @@
+/**
+ * Runtimes for executable code fences marked `run` (no shebang needed)
+ *
+ * ```` ```python run timeout=5 cwd=repo ````
+ *
+ * The fence language picks the runtime; `runtime=<name>` overrides it (e.g.
+ * `ts run runtime=deno`). Built-in runtimes:
+ * - bun: ts, typescript, tsx
+ * - node: js, javascript, mjs
+ * - deno: deno (or runtime=deno)
+ * - python: py, python, python3
+ * - ruby: rb, ruby
+ * - sh, bash: sh, shell, bash
+ * - jq: jq (filters stdin, or runs with -n without input)
+ * - sqlite: sql, sqlite (against `db=<file>`, in-memory by default; markdown tables)
+ *
+ * More runtimes can be added via registerFenceRuntime().
+ */
+
+import type { CodeFenceAttributes } from "./types";
+
+/** How to run a fence's code with an interpreter */
+export interface FenceRuntime {
+  /** Runtime name (for `runtime=<name>`) */
+  name: string;
+  /** Fence languages run with this runtime */
+  languages: string[];
+  /** Extension of the temp file holding the code */
+  extension: string;
+  /**
+   * Command line running the code file
+   * @param scriptPath - Temp file with the fence's code
+   * @param attributes - The fence's attributes (e.g. `db`)
+   * @param hasStdin - The fence reads another fence's output on stdin
+   */
+  command(scriptPath: string, attributes: CodeFenceAttributes, hasStdin: boolean): string[];
+}
+
+/**
+ * Registries of fence runtimes indexed by name and language
+ */
+const nameRegistry: Map<string, FenceRuntime> = new Map();
+const languageRegistry: Map<string, FenceRuntime> = new Map();
+
+/**
+ * Register a fence runtime for its name and languages
+ * Later registrations override earlier ones.
+ */
+export function registerFenceRuntime(runtime: FenceRuntime): void {
+  nameRegistry.set(runtime.name, runtime);
+  for (const language of runtime.languages) {
+    languageRegistry.set(language.toLowerCase(), runtime);
+  }
+}
+
+/**
+ * Get the runtime for a fence: `runtime=<name>` if set, else by language
+ */
+export function getFenceRuntime(language: string, runtime?: string): FenceRuntime | undefined {
+  if (runtime) return nameRegistry.get(runtime) ?? languageRegistry.get(runtime.toLowerCase());
+  return languageRegistry.get(language.toLowerCase());
+}
+
+/**
+ * Names of the registered runtimes (for error messages)
+ */
+export function getFenceRuntimeNames(): string[] {
+  return [...nameRegistry.keys()];
+}
+
+const interpreter = (name: string, languages: string[], extension: string, ...args: string[]): FenceRuntime => ({
+  name,
+  languages,
+  extension,
+  command: (scriptPath) => [name, ...args, scriptPath],
+});
+
+/**
+ * Initialize the registry with built-in runtimes
+ * Called automatically on module load
+ */
+function initializeBuiltinRuntimes(): void {
+  registerFenceRuntime(interpreter("bun", ["ts", "typescript", "tsx", "bun"], ".ts", "run"));
+  registerFenceRuntime(interpreter("node", ["js", "javascript", "mjs", "node"], ".mjs"));
+  registerFenceRuntime(interpreter("deno", ["deno"], ".ts", "run", "--quiet", "--allow-all"));
+  registerFenceRuntime({ ...interpreter("python3", ["py", "python", "python3"], ".py"), name: "python" });
+  registerFenceRuntime(interpreter("ruby", ["rb", "ruby"], ".rb"));
+  registerFenceRuntime(interpreter("sh", ["sh", "shell"], ".sh"));
+  registerFenceRuntime(interpreter("bash", ["bash"], ".sh"));
+  registerFenceRuntime({
+    name: "jq",
+    languages: ["jq"],
+    extension: ".jq",
+    command: (scriptPath, _attributes, hasStdin) => ["jq", ...(hasStdin ? [] : ["-n"]), "-f", scriptPath],
+  });
+  registerFenceRuntime({
+    name: "sqlite",
+    languages: ["sql", "sqlite"],
+    extension: ".sql",
+    command: (scriptPath, attributes) => [
+      "sqlite3", "-bail", "-markdown", attributes.db ?? ":memory:", `.read '${scriptPath.replace(/'/g, "''")}'`,
+    ],
+  });
+}
+
+// Initialize built-in runtimes on module load
+initializeBuiltinRuntimes();
@@ -0,0 +1,51 @@
+/**
+ * Shared types and helpers for symbol extractors
+ */
+
+/** A declaration found in a source file */
+export interface SymbolNode {
+  name: string;
+  /** Declaration kind (e.g., "class", "function", "method") */
+  kind: string;
+  /** First line (0-based), including leading doc comments and decorators */
+  startLine: number;
+  /** Last line (0-based, inclusive) */
+  endLine: number;
+  /** Line of the declaration itself, after leading docs (defaults to startLine) */
+  declarationLine?: number;
+  /** False for non-exported or private declarations (left out of outlines) */
+  exported?: boolean;
+  /** Members (class methods, interface fields, impl functions, ...) */
+  children: SymbolNode[];
+}
+
+/** Parses a file into its symbol tree */
+export interface SymbolExtractor {
+  /** Extractor name (e.g., "typescript") */
+  name: string;
+  /** File extensions handled, including the dot (e.g., ".ts") */
+  extensions: string[];
+  /** Bumped when the extracted ranges change; part of import cache keys */
+  version?: string;
+  parse(content: string, filePath: string): SymbolNode[] | Promise<SymbolNode[]>;
+}
+
+/**
+ * Extend a declaration's start upward over attached lines
+ * (doc comments, decorators, attributes) - stops at blank lines.
+ *
+ * @param isLeading - Whether a trimmed line belongs to the declaration
+ */
+export function withLeadingLines(
+  lines: string[],
+  startLine: number,
+  isLeading: (trimmed: string) => boolean
+): number {
+  let start = startLine;
+  while (start > 0) {
+    const previous = lines[start - 1]!.trim();
+    if (!previous || !isLeading(previous)) break;
+    start--;
+  }
+  return start;
+}
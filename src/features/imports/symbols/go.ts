@@ -0,0 +1,96 @@
+/**
+ * Symbol extraction for Go
+ *
+ * Parses with the tree-sitter Go grammar: types (struct fields and
+ * interface methods as members), functions, constants and variables.
+ * Methods are attached to their receiver type so `#Server.Start` works.
+ */
+
+import type { SymbolNode } from "./common";
+import { createTreeSitterExtractor, isCComment, nameOf, type SymbolBuilder, type SyntaxNode } from "./tree-sitter";
+
+const isExported = (name: string) => /^[A-Z]/.test(name);
+
+/** Name of a method's receiver type (`s *Server`, `b Box[T]`) */
+function receiverType(method: SyntaxNode): string | undefined {
+  let type = method.childForFieldName("receiver")?.firstNamedChild?.childForFieldName("type") ?? null;
+  while (type && (type.type === "pointer_type" || type.type === "generic_type")) {
+    type = type.type === "pointer_type" ? type.firstNamedChild : type.childForFieldName("type");
+  }
+  return type?.text;
+}
+
+/** Struct fields and interface methods */
+function typeMembers(type: SyntaxNode | null, builder: SymbolBuilder): SymbolNode[] {
+  const body = type?.type === "struct_type" ? type.firstNamedChild : type;
+  if (!body) return [];
+
+  return body.namedChildren.flatMap((member): SymbolNode[] => {
+    if (member.type === "field_declaration") {
+      return member.childrenForFieldName("name").map((name) =>
+        builder.symbol(member, name.text, "field", { exported: isExported(name.text) })
+      );
+    }
+    if (member.type === "method_spec" || member.type === "method_elem") {
+      const name = nameOf(member);
+      return name ? [builder.symbol(member, name, "method", { exported: isExported(name) })] : [];
+    }
+    return [];
+  });
+}
+
+/**
+ * Declarations in a `type`/`const`/`var` statement; a single declaration
+ * spans the whole statement (keyword included), grouped ones their spec
+ */
+function specs(declaration: SyntaxNode, builder: SymbolBuilder, kind: string): SymbolNode[] {
+  const list = declaration.namedChildren.filter((child) => child.type.endsWith("_spec") || child.type === "type_alias");
+  return list.flatMap((spec) => {
+    const names = spec.childrenForFieldName("name");
+    const node = list.length === 1 && names.length === 1 ? declaration : spec;
+    return names.map((name) => builder.symbol(node, name.text, kind, {
+      exported: isExported(name.text),
+      children: kind === "type" ? typeMembers(spec.childForFieldName("type"), builder) : [],
+    }));
+  });
+}
+
+export const goExtractor = createTreeSitterExtractor({
+  name: "go",
+  extensions: [".go"],
+  version: "1",
+  grammar: "go",
+  isLeading: isCComment,
+
+  collect(root, builder) {
+    const nodes: SymbolNode[] = [];
+    const methods: Array<{ node: SymbolNode; receiver: string }> = [];
+
+    for (const child of root.namedChildren) {
+      if (child.type === "type_declaration") nodes.push(...specs(child, builder, "type"));
+      else if (child.type === "const_declaration" || child.type === "var_declaration") {
+        nodes.push(...specs(child, builder, "variable"));
+      } else if (child.type === "function_declaration" || child.type === "method_declaration") {
+        const name = nameOf(child);
+        if (!name) continue;
+        const node = builder.symbol(child, name, child.type === "function_declaration" ? "function" : "method", {
+          exported: isExported(name),
+        });
+        const receiver = child.type === "method_declaration" ? receiverType(child) : undefined;
+        if (receiver) methods.push({ node, receiver });
+        else nodes.push(node);
+      }
+    }
+
+    for (const { node, receiver } of methods) {
+      const owner = nodes.find((n) => n.kind === "type" && n.name === receiver);
+      if (owner) {
+        owner.children.push(node);
+      } else {
+        // Receiver type declared in another file
+        nodes.push({ name: receiver, kind: "impl", startLine: node.startLine, endLine: node.endLine, children: [node] });
+      }
+    }
+    return nodes;
+  },
+});
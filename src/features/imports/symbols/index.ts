@@ -0,0 +1,173 @@
+/**
+ * Symbol extraction for `@./file.ts#Symbol` imports
+ *
+ * Each language has a SymbolExtractor that parses a file into a tree of
+ * SymbolNodes (name, kind, line range, members). Extractors are chosen by
+ * file extension and can be replaced or extended via registerSymbolExtractor().
+ *
+ * Built-in extractors:
+ * - TypeScript/JavaScript: the TypeScript compiler API (lazy-loaded)
+ * - Python, Go, Rust, Java: tree-sitter grammars (bundled as WebAssembly)
+ *
+ * Symbols can be addressed with dotted member paths
+ * (e.g., `#UserService.login`, `#Config.Builder`). Leading doc comments,
+ * decorators and attributes are included in the extracted text.
+ */
+
+import { extname } from "path";
+import { typescriptExtractor } from "./typescript";
+import { pythonExtractor } from "./python";
+import { goExtractor } from "./go";
+import { rustExtractor } from "./rust";
+import { javaExtractor } from "./java";
+import type { SymbolNode, SymbolExtractor } from "./common";
+
+export type { SymbolNode, SymbolExtractor } from "./common";
+export { withLeadingLines } from "./common";
+
+/** Maximum number of suggestions listed when a symbol is not found */
+const MAX_SUGGESTIONS = 5;
+
+/**
+ * Registry of symbol extractors indexed by file extension
+ */
+const extractorRegistry: Map<string, SymbolExtractor> = new Map();
+
+/**
+ * Register a symbol extractor for its extensions
+ * Later registrations override earlier ones for the same extension.
+ */
+export function registerSymbolExtractor(extractor: SymbolExtractor): void {
+  for (const ext of extractor.extensions) {
+    extractorRegistry.set(ext.toLowerCase(), extractor);
+  }
+}
+
+/**
+ * Get the extractor for a file
+ * Unknown extensions fall back to the TypeScript extractor.
+ */
+export function getSymbolExtractor(filePath: string): SymbolExtractor {
+  return extractorRegistry.get(extname(filePath).toLowerCase()) ?? typescriptExtractor;
+}
+
+/**
+ * Name and version of the extractor for a file (part of import cache keys,
+ * so cached extractions and outlines are rebuilt when an extractor changes)
+ */
+export function getSymbolExtractorTag(filePath: string): string {
+  const extractor = getSymbolExtractor(filePath);
+  return `${extractor.name}@${extractor.version ?? "0"}`;
+}
+
+/**
+ * Whether a file type has a registered extractor (no fallback)
+ */
+export function hasSymbolExtractor(filePath: string): boolean {
+  return extractorRegistry.has(extname(filePath).toLowerCase());
+}
+
+/**
+ * Find a symbol by name or dotted member path (e.g., "UserService.login")
+ *
+ * When several nodes share a name (Rust impl blocks, Go methods), all of
+ * their members are searched; type declarations win over impl blocks.
+ */
+export function findSymbol(nodes: SymbolNode[], symbolPath: string): SymbolNode | undefined {
+  let candidates = nodes;
+  let found: SymbolNode | undefined;
+
+  for (const part of symbolPath.split(".")) {
+    const matches = candidates.filter((n) => n.name === part);
+    if (matches.length === 0) return undefined;
+    found = matches.find((n) => n.kind !== "impl") ?? matches[0];
+    candidates = matches.flatMap((n) => n.children);
+  }
+
+  return found;
+}
+
+/**
+ * List all addressable symbol paths (e.g., "UserService", "UserService.login")
+ */
+export function listSymbolPaths(nodes: SymbolNode[], prefix = ""): string[] {
+  const paths: string[] = [];
+  for (const node of nodes) {
+    const path = prefix ? `${prefix}.${node.name}` : node.name;
+    if (!paths.includes(path)) paths.push(path);
+    for (const child of listSymbolPaths(node.children, path)) {
+      if (!paths.includes(child)) paths.push(child);
+    }
+  }
+  return paths;
+}
+
+/**
+ * Levenshtein edit distance (case-insensitive)
+ */
+function editDistance(a: string, b: string): number {
+  const s = a.toLowerCase();
+  const t = b.toLowerCase();
+  let previous = Array.from({ length: t.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= s.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= t.length; j++) {
+      current[j] = Math.min(
+        previous[j]! + 1,
+        current[j - 1]! + 1,
+        previous[j - 1]! + (s[i - 1] === t[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[t.length]!;
+}
+
+/**
+ * Rank available symbol paths by similarity to the requested one
+ */
+export function suggestSymbols(symbolPath: string, available: string[]): string[] {
+  return [...available]
+    .map((path) => ({ path, distance: editDistance(symbolPath, path) }))
+    .sort((a, b) => a.distance - b.distance || a.path.localeCompare(b.path))
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ path }) => path);
+}
+
+/**
+ * Extract a symbol's source text (with leading doc comments)
+ *
+ * @param content - File content
+ * @param symbolPath - Symbol name or dotted member path
+ * @param filePath - Path of the file (selects the extractor, used in errors)
+ * @throws Error listing the nearest symbol names when the symbol is not found
+ */
+export async function extractSymbol(content: string, symbolPath: string, filePath: string): Promise<string> {
+  const nodes = await getSymbolExtractor(filePath).parse(content, filePath);
+  const node = findSymbol(nodes, symbolPath);
+
+  if (!node) {
+    const suggestions = suggestSymbols(symbolPath, listSymbolPaths(nodes));
+    const hint = suggestions.length > 0
+      ? ` Nearest symbols: ${suggestions.join(", ")}`
+      : " No symbols were found in the file.";
+    throw new Error(`Symbol "${symbolPath}" not found in ${filePath}.${hint}`);
+  }
+
+  return content.split("\n").slice(node.startLine, node.endLine + 1).join("\n");
+}
+
+/**
+ * Initialize the registry with built-in extractors
+ * Called automatically on module load
+ */
+function initializeBuiltinExtractors(): void {
+  registerSymbolExtractor(typescriptExtractor);
+  registerSymbolExtractor(pythonExtractor);
+  registerSymbolExtractor(goExtractor);
+  registerSymbolExtractor(rustExtractor);
+  registerSymbolExtractor(javaExtractor);
+}
+
+// Initialize built-in extractors on module load
+initializeBuiltinExtractors();
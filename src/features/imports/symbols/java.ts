@@ -0,0 +1,76 @@
+/**
+ * Symbol extraction for Java
+ *
+ * Parses with the tree-sitter Java grammar: classes, interfaces, enums,
+ * records and annotation types, with their methods, constructors, fields,
+ * enum constants and nested types as members. Javadoc and annotations
+ * above a declaration are included.
+ */
+
+import type { SymbolNode } from "./common";
+import { createTreeSitterExtractor, isCComment, nameOf, type SymbolBuilder, type SyntaxNode } from "./tree-sitter";
+
+const TYPE_DECLARATIONS = new Set([
+  "class_declaration",
+  "interface_declaration",
+  "enum_declaration",
+  "record_declaration",
+  "annotation_type_declaration",
+]);
+
+const METHOD_DECLARATIONS = new Set([
+  "method_declaration",
+  "constructor_declaration",
+  "compact_constructor_declaration",
+  "annotation_type_element_declaration",
+]);
+
+/** Private members are hidden; top-level types need `public`; package-private members are unknown */
+function isExported(declaration: SyntaxNode, topLevel: boolean): boolean | undefined {
+  const modifiers = declaration.namedChildren.find((child) => child.type === "modifiers")?.text ?? "";
+  if (/\bprivate\b/.test(modifiers)) return false;
+  return topLevel ? /\bpublic\b/.test(modifiers) : undefined;
+}
+
+function members(body: SyntaxNode | null, builder: SymbolBuilder): SymbolNode[] {
+  if (!body) return [];
+  return body.namedChildren.flatMap((member): SymbolNode[] => {
+    // Members after the constants of an enum
+    if (member.type === "enum_body_declarations") return members(member, builder);
+
+    const name = nameOf(member);
+    if (TYPE_DECLARATIONS.has(member.type)) return name ? [typeSymbol(member, name, false, builder)] : [];
+    if (METHOD_DECLARATIONS.has(member.type) && name) {
+      return [builder.symbol(member, name, "method", { exported: isExported(member, false) })];
+    }
+    if (member.type === "enum_constant" && name) return [builder.symbol(member, name, "constant")];
+    if (member.type === "field_declaration" || member.type === "constant_declaration") {
+      const declarators = member.childrenForFieldName("declarator");
+      return declarators.flatMap((declarator) => {
+        const field = nameOf(declarator);
+        return field ? [builder.symbol(member, field, "field", { exported: isExported(member, false) })] : [];
+      });
+    }
+    return [];
+  });
+}
+
+function typeSymbol(declaration: SyntaxNode, name: string, topLevel: boolean, builder: SymbolBuilder): SymbolNode {
+  return builder.symbol(declaration, name, "class", {
+    exported: isExported(declaration, topLevel),
+    children: members(declaration.childForFieldName("body"), builder),
+  });
+}
+
+export const javaExtractor = createTreeSitterExtractor({
+  name: "java",
+  extensions: [".java"],
+  version: "1",
+  grammar: "java",
+  isLeading: (trimmed) => isCComment(trimmed) || /^@\w+/.test(trimmed),
+  collect: (root, builder) =>
+    root.namedChildren.flatMap((child) => {
+      const name = nameOf(child);
+      return TYPE_DECLARATIONS.has(child.type) && name ? [typeSymbol(child, name, true, builder)] : [];
+    }),
+});
@@ -0,0 +1,53 @@
+/**
+ * Symbol extraction for Python
+ *
+ * Parses with the tree-sitter Python grammar: classes (with nested classes
+ * and methods), functions and module-level assignments. Decorators and
+ * comments directly above a declaration are included.
+ */
+
+import type { SymbolNode } from "./common";
+import { createTreeSitterExtractor, nameOf, type SymbolBuilder, type SyntaxNode } from "./tree-sitter";
+
+/** `_internal` names are private by convention; dunder methods are not */
+const isPrivateName = (name: string) => name.startsWith("_") && !/^__\w+__$/.test(name);
+
+function collectBlock(block: SyntaxNode | null, inClass: boolean, builder: SymbolBuilder): SymbolNode[] {
+  if (!block) return [];
+
+  return block.namedChildren.flatMap((statement): SymbolNode[] => {
+    // `@decorator` lines are part of a decorated_definition
+    const definition = statement.type === "decorated_definition"
+      ? statement.childForFieldName("definition")
+      : statement;
+    if (!definition) return [];
+
+    if (definition.type === "class_definition" || definition.type === "function_definition") {
+      const name = nameOf(definition);
+      if (!name) return [];
+      const isClass = definition.type === "class_definition";
+      return [builder.symbol(statement, name, isClass ? "class" : inClass ? "method" : "function", {
+        declaration: definition,
+        exported: !isPrivateName(name),
+        children: isClass ? collectBlock(definition.childForFieldName("body"), true, builder) : [],
+      })];
+    }
+
+    // NAME = value / NAME: type = value
+    const assignment = statement.type === "expression_statement" ? statement.firstNamedChild : null;
+    const target = assignment?.type === "assignment" ? assignment.childForFieldName("left") : null;
+    if (target?.type === "identifier") {
+      return [builder.symbol(statement, target.text, "variable", { exported: !isPrivateName(target.text) })];
+    }
+    return [];
+  });
+}
+
+export const pythonExtractor = createTreeSitterExtractor({
+  name: "python",
+  extensions: [".py", ".pyi"],
+  version: "1",
+  grammar: "python",
+  isLeading: (trimmed) => trimmed.startsWith("@") || trimmed.startsWith("#"),
+  collect: (root, builder) => collectBlock(root, false, builder),
+});
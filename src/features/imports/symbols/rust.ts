@@ -0,0 +1,84 @@
+/**
+ * Symbol extraction for Rust
+ *
+ * Parses with the tree-sitter Rust grammar: functions, structs, enums and
+ * unions (fields and variants as members), traits, modules, impl blocks
+ * (named after the implementing type), constants and macros. Doc comments
+ * and `#[...]` attributes above an item are included.
+ */
+
+import type { SymbolNode } from "./common";
+import { createTreeSitterExtractor, isCComment, nameOf, type SymbolBuilder, type SyntaxNode } from "./tree-sitter";
+
+/** Item node type -> symbol kind */
+const ITEM_KINDS: Record<string, string> = {
+  function_item: "function",
+  function_signature_item: "function",
+  struct_item: "type",
+  enum_item: "type",
+  union_item: "type",
+  type_item: "type",
+  trait_item: "trait",
+  mod_item: "module",
+  const_item: "variable",
+  static_item: "variable",
+  impl_item: "impl",
+  macro_definition: "macro",
+};
+
+const hasPub = (node: SyntaxNode) => node.namedChildren.some((child) => child.type === "visibility_modifier");
+
+/** Name of the implementing type (`impl<T> Trait for Foo<T>` -> Foo) */
+function implName(item: SyntaxNode): string | undefined {
+  let type = item.childForFieldName("type");
+  while (type && (type.type === "generic_type" || type.type === "scoped_type_identifier")) {
+    type = type.childForFieldName(type.type === "generic_type" ? "type" : "name");
+  }
+  return type?.text;
+}
+
+/** Struct fields and enum variants */
+function fields(body: SyntaxNode | null, builder: SymbolBuilder): SymbolNode[] {
+  if (!body) return [];
+  return body.namedChildren.flatMap((member): SymbolNode[] => {
+    const name = nameOf(member);
+    if (!name) return [];
+    if (member.type === "field_declaration") return [builder.symbol(member, name, "field", { exported: hasPub(member) })];
+    if (member.type === "enum_variant") return [builder.symbol(member, name, "variant")];
+    return [];
+  });
+}
+
+/**
+ * Items of a file, module, trait or impl block
+ * Items inside blocks without `pub` (trait and trait-impl functions) have
+ * no known visibility.
+ */
+function items(list: SyntaxNode | null, nested: boolean, builder: SymbolBuilder): SymbolNode[] {
+  if (!list) return [];
+  return list.namedChildren.flatMap((item): SymbolNode[] => {
+    const kind = ITEM_KINDS[item.type];
+    const name = item.type === "impl_item" ? implName(item) : nameOf(item);
+    if (!kind || !name) return [];
+
+    const body = item.childForFieldName("body");
+    const children = ["struct_item", "enum_item", "union_item"].includes(item.type)
+      ? fields(body, builder)
+      : ["trait_item", "mod_item", "impl_item"].includes(item.type)
+        ? items(body, true, builder)
+        : [];
+    return [builder.symbol(item, name, kind, {
+      exported: hasPub(item) || (nested ? undefined : false),
+      children,
+    })];
+  });
+}
+
+export const rustExtractor = createTreeSitterExtractor({
+  name: "rust",
+  extensions: [".rs"],
+  version: "1",
+  grammar: "rust",
+  isLeading: (trimmed) => isCComment(trimmed) || trimmed.startsWith("#["),
+  collect: (root, builder) => items(root, false, builder),
+});
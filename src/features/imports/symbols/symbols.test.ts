@@ -0,0 +1,260 @@
+import { describe, it, expect } from "bun:test";
+import {
+  extractSymbol,
+  registerSymbolExtractor,
+  getSymbolExtractor,
+  suggestSymbols,
+  type SymbolExtractor,
+} from "./index";
+import { fallbackExtractor } from "./typescript";
+
+describe("typescript extractor", () => {
+  const source = [
+    "import { db } from './db';",
+    "",
+    "/**",
+    " * Handles user accounts",
+    " */",
+    "export class UserService {",
+    "  private cache = new Map<string, string>();",
+    "",
+    "  // Logs a user in",
+    "  async login(name: string): Promise<boolean> {",
+    "    const brace = '}';",
+    "    return db.check(name, brace);",
+    "  }",
+    "",
+    "  logout(): void {}",
+    "}",
+    "",
+    "export function parse(input: string): number;",
+    "export function parse(input: number): number;",
+    "export function parse(input: unknown): number {",
+    "  return Number(input);",
+    "}",
+    "",
+    "export const config = {",
+    "  retries: 3,",
+    "  timeout: 1000,",
+    "} as const;",
+  ].join("\n");
+
+  it("extracts a class with its doc comment", async () => {
+    const result = await extractSymbol(source, "UserService", "user.ts");
+    expect(result.startsWith("/**\n * Handles user accounts")).toBe(true);
+    expect(result.endsWith("  logout(): void {}\n}")).toBe(true);
+  });
+
+  it("extracts members by dotted path", async () => {
+    const login = await extractSymbol(source, "UserService.login", "user.ts");
+    expect(login).toBe([
+      "  // Logs a user in",
+      "  async login(name: string): Promise<boolean> {",
+      "    const brace = '}';",
+      "    return db.check(name, brace);",
+      "  }",
+    ].join("\n"));
+    expect(await extractSymbol(source, "config.retries", "user.ts")).toBe("  retries: 3,");
+  });
+
+  it("keeps overloads together", async () => {
+    const result = await extractSymbol(source, "parse", "user.ts");
+    expect(result.split("\n")).toHaveLength(5);
+    expect(result).toContain("return Number(input)");
+  });
+
+  it("suggests the nearest symbols when not found", async () => {
+    await expect(extractSymbol(source, "UserServce", "user.ts")).rejects.toThrow(
+      'Symbol "UserServce" not found in user.ts. Nearest symbols: UserService'
+    );
+    await expect(extractSymbol(source, "UserService.logn", "user.ts")).rejects.toThrow("UserService.login");
+  });
+});
+
+describe("python extractor", () => {
+  const source = [
+    "import os",
+    "",
+    "TIMEOUT = 30",
+    "",
+    "@dataclass",
+    "class Client:",
+    '    """A client.',
+    "",
+    "def not_a_function():",
+    '    """',
+    "",
+    "    # Connects to the server",
+    "    def connect(self,",
+    "                host: str) -> None:",
+    "        if host:",
+    "            pass",
+    "",
+    "        return None",
+    "",
+    "    async def close(self): pass",
+    "",
+    "def main():",
+    "    Client().connect('x')",
+  ].join("\n");
+
+  it("extracts classes with decorators, ignoring docstring contents", async () => {
+    const result = await extractSymbol(source, "Client", "client.py");
+    expect(result.startsWith("@dataclass\nclass Client:")).toBe(true);
+    expect(result.endsWith("async def close(self): pass")).toBe(true);
+  });
+
+  it("extracts methods and module variables", async () => {
+    const connect = await extractSymbol(source, "Client.connect", "client.py");
+    expect(connect.split("\n")[0]).toBe("    # Connects to the server");
+    expect(connect.endsWith("        return None")).toBe(true);
+    expect(await extractSymbol(source, "TIMEOUT", "client.py")).toBe("TIMEOUT = 30");
+    await expect(extractSymbol(source, "not_a_function", "client.py")).rejects.toThrow("not found");
+  });
+});
+
+describe("go extractor", () => {
+  const source = [
+    "package server",
+    "",
+    "// Server serves requests",
+    "type Server struct {",
+    "\tAddr string",
+    "}",
+    "",
+    "const Version = \"1.0 {\"",
+    "",
+    "// Start starts the server",
+    "func (s *Server) Start() error {",
+    "\tmsg := `raw }`",
+    "\treturn nil",
+    "}",
+    "",
+    "func main() {",
+    "}",
+  ].join("\n");
+
+  it("extracts types, constants and methods attached to their receiver", async () => {
+    expect(await extractSymbol(source, "Server", "main.go")).toBe(source.split("\n").slice(2, 6).join("\n"));
+    expect(await extractSymbol(source, "Version", "main.go")).toBe('const Version = "1.0 {"');
+    const start = await extractSymbol(source, "Server.Start", "main.go");
+    expect(start.startsWith("// Start starts the server")).toBe(true);
+    expect(start.endsWith("\treturn nil\n}")).toBe(true);
+    expect(await extractSymbol(source, "Server.Addr", "main.go")).toBe("\tAddr string");
+  });
+});
+
+describe("rust extractor", () => {
+  const source = [
+    "/// A point",
+    "#[derive(Debug)]",
+    "pub struct Point<'a> {",
+    "    pub x: &'a str,",
+    "}",
+    "",
+    "impl<'a> Point<'a> {",
+    "    /// Creates a point",
+    "    pub fn new(x: &'a str) -> Self {",
+    "        let s = r#\"}\"#;",
+    "        Point { x }",
+    "    }",
+    "}",
+    "",
+    "pub const ORIGIN: &str = \"}\";",
+  ].join("\n");
+
+  it("extracts structs with attributes and impl methods", async () => {
+    expect(await extractSymbol(source, "Point", "lib.rs")).toBe(source.split("\n").slice(0, 5).join("\n"));
+    const method = await extractSymbol(source, "Point.new", "lib.rs");
+    expect(method.startsWith("    /// Creates a point")).toBe(true);
+    expect(method.endsWith("        Point { x }\n    }")).toBe(true);
+    expect(await extractSymbol(source, "ORIGIN", "lib.rs")).toBe('pub const ORIGIN: &str = "}";');
+  });
+});
+
+describe("java extractor", () => {
+  const source = [
+    "package app;",
+    "",
+    "/** Greets people */",
+    "public class Greeter {",
+    "    private final String name = \"{\";",
+    "",
+    "    @Override",
+    "    public String toString() {",
+    "        return name;",
+    "    }",
+    "",
+    "    public static class Builder {",
+    "        Builder withName(String n) { return this; }",
+    "    }",
+    "}",
+  ].join("\n");
+
+  it("extracts classes, annotated methods and nested classes", async () => {
+    expect((await extractSymbol(source, "Greeter", "Greeter.java")).startsWith("/** Greets people */")).toBe(true);
+    expect(await extractSymbol(source, "Greeter.toString", "Greeter.java")).toBe(source.split("\n").slice(6, 10).join("\n"));
+    expect(await extractSymbol(source, "Greeter.Builder.withName", "Greeter.java")).toContain("return this;");
+    expect(await extractSymbol(source, "Greeter.name", "Greeter.java")).toContain("private final String name");
+  });
+});
+
+describe("extractor registry", () => {
+  it("selects extractors by extension and allows overrides", async () => {
+    expect(getSymbolExtractor("a.py").name).toBe("python");
+    expect(getSymbolExtractor("a.unknown").name).toBe("typescript");
+
+    const custom: SymbolExtractor = {
+      name: "custom",
+      extensions: [".custom"],
+      parse: () => [{ name: "Only", kind: "block", startLine: 1, endLine: 1, children: [] }],
+    };
+    registerSymbolExtractor(custom);
+    expect(await extractSymbol("zero\none\ntwo", "Only", "x.custom")).toBe("one");
+  });
+
+  it("ranks suggestions by edit distance", () => {
+    expect(suggestSymbols("lgin", ["logout", "login", "Logger"])[0]).toBe("login");
+  });
+});
+
+describe("tree-sitter parsing", () => {
+  it("is not fooled by declarations inside strings and comments", async () => {
+    const python = 'HELP = """\ndef fake():\n    pass\n"""\n\ndef real():\n    return "}"\n';
+    await expect(extractSymbol(python, "fake", "a.py")).rejects.toThrow("Nearest symbols: HELP, real");
+    const go = "package a\n\n/*\nfunc Fake() {}\n*/\nconst (\n\tA = 1\n\tB = \"}\"\n)\n";
+    expect(await extractSymbol(go, "B", "a.go")).toBe('\tB = "}"');
+    await expect(extractSymbol(go, "Fake", "a.go")).rejects.toThrow("not found");
+  });
+
+  it("extracts enum variants, trait impls and Java enum members", async () => {
+    const rust = "enum Shape {\n    Circle(f64),\n    Square { side: f64 },\n}\n\nimpl fmt::Display for Shape {\n    fn fmt(&self) {}\n}\n";
+    expect(await extractSymbol(rust, "Shape.Square", "a.rs")).toBe("    Square { side: f64 },");
+    expect(await extractSymbol(rust, "Shape.fmt", "a.rs")).toBe("    fn fmt(&self) {}");
+    const java = "enum Level {\n    LOW, HIGH;\n\n    int weight() { return 1; }\n}\n";
+    expect(await extractSymbol(java, "Level.weight", "Level.java")).toBe("    int weight() { return 1; }");
+  });
+});
+
+describe("typescript fallback extractor", () => {
+  it("extracts declarations and members without the compiler", async () => {
+    const source = [
+      "/** Users */",
+      "export class UserService {",
+      "  private cache = new Map();",
+      "  login(name: string) {",
+      "    return '}';",
+      "  }",
+      "}",
+      "",
+      "export const config = { retries: 3 } as const;",
+    ].join("\n");
+    const nodes = await fallbackExtractor.parse(source, "user.ts");
+    expect(nodes.map((n) => [n.name, n.kind, n.startLine, n.endLine, n.exported])).toEqual([
+      ["UserService", "class", 0, 6, true],
+      ["config", "variable", 8, 8, true],
+    ]);
+    expect(nodes[0]!.children.map((n) => [n.name, n.exported])).toEqual([["cache", false], ["login", true]]);
+    expect(nodes[1]!.children.map((n) => n.name)).toEqual(["retries"]);
+  });
+});
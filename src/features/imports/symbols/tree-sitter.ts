@@ -0,0 +1,121 @@
+/**
+ * Tree-sitter support for symbol extractors
+ *
+ * Grammars ship prebuilt as WebAssembly (`tree-sitter-wasms`) and run on
+ * `web-tree-sitter`, so parsing works offline without native builds. The
+ * runtime and each grammar are lazy-loaded on first use.
+ */
+
+import { createRequire } from "module";
+import type Parser from "web-tree-sitter";
+import type { SymbolNode, SymbolExtractor } from "./common";
+import { withLeadingLines } from "./common";
+
+export type SyntaxNode = Parser.SyntaxNode;
+
+/** Builds SymbolNodes for a parsed file (passed to TreeSitterLanguage.collect) */
+export interface SymbolBuilder {
+  /**
+   * Create a node spanning `node`, extended upward over leading doc lines
+   *
+   * @param options.declaration - Node whose first line is the declaration itself
+   *   (e.g., the definition inside a Python decorated_definition)
+   */
+  symbol(
+    node: SyntaxNode,
+    name: string,
+    kind: string,
+    options?: { children?: SymbolNode[]; exported?: boolean; declaration?: SyntaxNode }
+  ): SymbolNode;
+}
+
+/** Language description for createTreeSitterExtractor */
+export interface TreeSitterLanguage {
+  name: string;
+  extensions: string[];
+  version: string;
+  /** Grammar name in tree-sitter-wasms (e.g., "python"), optionally per file */
+  grammar: string | ((filePath: string) => string);
+  /** Lines above a declaration that belong to it (doc comments, attributes) */
+  isLeading: (trimmed: string) => boolean;
+  /** Build the symbol tree from the syntax tree */
+  collect(root: SyntaxNode, builder: SymbolBuilder): SymbolNode[];
+}
+
+const requireFromHere = createRequire(import.meta.url);
+
+/** Lazy-loaded runtime, shared parser (parsing is synchronous) and grammars */
+let _runtime: Promise<typeof Parser> | undefined;
+let _parser: Parser | undefined;
+const grammars = new Map<string, Promise<Parser.Language>>();
+
+async function getRuntime(): Promise<typeof Parser> {
+  _runtime ??= (async () => {
+    const mod = await import("web-tree-sitter");
+    const TreeSitter = (mod.default ?? mod) as typeof Parser;
+    await TreeSitter.init();
+    return TreeSitter;
+  })();
+  return _runtime;
+}
+
+function getGrammar(name: string): Promise<Parser.Language> {
+  let grammar = grammars.get(name);
+  if (!grammar) {
+    grammar = getRuntime().then((TreeSitter) =>
+      TreeSitter.Language.load(requireFromHere.resolve(`tree-sitter-wasms/out/tree-sitter-${name}.wasm`))
+    );
+    grammars.set(name, grammar);
+  }
+  return grammar;
+}
+
+/**
+ * Create a SymbolExtractor backed by a tree-sitter grammar
+ */
+export function createTreeSitterExtractor(language: TreeSitterLanguage): SymbolExtractor {
+  return {
+    name: language.name,
+    extensions: language.extensions,
+    version: language.version,
+
+    async parse(content: string, filePath: string): Promise<SymbolNode[]> {
+      const grammarName = typeof language.grammar === "string" ? language.grammar : language.grammar(filePath);
+      const grammar = await getGrammar(grammarName);
+      const parser = (_parser ??= new (await getRuntime())());
+      parser.setLanguage(grammar);
+      const tree = parser.parse(content);
+
+      const lines = content.split("\n");
+      const builder: SymbolBuilder = {
+        symbol(node, name, kind, options = {}) {
+          const { row, column } = node.endPosition;
+          return {
+            name,
+            kind,
+            startLine: withLeadingLines(lines, node.startPosition.row, language.isLeading),
+            // A node that ends at column 0 ends with the previous line's newline
+            endLine: column === 0 && row > node.startPosition.row ? row - 1 : row,
+            declarationLine: (options.declaration ?? node).startPosition.row,
+            exported: options.exported,
+            children: options.children ?? [],
+          };
+        },
+      };
+
+      try {
+        return language.collect(tree.rootNode, builder);
+      } finally {
+        tree.delete();
+      }
+    },
+  };
+}
+
+/** Doc comments and `//` comments above C-family declarations */
+export const isCComment = (trimmed: string) =>
+  trimmed.startsWith("//") || trimmed.startsWith("/*") || trimmed.startsWith("*");
+
+/** Name of a node's `name` field */
+export const nameOf = (node: SyntaxNode | null | undefined): string | undefined =>
+  node?.childForFieldName("name")?.text;
@@ -0,0 +1,275 @@
+/**
+ * Symbol extraction for TypeScript and JavaScript
+ *
+ * Uses the TypeScript compiler API (a peer dependency, lazy-loaded on first
+ * use). When the compiler is not installed, falls back to the tree-sitter
+ * TypeScript/JavaScript grammars.
+ */
+
+import { extname } from "path";
+import type * as TS from "typescript";
+import type { SymbolNode, SymbolExtractor } from "./common";
+import { withLeadingLines } from "./common";
+import { createTreeSitterExtractor, type SymbolBuilder, type SyntaxNode } from "./tree-sitter";
+
+/** Lazy-loaded compiler (null once loading has failed) */
+let _ts: typeof TS | null | undefined;
+
+async function getTypeScript(): Promise<typeof TS | null> {
+  if (_ts === undefined) {
+    try {
+      const mod = await import("typescript");
+      _ts = (mod.default ?? mod) as typeof TS;
+    } catch {
+      _ts = null;
+    }
+  }
+  return _ts;
+}
+
+const EXTENSIONS = [".ts", ".tsx", ".mts", ".cts", ".js", ".jsx", ".mjs", ".cjs"];
+
+/** Unwrap `x as const`, `x satisfies T` and parentheses */
+function unwrapExpression(node: SyntaxNode | null): SyntaxNode | null {
+  while (node && ["as_expression", "satisfies_expression", "parenthesized_expression"].includes(node.type)) {
+    node = node.firstNamedChild;
+  }
+  return node;
+}
+
+/** Members of a class, interface, object type, enum or object literal */
+function fallbackMembers(body: SyntaxNode | null, builder: SymbolBuilder): SymbolNode[] {
+  if (!body) return [];
+  return mergeOverloads(body.namedChildren.flatMap((member): SymbolNode[] => {
+    if (body.type === "enum_body") {
+      const name = member.type === "enum_assignment" ? member.childForFieldName("name")?.text : member.text;
+      return name ? [builder.symbol(member, name, "member")] : [];
+    }
+    if (member.type === "shorthand_property_identifier") return [builder.symbol(member, member.text, "property")];
+
+    const name = (member.childForFieldName("name") ?? member.childForFieldName("key"))?.text;
+    if (!name) return [];
+    const hidden = member.namedChildren.some((child) => child.type === "accessibility_modifier" && child.text !== "public") ||
+      member.childForFieldName("name")?.type === "private_property_identifier";
+    const value = unwrapExpression(member.childForFieldName("value"));
+
+    if (member.type.startsWith("method_") || member.type === "abstract_method_signature") {
+      return [builder.symbol(member, name, name === "constructor" ? "constructor" : "method", { exported: !hidden })];
+    }
+    if (["public_field_definition", "property_signature", "pair"].includes(member.type)) {
+      const children = value?.type === "object" ? fallbackMembers(value, builder) : [];
+      return [builder.symbol(member, name, "property", { exported: !hidden, children })];
+    }
+    return [];
+  }));
+}
+
+/** Top-level statements (and namespace bodies) */
+function fallbackStatements(block: SyntaxNode | null, builder: SymbolBuilder): SymbolNode[] {
+  if (!block) return [];
+  return mergeOverloads(block.namedChildren.flatMap((statement): SymbolNode[] => {
+    const exported = statement.type === "export_statement";
+    let declaration = exported ? statement.childForFieldName("declaration") : statement;
+    if (declaration?.type === "expression_statement") declaration = declaration.firstNamedChild;
+    if (!declaration) return [];
+
+    const name = declaration.childForFieldName("name")?.text;
+    const kind = FALLBACK_KINDS[declaration.type];
+    if (kind && name) {
+      const body = declaration.childForFieldName(kind === "type" ? "value" : "body");
+      const children = kind === "namespace"
+        ? fallbackStatements(body, builder)
+        : ["class", "interface", "enum", "type"].includes(kind) ? fallbackMembers(body, builder) : [];
+      return [builder.symbol(statement, name, kind, { declaration, exported, children })];
+    }
+
+    if (declaration.type === "lexical_declaration" || declaration.type === "variable_declaration") {
+      const declarators = declaration.namedChildren.filter((child) => child.type === "variable_declarator");
+      return declarators.flatMap((declarator) => {
+        const variable = declarator.childForFieldName("name");
+        if (variable?.type !== "identifier") return [];
+        const value = unwrapExpression(declarator.childForFieldName("value"));
+        // A single declaration includes its `export const` keywords and docs
+        return [builder.symbol(declarators.length === 1 ? statement : declarator, variable.text, "variable", {
+          declaration,
+          exported,
+          children: value?.type === "object" ? fallbackMembers(value, builder) : [],
+        })];
+      });
+    }
+    return [];
+  }));
+}
+
+/** Declaration node type -> symbol kind (tree-sitter fallback) */
+const FALLBACK_KINDS: Record<string, string> = {
+  function_declaration: "function",
+  generator_function_declaration: "function",
+  function_signature: "function",
+  class_declaration: "class",
+  abstract_class_declaration: "class",
+  interface_declaration: "interface",
+  type_alias_declaration: "type",
+  enum_declaration: "enum",
+  internal_module: "namespace",
+  module: "namespace",
+};
+
+/** tree-sitter based fallback used when the TypeScript compiler is unavailable */
+export const fallbackExtractor = createTreeSitterExtractor({
+  name: "typescript-fallback",
+  extensions: EXTENSIONS,
+  version: "1",
+  grammar: (filePath) => {
+    const ext = extname(filePath).toLowerCase();
+    return ext === ".tsx" ? "tsx" : [".js", ".jsx", ".mjs", ".cjs"].includes(ext) ? "javascript" : "typescript";
+  },
+  isLeading: (trimmed) =>
+    trimmed.startsWith("//") || trimmed.startsWith("/*") || trimmed.startsWith("*") || trimmed.startsWith("@"),
+  collect: (root, builder) => fallbackStatements(root, builder),
+});
+
+/**
+ * Get a declaration name as text (identifiers, string literals, private names)
+ */
+function nameOf(ts: typeof TS, name: TS.Node | undefined): string | undefined {
+  if (!name) return undefined;
+  if (ts.isIdentifier(name) || ts.isPrivateIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) {
+    return name.text;
+  }
+  return undefined;
+}
+
+/**
+ * Build the symbol tree from a parsed source file
+ */
+function collectSymbols(ts: typeof TS, sourceFile: TS.SourceFile, lines: string[]): SymbolNode[] {
+  const lineOf = (pos: number) => sourceFile.getLineAndCharacterOfPosition(pos).line;
+  const isComment = (trimmed: string) =>
+    trimmed.startsWith("//") || trimmed.startsWith("/*") || trimmed.startsWith("*");
+
+  const hasModifier = (node: TS.Node, ...kinds: TS.SyntaxKind[]) =>
+    ts.canHaveModifiers(node) && (ts.getModifiers(node) ?? []).some((m) => kinds.includes(m.kind));
+
+  // Top-level: `export` keyword; members: not private/protected
+  const isExported = (node: TS.Node): boolean => {
+    if (ts.isSourceFile(node.parent) || ts.isModuleBlock(node.parent)) {
+      return hasModifier(node, ts.SyntaxKind.ExportKeyword);
+    }
+    const name = (node as TS.NamedDeclaration).name;
+    return !(name && ts.isPrivateIdentifier(name)) &&
+      !hasModifier(node, ts.SyntaxKind.PrivateKeyword, ts.SyntaxKind.ProtectedKeyword);
+  };
+
+  const makeNode = (node: TS.Node, name: string, kind: string, children: SymbolNode[] = []): SymbolNode => ({
+    name,
+    kind,
+    // getStart(sourceFile, true) includes JSDoc; `//` comments are picked up line-wise
+    startLine: withLeadingLines(lines, lineOf(node.getStart(sourceFile, true)), isComment),
+    endLine: lineOf(node.getEnd()),
+    declarationLine: lineOf(node.getStart(sourceFile)),
+    exported: isExported(ts.isVariableDeclaration(node) ? node.parent.parent : node),
+    children,
+  });
+
+  const members = (elements: readonly TS.Node[]): SymbolNode[] =>
+    mergeOverloads(elements.flatMap((element) => {
+      if (ts.isConstructorDeclaration(element)) return [makeNode(element, "constructor", "constructor")];
+      const name = nameOf(ts, (element as TS.NamedDeclaration).name);
+      if (!name) return [];
+      if (ts.isMethodDeclaration(element) || ts.isMethodSignature(element)) return [makeNode(element, name, "method")];
+      if (ts.isPropertyDeclaration(element) || ts.isPropertySignature(element)) {
+        const initializer = ts.isPropertyDeclaration(element) ? element.initializer : undefined;
+        return [makeNode(element, name, "property", initializer ? objectMembers(initializer) : [])];
+      }
+      if (ts.isGetAccessorDeclaration(element) || ts.isSetAccessorDeclaration(element)) {
+        return [makeNode(element, name, "accessor")];
+      }
+      if (ts.isEnumMember(element)) return [makeNode(element, name, "member")];
+      if (ts.isPropertyAssignment(element) || ts.isShorthandPropertyAssignment(element)) {
+        return [makeNode(element, name, "property")];
+      }
+      return [];
+    }));
+
+  // Object literal properties, so `#config.retries` works for `const config = {...}`
+  const objectMembers = (expression: TS.Expression): SymbolNode[] => {
+    let inner = expression;
+    while (ts.isAsExpression(inner) || ts.isSatisfiesExpression(inner) || ts.isParenthesizedExpression(inner)) {
+      inner = inner.expression;
+    }
+    return ts.isObjectLiteralExpression(inner) ? members(inner.properties) : [];
+  };
+
+  const visit = (statements: readonly TS.Statement[]): SymbolNode[] =>
+    mergeOverloads(statements.flatMap((statement): SymbolNode[] => {
+      if (ts.isFunctionDeclaration(statement)) {
+        const name = nameOf(ts, statement.name);
+        return name ? [makeNode(statement, name, "function")] : [];
+      }
+      if (ts.isClassDeclaration(statement)) {
+        const name = nameOf(ts, statement.name);
+        return name ? [makeNode(statement, name, "class", members(statement.members))] : [];
+      }
+      if (ts.isInterfaceDeclaration(statement)) {
+        return [makeNode(statement, statement.name.text, "interface", members(statement.members))];
+      }
+      if (ts.isTypeAliasDeclaration(statement)) {
+        const literal = statement.type;
+        return [makeNode(statement, statement.name.text, "type", ts.isTypeLiteralNode(literal) ? members(literal.members) : [])];
+      }
+      if (ts.isEnumDeclaration(statement)) {
+        return [makeNode(statement, statement.name.text, "enum", members(statement.members))];
+      }
+      if (ts.isModuleDeclaration(statement)) {
+        const name = nameOf(ts, statement.name);
+        const body = statement.body && ts.isModuleBlock(statement.body) ? visit(statement.body.statements) : [];
+        return name ? [makeNode(statement, name, "namespace", body)] : [];
+      }
+      if (ts.isVariableStatement(statement)) {
+        const declarations = statement.declarationList.declarations;
+        return declarations.flatMap((declaration) => {
+          const name = nameOf(ts, declaration.name);
+          if (!name) return [];
+          const children = declaration.initializer ? objectMembers(declaration.initializer) : [];
+          // A single declaration includes its `export const` keywords and docs
+          return [makeNode(declarations.length === 1 ? statement : declaration, name, "variable", children)];
+        });
+      }
+      return [];
+    }));
+
+  return visit(sourceFile.statements);
+}
+
+/**
+ * Merge same-name siblings (function overloads, declaration merging)
+ * into one node spanning all of them
+ */
+function mergeOverloads(nodes: SymbolNode[]): SymbolNode[] {
+  const merged: SymbolNode[] = [];
+  for (const node of nodes) {
+    const previous = merged[merged.length - 1];
+    if (previous && previous.name === node.name && previous.kind === node.kind) {
+      previous.endLine = node.endLine;
+      previous.children.push(...node.children);
+    } else {
+      merged.push({ ...node, children: [...node.children] });
+    }
+  }
+  return merged;
+}
+
+export const typescriptExtractor: SymbolExtractor = {
+  name: "typescript",
+  extensions: EXTENSIONS,
+  version: "1",
+
+  async parse(content: string, filePath: string): Promise<SymbolNode[]> {
+    const ts = await getTypeScript();
+    if (!ts) return fallbackExtractor.parse(content, filePath);
+
+    const sourceFile = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true);
+    return collectSymbols(ts, sourceFile, content.split("\n"));
+  },
+};
@@ -5,11 +5,34 @@
  * before any I/O operations are performed.
  */
 
+/**
+ * Per-import options from a trailing `{...}` block (see ./options)
+ * `@./file.ts{lines=10-50,strip=comments,fence=ts,max_tokens=2000}`
+ */
+export interface ImportOptions {
+  /** Strip comments from the imported source (`strip=comments`) */
+  strip?: 'comments';
+  /** Keep at most this many lines (`max_lines=200`) */
+  maxLines?: number;
+  /** Truncate to about this many tokens (`max_tokens=2000`) */
+  maxTokens?: number;
+  /** Base64-encode the content (`base64`) */
+  base64?: boolean;
+  /** Wrap in a code fence; true infers the language from the extension (`fence`, `fence=ts`) */
+  fence?: string | true;
+  /** Wrap in a labelled section (`label="API types"`) */
+  label?: string;
+  /** Rows kept per table extracted from a document (`rows=50`) */
+  maxRows?: number;
+}
+
 /** File import with optional line range */
 export interface FileImportAction {
   type: 'file';
   path: string;
   lineRange?: { start: number; end: number };
+  /** Options from a trailing `{...}` block */
+  options?: ImportOptions;
   /** Original matched text for replacement */
   original: string;
   /** Position in the original string */
@@ -20,6 +43,8 @@ export interface FileImportAction {
 export interface GlobImportAction {
   type: 'glob';
   pattern: string;
+  /** Options from a trailing `{...}` block */
+  options?: ImportOptions;
   /** Original matched text for replacement */
   original: string;
   /** Position in the original string */
@@ -30,6 +55,8 @@ export interface GlobImportAction {
 export interface UrlImportAction {
   type: 'url';
   url: string;
+  /** Options from a trailing `{...}` block */
+  options?: ImportOptions;
   /** Original matched text for replacement */
   original: string;
   /** Position in the original string */
@@ -40,6 +67,10 @@ export interface UrlImportAction {
 export interface CommandImportAction {
   type: 'command';
   command: string;
+  /** Reuse output for this long (`!`cmd`{cache: 10m}`, see ./cache) */
+  cacheTtlMs?: number;
+  /** Options from a trailing `{...}` block */
+  options?: ImportOptions;
   /** Original matched text for replacement */
   original: string;
   /** Position in the original string */
@@ -51,18 +82,72 @@ export interface SymbolImportAction {
   type: 'symbol';
   path: string;
   symbol: string;
+  /** Options from a trailing `{...}` block */
+  options?: ImportOptions;
   /** Original matched text for replacement */
   original: string;
   /** Position in the original string */
   index: number;
 }
 
+/**
+ * Git import: @git:diff, @git:diff:staged, @git:diff:<ref>, @git:<rev>:<path>,
+ * @git:log, @git:log:<count>, @git:blame:<path>, @git:blame:<path>:<start>-<end>
+ */
+export interface GitImportAction {
+  type: 'git';
+  /** diff (unstaged, staged or against a ref), show (file at a revision), log, blame */
+  operation: 'diff' | 'show' | 'log' | 'blame';
+  /** Diff staged changes instead of the working tree */
+  staged?: boolean;
+  /** Ref to diff against (diff) or revision to read from (show) */
+  ref?: string;
+  /** File path (show, blame) */
+  path?: string;
+  /** Line range (blame) */
+  lineRange?: { start: number; end: number };
+  /** Number of commits (log) */
+  count?: number;
+  /** Options from a trailing `{...}` block */
+  options?: ImportOptions;
+  /** Original matched text for replacement */
+  original: string;
+  /** Position in the original string */
+  index: number;
+}
+
+/**
+ * Attributes from a code fence's info string (see ./runtimes)
+ * ```` ```python run timeout=5 cwd=repo ````
+ */
+export interface CodeFenceAttributes {
+  /** Run the fence with its language's runtime (no shebang needed) */
+  run?: boolean;
+  /** Runtime to use instead of the language's (`runtime=deno`) */
+  runtime?: string;
+  /** Wall-clock limit in milliseconds (`timeout=5` seconds, or `timeout=2m`) */
+  timeoutMs?: number;
+  /** Working directory, relative to the command directory (`cwd=repo`) */
+  cwd?: string;
+  /** Name other fences read this fence's stdout by (`id=users`) */
+  id?: string;
+  /** Read the stdout of the fence with this id on stdin (`stdin=users`) */
+  stdin?: string;
+  /** Read the previous fence's stdout on stdin (`pipe`) */
+  pipe?: boolean;
+  /** Leave the output out of the prompt, e.g. when it is only piped on (`hidden`) */
+  hidden?: boolean;
+  /** SQLite database for `sql` fences (`db=data.sqlite`, default in-memory) */
+  db?: string;
+}
+
 /** Executable Code Fence Action */
 export interface ExecutableCodeFenceAction {
   type: 'executable_code_fence';
-  shebang: string;      // "#!/usr/bin/env bun"
+  shebang?: string;     // "#!/usr/bin/env bun" (absent for `run` fences)
   language: string;     // "ts", "js", "python"
   code: string;         // Code content (without shebang)
+  attributes: CodeFenceAttributes;
   original: string;     // Full match including fence markers
   index: number;
 }
@@ -74,6 +159,7 @@ export type ImportAction =
   | UrlImportAction
   | CommandImportAction
   | SymbolImportAction
+  | GitImportAction
   | ExecutableCodeFenceAction;
 
 /**
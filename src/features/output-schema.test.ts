@@ -0,0 +1,154 @@
+import { describe, it, expect } from "bun:test";
+import {
+  loadOutputSchema,
+  checkOutputSchema,
+  parseOutputRetries,
+  extractJson,
+  validateJsonSchema,
+  validateOutput,
+  buildSchemaRepairPrompt,
+  DEFAULT_OUTPUT_RETRIES,
+} from "./output-schema";
+
+const findingSchema = {
+  type: "object",
+  required: ["severity", "files"],
+  additionalProperties: false,
+  properties: {
+    severity: { enum: ["low", "high"] },
+    files: { type: "array", minItems: 1, items: { type: "string" } },
+    score: { type: "number", minimum: 0, maximum: 1 },
+  },
+};
+
+describe("loadOutputSchema", () => {
+  it("accepts inline schema objects and JSON strings", async () => {
+    expect(await loadOutputSchema({ type: "object" }, "/agents")).toEqual({ type: "object" });
+    expect(await loadOutputSchema('{"type":"array"}', "/agents")).toEqual({ type: "array" });
+  });
+
+  it("loads @./path schemas relative to the agent directory", async () => {
+    let requested = "";
+    const schema = await loadOutputSchema("@./schema.json", "/agents", async (path) => {
+      requested = path;
+      return '{"type":"string"}';
+    });
+    expect(requested).toBe("/agents/schema.json");
+    expect(schema).toEqual({ type: "string" });
+  });
+
+  it("throws ConfigurationError for missing or invalid schemas", async () => {
+    await expect(loadOutputSchema("@./missing.json", "/agents", async () => {
+      throw new Error("ENOENT");
+    })).rejects.toThrow("Output schema not found");
+    await expect(loadOutputSchema("{not json", "/agents")).rejects.toThrow("Invalid output schema");
+    await expect(loadOutputSchema(42, "/agents")).rejects.toThrow("_output_schema must be");
+  });
+});
+
+describe("checkOutputSchema", () => {
+  it("accepts supported and annotation keywords", () => {
+    expect(() => checkOutputSchema({ ...findingSchema, title: "Finding", $schema: "x" })).not.toThrow();
+  });
+
+  it("rejects unsupported keywords with their path", () => {
+    expect(() => checkOutputSchema({ $ref: "#/definitions/a" })).toThrow('unsupported keyword "$ref"');
+    expect(() => checkOutputSchema({ properties: { at: { type: "string", format: "date" } } }))
+      .toThrow('at $.properties.at: unsupported keyword "format"');
+  });
+
+  it("rejects malformed keyword values and invalid patterns", () => {
+    expect(() => checkOutputSchema({ type: "float" })).toThrow('"type" must be a JSON type');
+    expect(() => checkOutputSchema({ items: [{ type: "string" }] })).toThrow("tuple form is not supported");
+    expect(() => checkOutputSchema({ pattern: "([a-z" })).toThrow("not a valid regular expression");
+  });
+
+  it("runs when schemas are loaded", async () => {
+    await expect(loadOutputSchema({ oneOf: [{ format: "email" }] }, "/agents")).rejects.toThrow('unsupported keyword "format"');
+    await expect(loadOutputSchema('{"definitions":{}}', "/agents")).rejects.toThrow('unsupported keyword "definitions"');
+  });
+});
+
+describe("parseOutputRetries", () => {
+  it("defaults and validates", () => {
+    expect(parseOutputRetries(undefined)).toBe(DEFAULT_OUTPUT_RETRIES);
+    expect(parseOutputRetries(0)).toBe(0);
+    expect(parseOutputRetries("3")).toBe(3);
+    expect(() => parseOutputRetries(-1)).toThrow("non-negative integer");
+  });
+});
+
+describe("extractJson", () => {
+  it("parses raw JSON output", () => {
+    expect(extractJson('  {"a": 1}\n')).toEqual({ a: 1 });
+  });
+
+  it("prefers ```json fences over other fences", () => {
+    const output = "Here you go:\n```ts\nconst x = 1;\n```\n```json\n[1, 2]\n```\nDone.";
+    expect(extractJson(output)).toEqual([1, 2]);
+  });
+
+  it("falls back to the outermost object span", () => {
+    expect(extractJson('Result: {"ok": true} (end)')).toEqual({ ok: true });
+  });
+
+  it("returns undefined when no JSON is present", () => {
+    expect(extractJson("just prose")).toBeUndefined();
+    expect(extractJson("")).toBeUndefined();
+  });
+});
+
+describe("validateJsonSchema", () => {
+  it("accepts a valid document", () => {
+    expect(validateJsonSchema({ severity: "high", files: ["a.ts"], score: 0.5 }, findingSchema)).toEqual([]);
+  });
+
+  it("reports paths for nested errors", () => {
+    const errors = validateJsonSchema({ severity: "medium", files: [1], extra: true }, findingSchema);
+    expect(errors).toContain('$.severity: must be one of "low", "high"');
+    expect(errors).toContain("$.files[0]: expected string, got integer");
+    expect(errors).toContain("$.extra: unexpected property");
+  });
+
+  it("checks required properties, ranges and types", () => {
+    expect(validateJsonSchema({ severity: "low" }, findingSchema)).toContain('$: missing required property "files"');
+    expect(validateJsonSchema({ severity: "low", files: ["a"], score: 2 }, findingSchema)).toContain("$.score: must be <= 1");
+    expect(validateJsonSchema("x", findingSchema)).toEqual(["$: expected object, got string"]);
+  });
+
+  it("reports invalid patterns instead of throwing", () => {
+    expect(validateJsonSchema("a", { pattern: "(" })).toEqual(["$: schema pattern ( is not a valid regular expression"]);
+  });
+
+  it("supports anyOf and oneOf", () => {
+    const schema = { anyOf: [{ type: "string" }, { type: "number" }] };
+    expect(validateJsonSchema(1, schema)).toEqual([]);
+    expect(validateJsonSchema(true, schema)).toHaveLength(1);
+    expect(validateJsonSchema(1, { oneOf: [{ type: "number" }, { type: "integer" }] })).toHaveLength(1);
+  });
+});
+
+describe("validateOutput", () => {
+  it("extracts and validates in one step", () => {
+    const result = validateOutput('```json\n{"severity":"low","files":["a"]}\n```', findingSchema);
+    expect(result).toEqual({ valid: true, value: { severity: "low", files: ["a"] } });
+  });
+
+  it("fails when no JSON is found", () => {
+    expect(validateOutput("sorry, no", findingSchema)).toEqual({
+      valid: false,
+      errors: ["No JSON document found in output"],
+    });
+  });
+});
+
+describe("buildSchemaRepairPrompt", () => {
+  it("includes errors, previous output, schema and original request", () => {
+    const prompt = buildSchemaRepairPrompt("List findings", "{bad}", ["$: expected object"], { type: "object" });
+    expect(prompt).toContain("did not match the required JSON schema");
+    expect(prompt).toContain("- $: expected object");
+    expect(prompt).toContain("{bad}");
+    expect(prompt).toContain('"type": "object"');
+    expect(prompt).toContain("Original request:\nList findings");
+  });
+});
@@ -0,0 +1,403 @@
+/**
+ * Output schema validation for agent responses (`_output_schema`)
+ *
+ * Agents that produce JSON can declare a JSON Schema in frontmatter:
+ *
+ * ```yaml
+ * _output_schema: "@./finding.schema.json"   # or an inline schema object
+ * _output_retries: 2
+ * ```
+ *
+ * The runner captures the command's stdout, extracts the JSON document
+ * (raw or from a fenced code block), validates it against the schema and,
+ * on failure, re-invokes the command with a repair prompt.
+ *
+ * Validation supports the commonly used subset of JSON Schema:
+ * type, enum, const, properties, required, additionalProperties, items,
+ * min/maxItems, min/maxLength, pattern, minimum/maximum, anyOf/oneOf/allOf.
+ * Schemas are checked when loaded: any other keyword (`$ref`, `format`, ...)
+ * is rejected rather than silently passing every document.
+ */
+
+import { resolve } from "path";
+import { ConfigurationError } from "../core/errors";
+
+/** Default number of repair attempts when `_output_retries` is not set */
+export const DEFAULT_OUTPUT_RETRIES = 2;
+
+/** A JSON Schema document (subset) */
+export type JsonSchema = Record<string, unknown>;
+
+/** Result of validating captured output */
+export type OutputValidationResult =
+  | { valid: true; value: unknown }
+  | { valid: false; errors: string[] };
+
+/** Keywords the validator enforces */
+const VALIDATION_KEYWORDS = new Set([
+  "type", "enum", "const", "properties", "required", "additionalProperties", "items",
+  "minItems", "maxItems", "minLength", "maxLength", "pattern", "minimum", "maximum",
+  "anyOf", "oneOf", "allOf",
+]);
+
+/** Annotation keywords that carry no validation and are accepted as-is */
+const ANNOTATION_KEYWORDS = new Set([
+  "$schema", "$id", "$comment", "title", "description", "default", "examples",
+]);
+
+const JSON_TYPES = new Set(["null", "boolean", "object", "array", "number", "integer", "string"]);
+
+function isSchemaObject(value: unknown): value is JsonSchema {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Check that a schema only uses supported keywords with well-formed values
+ *
+ * @throws ConfigurationError naming the offending keyword and its path
+ */
+export function checkOutputSchema(schema: JsonSchema, path: string = "$"): void {
+  const fail = (message: string): never => {
+    throw new ConfigurationError(`Invalid output schema at ${path}: ${message}`);
+  };
+
+  for (const [key, value] of Object.entries(schema)) {
+    if (ANNOTATION_KEYWORDS.has(key)) continue;
+    if (!VALIDATION_KEYWORDS.has(key)) {
+      fail(`unsupported keyword "${key}" (supported: ${[...VALIDATION_KEYWORDS].join(", ")})`);
+    }
+
+    switch (key) {
+      case "type": {
+        const types = Array.isArray(value) ? value : [value];
+        if (types.length === 0 || !types.every((t) => typeof t === "string" && JSON_TYPES.has(t))) {
+          fail(`"type" must be a JSON type or a list of JSON types`);
+        }
+        break;
+      }
+      case "enum":
+        if (!Array.isArray(value)) fail(`"enum" must be an array`);
+        break;
+      case "required":
+        if (!Array.isArray(value) || !value.every((k) => typeof k === "string")) fail(`"required" must be a list of property names`);
+        break;
+      case "minItems": case "maxItems": case "minLength": case "maxLength":
+        if (!Number.isInteger(value) || (value as number) < 0) fail(`"${key}" must be a non-negative integer`);
+        break;
+      case "minimum": case "maximum":
+        if (typeof value !== "number") fail(`"${key}" must be a number`);
+        break;
+      case "pattern":
+        if (typeof value !== "string") fail(`"pattern" must be a string`);
+        try {
+          new RegExp(value as string);
+        } catch (err) {
+          fail(`"pattern" is not a valid regular expression: ${(err as Error).message}`);
+        }
+        break;
+      case "properties":
+        if (!isSchemaObject(value)) fail(`"properties" must be an object`);
+        for (const [prop, sub] of Object.entries(value as JsonSchema)) {
+          if (!isSchemaObject(sub)) fail(`property "${prop}" must be a schema object`);
+          checkOutputSchema(sub as JsonSchema, `${path}.properties.${prop}`);
+        }
+        break;
+      case "additionalProperties":
+        if (typeof value === "boolean") break;
+        if (!isSchemaObject(value)) fail(`"additionalProperties" must be a boolean or a schema object`);
+        checkOutputSchema(value as JsonSchema, `${path}.additionalProperties`);
+        break;
+      case "items":
+        if (!isSchemaObject(value)) fail(`"items" must be a schema object (tuple form is not supported)`);
+        checkOutputSchema(value as JsonSchema, `${path}.items`);
+        break;
+      case "anyOf": case "oneOf": case "allOf":
+        if (!Array.isArray(value) || value.length === 0) fail(`"${key}" must be a non-empty list of schemas`);
+        (value as unknown[]).forEach((sub, i) => {
+          if (!isSchemaObject(sub)) fail(`"${key}[${i}]" must be a schema object`);
+          checkOutputSchema(sub as JsonSchema, `${path}.${key}[${i}]`);
+        });
+        break;
+    }
+  }
+}
+
+/**
+ * Load the schema declared by `_output_schema`
+ *
+ * @param value - Inline schema object, inline JSON string, or "@./path.json"
+ * @param agentDir - Directory of the agent file (for relative schema paths)
+ * @param readText - File reader (SystemEnvironment-backed in the runner)
+ * @throws ConfigurationError if the schema cannot be loaded or parsed, or uses unsupported keywords
+ */
+export async function loadOutputSchema(
+  value: unknown,
+  agentDir: string,
+  readText: (path: string) => Promise<string> = (path) => Bun.file(path).text()
+): Promise<JsonSchema> {
+  if (isSchemaObject(value)) {
+    checkOutputSchema(value);
+    return value;
+  }
+
+  if (typeof value !== "string" || !value.trim()) {
+    throw new ConfigurationError("_output_schema must be a schema object, JSON string, or @./path.json");
+  }
+
+  let source = value.trim();
+  let origin = "inline _output_schema";
+  if (source.startsWith("@")) {
+    const schemaPath = resolve(agentDir, source.slice(1));
+    origin = schemaPath;
+    try {
+      source = await readText(schemaPath);
+    } catch {
+      throw new ConfigurationError(`Output schema not found: ${schemaPath}`);
+    }
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(source);
+    if (!isSchemaObject(parsed)) {
+      throw new Error("schema must be a JSON object");
+    }
+  } catch (err) {
+    throw new ConfigurationError(`Invalid output schema (${origin}): ${(err as Error).message}`);
+  }
+  checkOutputSchema(parsed);
+  return parsed;
+}
+
+/**
+ * Parse `_output_retries` (defaults to DEFAULT_OUTPUT_RETRIES)
+ */
+export function parseOutputRetries(value: unknown): number {
+  if (value === undefined || value === null || value === "") return DEFAULT_OUTPUT_RETRIES;
+  const retries = Number(value);
+  if (!Number.isInteger(retries) || retries < 0) {
+    throw new ConfigurationError(`_output_retries must be a non-negative integer, got: ${value}`);
+  }
+  return retries;
+}
+
+/**
+ * Extract a JSON document from model output
+ *
+ * Tries, in order: the whole output, fenced code blocks (```json first),
+ * then the outermost {...} or [...] span.
+ *
+ * @returns The parsed value, or undefined if no JSON could be found
+ */
+export function extractJson(output: string): unknown {
+  const tryParse = (text: string): { ok: boolean; value?: unknown } => {
+    try {
+      return { ok: true, value: JSON.parse(text) };
+    } catch {
+      return { ok: false };
+    }
+  };
+
+  const trimmed = output.trim();
+  if (!trimmed) return undefined;
+
+  const whole = tryParse(trimmed);
+  if (whole.ok) return whole.value;
+
+  // Fenced code blocks - prefer ```json, then any fence
+  const fences = [...trimmed.matchAll(/```([\w-]*)[^\n]*\n([\s\S]*?)```/g)];
+  const ordered = [
+    ...fences.filter((m) => m[1]?.toLowerCase() === "json"),
+    ...fences.filter((m) => m[1]?.toLowerCase() !== "json"),
+  ];
+  for (const fence of ordered) {
+    const result = tryParse((fence[2] ?? "").trim());
+    if (result.ok) return result.value;
+  }
+
+  // Outermost object/array span
+  for (const [open, close] of [["{", "}"], ["[", "]"]] as const) {
+    const start = trimmed.indexOf(open);
+    const end = trimmed.lastIndexOf(close);
+    if (start !== -1 && end > start) {
+      const result = tryParse(trimmed.slice(start, end + 1));
+      if (result.ok) return result.value;
+    }
+  }
+
+  return undefined;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  if (type === "number") return actual === "number" || actual === "integer";
+  return actual === type;
+}
+
+/**
+ * Validate a value against a JSON Schema (subset)
+ *
+ * @param value - The value to validate
+ * @param schema - The schema to validate against
+ * @param path - JSON path used in error messages
+ * @returns List of validation errors (empty when valid)
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path: string = "$"): string[] {
+  const errors: string[] = [];
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? (schema.type as string[]) : [schema.type as string];
+    if (!types.some((t) => matchesType(value, t))) {
+      errors.push(`${path}: expected ${types.join(" | ")}, got ${typeOf(value)}`);
+      return errors;
+    }
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((e) => JSON.stringify(e) === JSON.stringify(value))) {
+    errors.push(`${path}: must be one of ${schema.enum.map((e) => JSON.stringify(e)).join(", ")}`);
+  }
+
+  if ("const" in schema && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+    errors.push(`${path}: must equal ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === "string") {
+    if (typeof schema.minLength === "number" && value.length < schema.minLength) {
+      errors.push(`${path}: must be at least ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === "number" && value.length > schema.maxLength) {
+      errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+    }
+    if (typeof schema.pattern === "string") {
+      // Loaded schemas are checked up front; guard direct callers with unchecked patterns
+      let pattern: RegExp | undefined;
+      try {
+        pattern = new RegExp(schema.pattern);
+      } catch {
+        errors.push(`${path}: schema pattern ${schema.pattern} is not a valid regular expression`);
+      }
+      if (pattern && !pattern.test(value)) {
+        errors.push(`${path}: must match pattern ${schema.pattern}`);
+      }
+    }
+  }
+
+  if (typeof value === "number") {
+    if (typeof schema.minimum === "number" && value < schema.minimum) {
+      errors.push(`${path}: must be >= ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === "number" && value > schema.maximum) {
+      errors.push(`${path}: must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+      errors.push(`${path}: must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items && typeof schema.items === "object" && !Array.isArray(schema.items)) {
+      value.forEach((item, i) => {
+        errors.push(...validateJsonSchema(item, schema.items as JsonSchema, `${path}[${i}]`));
+      });
+    }
+  }
+
+  if (typeOf(value) === "object") {
+    const obj = value as Record<string, unknown>;
+    const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+
+    if (Array.isArray(schema.required)) {
+      for (const key of schema.required as string[]) {
+        if (!(key in obj)) errors.push(`${path}: missing required property "${key}"`);
+      }
+    }
+
+    for (const [key, propValue] of Object.entries(obj)) {
+      const propPath = `${path}.${key}`;
+      if (properties[key]) {
+        errors.push(...validateJsonSchema(propValue, properties[key]!, propPath));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${propPath}: unexpected property`);
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === "object") {
+        errors.push(...validateJsonSchema(propValue, schema.additionalProperties as JsonSchema, propPath));
+      }
+    }
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    for (const sub of schema.allOf as JsonSchema[]) {
+      errors.push(...validateJsonSchema(value, sub, path));
+    }
+  }
+
+  if (Array.isArray(schema.anyOf)) {
+    const anyValid = (schema.anyOf as JsonSchema[]).some((sub) => validateJsonSchema(value, sub, path).length === 0);
+    if (!anyValid) errors.push(`${path}: must match at least one schema in anyOf`);
+  }
+
+  if (Array.isArray(schema.oneOf)) {
+    const matches = (schema.oneOf as JsonSchema[]).filter((sub) => validateJsonSchema(value, sub, path).length === 0).length;
+    if (matches !== 1) errors.push(`${path}: must match exactly one schema in oneOf (matched ${matches})`);
+  }
+
+  return errors;
+}
+
+/**
+ * Extract and validate JSON from captured command output
+ */
+export function validateOutput(output: string, schema: JsonSchema): OutputValidationResult {
+  const value = extractJson(output);
+  if (value === undefined) {
+    return { valid: false, errors: ["No JSON document found in output"] };
+  }
+  const errors = validateJsonSchema(value, schema);
+  return errors.length === 0 ? { valid: true, value } : { valid: false, errors };
+}
+
+/**
+ * Build a follow-up prompt asking the model to repair its output
+ * (mirrors buildFixPrompt in the failure menu)
+ */
+export function buildSchemaRepairPrompt(
+  originalPrompt: string,
+  output: string,
+  errors: string[],
+  schema: JsonSchema
+): string {
+  const parts: string[] = [];
+
+  parts.push("Your previous response did not match the required JSON schema.\n");
+
+  parts.push("--- VALIDATION ERRORS ---");
+  parts.push(errors.map((e) => `- ${e}`).join("\n"));
+  parts.push("--- END VALIDATION ERRORS ---\n");
+
+  if (output.trim()) {
+    parts.push("--- PREVIOUS RESPONSE (partial) ---");
+    // Limit output to avoid context explosion
+    const truncated = output.length > 2000 ? output.slice(-2000) + "\n... (truncated)" : output;
+    parts.push(truncated.trim());
+    parts.push("--- END PREVIOUS RESPONSE ---\n");
+  }
+
+  parts.push("--- REQUIRED SCHEMA ---");
+  parts.push(JSON.stringify(schema, null, 2));
+  parts.push("--- END REQUIRED SCHEMA ---\n");
+
+  parts.push("Respond with ONLY a single JSON document that matches the schema.");
+  parts.push("\nOriginal request:");
+  parts.push(originalPrompt);
+
+  return parts.join("\n");
+}
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, mkdir, rm, writeFile, readFile } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import {
+  PinStore,
+  findLockfile,
+  readPinFile,
+  hashPinContent,
+  diffLines,
+  createImportPinVerifier,
+  LOCKFILE_NAME,
+} from "./pins";
+
+describe("pins", () => {
+  let testDir: string;
+  let store: PinStore;
+
+  beforeEach(async () => {
+    testDir = await mkdtemp(join(tmpdir(), "pins-test-"));
+    store = new PinStore({ userFile: join(testDir, "pins.json"), snapshotDir: join(testDir, "snapshots") });
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  describe("findLockfile", () => {
+    it("finds mdflow.lock in a parent directory up to the git root", async () => {
+      await mkdir(join(testDir, ".git"));
+      await mkdir(join(testDir, "a", "b"), { recursive: true });
+      expect(findLockfile(join(testDir, "a", "b"))).toBeNull();
+
+      await writeFile(join(testDir, LOCKFILE_NAME), "");
+      expect(findLockfile(join(testDir, "a", "b"))).toBe(join(testDir, LOCKFILE_NAME));
+    });
+  });
+
+  describe("PinStore", () => {
+    it("reports unpinned, pinned and changed content", async () => {
+      const url = "https://example.com/agent.claude.md";
+      expect((await store.check("agents", url, "v1")).status).toBe("unpinned");
+
+      await store.pin("agents", url, "v1");
+      expect(await store.check("agents", url, "v1")).toEqual({
+        status: "pinned", hash: hashPinContent("v1"), pinned: hashPinContent("v1"),
+      });
+
+      const changed = await store.check("agents", url, "v2");
+      expect(changed).toMatchObject({ status: "changed", pinned: hashPinContent("v1"), previous: "v1" });
+      // Agents and imports are pinned separately
+      expect((await store.check("imports", url, "v1")).status).toBe("unpinned");
+    });
+
+    it("writes the lockfile with sorted keys", async () => {
+      const lockfile = join(testDir, LOCKFILE_NAME);
+      const project = new PinStore({ lockfile, snapshotDir: join(testDir, "snapshots") });
+      expect(project.isLockfile).toBe(true);
+
+      await Promise.all([
+        project.pin("imports", "https://b.example.com/x.md", "b"),
+        project.pin("imports", "https://a.example.com/x.md", "a"),
+      ]);
+      const written = JSON.parse(await readFile(lockfile, "utf-8"));
+      expect(written).toEqual({
+        version: 1,
+        agents: {},
+        imports: { "https://a.example.com/x.md": hashPinContent("a"), "https://b.example.com/x.md": hashPinContent("b") },
+      });
+      expect(Object.keys(written.imports)[0]).toBe("https://a.example.com/x.md");
+    });
+  });
+
+  describe("readPinFile", () => {
+    it("treats missing and empty files as having no pins", async () => {
+      expect(await readPinFile(join(testDir, "missing.lock"))).toEqual({ version: 1, agents: {}, imports: {} });
+      await writeFile(join(testDir, "empty.lock"), "\n");
+      expect(await readPinFile(join(testDir, "empty.lock"))).toEqual({ version: 1, agents: {}, imports: {} });
+    });
+
+    it("rejects malformed files", async () => {
+      await writeFile(join(testDir, "bad.lock"), "{ nope");
+      await expect(readPinFile(join(testDir, "bad.lock"))).rejects.toThrow("Invalid pin file");
+      await writeFile(join(testDir, "v2.lock"), JSON.stringify({ version: 2, agents: {} }));
+      await expect(readPinFile(join(testDir, "v2.lock"))).rejects.toThrow("expected");
+    });
+  });
+
+  describe("diffLines", () => {
+    it("shows changed lines with context", () => {
+      const before = ["a", "b", "c", "d", "e", "f", "g", "h"].join("\n");
+      const after = ["a", "b", "c", "d", "E", "f", "g", "h", "i"].join("\n");
+      expect(diffLines(before, after, 1)).toBe(["@@", " d", "-e", "+E", " f", "@@", " h", "+i"].join("\n"));
+    });
+
+    it("is empty for identical texts", () => {
+      expect(diffLines("same\ntext", "same\ntext")).toBe("");
+    });
+  });
+
+  describe("createImportPinVerifier", () => {
+    const url = "https://example.com/style.md";
+
+    it("pins unpinned imports and accepts them afterwards", async () => {
+      const verify = createImportPinVerifier({ store, frozen: false, interactive: false });
+      await verify(url, "rules");
+      expect((await store.check("imports", url, "rules")).status).toBe("pinned");
+      await expect(verify(url, "rules")).resolves.toBeUndefined();
+    });
+
+    it("fails on unpinned or changed imports when frozen", async () => {
+      const verify = createImportPinVerifier({ store, frozen: true, interactive: true });
+      await expect(verify(url, "rules")).rejects.toThrow("URL import is not pinned");
+
+      await store.pin("imports", url, "rules");
+      await expect(verify(url, "new rules")).rejects.toThrow("URL import changed since it was pinned");
+    });
+
+    it("asks before accepting changed imports", async () => {
+      await store.pin("imports", url, "rules");
+      const asked: (string | undefined)[] = [];
+      let accept = false;
+      const verify = createImportPinVerifier({
+        store, frozen: false, interactive: true,
+        confirmChange: async (_url, check, content) => {
+          asked.push(diffLines(check.previous!, content));
+          return accept;
+        },
+      });
+
+      await expect(verify(url, "new rules")).rejects.toThrow("Changed URL import rejected");
+      accept = true;
+      await verify(url, "new rules");
+      expect(asked).toEqual(["@@\n-rules\n+new rules", "@@\n-rules\n+new rules"]);
+      expect((await store.check("imports", url, "new rules")).status).toBe("pinned");
+    });
+
+    it("refuses changed imports without a terminal", async () => {
+      await store.pin("imports", url, "rules");
+      const verify = createImportPinVerifier({ store, frozen: false, interactive: false });
+      await expect(verify(url, "new rules")).rejects.toThrow("Run interactively");
+    });
+  });
+});
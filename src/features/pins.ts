@@ -0,0 +1,355 @@
+/**
+ * Content pins for remote agents and URL imports
+ *
+ * The SHA-256 of remote content is recorded when it is approved. Later runs
+ * compare what was fetched against the pin and re-prompt with a diff when it
+ * changed, so a trusted URL cannot silently start serving something else.
+ *
+ * Pins live in ~/.mdflow/pins.json, or in the project's `mdflow.lock` when
+ * one exists (in the working directory or up to the git root). Commit the
+ * lockfile to share pins; URL imports are only pinned through a lockfile:
+ *
+ * ```json
+ * {
+ *   "version": 1,
+ *   "agents": { "https://example.com/review.claude.md": "<sha256>" },
+ *   "imports": { "https://example.com/style.md": "<sha256>" }
+ * }
+ * ```
+ *
+ * With `--_frozen` (for CI) any unpinned or changed remote content is an
+ * error instead of a prompt, and nothing is recorded.
+ *
+ * Approved content is kept in ~/.mdflow/pins/<sha256> so a change can be
+ * shown as a diff against it.
+ */
+
+import { homedir } from "os";
+import { join, dirname, resolve } from "path";
+import { existsSync } from "fs";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { createHash } from "crypto";
+import { SecurityError, ConfigurationError } from "../core/errors";
+import { findGitRoot } from "./config";
+
+const CONFIG_DIR = join(homedir(), ".mdflow");
+
+/** Default file for pins outside a project with a lockfile */
+export const USER_PINS_FILE = join(CONFIG_DIR, "pins.json");
+
+/** Directory of approved content snapshots (for diffs) */
+export const PIN_SNAPSHOT_DIR = join(CONFIG_DIR, "pins");
+
+/** Name of the project lockfile */
+export const LOCKFILE_NAME = "mdflow.lock";
+
+/** Lines of unchanged context shown around each change */
+const DIFF_CONTEXT_LINES = 3;
+
+/** Above this many line pairs the diff falls back to one removed/added block */
+const MAX_DIFF_CELLS = 4_000_000;
+
+/** Pinned remote agents or URL imports */
+export type PinKind = "agents" | "imports";
+
+/** Pin file layout (mdflow.lock and ~/.mdflow/pins.json) */
+export interface PinFile {
+  version: 1;
+  /** Remote agent URL → SHA-256 of its content */
+  agents: Record<string, string>;
+  /** URL import → SHA-256 of its content */
+  imports: Record<string, string>;
+}
+
+/** Outcome of comparing fetched content with its pin */
+export interface PinCheck {
+  status: "pinned" | "unpinned" | "changed";
+  /** SHA-256 of the fetched content */
+  hash: string;
+  /** SHA-256 recorded in the pin (when pinned or changed) */
+  pinned?: string;
+  /** Previously approved content, if its snapshot is available (when changed) */
+  previous?: string;
+}
+
+/**
+ * Generate a SHA-256 hash of pinned content
+ */
+export function hashPinContent(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Find the project lockfile: the working directory, then its parents up to
+ * the git root. Returns null when there is none.
+ */
+export function findLockfile(cwd: string): string | null {
+  const start = resolve(cwd);
+  const stop = findGitRoot(start) ?? start;
+  let dir = start;
+  while (true) {
+    const candidate = join(dir, LOCKFILE_NAME);
+    if (existsSync(candidate)) return candidate;
+    if (dir === stop || dirname(dir) === dir) return null;
+    dir = dirname(dir);
+  }
+}
+
+/** Options for PinStore */
+export interface PinStoreOptions {
+  /** Project lockfile (findLockfile); pins are read from and written to it when set */
+  lockfile?: string | null;
+  /** Pin file used without a lockfile (defaults to ~/.mdflow/pins.json) */
+  userFile?: string;
+  /** Approved content snapshots (defaults to ~/.mdflow/pins/) */
+  snapshotDir?: string;
+}
+
+/**
+ * Pins of one run: the project lockfile if there is one, else the user's pins
+ */
+export class PinStore {
+  /** File pins are read from and written to */
+  readonly path: string;
+  /** Pins come from a project lockfile */
+  readonly isLockfile: boolean;
+  private snapshotDir: string;
+  private file: Promise<PinFile> | undefined;
+  /** Serializes writes so concurrent imports don't drop each other's pins */
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(options: PinStoreOptions = {}) {
+    this.isLockfile = Boolean(options.lockfile);
+    this.path = options.lockfile || options.userFile || USER_PINS_FILE;
+    this.snapshotDir = options.snapshotDir ?? PIN_SNAPSHOT_DIR;
+  }
+
+  /**
+   * Compare fetched content with its pin
+   */
+  async check(kind: PinKind, url: string, content: string): Promise<PinCheck> {
+    const hash = hashPinContent(content);
+    const pinned = (await this.load())[kind][url];
+    if (!pinned) return { status: "unpinned", hash };
+    if (pinned === hash) return { status: "pinned", hash, pinned };
+    const previous = await readFile(join(this.snapshotDir, pinned), "utf-8").catch(() => undefined);
+    return { status: "changed", hash, pinned, previous };
+  }
+
+  /**
+   * Record content as approved for a URL
+   */
+  async pin(kind: PinKind, url: string, content: string): Promise<void> {
+    const hash = hashPinContent(content);
+    const write = this.writes.then(async () => {
+      const file = await this.load();
+      file[kind][url] = hash;
+      await mkdir(dirname(this.path), { recursive: true });
+      await writeFile(this.path, formatPinFile(file));
+      // The snapshot only serves diffs; losing it is not an error
+      await mkdir(this.snapshotDir, { recursive: true })
+        .then(() => writeFile(join(this.snapshotDir, hash), content))
+        .catch(() => {});
+    });
+    this.writes = write.catch(() => {});
+    await write;
+  }
+
+  private load(): Promise<PinFile> {
+    this.file ??= readPinFile(this.path);
+    return this.file;
+  }
+}
+
+/**
+ * Read a pin file; a missing file has no pins
+ * @throws ConfigurationError if the file is not a valid pin file
+ */
+export async function readPinFile(path: string): Promise<PinFile> {
+  let text: string;
+  try {
+    text = await readFile(path, "utf-8");
+  } catch {
+    return { version: 1, agents: {}, imports: {} };
+  }
+  // An empty lockfile opts the project in without pinning anything yet
+  if (!text.trim()) return { version: 1, agents: {}, imports: {} };
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (err) {
+    throw new ConfigurationError(`Invalid pin file ${path}: ${(err as Error).message}`);
+  }
+  const file = data as Partial<PinFile>;
+  const isMap = (value: unknown) =>
+    value === undefined ||
+    (typeof value === "object" && value !== null && !Array.isArray(value) &&
+      Object.values(value).every((hash) => typeof hash === "string"));
+  if (typeof data !== "object" || data === null || file.version !== 1 || !isMap(file.agents) || !isMap(file.imports)) {
+    throw new ConfigurationError(`Invalid pin file ${path}: expected { "version": 1, "agents": {url: sha256}, "imports": {url: sha256} }`);
+  }
+  return { version: 1, agents: { ...file.agents }, imports: { ...file.imports } };
+}
+
+/**
+ * Serialize a pin file with sorted keys (stable diffs when committed)
+ */
+function formatPinFile(file: PinFile): string {
+  const sorted = (map: Record<string, string>) =>
+    Object.fromEntries(Object.entries(map).sort(([a], [b]) => a.localeCompare(b)));
+  return JSON.stringify({ version: 1, agents: sorted(file.agents), imports: sorted(file.imports) }, null, 2) + "\n";
+}
+
+/**
+ * Line diff of two texts in unified style (`-` removed, `+` added, ` ` context)
+ * Hunks are separated by `@@` lines; unchanged stretches are elided.
+ */
+export function diffLines(before: string, after: string, context: number = DIFF_CONTEXT_LINES): string {
+  const a = before.split("\n");
+  const b = after.split("\n");
+
+  // Trim the common prefix and suffix so the LCS only covers the changed middle
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) { endA--; endB--; }
+
+  const ops: { op: " " | "-" | "+"; line: string }[] = a.slice(0, start).map((line) => ({ op: " ", line }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_DIFF_CELLS) {
+    ops.push(...midA.map((line) => ({ op: "-" as const, line })), ...midB.map((line) => ({ op: "+" as const, line })));
+  } else {
+    // lcs[i][j]: length of the LCS of midA[i..] and midB[j..]
+    const width = midB.length + 1;
+    const lcs = new Uint32Array((midA.length + 1) * width);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lcs[i * width + j] = midA[i] === midB[j]
+          ? lcs[(i + 1) * width + j + 1]! + 1
+          : Math.max(lcs[(i + 1) * width + j]!, lcs[i * width + j + 1]!);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < midA.length || j < midB.length) {
+      if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+        ops.push({ op: " ", line: midA[i++]! });
+        j++;
+      } else if (i < midA.length && (j === midB.length || lcs[(i + 1) * width + j]! >= lcs[i * width + j + 1]!)) {
+        ops.push({ op: "-", line: midA[i++]! });
+      } else {
+        ops.push({ op: "+", line: midB[j++]! });
+      }
+    }
+  }
+  ops.push(...a.slice(endA).map((line) => ({ op: " " as const, line })));
+
+  // Keep changes plus `context` lines around them
+  const keep = ops.map(() => false);
+  ops.forEach(({ op }, index) => {
+    if (op === " ") return;
+    for (let k = Math.max(0, index - context); k <= Math.min(ops.length - 1, index + context); k++) keep[k] = true;
+  });
+  const out: string[] = [];
+  ops.forEach(({ op, line }, index) => {
+    if (!keep[index]) return;
+    if (index === 0 || !keep[index - 1]) out.push("@@");
+    out.push(`${op}${line}`);
+  });
+  return out.join("\n");
+}
+
+/** How a run treats unpinned and changed content */
+export interface PinPolicy {
+  store: PinStore;
+  /** --_frozen: unpinned or changed content is an error */
+  frozen: boolean;
+  /** Changed content may be reviewed at a prompt (stdin is a TTY) */
+  interactive: boolean;
+  /** Ask whether to accept changed content (defaults to promptForPinChange) */
+  confirmChange?: (url: string, check: PinCheck, content: string) => Promise<boolean>;
+}
+
+/**
+ * Create the pin check applied to URL imports (ImportContext.pins)
+ *
+ * Unpinned imports are recorded, changed ones are reviewed at a prompt (or
+ * are errors without a TTY), and with --_frozen both are errors. Checks run
+ * one at a time so prompts for parallel imports don't interleave.
+ */
+export function createImportPinVerifier(policy: PinPolicy): (url: string, content: string) => Promise<void> {
+  let queue: Promise<void> = Promise.resolve();
+  return (url, content) => {
+    const result = queue.then(() => verifyImportPin(policy, url, content));
+    queue = result.catch(() => {});
+    return result;
+  };
+}
+
+async function verifyImportPin(policy: PinPolicy, url: string, content: string): Promise<void> {
+  const { store, frozen, interactive } = policy;
+  const check = await store.check("imports", url, content);
+  if (check.status === "pinned") return;
+
+  if (check.status === "unpinned") {
+    if (frozen) {
+      const hint = store.isLockfile ? "run without --_frozen to pin it" : `create ${LOCKFILE_NAME} and run without --_frozen to pin it`;
+      throw new SecurityError(`URL import is not pinned in ${store.path}: ${url} (${hint})`);
+    }
+    await store.pin("imports", url, content);
+    return;
+  }
+
+  if (frozen || !interactive) {
+    throw new SecurityError(
+      `URL import changed since it was pinned: ${url} (sha256 ${check.pinned} → ${check.hash}). ` +
+      `Run interactively without --_frozen to review the change.`
+    );
+  }
+  const confirmChange = policy.confirmChange ?? promptForPinChange;
+  if (!(await confirmChange(url, check, content))) {
+    throw new SecurityError(`Changed URL import rejected: ${url}`);
+  }
+  await store.pin("imports", url, content);
+}
+
+/**
+ * Show how pinned content changed and ask whether to accept the new version
+ *
+ * @param url - URL whose content changed
+ * @param check - Result of PinStore.check for the new content
+ * @param content - The new content (diffed against the approved snapshot)
+ */
+export async function promptForPinChange(url: string, check: PinCheck, content?: string): Promise<boolean> {
+  const { confirm } = await import("@inquirer/prompts");
+
+  console.error("\n");
+  console.error("=".repeat(70));
+  console.error("SECURITY WARNING: Pinned Content Changed");
+  console.error("=".repeat(70));
+  console.error("");
+  console.error(`URL: ${url}`);
+  console.error(`Pinned:  sha256 ${check.pinned}`);
+  console.error(`Fetched: sha256 ${check.hash}`);
+  console.error("");
+  if (check.previous !== undefined && content !== undefined) {
+    console.error("-".repeat(70));
+    console.error("Changes since approval:");
+    console.error("-".repeat(70));
+    console.error(diffLines(check.previous, content));
+  } else {
+    console.error("(The approved version is not available locally, so no diff can be shown.)");
+  }
+  console.error("");
+  console.error("=".repeat(70));
+  console.error("");
+
+  return confirm({
+    message: "Accept the changed content and update the pin?",
+    default: false,
+  });
+}
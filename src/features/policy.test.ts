@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { mkdtemp, rm } from "fs/promises";
+import { join } from "path";
+import { tmpdir, homedir } from "os";
+import {
+  classifyCapabilities,
+  ruleMatches,
+  decideCapability,
+  evaluatePolicy,
+  createPolicyChecker,
+  type Capability,
+} from "./policy";
+import { expandCommandImports } from "./imports/index";
+import type { PolicyRuleConfig } from "../core/types";
+
+const command: Capability = { kind: "command", detail: "git status" };
+const hook: Capability = { kind: "hook", detail: "pre: make" };
+const githubImport: Capability = { kind: "import", domain: "raw.githubusercontent.com", detail: "https://raw.githubusercontent.com/a/b/main/x.md" };
+
+describe("classifyCapabilities", () => {
+  it("lists imports, commands, code fences, hooks and env once each", () => {
+    const body = [
+      "@https://example.com/rules.md",
+      "@./local.md",
+      "Status: !`git status`",
+      "Again: !`git status`",
+      "```sh\n#!/bin/sh\necho hi\n```",
+    ].join("\n");
+    const capabilities = classifyCapabilities({ pre: "make build", _env: { TOKEN: "x", MODE: "y" } }, body);
+    expect(capabilities).toEqual([
+      { kind: "import", domain: "example.com", detail: "https://example.com/rules.md" },
+      { kind: "command", detail: "git status" },
+      { kind: "code-fence", detail: "sh (#!/bin/sh)" },
+      { kind: "hook", detail: "pre: make build" },
+      { kind: "env", detail: "TOKEN, MODE" },
+    ]);
+  });
+
+  it("finds nothing in a plain prompt", () => {
+    expect(classifyCapabilities({ model: "opus" }, "Review the diff.")).toEqual([]);
+  });
+});
+
+describe("ruleMatches", () => {
+  it("matches domains, URL globs and path globs", () => {
+    const url = "https://raw.githubusercontent.com/org/agents/main/review.md";
+    expect(ruleMatches("raw.githubusercontent.com", url)).toBe(true);
+    expect(ruleMatches("*.githubusercontent.com", url)).toBe(true);
+    expect(ruleMatches("example.com", url)).toBe(false);
+    expect(ruleMatches("https://raw.githubusercontent.com/org/**", url)).toBe(true);
+    expect(ruleMatches("https://raw.githubusercontent.com/other/**", url)).toBe(false);
+
+    expect(ruleMatches("~/work/**", join(homedir(), "work/app/task.md"))).toBe(true);
+    expect(ruleMatches("agents/*.md", "/repo/agents/task.md")).toBe(true);
+    expect(ruleMatches("raw.githubusercontent.com", "/repo/agents/task.md")).toBe(false);
+    expect(ruleMatches("agents/*.md", url)).toBe(false);
+  });
+});
+
+describe("decideCapability", () => {
+  const rules: PolicyRuleConfig[] = [
+    { match: "raw.githubusercontent.com", allow: ["command", "import:*.githubusercontent.com"], deny: ["hook"] },
+    { match: "https://raw.githubusercontent.com/org/**", allow: ["*"] },
+  ];
+
+  it("lets deny win over allow", () => {
+    expect(decideCapability(hook, "https://raw.githubusercontent.com/org/a.md", rules, true)).toBe("deny");
+    expect(decideCapability(command, "https://raw.githubusercontent.com/org/a.md", rules, true)).toBe("allow");
+  });
+
+  it("matches imports by domain", () => {
+    expect(decideCapability(githubImport, "https://raw.githubusercontent.com/x/a.md", rules, true)).toBe("allow");
+    const other: Capability = { kind: "import", domain: "example.com", detail: "https://example.com/x.md" };
+    expect(decideCapability(other, "https://raw.githubusercontent.com/x/a.md", rules, true)).toBe("ask");
+  });
+
+  it("asks for remote agents and allows local ones without a rule", () => {
+    expect(decideCapability(command, "https://example.com/a.md", rules, true)).toBe("ask");
+    expect(decideCapability(command, "/repo/a.md", rules, false)).toBe("allow");
+  });
+
+  it("sorts capabilities by decision", () => {
+    expect(evaluatePolicy([command, hook], "https://raw.githubusercontent.com/x/a.md", rules, true)).toEqual({
+      allow: [command], deny: [hook], ask: [],
+    });
+  });
+});
+
+describe("createPolicyChecker", () => {
+  const scope = "https://example.com/agent.md";
+
+  it("throws for denied capabilities", async () => {
+    const checker = createPolicyChecker({ rules: [{ match: "example.com", deny: ["command"] }], scope, remote: true, interactive: true });
+    expect(() => checker.assertAllowed([command])).toThrow("Trust policy denies shell command: git status");
+    await expect(checker.check([command])).rejects.toThrow("Trust policy denies");
+  });
+
+  it("asks once per capability and scope", async () => {
+    const asked: string[][] = [];
+    const checker = createPolicyChecker({
+      rules: [], scope, remote: true, interactive: true,
+      confirm: async (_scope, capabilities) => (asked.push(capabilities.map((c) => c.detail)), true),
+    });
+    await checker.check([command]);
+    await checker.check([command, hook]);
+    expect(asked).toEqual([["git status"], ["pre: make"]]);
+  });
+
+  it("skips capabilities approved in the trust prompt", async () => {
+    const checker = createPolicyChecker({
+      rules: [], scope, remote: true, interactive: true,
+      confirm: async () => { throw new Error("should not ask"); },
+    });
+    checker.approve([command]);
+    await checker.check([command]);
+  });
+
+  it("rejects declined capabilities", async () => {
+    const checker = createPolicyChecker({ rules: [], scope, remote: true, interactive: true, confirm: async () => false });
+    await expect(checker.check([command])).rejects.toThrow("were not approved");
+  });
+
+  it("suggests a config rule without a terminal", async () => {
+    const checker = createPolicyChecker({ rules: [], scope: "/repo/a.md", remote: false, interactive: false });
+    await checker.check([command]);
+    await expect(checker.check([command], "https://example.com/x.md")).rejects.toThrow(
+      'allow it in config: policy: [{ match: "https://example.com/x.md", allow: ["command"] }]'
+    );
+  });
+});
+
+describe("policy in command imports", () => {
+  let testDir: string;
+
+  beforeAll(async () => {
+    testDir = await mkdtemp(join(tmpdir(), "policy-test-"));
+  });
+
+  afterAll(async () => {
+    await rm(testDir, { recursive: true });
+  });
+
+  it("refuses commands and code fences the policy denies", async () => {
+    const policy = createPolicyChecker({
+      rules: [{ match: "agents/**", deny: ["command", "code-fence"] }],
+      scope: "/repo/agents/task.md", remote: false, interactive: false,
+    });
+    await expect(expandCommandImports("!`echo hi`", testDir, false, { policy })).rejects.toThrow("denies shell command: echo hi");
+    await expect(expandCommandImports("```sh\n#!/bin/sh\necho hi\n```", testDir, false, { policy })).rejects.toThrow("denies code fence");
+  });
+
+  it("runs commands the policy allows", async () => {
+    const policy = createPolicyChecker({ rules: [], scope: "/repo/task.md", remote: false, interactive: false });
+    expect(await expandCommandImports("!`echo hi`", testDir, false, { policy })).toBe("hi");
+  });
+});
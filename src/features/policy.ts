@@ -0,0 +1,327 @@
+/**
+ * Trust policy for what agents may do (config `policy:`)
+ *
+ * Every capability an agent uses is classified before it runs:
+ * - `import:<domain>` - a remote `@https://...` import
+ * - `command` - a `!`cmd`` inline
+ * - `code-fence` - an executable code fence
+ * - `hook` - a pre/before or post/after hook
+ * - `env` - `_env` changing the environment
+ *
+ * Rules allow or deny capabilities for the agents and imports they match
+ * (a domain, a URL glob, or a path glob containing `/`); a deny wins over an
+ * allow:
+ *
+ * ```yaml
+ * policy:
+ *   - match: raw.githubusercontent.com          # agents/imports from a domain
+ *     allow: [command, "import:*.github.com"]
+ *     deny: [hook]
+ *   - match: "https://example.com/agents/**"    # URL glob
+ *     allow: ["*"]
+ *   - match: "~/work/**"                        # local agents by path
+ *     deny: [code-fence]
+ * ```
+ *
+ * Without a matching rule, local agents may do anything; remote agents and
+ * the content of URL imports need approval - in the trust prompt (which lists
+ * their capabilities), or in a prompt of their own when found while
+ * resolving imports. Without a terminal, capabilities needing approval are
+ * errors unless trust was established another way (known domain, pin,
+ * trusted signature, --_trust).
+ */
+
+import { homedir } from "os";
+import { Glob } from "bun";
+import { SecurityError } from "../core/errors";
+import type { AgentFrontmatter, PolicyRuleConfig } from "../core/types";
+import { parseImports } from "./imports/parser";
+
+/** Kinds of capabilities an agent can use */
+export type CapabilityKind = "import" | "command" | "code-fence" | "hook" | "env";
+
+/** Something an agent would do when run */
+export interface Capability {
+  kind: CapabilityKind;
+  /** Domain of a remote import */
+  domain?: string;
+  /** What exactly: import URL, command line, fence language, hook command, env var names */
+  detail: string;
+}
+
+/** How a capability is treated */
+export type PolicyDecision = "allow" | "deny" | "ask";
+
+/** Capabilities of an agent sorted by decision */
+export interface PolicyEvaluation {
+  allow: Capability[];
+  deny: Capability[];
+  ask: Capability[];
+}
+
+/** Longest command or hook shown when listing capabilities */
+const MAX_DETAIL_LENGTH = 80;
+
+/**
+ * Identifier of a capability in rules (`import:<domain>`, `command`, ...)
+ */
+export function capabilityId(capability: Capability): string {
+  return capability.kind === "import" ? `import:${capability.domain}` : capability.kind;
+}
+
+/**
+ * Describe a capability for prompts and errors
+ */
+export function describeCapability(capability: Capability): string {
+  const detail = capability.detail.length > MAX_DETAIL_LENGTH
+    ? capability.detail.slice(0, MAX_DETAIL_LENGTH - 1) + "…"
+    : capability.detail;
+  switch (capability.kind) {
+    case "import": return `remote import from ${capability.domain}: ${detail}`;
+    case "command": return `shell command: ${detail}`;
+    case "code-fence": return `code fence: ${detail}`;
+    case "hook": return `hook: ${detail}`;
+    case "env": return `sets environment: ${detail}`;
+  }
+}
+
+/**
+ * Classify the capabilities an agent's frontmatter and body use
+ * Imports are read from the body as written; capabilities of imported files
+ * are checked when they are resolved.
+ */
+export function classifyCapabilities(frontmatter: AgentFrontmatter, body: string): Capability[] {
+  const capabilities: Capability[] = [];
+
+  for (const action of parseImports(body)) {
+    if (action.type === "url") {
+      capabilities.push(importCapability(action.url));
+    } else if (action.type === "command") {
+      capabilities.push({ kind: "command", detail: action.command });
+    } else if (action.type === "executable_code_fence") {
+      capabilities.push(codeFenceCapability(action));
+    }
+  }
+
+  for (const key of ["pre", "before", "post", "after"]) {
+    const hook = frontmatter[key];
+    if (typeof hook === "string") capabilities.push({ kind: "hook", detail: `${key}: ${hook}` });
+  }
+
+  const env = frontmatter._env;
+  if (typeof env === "object" && env !== null && !Array.isArray(env) && Object.keys(env).length > 0) {
+    capabilities.push({ kind: "env", detail: Object.keys(env).join(", ") });
+  }
+
+  // The same capability used twice is listed once
+  const seen = new Set<string>();
+  return capabilities.filter((capability) => {
+    const key = `${capability.kind}\0${capability.detail}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Capability of a remote import
+ */
+export function importCapability(url: string): Capability {
+  return { kind: "import", domain: urlDomain(url), detail: url };
+}
+
+/**
+ * Capability of an executable code fence
+ */
+export function codeFenceCapability(fence: { language: string; shebang?: string; attributes?: { runtime?: string } }): Capability {
+  return { kind: "code-fence", detail: `${fence.language} (${fence.shebang ?? fence.attributes?.runtime ?? fence.language})` };
+}
+
+function urlDomain(url: string): string {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Whether a rule's `match` applies to an agent or import
+ * Patterns with `://` are URL globs; patterns with `/` (or `~`) are path
+ * globs (`~` expanded, relative ones match anywhere); anything else is a
+ * domain (`example.com`, `*.example.com`) matching URLs on it.
+ *
+ * @param scope - Agent URL or absolute path, or a URL import
+ */
+export function ruleMatches(match: string, scope: string): boolean {
+  const isUrl = /^https?:\/\//.test(scope);
+  if (match.includes("://")) {
+    return isUrl && new Glob(match).match(scope);
+  }
+  if (!match.includes("/") && !match.startsWith("~")) {
+    return isUrl && new Glob(match).match(urlDomain(scope));
+  }
+  if (isUrl) return false;
+  let pattern = match.replace(/^~(?=\/|$)/, homedir());
+  if (!pattern.startsWith("/")) pattern = `**/${pattern}`;
+  return new Glob(pattern).match(scope);
+}
+
+function capabilityMatches(pattern: string, capability: Capability): boolean {
+  if (pattern === "*" || pattern === capability.kind) return true;
+  const id = capabilityId(capability);
+  return pattern.includes(":") && new Glob(pattern).match(id);
+}
+
+/**
+ * Decide how a capability is treated for an agent or import
+ *
+ * @param rules - `policy:` rules from config
+ * @param scope - Agent URL or absolute path, or a URL import
+ * @param remote - The scope is remote (default decision: ask instead of allow)
+ */
+export function decideCapability(
+  capability: Capability,
+  scope: string,
+  rules: PolicyRuleConfig[],
+  remote: boolean
+): PolicyDecision {
+  const matching = rules.filter((rule) => ruleMatches(rule.match, scope));
+  if (matching.some((rule) => rule.deny?.some((pattern) => capabilityMatches(pattern, capability)))) return "deny";
+  if (matching.some((rule) => rule.allow?.some((pattern) => capabilityMatches(pattern, capability)))) return "allow";
+  return remote ? "ask" : "allow";
+}
+
+/**
+ * Sort capabilities by decision
+ */
+export function evaluatePolicy(
+  capabilities: Capability[],
+  scope: string,
+  rules: PolicyRuleConfig[],
+  remote: boolean
+): PolicyEvaluation {
+  const evaluation: PolicyEvaluation = { allow: [], deny: [], ask: [] };
+  for (const capability of capabilities) {
+    evaluation[decideCapability(capability, scope, rules, remote)].push(capability);
+  }
+  return evaluation;
+}
+
+/** Options for createPolicyChecker */
+export interface PolicyCheckerOptions {
+  /** `policy:` rules from config */
+  rules: PolicyRuleConfig[];
+  /** The agent: URL, or absolute path */
+  scope: string;
+  /** The agent was fetched from a URL */
+  remote: boolean;
+  /** Capabilities needing approval may be approved at a prompt */
+  interactive: boolean;
+  /** Ask whether to allow capabilities (defaults to promptForCapabilities) */
+  confirm?: (scope: string, capabilities: Capability[]) => Promise<boolean>;
+}
+
+/**
+ * Policy checks of one run (ImportContext.policy)
+ *
+ * `check` throws SecurityError for denied capabilities and asks about those
+ * needing approval (once per capability and scope). `approve` records
+ * capabilities approved elsewhere, e.g. in the trust prompt.
+ */
+export interface PolicyChecker {
+  /**
+   * Check capabilities of the agent, or of a URL import's content
+   * @param source - The URL import the capabilities come from (default: the agent)
+   */
+  check(capabilities: Capability[], source?: string): Promise<void>;
+  /** Throw for capabilities of the agent the policy denies (before asking about the rest) */
+  assertAllowed(capabilities: Capability[]): void;
+  /** Treat capabilities of the agent as approved */
+  approve(capabilities: Capability[]): void;
+}
+
+/**
+ * Create the policy checks for running an agent
+ */
+export function createPolicyChecker(options: PolicyCheckerOptions): PolicyChecker {
+  const approved = new Set<string>();
+  const key = (scope: string, capability: Capability) => `${scope}\0${capabilityId(capability)}`;
+  // Prompts for parallel imports are asked one at a time
+  let queue: Promise<void> = Promise.resolve();
+
+  const assertAllowed = (deny: Capability[], scope: string): void => {
+    if (deny.length > 0) {
+      throw new SecurityError(`Trust policy denies ${deny.map(describeCapability).join("; ")} (${scope})`);
+    }
+  };
+
+  const check = async (capabilities: Capability[], source?: string): Promise<void> => {
+    const scope = source ?? options.scope;
+    const remote = source !== undefined || options.remote;
+    const { deny, ask } = evaluatePolicy(capabilities, scope, options.rules, remote);
+
+    assertAllowed(deny, scope);
+    const pending = ask.filter((capability) => !approved.has(key(scope, capability)));
+    if (pending.length === 0) return;
+
+    if (!options.interactive) {
+      const ids = [...new Set(pending.map(capabilityId))];
+      throw new SecurityError(
+        `${scope} needs approval for ${pending.map(describeCapability).join("; ")}. ` +
+        `Run interactively, or allow it in config: policy: [{ match: "${scope}", allow: [${ids.map((id) => JSON.stringify(id)).join(", ")}] }]`
+      );
+    }
+    const confirm = options.confirm ?? promptForCapabilities;
+    if (!(await confirm(scope, pending))) {
+      throw new SecurityError(`Capabilities of ${scope} were not approved`);
+    }
+    pending.forEach((capability) => approved.add(key(scope, capability)));
+  };
+
+  return {
+    check(capabilities, source) {
+      const result = queue.then(() => check(capabilities, source));
+      queue = result.catch(() => {});
+      return result;
+    },
+    assertAllowed(capabilities) {
+      assertAllowed(evaluatePolicy(capabilities, options.scope, options.rules, options.remote).deny, options.scope);
+    },
+    approve(capabilities) {
+      capabilities.forEach((capability) => approved.add(key(options.scope, capability)));
+    },
+  };
+}
+
+/**
+ * Format capabilities as an indented list (trust prompts)
+ */
+export function formatCapabilities(capabilities: Capability[]): string {
+  if (capabilities.length === 0) return "  (none)";
+  return capabilities.map((capability) => `  - ${describeCapability(capability)}`).join("\n");
+}
+
+/**
+ * Show the capabilities content would use and ask whether to allow them
+ */
+export async function promptForCapabilities(scope: string, capabilities: Capability[]): Promise<boolean> {
+  const { confirm } = await import("@inquirer/prompts");
+
+  console.error("\n");
+  console.error("=".repeat(70));
+  console.error("SECURITY WARNING: Remote Content Capabilities");
+  console.error("=".repeat(70));
+  console.error("");
+  console.error(`Source: ${scope}`);
+  console.error("");
+  console.error(formatCapabilities(capabilities));
+  console.error("");
+  console.error("=".repeat(70));
+  console.error("");
+
+  return confirm({
+    message: "Allow these capabilities for this run?",
+    default: false,
+  });
+}
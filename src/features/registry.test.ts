@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, rm, mkdir, writeFile, readFile } from "fs/promises";
+import { existsSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import {
+  parseAgentReference,
+  compareVersions,
+  resolveVersion,
+  indexLocation,
+  loadRegistry,
+  installAgent,
+  updateAgent,
+  loadInstalled,
+  installedLabels,
+  remoteInstallSource,
+  type InstalledManifest,
+} from "./registry";
+import { hashPinContent } from "./pins";
+
+describe("parseAgentReference", () => {
+  it("parses names with optional versions", () => {
+    expect(parseAgentReference("acme/review")).toEqual({ name: "acme/review" });
+    expect(parseAgentReference("acme/review@1.2")).toEqual({ name: "acme/review", range: "1.2" });
+    expect(() => parseAgentReference("review")).toThrow("Invalid agent reference");
+    expect(() => parseAgentReference("acme/review@latest")).toThrow("Invalid agent reference");
+  });
+});
+
+describe("versions", () => {
+  it("compares numerically", () => {
+    expect(compareVersions("1.10.0", "1.9.2")).toBeGreaterThan(0);
+    expect(compareVersions("1.2", "1.2.0")).toBe(0);
+  });
+
+  it("picks the newest version within a range", () => {
+    const versions = ["1.2.0", "1.2.7", "1.20.0", "2.0.0"];
+    expect(resolveVersion(versions)).toBe("2.0.0");
+    expect(resolveVersion(versions, "1.2")).toBe("1.2.7");
+    expect(resolveVersion(versions, "1")).toBe("1.20.0");
+    expect(resolveVersion(versions, "3")).toBeUndefined();
+  });
+});
+
+describe("indexLocation", () => {
+  it("finds index.json in directories and under base URLs", () => {
+    expect(indexLocation("https://example.com/agents/")).toBe("https://example.com/agents/index.json");
+    expect(indexLocation("https://example.com/registry.json")).toBe("https://example.com/registry.json");
+    expect(indexLocation("/srv/registry")).toBe("/srv/registry/index.json");
+  });
+});
+
+describe("installing agents", () => {
+  let dir: string;
+  let registryDir: string;
+  let agentsDir: string;
+  const versions: Record<string, { path: string; sha256: string; adapters?: string[] }> = {};
+
+  const publish = async (version: string, content: string, file = "review.claude.md") => {
+    const path = `acme/review/${version}/${file}`;
+    await mkdir(join(registryDir, `acme/review/${version}`), { recursive: true });
+    await writeFile(join(registryDir, path), content);
+    versions[version] = { path, sha256: hashPinContent(content), adapters: ["claude"] };
+    await writeFile(join(registryDir, "index.json"), JSON.stringify({
+      version: 1,
+      agents: { "acme/review": { description: "Review", versions } },
+    }));
+  };
+  const options = () => ({ registries: [registryDir], dir: agentsDir, hasAdapter: () => true });
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "registry-test-"));
+    registryDir = join(dir, "registry");
+    agentsDir = join(dir, "agents");
+    for (const key of Object.keys(versions)) delete versions[key];
+    await publish("1.2.0", "Review v1.2.0\n");
+    await publish("2.0.0", "Review v2.0.0\n");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("installs the newest matching version and records it", async () => {
+    const result = await installAgent("acme/review@1.2", options());
+    expect(result).toMatchObject({ name: "acme/review", unchanged: false, missingAdapters: [] });
+    expect(await readFile(join(agentsDir, "review.claude.md"), "utf-8")).toBe("Review v1.2.0\n");
+    expect((await loadInstalled(agentsDir)).agents["acme/review"]).toEqual({
+      version: "1.2.0", range: "1.2", file: "review.claude.md", sha256: hashPinContent("Review v1.2.0\n"),
+      registry: join(registryDir, "index.json"), source: join(registryDir, "acme/review/1.2.0/review.claude.md"),
+    });
+    expect(await installedLabels(agentsDir)).toEqual(new Map([[join(agentsDir, "review.claude.md"), "acme/review@1.2.0"]]));
+  });
+
+  it("updates within the installed range", async () => {
+    await installAgent("acme/review@1.2", options());
+    expect((await updateAgent("acme/review", options())).unchanged).toBe(true);
+
+    await publish("1.2.1", "Review v1.2.1\n", "review.md");
+    const result = await updateAgent("acme/review", options());
+    expect(result).toMatchObject({ previous: "1.2.0", unchanged: false, installed: { version: "1.2.1" } });
+    // The renamed file replaces the old one
+    expect(await readFile(join(agentsDir, "review.md"), "utf-8")).toBe("Review v1.2.1\n");
+    expect(existsSync(join(agentsDir, "review.claude.md"))).toBe(false);
+  });
+
+  it("rejects files that don't match their SHA-256", async () => {
+    await writeFile(join(registryDir, versions["2.0.0"]!.path), "Tampered\n");
+    await expect(installAgent("acme/review", options())).rejects.toThrow("does not match the registry's SHA-256");
+    expect(existsSync(join(agentsDir, "review.claude.md"))).toBe(false);
+  });
+
+  it("does not overwrite agents that were not installed from a registry", async () => {
+    await mkdir(agentsDir, { recursive: true });
+    await writeFile(join(agentsDir, "review.claude.md"), "Mine\n");
+    await expect(installAgent("acme/review", options())).rejects.toThrow("use --force to replace it");
+    await installAgent("acme/review", { ...options(), force: true });
+    expect(await readFile(join(agentsDir, "review.claude.md"), "utf-8")).toBe("Review v2.0.0\n");
+  });
+
+  it("lists what a new version can do", async () => {
+    await publish("2.1.0", "---\npre: make\n---\nStatus: !`git status`\n");
+    const result = await installAgent("acme/review", options());
+    expect(result.capabilities).toEqual([{ kind: "command", detail: "git status" }, { kind: "hook", detail: "pre: make" }]);
+    expect((await updateAgent("acme/review", options())).capabilities).toEqual([]);
+  });
+
+  it("reports missing adapters, versions and agents", async () => {
+    const result = await installAgent("acme/review", { ...options(), hasAdapter: () => false });
+    expect(result.missingAdapters).toEqual(["claude"]);
+    await expect(installAgent("acme/review@3", options())).rejects.toThrow("No version of acme/review matches 3 (available: 1.2.0, 2.0.0)");
+    await expect(installAgent("acme/other", options())).rejects.toThrow("Agent acme/other not found");
+    await expect(installAgent("acme/review", { ...options(), registries: [] })).rejects.toThrow("No registry configured");
+  });
+
+  it("validates the index", async () => {
+    await writeFile(join(registryDir, "index.json"), JSON.stringify({ version: 1, agents: { "acme/x": { versions: { "1.0.0": { path: "x.md", sha256: "abc" } } } } }));
+    await expect(loadRegistry(registryDir)).rejects.toThrow("agents.acme/x.versions.1.0.0.sha256: expected a hex SHA-256");
+  });
+});
+
+describe("remoteInstallSource", () => {
+  const manifest = (source: string): InstalledManifest => ({
+    version: 1,
+    agents: { "acme/review": { version: "1.0.0", file: "review.md", sha256: "x", registry: "r", source } },
+  });
+
+  it("finds the URL an agent was downloaded from", () => {
+    const url = "https://agents.example.com/acme/review/1.0.0/review.md";
+    expect(remoteInstallSource(manifest(url), "review.md")).toBe(url);
+    expect(remoteInstallSource(manifest(url), "other.md")).toBeUndefined();
+  });
+
+  it("treats agents from local registries as local", () => {
+    expect(remoteInstallSource(manifest("/srv/registry/review.md"), "review.md")).toBeUndefined();
+  });
+});
@@ -0,0 +1,406 @@
+/**
+ * Agent registries and installed agents
+ *
+ * A registry is an `index.json` on any static host or in a local directory,
+ * listing agents by `owner/name` with their versions:
+ *
+ * ```json
+ * {
+ *   "version": 1,
+ *   "agents": {
+ *     "acme/review": {
+ *       "description": "Review the current diff",
+ *       "versions": {
+ *         "1.2.0": {
+ *           "path": "acme/review/1.2.0/review.claude.md",
+ *           "sha256": "<sha256 of the file>",
+ *           "adapters": ["claude"]
+ *         }
+ *       }
+ *     }
+ *   }
+ * }
+ * ```
+ *
+ * `path` is relative to the index (or a full URL). `md install acme/review@1.2`
+ * downloads the newest matching version, checks its SHA-256 and writes it
+ * under its file name to ~/.mdflow/ (or ./.mdflow/ with --project), so it is
+ * found like any other agent there. What was installed is recorded in
+ * `installed.json` next to it, which `md update` uses to move agents to the
+ * newest version matching what was asked for.
+ *
+ * An agent downloaded from a URL stays a remote agent: running it goes
+ * through the same trust checks as running its URL (known hosts, pins,
+ * signatures, trust policy and the remote-agent sandbox rules).
+ */
+
+import { basename, dirname, join, resolve } from "path";
+import { existsSync } from "fs";
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import { z } from "zod";
+import { ConfigurationError, NetworkError, SecurityError } from "../core/errors";
+import { resilientFetch } from "../utils/fetch";
+import { isRemoteUrl } from "./remote";
+import { hashPinContent } from "./pins";
+import { isOfflineMode } from "./cache";
+import { parseFrontmatter } from "../core/agent/parse";
+import { classifyCapabilities, type Capability } from "./policy";
+import type { AgentFrontmatter } from "../core/types";
+
+/** File name of a registry index (when a registry is given as a directory or base URL) */
+export const REGISTRY_INDEX_FILE = "index.json";
+
+/** Manifest of installed agents in an agent directory */
+export const INSTALLED_MANIFEST_FILE = "installed.json";
+
+const versionSchema = z.object({
+  path: z.string().min(1),
+  sha256: z.string().regex(/^[a-f0-9]{64}$/, "expected a hex SHA-256"),
+  adapters: z.array(z.string()).optional(),
+});
+
+const registryIndexSchema = z.object({
+  version: z.literal(1),
+  agents: z.record(z.string(), z.object({
+    description: z.string().optional(),
+    versions: z.record(z.string(), versionSchema),
+  })),
+});
+
+/** One version of an agent in a registry */
+export type RegistryVersion = z.infer<typeof versionSchema>;
+
+/** Registry index layout */
+export type RegistryIndex = z.infer<typeof registryIndexSchema>;
+
+/** A loaded registry index */
+export interface Registry {
+  /** URL or absolute path of index.json */
+  location: string;
+  index: RegistryIndex;
+}
+
+/** An agent recorded in installed.json */
+export interface InstalledAgent {
+  version: string;
+  /** Version asked for (`1.2`), if any; updates stay within it */
+  range?: string;
+  /** File name in the agent directory */
+  file: string;
+  sha256: string;
+  /** Index the agent was installed from */
+  registry: string;
+  /** URL (or path) the file was downloaded from */
+  source: string;
+}
+
+/** installed.json layout */
+export interface InstalledManifest {
+  version: 1;
+  agents: Record<string, InstalledAgent>;
+}
+
+/** Parsed `owner/name[@version]` */
+export interface AgentReference {
+  name: string;
+  range?: string;
+}
+
+/** Outcome of installing or updating an agent */
+export interface InstallResult {
+  name: string;
+  installed: InstalledAgent;
+  /** Version that was installed before, if any */
+  previous?: string;
+  /** Path of the agent file */
+  path: string;
+  /** The installed file did not change */
+  unchanged: boolean;
+  /** Adapters the agent requires that are not available */
+  missingAdapters: string[];
+  /** What the downloaded agent can do (empty when unchanged) */
+  capabilities: Capability[];
+}
+
+/** Options for installAgent / updateAgent */
+export interface InstallOptions {
+  /** Registries to look in, in order (URLs or directories) */
+  registries: string[];
+  /** Agent directory to install into */
+  dir: string;
+  /** Replace a file of the same name that was not installed from a registry */
+  force?: boolean;
+  /** Whether an adapter is available (default: every adapter is) */
+  hasAdapter?: (name: string) => boolean;
+}
+
+/**
+ * Parse an agent reference: `owner/name`, `owner/name@1.2`, `owner/name@1.2.3`
+ * @throws ConfigurationError for anything else
+ */
+export function parseAgentReference(reference: string): AgentReference {
+  const match = reference.match(/^([\w.-]+\/[\w.-]+)(?:@(.+))?$/);
+  if (!match || (match[2] !== undefined && !/^\d+(\.\d+){0,2}$/.test(match[2]))) {
+    throw new ConfigurationError(`Invalid agent reference "${reference}" (expected owner/name or owner/name@1.2)`);
+  }
+  return match[2] ? { name: match[1]!, range: match[2] } : { name: match[1]! };
+}
+
+function versionParts(version: string): number[] {
+  return version.split(".").map((part) => Number.parseInt(part, 10) || 0);
+}
+
+/**
+ * Compare dotted numeric versions (`1.10.0` > `1.9.2`)
+ */
+export function compareVersions(a: string, b: string): number {
+  const pa = versionParts(a);
+  const pb = versionParts(b);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] ?? 0) - (pb[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Pick the newest version matching a range
+ * A range matches versions it is a prefix of: `1.2` matches `1.2.0` and
+ * `1.2.7` but not `1.20.0`; no range matches every version.
+ */
+export function resolveVersion(versions: string[], range?: string): string | undefined {
+  const matching = range
+    ? versions.filter((version) => version === range || version.startsWith(`${range}.`))
+    : versions;
+  return matching.sort(compareVersions).at(-1);
+}
+
+/**
+ * Location of a registry's index: `.json` URLs and files as given, otherwise
+ * index.json in the directory or under the base URL
+ */
+export function indexLocation(registry: string): string {
+  if (registry.endsWith(".json")) return isRemoteUrl(registry) ? registry : resolve(registry);
+  if (isRemoteUrl(registry)) return `${registry.replace(/\/+$/, "")}/${REGISTRY_INDEX_FILE}`;
+  return join(resolve(registry), REGISTRY_INDEX_FILE);
+}
+
+/** Resolve a path in an index against the index location */
+function resolveRegistryPath(location: string, path: string): string {
+  if (isRemoteUrl(path)) return path;
+  if (isRemoteUrl(location)) return new URL(path, location).toString();
+  return resolve(dirname(location), path);
+}
+
+async function readRegistryFile(location: string): Promise<string> {
+  if (!isRemoteUrl(location)) {
+    try {
+      return await readFile(location, "utf-8");
+    } catch (err) {
+      throw new ConfigurationError(`Cannot read ${location}: ${(err as Error).message}`);
+    }
+  }
+  if (isOfflineMode()) throw new NetworkError(`Offline: cannot fetch ${location}`);
+  const response = await resilientFetch(location, { headers: { "User-Agent": "mdflow/1.0" } });
+  if (!response.ok) {
+    throw new ConfigurationError(`Cannot fetch ${location}: HTTP ${response.status}`);
+  }
+  return response.text();
+}
+
+/**
+ * Load and validate a registry index
+ * @throws ConfigurationError if it can't be read or is not a valid index
+ */
+export async function loadRegistry(registry: string): Promise<Registry> {
+  const location = indexLocation(registry);
+  const text = await readRegistryFile(location);
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (err) {
+    throw new ConfigurationError(`Invalid registry index ${location}: ${(err as Error).message}`);
+  }
+  const result = registryIndexSchema.safeParse(data);
+  if (!result.success) {
+    const errors = result.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+    throw new ConfigurationError(`Invalid registry index ${location}:\n  ${errors.join("\n  ")}`);
+  }
+  return { location, index: result.data };
+}
+
+/**
+ * Find the first registry listing an agent
+ * @throws ConfigurationError if no registry is configured or none lists it
+ */
+export async function findRegistryAgent(
+  registries: string[],
+  name: string
+): Promise<{ registry: Registry; versions: Record<string, RegistryVersion> }> {
+  if (registries.length === 0) {
+    throw new ConfigurationError("No registry configured (add registries: to config, or pass --registry <url|dir>)");
+  }
+  for (const source of registries) {
+    const registry = await loadRegistry(source);
+    const agent = registry.index.agents[name];
+    if (agent) return { registry, versions: agent.versions };
+  }
+  throw new ConfigurationError(`Agent ${name} not found in ${registries.join(", ")}`);
+}
+
+/**
+ * Read installed.json of an agent directory; a missing file has no agents
+ * @throws ConfigurationError if the file is not a valid manifest
+ */
+export async function loadInstalled(dir: string): Promise<InstalledManifest> {
+  const path = join(dir, INSTALLED_MANIFEST_FILE);
+  let text: string;
+  try {
+    text = await readFile(path, "utf-8");
+  } catch {
+    return { version: 1, agents: {} };
+  }
+  return parseInstalled(text, path);
+}
+
+/**
+ * Parse the contents of an installed.json
+ * @throws ConfigurationError if the text is not a valid manifest
+ */
+export function parseInstalled(text: string, path: string): InstalledManifest {
+  try {
+    const data = JSON.parse(text) as Partial<InstalledManifest>;
+    if (data.version !== 1 || typeof data.agents !== "object" || data.agents === null) throw new Error("unexpected layout");
+    return { version: 1, agents: data.agents };
+  } catch (err) {
+    throw new ConfigurationError(`Invalid ${path}: ${(err as Error).message}`);
+  }
+}
+
+async function saveInstalled(dir: string, manifest: InstalledManifest): Promise<void> {
+  const agents = Object.fromEntries(Object.entries(manifest.agents).sort(([a], [b]) => a.localeCompare(b)));
+  await mkdir(dir, { recursive: true });
+  await writeFile(join(dir, INSTALLED_MANIFEST_FILE), JSON.stringify({ version: 1, agents }, null, 2) + "\n");
+}
+
+/**
+ * Install an agent from the first registry listing it
+ *
+ * @throws ConfigurationError if the agent or version is not found, or its
+ *   file name is taken by an agent that was not installed from a registry
+ * @throws SecurityError if the downloaded file doesn't match its SHA-256
+ */
+export async function installAgent(reference: string, options: InstallOptions): Promise<InstallResult> {
+  const { name, range } = parseAgentReference(reference);
+  const manifest = await loadInstalled(options.dir);
+  return install(name, range, manifest, options);
+}
+
+/**
+ * Update an installed agent to the newest version within the range it was
+ * installed with
+ * @throws ConfigurationError if the agent is not installed in the directory
+ */
+export async function updateAgent(name: string, options: InstallOptions): Promise<InstallResult> {
+  const manifest = await loadInstalled(options.dir);
+  const current = manifest.agents[name];
+  if (!current) throw new ConfigurationError(`${name} is not installed in ${options.dir}`);
+  // Look in the registry it came from first
+  const registries = [current.registry, ...options.registries.filter((r) => indexLocation(r) !== current.registry)];
+  return install(name, current.range, manifest, { ...options, registries });
+}
+
+async function install(
+  name: string,
+  range: string | undefined,
+  manifest: InstalledManifest,
+  options: InstallOptions
+): Promise<InstallResult> {
+  const { registry, versions } = await findRegistryAgent(options.registries, name);
+  const version = resolveVersion(Object.keys(versions), range);
+  if (!version) {
+    throw new ConfigurationError(
+      `No version of ${name} matches ${range} (available: ${Object.keys(versions).sort(compareVersions).join(", ") || "none"})`
+    );
+  }
+  const entry = versions[version]!;
+  const source = resolveRegistryPath(registry.location, entry.path);
+  const file = basename(source.replace(/[?#].*$/, ""));
+  if (!file.endsWith(".md")) {
+    throw new ConfigurationError(`${name}@${version} is not a markdown agent: ${entry.path}`);
+  }
+
+  const previous = manifest.agents[name];
+  const path = join(options.dir, file);
+  const owner = Object.entries(manifest.agents).find(([, agent]) => agent.file === file)?.[0];
+  if (existsSync(path) && owner !== name && !options.force) {
+    throw new ConfigurationError(
+      `${path} already exists${owner ? ` (installed from ${owner})` : ""}; use --force to replace it`
+    );
+  }
+
+  const missingAdapters = (entry.adapters ?? []).filter((adapter) => !(options.hasAdapter?.(adapter) ?? true));
+  const installed: InstalledAgent = {
+    version,
+    ...(range && { range }),
+    file,
+    sha256: entry.sha256,
+    registry: registry.location,
+    source,
+  };
+
+  if (previous && previous.sha256 === entry.sha256 && previous.file === file && existsSync(path)) {
+    manifest.agents[name] = installed;
+    await saveInstalled(options.dir, manifest);
+    return { name, installed, previous: previous.version, path, unchanged: true, missingAdapters, capabilities: [] };
+  }
+
+  const content = await readRegistryFile(source);
+  const hash = hashPinContent(content);
+  if (hash !== entry.sha256) {
+    throw new SecurityError(`${name}@${version} does not match the registry's SHA-256 (expected ${entry.sha256}, got ${hash})`);
+  }
+  const { frontmatter, body } = parseFrontmatter(content);
+  const capabilities = classifyCapabilities(frontmatter as AgentFrontmatter, body);
+
+  await mkdir(options.dir, { recursive: true });
+  await writeFile(path, content);
+  // A renamed agent file replaces the old one
+  if (previous && previous.file !== file) {
+    await rm(join(options.dir, previous.file), { force: true });
+  }
+  manifest.agents[name] = installed;
+  if (owner && owner !== name) delete manifest.agents[owner];
+  await saveInstalled(options.dir, manifest);
+
+  return { name, installed, previous: previous?.version, path, unchanged: false, missingAdapters, capabilities };
+}
+
+/**
+ * URL an agent file was downloaded from, if it was installed from a remote
+ * registry (such agents run as remote agents of that URL)
+ */
+export function remoteInstallSource(manifest: InstalledManifest, file: string): string | undefined {
+  const agent = Object.values(manifest.agents).find((installed) => installed.file === file);
+  return agent && isRemoteUrl(agent.source) ? agent.source : undefined;
+}
+
+/**
+ * remoteInstallSource for an agent file, reading installed.json next to it
+ */
+export async function findRemoteInstallSource(path: string): Promise<string | undefined> {
+  const manifest = await loadInstalled(dirname(resolve(path))).catch(() => undefined);
+  return manifest && remoteInstallSource(manifest, basename(path));
+}
+
+/**
+ * Map installed agent files to `owner/name@version` labels (agent discovery)
+ */
+export async function installedLabels(dir: string): Promise<Map<string, string>> {
+  const labels = new Map<string, string>();
+  const manifest = await loadInstalled(dir).catch(() => ({ version: 1 as const, agents: {} }));
+  for (const [name, agent] of Object.entries(manifest.agents)) {
+    labels.set(join(dir, agent.file), `${name}@${agent.version}`);
+  }
+  return labels;
+}
@@ -5,7 +5,7 @@ import {
   fetchRemote,
   type FetchRemoteOptions,
 } from "./remote";
-import { clearAllCache, getCachedContent } from "./cache";
+import { clearAllCache, getCachedContent, setCachedContent, invalidateCacheEntry, isOfflineMode } from "./cache";
 
 describe("isRemoteUrl", () => {
   test("returns true for http URL", () => {
@@ -140,3 +140,31 @@ describe("fetchRemote caching", () => {
     expect(result2.fromCache).toBe(false);
   });
 });
+
+describe("offline mode", () => {
+  const url = "https://example.invalid/offline-test-agent.md";
+
+  afterEach(async () => {
+    await invalidateCacheEntry(url);
+  });
+
+  test("serves expired cache entries without fetching", async () => {
+    await setCachedContent(url, "Cached agent", { ttlMs: -1 });
+    const result = await fetchRemote(url, { offline: true, noCache: true });
+    expect(result.success).toBe(true);
+    expect(result.fromCache).toBe(true);
+    expect(await Bun.file(result.localPath!).text()).toBe("Cached agent");
+  });
+
+  test("fails clearly when content was never cached", async () => {
+    const result = await fetchRemote(url, { offline: true });
+    expect(result.success).toBe(false);
+    expect(result.error).toBe(`Offline and not cached: ${url} (run "md cache warm ${url}" while online)`);
+  });
+
+  test("is turned on by MDFLOW_OFFLINE", () => {
+    expect(isOfflineMode({ MDFLOW_OFFLINE: "1" })).toBe(true);
+    expect(isOfflineMode({ MDFLOW_OFFLINE: "false" })).toBe(false);
+    expect(isOfflineMode({})).toBe(false);
+  });
+});
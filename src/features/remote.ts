@@ -16,6 +16,7 @@ import {
   touchCacheEntry,
   getCachePaths,
   DEFAULT_CACHE_TTL_MS,
+  isOfflineMode,
   type CacheOptions,
 } from "./cache";
 import { readFile } from "fs/promises";
@@ -34,6 +35,8 @@ export interface FetchRemoteOptions {
   noCache?: boolean;
   /** Custom TTL for cache (default: 1 hour) */
   cacheTtlMs?: number;
+  /** Serve only from cache, expired or not (default: MDFLOW_OFFLINE) */
+  offline?: boolean;
 }
 
 /**
@@ -83,6 +86,9 @@ export function toRawUrl(url: string): string {
  * - If cache has ETag, sends If-None-Match header
  * - If cache has Last-Modified, sends If-Modified-Since header
  * - On 304 Not Modified, reuses cached content and refreshes TTL
+ *
+ * Offline, only the cache is used (ignoring TTL and noCache); content that
+ * was never cached is an error.
  */
 export async function fetchRemote(
   url: string,
@@ -92,16 +98,25 @@ export async function fetchRemote(
     return { success: true, localPath: url, isRemote: false };
   }
 
-  const { noCache = false, cacheTtlMs = DEFAULT_CACHE_TTL_MS } = options;
+  const { noCache = false, cacheTtlMs = DEFAULT_CACHE_TTL_MS, offline = isOfflineMode() } = options;
   const rawUrl = toRawUrl(url);
 
   try {
     // Check cache first (unless noCache is set)
     const cacheResult = await getCachedContent(rawUrl, {
-      noCache,
+      noCache: noCache && !offline,
       ttlMs: cacheTtlMs,
+      ignoreTtl: offline,
     });
 
+    if (offline && !cacheResult.hit) {
+      return {
+        success: false,
+        error: `Offline and not cached: ${rawUrl} (run "md cache warm ${url}" while online)`,
+        isRemote: true,
+      };
+    }
+
     let content: string;
     let fromCache = false;
 
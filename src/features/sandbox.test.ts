@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { mkdtemp, rm } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import {
+  resolveSandbox,
+  commandPrograms,
+  shebangProgram,
+  assertSandboxAllows,
+  sandboxEnv,
+  type SandboxPolicy,
+} from "./sandbox";
+import { expandCommandImports } from "./imports/index";
+
+const policy = (extra: Partial<SandboxPolicy> = {}): SandboxPolicy => ({
+  stripEnv: true, readOnly: false, ...extra,
+});
+
+describe("resolveSandbox", () => {
+  it("returns undefined when nothing enables a sandbox", () => {
+    expect(resolveSandbox({}, undefined)).toBeUndefined();
+    expect(resolveSandbox({ _sandbox: false }, undefined)).toBeUndefined();
+  });
+
+  it("keeps the config sandbox when an agent sets _sandbox: false", () => {
+    expect(resolveSandbox({ _sandbox: false }, { commands: ["ls"] })).toMatchObject({ commands: ["ls"], stripEnv: true, readOnly: true });
+  });
+
+  it("applies defaults for _sandbox: true", () => {
+    expect(resolveSandbox({ _sandbox: true }, undefined)).toEqual({
+      commands: undefined, stripEnv: true, timeoutMs: undefined, maxOutput: undefined, readOnly: true,
+    });
+  });
+
+  it("lets frontmatter override config key by key", () => {
+    const result = resolveSandbox(
+      { _sandbox: { timeout: "5s", env: "inherit" } },
+      { commands: ["git"], max_output: 100, env: "inherit" }
+    );
+    expect(result).toMatchObject({ commands: ["git"], stripEnv: false, timeoutMs: 5000, maxOutput: 100 });
+  });
+
+  it("lets frontmatter tighten the config sandbox but not loosen it", () => {
+    const result = resolveSandbox(
+      { _sandbox: { commands: ["git", "curl"], env: "inherit", timeout: "1m", max_output: 50, read_only: false } },
+      { commands: ["git", "ls"], timeout: "10s", max_output: 100 }
+    );
+    expect(result).toEqual({ commands: ["git"], stripEnv: true, timeoutMs: 10_000, maxOutput: 50, readOnly: true });
+  });
+
+  it("refuses remote agents unless config allows them", () => {
+    expect(resolveSandbox({}, undefined, true)?.refused).toContain("remote agents cannot run commands");
+    // A remote agent cannot allow or disable anything itself
+    expect(resolveSandbox({ _sandbox: false }, { commands: ["ls"] }, true)?.refused).toBeDefined();
+    expect(resolveSandbox({ _sandbox: { remote: true } }, undefined)?.refused).toBeUndefined();
+
+    const allowed = resolveSandbox({ _sandbox: false }, { remote: true, commands: ["ls"] }, true);
+    expect(allowed).toMatchObject({ commands: ["ls"], stripEnv: true });
+    expect(allowed?.refused).toBeUndefined();
+  });
+
+  it("rejects malformed values", () => {
+    expect(() => resolveSandbox({ _sandbox: "yes" }, undefined)).toThrow("_sandbox must be");
+    expect(() => resolveSandbox({ _sandbox: { env: "none" } }, undefined)).toThrow("Invalid _sandbox.env");
+    expect(() => resolveSandbox({ _sandbox: { timeout: "soon" } }, undefined)).toThrow("_sandbox.timeout");
+    expect(() => resolveSandbox({}, { max_output: -1 })).toThrow("sandbox.max_output");
+  });
+});
+
+describe("commandPrograms", () => {
+  it("finds the program of each pipeline element, list entry and substitution", () => {
+    expect(commandPrograms("git log | head -5 && echo $(date) ; `whoami`")).toEqual(["git", "head", "echo", "date", "whoami"]);
+  });
+
+  it("skips variable assignments and strips paths", () => {
+    expect(commandPrograms("LANG=C /usr/bin/sort file")).toEqual(["sort"]);
+  });
+});
+
+describe("shebangProgram", () => {
+  it("returns the interpreter, looking through env", () => {
+    expect(shebangProgram("#!/bin/bash")).toBe("bash");
+    expect(shebangProgram("#!/usr/bin/env python3")).toBe("python3");
+    expect(shebangProgram("#!/usr/bin/env -S bun run")).toBe("bun");
+  });
+});
+
+describe("assertSandboxAllows", () => {
+  it("allows everything without an allowlist", () => {
+    expect(() => assertSandboxAllows(policy(), ["rm"], "command 'rm'")).not.toThrow();
+  });
+
+  it("names the programs outside the allowlist", () => {
+    expect(() => assertSandboxAllows(policy({ commands: ["git"] }), ["git", "curl"], "command 'x'"))
+      .toThrow("curl not in the allowed commands (git)");
+  });
+
+  it("refuses everything for refused agents", () => {
+    expect(() => assertSandboxAllows(policy({ refused: "remote" }), [], "command 'ls'")).toThrow("Sandbox refused command 'ls': remote");
+  });
+});
+
+describe("sandboxEnv", () => {
+  it("drops secret-looking variables unless env is inherited", () => {
+    const env = { PATH: "/bin", OPENAI_API_KEY: "sk-1", GITHUB_TOKEN: "ghp" };
+    expect(sandboxEnv(env, policy())).toEqual({ PATH: "/bin" });
+    expect(sandboxEnv(env, policy({ stripEnv: false }))).toEqual(env);
+  });
+});
+
+describe("sandboxed command imports", () => {
+  let testDir: string;
+
+  beforeAll(async () => {
+    testDir = await mkdtemp(join(tmpdir(), "sandbox-test-"));
+  });
+
+  afterAll(async () => {
+    await rm(testDir, { recursive: true });
+  });
+
+  it("runs allowed commands without secrets in the environment", async () => {
+    const result = await expandCommandImports("!`echo \"[$SANDBOX_TEST_TOKEN]\"`", testDir, false, {
+      env: { ...process.env, SANDBOX_TEST_TOKEN: "secret" },
+      sandbox: policy({ commands: ["echo"] }),
+    });
+    expect(result).toBe("[]");
+  });
+
+  it("refuses commands outside the allowlist", async () => {
+    await expect(expandCommandImports("!`ls | wc -l`", testDir, false, {
+      sandbox: policy({ commands: ["ls"] }),
+    })).rejects.toThrow("wc not in the allowed commands");
+  });
+
+  it("refuses code fences whose interpreter is not allowed", async () => {
+    const fence = "```sh\n#!/bin/sh\necho hi\n```";
+    await expect(expandCommandImports(fence, testDir, false, {
+      sandbox: policy({ commands: ["python3"] }),
+    })).rejects.toThrow("sh not in the allowed commands");
+  });
+
+  it("limits output size and run time", async () => {
+    const truncated = await expandCommandImports("!`printf 'abcdefgh'`", testDir, false, {
+      sandbox: policy({ maxOutput: 3 }),
+    });
+    expect(truncated).toBe("abc\n... [Output truncated: 5 characters removed]");
+
+    const fence = "```sh\n#!/bin/sh\nsleep 5\n```";
+    await expect(expandCommandImports(fence, testDir, false, {
+      sandbox: policy({ timeoutMs: 100 }),
+    })).rejects.toThrow("timed out after 100ms");
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * Sandbox for command inlines (!`cmd`) and executable code fences (`_sandbox`)
+ *
+ * ```yaml
+ * _sandbox:
+ *   commands: [git, ls, rg]   # programs commands may run (default: any)
+ *   env: strip                # drop secret-looking env vars (default), or inherit
+ *   timeout: 10s              # wall-clock limit per command (ms or 30s, 5m, ...)
+ *   max_output: 20000         # characters kept from each command's output
+ *   read_only: true           # read-only working directory via bwrap/unshare (default)
+ * ```
+ *
+ * `_sandbox: true` applies the defaults. The same keys under `sandbox:` in
+ * config sandbox every agent, as a minimum: frontmatter can only tighten it
+ * (fewer commands, lower limits), and `_sandbox: false` is ignored. Without
+ * a config sandbox, `_sandbox: false` is the same as leaving it out.
+ *
+ * Remote agents never run commands unless the global config allows it with
+ * `sandbox: { remote: true }`, and then always run sandboxed with the config
+ * policy - their own `_sandbox` is ignored.
+ */
+
+import { basename } from "path";
+import { tmpdir, platform } from "os";
+import { SecurityError, ConfigurationError } from "../core/errors";
+import type { AgentFrontmatter, SandboxConfig } from "../core/types";
+import { isSensitiveKey } from "./secrets";
+import { parseCacheDuration } from "./imports/cache";
+
+/** Parsed sandbox policy applied to an agent's commands */
+export interface SandboxPolicy {
+  /** Programs commands may run (undefined: any) */
+  commands?: string[];
+  /** Drop env vars whose names look like secrets (isSensitiveKey) */
+  stripEnv: boolean;
+  /** Wall-clock limit per command in milliseconds (undefined: the default command timeout) */
+  timeoutMs?: number;
+  /** Characters kept from each command's output (undefined: the default limit) */
+  maxOutput?: number;
+  /** Run with a read-only working directory (bwrap, or unshare as a fallback) */
+  readOnly: boolean;
+  /** Why commands are refused entirely (remote agent without permission) */
+  refused?: string;
+}
+
+/**
+ * Resolve the sandbox policy for an agent
+ * Returns undefined when neither config nor frontmatter enables a sandbox;
+ * a config sandbox always applies and frontmatter can only tighten it.
+ *
+ * @param frontmatter - Agent frontmatter (after defaults are applied)
+ * @param config - `sandbox:` from the merged config
+ * @param remote - The agent was fetched from a URL
+ * @throws ConfigurationError for malformed values
+ */
+export function resolveSandbox(
+  frontmatter: AgentFrontmatter,
+  config: SandboxConfig | undefined,
+  remote: boolean = false
+): SandboxPolicy | undefined {
+  if (remote) {
+    if (config?.remote !== true) {
+      return {
+        stripEnv: true,
+        readOnly: true,
+        refused: "remote agents cannot run commands (allow with `sandbox: { remote: true }` in the global config)",
+      };
+    }
+    return toPolicy(config, "sandbox");
+  }
+
+  const value = frontmatter._sandbox;
+  if (value === false || value === undefined || value === null) return config ? toPolicy(config, "sandbox") : undefined;
+  if (value === true) return toPolicy(config ?? {}, "sandbox");
+  if (typeof value !== "object" || Array.isArray(value)) {
+    throw new ConfigurationError("_sandbox must be true, false, or an object");
+  }
+  // `remote` is only honored from the global config
+  const { remote: _remote, ...overrides } = value as SandboxConfig;
+  const policy = toPolicy({ ...config, ...overrides }, "_sandbox");
+  return config ? tighten(toPolicy(config, "sandbox"), policy) : policy;
+}
+
+/** The stricter of two policies, key by key (commands both allow, lower limits) */
+function tighten(base: SandboxPolicy, agent: SandboxPolicy): SandboxPolicy {
+  const lower = (a?: number, b?: number) => (a === undefined ? b : b === undefined ? a : Math.min(a, b));
+  return {
+    commands: base.commands && agent.commands
+      ? agent.commands.filter((command) => base.commands!.includes(command))
+      : base.commands ?? agent.commands,
+    stripEnv: base.stripEnv || agent.stripEnv,
+    timeoutMs: lower(base.timeoutMs, agent.timeoutMs),
+    maxOutput: lower(base.maxOutput, agent.maxOutput),
+    readOnly: base.readOnly || agent.readOnly,
+  };
+}
+
+function toPolicy(config: SandboxConfig, key: string): SandboxPolicy {
+  const { commands, env = "strip", timeout, max_output, read_only = true } = config;
+
+  if (commands !== undefined && (!Array.isArray(commands) || commands.some((c) => typeof c !== "string"))) {
+    throw new ConfigurationError(`${key}.commands must be a list of program names`);
+  }
+  if (env !== "strip" && env !== "inherit") {
+    throw new ConfigurationError(`Invalid ${key}.env: ${String(env)} (expected strip, inherit)`);
+  }
+
+  let timeoutMs: number | undefined;
+  if (timeout !== undefined) {
+    timeoutMs = typeof timeout === "number" ? timeout : parseCacheDuration(String(timeout));
+    if (timeoutMs === undefined || !Number.isInteger(timeoutMs) || timeoutMs <= 0) {
+      throw new ConfigurationError(`${key}.timeout must be a positive number of milliseconds or a duration like 30s`);
+    }
+  }
+  if (max_output !== undefined && (!Number.isInteger(max_output) || max_output <= 0)) {
+    throw new ConfigurationError(`${key}.max_output must be a positive integer`);
+  }
+
+  return {
+    commands,
+    stripEnv: env === "strip",
+    timeoutMs,
+    maxOutput: max_output,
+    readOnly: read_only !== false,
+  };
+}
+
+/** Shell operators that start a new command */
+const COMMAND_SEPARATORS = /\|\|?|&&?|;|\n|\$\(|`|\(|\)/;
+
+/**
+ * Programs a shell command line runs: the first word of each pipeline
+ * element, list entry and substitution (leading VAR=value assignments skipped)
+ *
+ * @example
+ * commandPrograms("git log | head -5 && echo $(date)") // ["git", "head", "echo", "date"]
+ */
+export function commandPrograms(command: string): string[] {
+  const programs: string[] = [];
+  for (const segment of command.split(COMMAND_SEPARATORS)) {
+    const words = segment.trim().split(/\s+/).filter((word) => word && !/^[A-Za-z_][A-Za-z0-9_]*=/.test(word));
+    const first = words[0]?.replace(/^["']|["']$/g, "");
+    if (first) programs.push(basename(first));
+  }
+  return programs;
+}
+
+/**
+ * Interpreter a shebang line runs, skipping `env` and its options
+ *
+ * @example
+ * shebangProgram("#!/usr/bin/env -S python3 -u") // "python3"
+ */
+export function shebangProgram(shebang: string): string {
+  const words = shebang.replace(/^#!/, "").trim().split(/\s+/);
+  let index = 0;
+  if (basename(words[0] ?? "") === "env") {
+    index = 1;
+    while (words[index]?.startsWith("-")) index++;
+  }
+  return basename(words[index] ?? "");
+}
+
+/**
+ * Refuse a command the policy does not allow
+ *
+ * @param programs - Programs the command runs (commandPrograms / shebangProgram)
+ * @param description - Command shown in the error
+ * @throws SecurityError when the agent may not run commands or a program is not allowed
+ */
+export function assertSandboxAllows(policy: SandboxPolicy, programs: string[], description: string): void {
+  if (policy.refused) {
+    throw new SecurityError(`Sandbox refused ${description}: ${policy.refused}`);
+  }
+  if (!policy.commands) return;
+  const denied = programs.filter((program) => !policy.commands!.includes(program));
+  if (denied.length > 0) {
+    throw new SecurityError(
+      `Sandbox refused ${description}: ${denied.join(", ")} not in the allowed commands (${policy.commands.join(", ") || "none"})`
+    );
+  }
+}
+
+/**
+ * Environment for a sandboxed command: secret-looking variables removed
+ */
+export function sandboxEnv(
+  env: Record<string, string | undefined>,
+  policy: SandboxPolicy
+): Record<string, string | undefined> {
+  if (!policy.stripEnv) return env;
+  return Object.fromEntries(Object.entries(env).filter(([key]) => !isSensitiveKey(key)));
+}
+
+/** Read-only wrapper found on this machine (probed once) */
+let readOnlyWrapper: "bwrap" | "unshare" | null | undefined;
+
+function findReadOnlyWrapper(): "bwrap" | "unshare" | null {
+  if (readOnlyWrapper !== undefined) return readOnlyWrapper;
+  readOnlyWrapper = null;
+  if (platform() !== "linux") return readOnlyWrapper;
+  if (Bun.which("bwrap")) {
+    readOnlyWrapper = "bwrap";
+  } else if (Bun.which("unshare")) {
+    // Unprivileged user namespaces may be disabled
+    const probe = Bun.spawnSync(["unshare", "--map-root-user", "--mount", "true"], { stdout: "ignore", stderr: "ignore" });
+    if (probe.exitCode === 0) readOnlyWrapper = "unshare";
+  }
+  if (!readOnlyWrapper) {
+    console.warn("Warning: Sandbox cannot make the working directory read-only (install bubblewrap); running without it");
+  }
+  return readOnlyWrapper;
+}
+
+/**
+ * Wrap a command's argv so it runs with a read-only working directory
+ * The rest of the filesystem stays readable; the temp directory stays
+ * writable (code fences run from a temp file). Returns argv unchanged when
+ * the policy does not ask for it or no wrapper is available.
+ */
+export function wrapSandboxed(argv: string[], cwd: string, policy: SandboxPolicy): string[] {
+  if (!policy.readOnly) return argv;
+  const wrapper = findReadOnlyWrapper();
+  if (wrapper === "bwrap") {
+    const tmp = tmpdir();
+    return [
+      "bwrap", "--ro-bind", "/", "/", "--dev-bind", "/dev", "/dev", "--bind", tmp, tmp,
+      "--ro-bind", cwd, cwd, "--chdir", cwd, "--die-with-parent", "--", ...argv,
+    ];
+  }
+  if (wrapper === "unshare") {
+    return [
+      "unshare", "--map-root-user", "--mount", "sh", "-c",
+      'mount --bind "$1" "$1" && mount -o remount,bind,ro "$1" && cd "$1" && shift && exec "$@"',
+      "sh", cwd, ...argv,
+    ];
+  }
+  return argv;
+}
@@ -112,6 +112,40 @@ describe("validateConfig", () => {
     expect(result.commands?.claude?.["add-dir"]).toEqual(["./src", "./tests"]);
   });
 
+  test("validates config with adapters", () => {
+    const result = validateConfig({
+      adapters: {
+        aider: { defaults: { "yes-always": true }, prompt: "flag", prompt_flag: "message" },
+        llm: { prompt: "stdin" },
+      }
+    });
+    expect(result.adapters?.aider?.prompt_flag).toBe("message");
+    expect(result.adapters?.llm?.prompt).toBe("stdin");
+  });
+
+  test("validates config with tokenizers", () => {
+    const result = validateConfig({
+      tokenizers: {
+        llama: { models: ["llama"], chars_per_token: 3.6 },
+        qwen: { models: ["qwen"], base: "cl100k", ratio: 1.1 },
+      }
+    });
+    expect(result.tokenizers?.llama?.chars_per_token).toBe(3.6);
+    expect(result.tokenizers?.qwen?.base).toBe("cl100k");
+  });
+
+  test("throws when a tokenizer has no counting strategy", () => {
+    expect(() => validateConfig({
+      tokenizers: { llama: { models: ["llama"] } }
+    })).toThrow("chars_per_token");
+  });
+
+  test("throws when adapter prompt: flag has no prompt_flag", () => {
+    expect(() => validateConfig({
+      adapters: { aider: { prompt: "flag" } }
+    })).toThrow("prompt_flag");
+  });
+
   test("throws on invalid config with unknown top-level keys", () => {
     expect(() => validateConfig({
       commands: {},
@@ -75,6 +75,101 @@ const commandDefaultsSchema = z.record(
   ])
 ).describe("Command-specific default flags");
 
+/**
+ * Declarative tool adapter schema
+ * Structure:
+ * ```yaml
+ * adapters:
+ *   aider:
+ *     defaults: { yes-always: true }
+ *     interactive: { remove: [yes-always] }
+ *     prompt: flag
+ *     prompt_flag: message
+ * ```
+ */
+const adapterConfigSchema = z.object({
+  defaults: commandDefaultsSchema.optional(),
+  interactive: z.object({
+    remove: z.array(z.string()).optional(),
+    add: commandDefaultsSchema.optional(),
+  }).strict().optional(),
+  prompt: z.enum(["positional", "flag", "stdin"]).optional(),
+  prompt_flag: z.string().optional(),
+  prompt_via: z.enum(["argv", "stdin", "file"]).optional(),
+  attachments: z.enum(["flag", "mention", "stdin"]).optional(),
+  attachment_flag: z.string().optional(),
+  module: z.string().optional(),
+}).strict().refine(
+  (data) => data.prompt !== "flag" || !!data.prompt_flag,
+  { message: "prompt: flag requires 'prompt_flag'" }
+).refine(
+  (data) => data.attachments !== "flag" || !!data.attachment_flag,
+  { message: "attachments: flag requires 'attachment_flag'" }
+).describe("Tool adapter declared in config");
+
+/**
+ * Custom tokenizer schema
+ * Structure:
+ * ```yaml
+ * tokenizers:
+ *   llama:
+ *     models: [llama, mistral]
+ *     chars_per_token: 3.6
+ * ```
+ */
+const tokenizerConfigSchema = z.object({
+  models: z.array(z.string()).optional(),
+  commands: z.array(z.string()).optional(),
+  chars_per_token: z.number().positive().optional(),
+  base: z.string().optional(),
+  ratio: z.number().positive().optional(),
+  module: z.string().optional(),
+}).strict().refine(
+  (data) => !!(data.module || data.chars_per_token || data.base),
+  { message: "tokenizer requires 'module', 'chars_per_token', or 'base'" }
+).describe("Custom tokenizer declared in config");
+
+/**
+ * Sandbox schema for command inlines and code fences
+ * Structure:
+ * ```yaml
+ * sandbox:
+ *   commands: [git, ls]
+ *   env: strip
+ *   timeout: 10s
+ *   max_output: 20000
+ *   read_only: true
+ * ```
+ */
+const sandboxConfigSchema = z.object({
+  commands: z.array(z.string()).optional(),
+  env: z.enum(["strip", "inherit"]).optional(),
+  timeout: z.union([z.number().int().positive(), z.string().regex(/^\d+\s*[smhd]$/)]).optional(),
+  max_output: z.number().int().positive().optional(),
+  read_only: z.boolean().optional(),
+  remote: z.boolean().optional(),
+}).strict().describe("Sandbox for command inlines and code fences");
+
+/**
+ * Trust policy rule schema
+ * Structure:
+ * ```yaml
+ * policy:
+ *   - match: raw.githubusercontent.com
+ *     allow: [command]
+ *     deny: [hook]
+ * ```
+ */
+const capabilityPatternSchema = z.string().regex(
+  /^(\*|import(:.+)?|command|code-fence|hook|env)$/,
+  "expected import[:domain], command, code-fence, hook, env or *"
+);
+const policyRuleSchema = z.object({
+  match: z.string().min(1),
+  allow: z.array(capabilityPatternSchema).optional(),
+  deny: z.array(capabilityPatternSchema).optional(),
+}).strict().describe("Trust policy rule");
+
 /**
  * Global config schema for config.yaml files
  * Structure:
@@ -85,10 +180,20 @@ const commandDefaultsSchema = z.record(
  *     print: true
  *   gemini:
  *     model: pro
+ * adapters:
+ *   aider:
+ *     prompt: flag
+ *     prompt_flag: message
  * ```
  */
 export const globalConfigSchema = z.object({
   commands: z.record(z.string(), commandDefaultsSchema).optional(),
+  adapters: z.record(z.string(), adapterConfigSchema).optional(),
+  tokenizers: z.record(z.string(), tokenizerConfigSchema).optional(),
+  sandbox: sandboxConfigSchema.optional(),
+  policy: z.array(policyRuleSchema).optional(),
+  trusted_keys: z.array(z.string().regex(/^ed25519\s+\S+/, "expected \"ed25519 <base64 public key> <signer>\"")).optional(),
+  registries: z.array(z.string().min(1)).optional(),
 }).strict().describe("Global mdflow configuration");
 
 /** Type inferred from config schema */
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, mkdir, rm, stat, writeFile } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import {
+  createSessionId,
+  saveSession,
+  pruneSessions,
+  listSessions,
+  loadSession,
+  buildResumePrompt,
+  formatSessionList,
+  type SessionTranscript,
+} from "./sessions";
+
+const baseSession = {
+  agentPath: "/agents/review.claude.md",
+  command: "claude",
+  args: ["--print", "--api-key", "sk-secret-value"],
+  invocationArgs: ["--_file", "a.ts"],
+  prompt: "Review a.ts",
+  output: "Looks good",
+  exitCode: 0,
+};
+
+describe("createSessionId", () => {
+  it("builds a sortable timestamp-based ID", () => {
+    const id = createSessionId(new Date(2026, 9, 19, 14, 23, 5));
+    expect(id).toMatch(/^20261019-142305-[0-9a-f]{4}$/);
+  });
+});
+
+describe("session storage", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = join(await mkdtemp(join(tmpdir(), "sessions-test-")), "sessions");
+  });
+
+  afterEach(async () => {
+    await rm(join(dir, ".."), { recursive: true, force: true });
+  });
+
+  it("saves a private transcript with masked args", async () => {
+    const session = saveSession(baseSession, dir);
+
+    const path = join(dir, `${session.id}.json`);
+    expect((await stat(path)).mode & 0o777).toBe(0o600);
+
+    const stored: SessionTranscript = await Bun.file(path).json();
+    expect(stored.prompt).toBe("Review a.ts");
+    expect(stored.args).not.toContain("sk-secret-value");
+    expect(stored.invocationArgs).toEqual(["--_file", "a.ts"]);
+  });
+
+  it("lists newest first and resolves IDs and 'last'", async () => {
+    const first = saveSession(baseSession, dir);
+    await Bun.sleep(5);
+    const second = saveSession({ ...baseSession, prompt: "Second" }, dir);
+
+    expect((await listSessions(dir)).map((s) => s.id)).toEqual([second.id, first.id]);
+    expect((await loadSession("last", dir)).id).toBe(second.id);
+    expect((await loadSession(first.id, dir)).prompt).toBe("Review a.ts");
+  });
+
+  it("resolves unique ID prefixes", async () => {
+    const session = saveSession(baseSession, dir);
+    expect((await loadSession(session.id.slice(0, 8), dir)).id).toBe(session.id);
+  });
+
+  it("keeps only the newest transcripts", async () => {
+    await mkdir(dir, { recursive: true });
+    for (const id of ["20260101-000000-aaaa", "20260102-000000-aaaa", "20260103-000000-aaaa"]) {
+      await writeFile(join(dir, `${id}.json`), JSON.stringify({ ...baseSession, id, timestamp: "" }));
+    }
+
+    const saved = saveSession(baseSession, dir, 3);
+    expect((await listSessions(dir)).map((s) => s.id).sort()).toEqual(["20260102-000000-aaaa", "20260103-000000-aaaa", saved.id]);
+    expect(pruneSessions(dir, 1)).toBe(2);
+    expect((await listSessions(dir)).map((s) => s.id)).toEqual([saved.id]);
+  });
+
+  it("throws for unknown sessions", async () => {
+    await expect(loadSession("last", dir)).rejects.toThrow("No sessions");
+    saveSession(baseSession, dir);
+    await expect(loadSession("19990101", dir)).rejects.toThrow("Session not found");
+  });
+});
+
+describe("buildResumePrompt", () => {
+  it("prepends the previous exchange to the follow-up", () => {
+    const prompt = buildResumePrompt(
+      { ...baseSession, id: "x", timestamp: "" },
+      "Now fix the issues"
+    );
+    expect(prompt).toContain("--- PREVIOUS PROMPT ---\nReview a.ts");
+    expect(prompt).toContain("--- PREVIOUS RESPONSE ---\nLooks good");
+    expect(prompt.endsWith("Now fix the issues")).toBe(true);
+  });
+});
+
+describe("formatSessionList", () => {
+  it("renders one row per session", () => {
+    const output = formatSessionList([
+      { ...baseSession, id: "20261019-142305-abcd", timestamp: "" },
+      { ...baseSession, id: "20261019-142400-ef01", timestamp: "", exitCode: 2 },
+    ]);
+    expect(output).toContain("20261019-142305-abcd  ok");
+    expect(output).toContain("exit 2");
+    expect(output).toContain("Review a.ts");
+  });
+
+  it("explains when nothing is recorded", () => {
+    expect(formatSessionList([])).toContain("No sessions recorded yet");
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Session transcripts for `md sessions` and `md resume`
+ *
+ * Runs opted in with `--_session` (or `_session: true`) are stored as JSON
+ * transcripts under ~/.mdflow/sessions/<id>.json (agent path, resolved
+ * prompt, args, captured output, exit code, timestamp). Recording tees the
+ * child's stdout, so it is opt-in rather than changing every run's TTY.
+ * `md resume <id> "follow-up"` re-runs the same agent with the previous
+ * exchange prepended as context. Only the newest MAX_SESSIONS are kept.
+ *
+ * Transcripts may contain sensitive prompt content, so files are written
+ * with 0600 permissions. Flag values that look like secrets are masked.
+ */
+
+import { join } from "path";
+import { homedir } from "os";
+import { mkdirSync, readdirSync, existsSync, writeFileSync, unlinkSync } from "fs";
+import { ConfigurationError } from "../core/errors";
+import { maskArgsArray } from "./secrets";
+
+const SESSIONS_DIR = join(homedir(), ".mdflow", "sessions");
+
+/** Number of transcripts kept; older ones are pruned when a new one is saved */
+export const MAX_SESSIONS = 100;
+
+/** Alias accepted by `md resume` for the most recent session */
+export const LAST_SESSION_ALIAS = "last";
+
+/** A persisted agent run */
+export interface SessionTranscript {
+  /** Session ID (sortable: YYYYMMDD-HHMMSS-xxxx) */
+  id: string;
+  /** Agent path or URL as invoked */
+  agentPath: string;
+  /** Resolved command (e.g., claude) */
+  command: string;
+  /** Final CLI args passed to the command (secrets masked) */
+  args: string[];
+  /** Flags the agent was invoked with (replayed by `md resume`) */
+  invocationArgs: string[];
+  /** Final prompt sent to the command */
+  prompt: string;
+  /** Captured stdout */
+  output: string;
+  exitCode: number;
+  /** ISO 8601 timestamp of the run */
+  timestamp: string;
+  /** Session this run resumed, if any */
+  parentId?: string;
+}
+
+/**
+ * Get the sessions directory path
+ */
+export function getSessionsDir(): string {
+  return SESSIONS_DIR;
+}
+
+/**
+ * Create a sortable session ID from a date
+ * e.g., 2026-10-19T14:23:05Z -> "20261019-142305-3f9a"
+ */
+export function createSessionId(date: Date = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const stamp =
+    `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-` +
+    `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+  const suffix = Math.floor(Math.random() * 0x10000).toString(16).padStart(4, "0");
+  return `${stamp}-${suffix}`;
+}
+
+/**
+ * Persist a transcript (assigns the ID and timestamp) and prune old ones
+ *
+ * @returns The saved transcript
+ */
+export function saveSession(
+  session: Omit<SessionTranscript, "id" | "timestamp">,
+  dir: string = SESSIONS_DIR,
+  keep: number = MAX_SESSIONS
+): SessionTranscript {
+  const now = new Date();
+  const transcript: SessionTranscript = {
+    ...session,
+    id: createSessionId(now),
+    timestamp: now.toISOString(),
+    args: maskArgsArray(session.args),
+  };
+
+  mkdirSync(dir, { recursive: true, mode: 0o700 });
+  writeFileSync(join(dir, `${transcript.id}.json`), JSON.stringify(transcript, null, 2), { mode: 0o600 });
+  pruneSessions(dir, keep);
+  return transcript;
+}
+
+/**
+ * Delete all but the newest `keep` transcripts (IDs sort chronologically)
+ *
+ * @returns Number of transcripts removed
+ */
+export function pruneSessions(dir: string = SESSIONS_DIR, keep: number = MAX_SESSIONS): number {
+  if (!existsSync(dir)) return 0;
+
+  const names = readdirSync(dir).filter((n) => n.endsWith(".json")).sort();
+  const stale = names.slice(0, Math.max(0, names.length - keep));
+  for (const name of stale) {
+    try {
+      unlinkSync(join(dir, name));
+    } catch {
+      // Already removed by a concurrent run
+    }
+  }
+  return stale.length;
+}
+
+/**
+ * List transcripts, newest first
+ */
+export async function listSessions(dir: string = SESSIONS_DIR): Promise<SessionTranscript[]> {
+  if (!existsSync(dir)) return [];
+
+  const sessions: SessionTranscript[] = [];
+  for (const name of readdirSync(dir).filter((n) => n.endsWith(".json"))) {
+    try {
+      sessions.push(await Bun.file(join(dir, name)).json());
+    } catch {
+      // Skip unreadable transcripts
+    }
+  }
+  // Timestamps have millisecond precision; IDs only seconds
+  return sessions.sort((a, b) => b.timestamp.localeCompare(a.timestamp) || b.id.localeCompare(a.id));
+}
+
+/**
+ * Load a transcript by ID, unique ID prefix, or "last"
+ *
+ * @throws ConfigurationError if no session (or more than one) matches
+ */
+export async function loadSession(idOrPrefix: string, dir: string = SESSIONS_DIR): Promise<SessionTranscript> {
+  const sessions = await listSessions(dir);
+
+  if (idOrPrefix === LAST_SESSION_ALIAS) {
+    const latest = sessions[0];
+    if (!latest) throw new ConfigurationError("No sessions recorded yet");
+    return latest;
+  }
+
+  const exact = sessions.find((s) => s.id === idOrPrefix);
+  if (exact) return exact;
+
+  const matches = sessions.filter((s) => s.id.startsWith(idOrPrefix));
+  if (matches.length === 0) {
+    throw new ConfigurationError(`Session not found: ${idOrPrefix}`);
+  }
+  if (matches.length > 1) {
+    throw new ConfigurationError(
+      `Ambiguous session ID '${idOrPrefix}' matches: ${matches.map((s) => s.id).join(", ")}`
+    );
+  }
+  return matches[0]!;
+}
+
+/**
+ * Build the prompt for `md resume`: the previous exchange followed by the follow-up
+ * (mirrors buildFixPrompt in the failure menu)
+ */
+export function buildResumePrompt(session: SessionTranscript, followUp: string): string {
+  const parts: string[] = [];
+
+  parts.push("This continues a previous conversation.\n");
+
+  parts.push("--- PREVIOUS PROMPT ---");
+  parts.push(session.prompt.trim());
+  parts.push("--- END PREVIOUS PROMPT ---\n");
+
+  parts.push("--- PREVIOUS RESPONSE ---");
+  parts.push(session.output.trim() || "(no output captured)");
+  parts.push("--- END PREVIOUS RESPONSE ---\n");
+
+  parts.push(followUp);
+
+  return parts.join("\n");
+}
+
+/**
+ * Format the `md sessions` table
+ */
+export function formatSessionList(sessions: SessionTranscript[]): string {
+  if (sessions.length === 0) {
+    return "No sessions recorded yet. Run an agent with --_session to record one.";
+  }
+
+  const rows = sessions.map((s) => [
+    s.id,
+    s.exitCode === 0 ? "ok" : `exit ${s.exitCode}`,
+    s.agentPath,
+    s.prompt.trim().split("\n")[0]!.slice(0, 50),
+  ]);
+  const header = ["ID", "Status", "Agent", "Prompt"];
+  const widths = header.map((h, col) =>
+    Math.max(h.length, ...rows.map((row) => row[col]!.length))
+  );
+  const formatRow = (row: string[]) =>
+    row.map((cell, col) => (col === row.length - 1 ? cell : cell.padEnd(widths[col]!))).join("  ");
+
+  return [formatRow(header), ...rows.map(formatRow)].join("\n");
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { mkdtemp, rm, readFile, stat } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import {
+  generateSigningKey,
+  loadSigningKey,
+  loadTrustedKeys,
+  addTrustedKey,
+  parseKeyLine,
+  formatKeyLine,
+  signContent,
+  addInlineSignature,
+  splitInlineSignature,
+  formatDetachedSignature,
+  verifyAgentSignature,
+  type SigningKey,
+} from "./signatures";
+
+const AGENT = "---\nmodel: opus\n---\nReview the diff.\n";
+
+describe("signatures", () => {
+  let dir: string;
+  let signingKey: SigningKey;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), "signatures-test-"));
+    signingKey = await generateSigningKey("Jane Doe <jane@example.com>", { dir });
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  describe("signing keys", () => {
+    it("stores a private key only the user can read and reloads it", async () => {
+      expect((await stat(join(dir, "signing_key"))).mode & 0o777).toBe(0o600);
+      const loaded = await loadSigningKey(dir);
+      expect(loaded.publicKey).toEqual(signingKey.publicKey);
+    });
+
+    it("refuses to replace an existing key without force", async () => {
+      await expect(generateSigningKey("Other", { dir })).rejects.toThrow("already exists");
+    });
+
+    it("explains how to create a missing key", async () => {
+      await expect(loadSigningKey(join(dir, "missing"))).rejects.toThrow("md keys generate");
+    });
+  });
+
+  describe("trusted keys", () => {
+    it("parses and formats key lines", () => {
+      const line = formatKeyLine(signingKey.publicKey);
+      expect(line).toStartWith("ed25519 ");
+      expect(parseKeyLine(line)).toEqual(signingKey.publicKey);
+      expect(() => parseKeyLine("ssh-rsa AAAA me")).toThrow("Invalid key");
+      expect(() => parseKeyLine("ed25519 c2hvcnQ= me")).toThrow("Invalid key");
+    });
+
+    it("adds keys to the trusted_keys file, replacing the same key", async () => {
+      const keysDir = await mkdtemp(join(dir, "keys-"));
+      await addTrustedKey({ key: signingKey.publicKey.key, signer: "Jane" }, keysDir);
+      await addTrustedKey({ key: signingKey.publicKey.key, signer: "Jane Doe" }, keysDir);
+      expect(await loadTrustedKeys([], keysDir)).toEqual([{ key: signingKey.publicKey.key, signer: "Jane Doe" }]);
+      expect(await readFile(join(keysDir, "trusted_keys"), "utf-8")).toContain("# mdflow trusted keys");
+    });
+
+    it("includes keys from config", async () => {
+      const keys = await loadTrustedKeys([formatKeyLine(signingKey.publicKey)], join(dir, "none"));
+      expect(keys).toEqual([signingKey.publicKey]);
+    });
+  });
+
+  describe("verifyAgentSignature", () => {
+    const trusted = () => [{ key: signingKey.publicKey.key, signer: "Jane (team)" }];
+
+    it("reports unsigned agents", () => {
+      expect(verifyAgentSignature(AGENT, undefined, trusted())).toEqual({ status: "unsigned" });
+    });
+
+    it("verifies detached signatures and names the trusted signer", () => {
+      const detached = formatDetachedSignature(signContent(AGENT, signingKey));
+      expect(verifyAgentSignature(AGENT, detached, trusted())).toEqual({
+        status: "verified", source: "detached", key: signingKey.publicKey.key, trusted: true, signer: "Jane (team)",
+      });
+      expect(verifyAgentSignature(AGENT, detached, [])).toMatchObject({
+        status: "verified", trusted: false, signer: "Jane Doe <jane@example.com>",
+      });
+    });
+
+    it("rejects content that doesn't match the signature", () => {
+      const detached = formatDetachedSignature(signContent(AGENT, signingKey));
+      const result = verifyAgentSignature(AGENT.replace("Review", "Delete"), detached, trusted());
+      expect(result.status).toBe("invalid");
+      expect(result.reason).toContain("does not match the content");
+      expect(verifyAgentSignature(AGENT, "not json", trusted()).reason).toBe("malformed detached signature");
+    });
+
+    it("verifies inline signatures over the agent without the block", () => {
+      const signed = addInlineSignature(AGENT, signingKey);
+      expect(signed).toMatch(/^---\nmodel: opus\n_signature:\n  signer: "Jane Doe <jane@example.com>"\n  key: .+\n  value: .+\n---\nReview the diff.\n$/);
+      expect(splitInlineSignature(signed).content).toBe(AGENT);
+      expect(verifyAgentSignature(signed, undefined, trusted())).toMatchObject({ status: "verified", source: "inline", trusted: true });
+
+      // Re-signing replaces the block
+      expect(addInlineSignature(signed, signingKey)).toBe(signed);
+      expect(verifyAgentSignature(signed.replace("opus", "haiku"), undefined, trusted()).status).toBe("invalid");
+    });
+
+    it("needs frontmatter for inline signatures", () => {
+      expect(() => addInlineSignature("Just a prompt\n", signingKey)).toThrow("Inline signatures need frontmatter");
+    });
+  });
+});
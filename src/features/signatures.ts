@@ -0,0 +1,350 @@
+/**
+ * Signed remote agents (ed25519)
+ *
+ * `md sign <agent.md>` signs an agent with the user's key, either as a
+ * detached `<agent.md>.sig` published next to it or, with `--inline`, as a
+ * `_signature` block in its frontmatter:
+ *
+ * ```yaml
+ * _signature:
+ *   signer: Jane Doe <jane@example.com>
+ *   key: <base64 ed25519 public key>
+ *   value: <base64 signature>
+ * ```
+ *
+ * A detached signature holds the same fields as JSON and covers the file's
+ * exact content; an inline one covers the file with the block removed.
+ *
+ * Keys trusted to sign agents are listed in ~/.mdflow/trusted_keys (one
+ * `ed25519 <base64 key> <signer>` line each, as printed by `md keys`) or under
+ * `trusted_keys:` in config. A remote agent signed by a trusted key runs
+ * without the trust prompt, new releases included; a signature that does not
+ * verify is always an error. Signing and verification work offline: the
+ * signing key is ~/.mdflow/signing_key.
+ */
+
+import { homedir } from "os";
+import { join } from "path";
+import { mkdir, readFile, writeFile, chmod } from "fs/promises";
+import {
+  generateKeyPairSync,
+  createPrivateKey,
+  createPublicKey,
+  sign,
+  verify,
+  type KeyObject,
+} from "crypto";
+import yaml from "js-yaml";
+import { ConfigurationError } from "../core/errors";
+import { fetchRemote, cleanupRemote, toRawUrl } from "./remote";
+
+/** Default directory of the signing key and trusted keys */
+export const KEYS_DIR = join(homedir(), ".mdflow");
+
+/** File of keys trusted to sign agents (relative to the keys directory) */
+export const TRUSTED_KEYS_FILE = "trusted_keys";
+
+/** The user's private signing key, PKCS#8 PEM (relative to the keys directory) */
+export const SIGNING_KEY_FILE = "signing_key";
+
+/** Extension of detached signatures */
+export const SIGNATURE_EXTENSION = ".sig";
+
+/** Frontmatter key of inline signatures */
+const INLINE_SIGNATURE_KEY = "_signature";
+
+/** Signature of an agent (detached `.sig` file or `_signature` block) */
+export interface AgentSignature {
+  /** Who signed (free text, usually `Name <email>`) */
+  signer: string;
+  /** Base64 raw ed25519 public key */
+  key: string;
+  /** Base64 signature */
+  value: string;
+}
+
+/** A key trusted to sign agents */
+export interface TrustedKey {
+  /** Base64 raw ed25519 public key */
+  key: string;
+  /** Name the key was trusted as */
+  signer: string;
+}
+
+/** Outcome of verifying an agent's signature */
+export interface SignatureCheck {
+  status: "unsigned" | "verified" | "invalid";
+  /** Where the signature was found */
+  source?: "detached" | "inline";
+  /** Signer named in the signature (or the trusted name of its key) */
+  signer?: string;
+  /** Signing key (base64) */
+  key?: string;
+  /** The key is in the trusted keys */
+  trusted?: boolean;
+  /** Why an invalid signature was rejected */
+  reason?: string;
+}
+
+/**
+ * Parse a `ed25519 <base64 key> <signer>` line
+ * @throws ConfigurationError for anything else
+ */
+export function parseKeyLine(line: string): TrustedKey {
+  const match = line.trim().match(/^ed25519\s+(\S+)(?:\s+(.*))?$/);
+  if (!match || Buffer.from(match[1]!, "base64").length !== 32) {
+    throw new ConfigurationError(`Invalid key "${line.trim()}": expected "ed25519 <base64 public key> <signer>"`);
+  }
+  return { key: match[1]!, signer: match[2]?.trim() || "(unnamed)" };
+}
+
+/**
+ * Format a key as a trusted_keys line
+ */
+export function formatKeyLine(key: TrustedKey): string {
+  return `ed25519 ${key.key} ${key.signer}`;
+}
+
+/**
+ * Short fingerprint of a key for display
+ */
+export function keyFingerprint(key: string): string {
+  return `${key.slice(0, 8)}…${key.slice(-4)}`;
+}
+
+/**
+ * Load keys trusted to sign agents: ~/.mdflow/trusted_keys plus config lines
+ * Invalid lines in config are errors; a missing file has no keys.
+ *
+ * @param extra - `trusted_keys:` lines from config
+ * @param dir - Keys directory (defaults to ~/.mdflow)
+ */
+export async function loadTrustedKeys(extra: string[] = [], dir: string = KEYS_DIR): Promise<TrustedKey[]> {
+  let text = "";
+  try {
+    text = await readFile(join(dir, TRUSTED_KEYS_FILE), "utf-8");
+  } catch {
+    // No trusted keys yet
+  }
+  const lines = text.split("\n").map((line) => line.trim()).filter((line) => line && !line.startsWith("#"));
+  return [...lines, ...extra].map(parseKeyLine);
+}
+
+/**
+ * Save the keys in ~/.mdflow/trusted_keys
+ */
+export async function saveTrustedKeys(keys: TrustedKey[], dir: string = KEYS_DIR): Promise<void> {
+  await mkdir(dir, { recursive: true });
+  const content = [
+    "# mdflow trusted keys",
+    "# Remote agents signed by these keys run without the trust prompt",
+    "# One key per line: ed25519 <base64 public key> <signer>",
+    "",
+    ...keys.map(formatKeyLine),
+    "",
+  ].join("\n");
+  await writeFile(join(dir, TRUSTED_KEYS_FILE), content);
+}
+
+/**
+ * Add a key to ~/.mdflow/trusted_keys (replacing an entry for the same key)
+ */
+export async function addTrustedKey(key: TrustedKey, dir: string = KEYS_DIR): Promise<void> {
+  const keys = (await loadTrustedKeys([], dir)).filter((existing) => existing.key !== key.key);
+  await saveTrustedKeys([...keys, key], dir);
+}
+
+/** The user's signing key */
+export interface SigningKey {
+  privateKey: KeyObject;
+  /** Public half and the signer it signs as */
+  publicKey: TrustedKey;
+}
+
+/**
+ * Generate the user's signing key (~/.mdflow/signing_key and signing_key.pub)
+ * @throws ConfigurationError if a key exists and `force` is not set
+ */
+export async function generateSigningKey(
+  signer: string,
+  options: { dir?: string; force?: boolean } = {}
+): Promise<SigningKey> {
+  const dir = options.dir ?? KEYS_DIR;
+  const keyPath = join(dir, SIGNING_KEY_FILE);
+  if (!options.force && await Bun.file(keyPath).exists()) {
+    throw new ConfigurationError(`A signing key already exists at ${keyPath} (use --force to replace it)`);
+  }
+
+  const { privateKey, publicKey } = generateKeyPairSync("ed25519");
+  const key: TrustedKey = { key: rawPublicKey(publicKey), signer };
+  await mkdir(dir, { recursive: true });
+  await writeFile(keyPath, privateKey.export({ format: "pem", type: "pkcs8" }) as string, { mode: 0o600 });
+  await chmod(keyPath, 0o600);
+  await writeFile(`${keyPath}.pub`, formatKeyLine(key) + "\n");
+  return { privateKey, publicKey: key };
+}
+
+/**
+ * Load the user's signing key
+ * @throws ConfigurationError if there is none
+ */
+export async function loadSigningKey(dir: string = KEYS_DIR): Promise<SigningKey> {
+  const keyPath = join(dir, SIGNING_KEY_FILE);
+  let pem: string;
+  let pub: string;
+  try {
+    [pem, pub] = await Promise.all([readFile(keyPath, "utf-8"), readFile(`${keyPath}.pub`, "utf-8")]);
+  } catch {
+    throw new ConfigurationError(`No signing key in ${dir}. Create one with: md keys generate --name "Your Name <you@example.com>"`);
+  }
+  return { privateKey: createPrivateKey(pem), publicKey: parseKeyLine(pub) };
+}
+
+function rawPublicKey(publicKey: KeyObject): string {
+  const { x } = publicKey.export({ format: "jwk" });
+  return Buffer.from(x!, "base64url").toString("base64");
+}
+
+function publicKeyObject(key: string): KeyObject {
+  return createPublicKey({
+    key: { kty: "OKP", crv: "Ed25519", x: Buffer.from(key, "base64").toString("base64url") },
+    format: "jwk",
+  });
+}
+
+/**
+ * Sign content with the user's key
+ */
+export function signContent(content: string, signingKey: SigningKey): AgentSignature {
+  return {
+    signer: signingKey.publicKey.signer,
+    key: signingKey.publicKey.key,
+    value: sign(null, Buffer.from(content), signingKey.privateKey).toString("base64"),
+  };
+}
+
+/** Frontmatter (after an optional shebang line) */
+const FRONTMATTER_PATTERN = /^((?:#![^\n]*\n)?---\r?\n)([\s\S]*?\r?\n)?(---(?:\r?\n|$))/;
+
+/** The `_signature:` entry with its indented lines */
+const INLINE_SIGNATURE_PATTERN = new RegExp(`^${INLINE_SIGNATURE_KEY}:[^\\n]*\\n(?:[ \\t]+[^\\n]*\\n)*`, "m");
+
+/**
+ * Split an inline `_signature` block off an agent
+ * Returns the content it covers (the agent without the block) and the signature.
+ */
+export function splitInlineSignature(content: string): { content: string; signature?: AgentSignature } {
+  const match = content.match(FRONTMATTER_PATTERN);
+  const frontmatter = match?.[2];
+  const block = frontmatter?.match(INLINE_SIGNATURE_PATTERN);
+  if (!match || !frontmatter || !block) return { content };
+
+  const unsigned = match[1] + frontmatter.replace(block[0], "") + match[3] + content.slice(match[0].length);
+  const parsed = (yaml.load(block[0]) as Record<string, unknown> | null)?.[INLINE_SIGNATURE_KEY];
+  return { content: unsigned, signature: toSignature(parsed) };
+}
+
+/**
+ * Add (or replace) an inline `_signature` block at the end of the frontmatter
+ * @throws ConfigurationError if the agent has no frontmatter
+ */
+export function addInlineSignature(content: string, signingKey: SigningKey): string {
+  const unsigned = splitInlineSignature(content).content;
+  const match = unsigned.match(FRONTMATTER_PATTERN);
+  if (!match) {
+    throw new ConfigurationError("Inline signatures need frontmatter; sign without --inline for a detached .sig file");
+  }
+  const signature = signContent(unsigned, signingKey);
+  const block = [
+    `${INLINE_SIGNATURE_KEY}:`,
+    `  signer: ${JSON.stringify(signature.signer)}`,
+    `  key: ${signature.key}`,
+    `  value: ${signature.value}`,
+    "",
+  ].join("\n");
+  return match[1] + (match[2] ?? "") + block + match[3] + unsigned.slice(match[0].length);
+}
+
+/**
+ * Serialize a detached signature (`<agent>.sig`)
+ */
+export function formatDetachedSignature(signature: AgentSignature): string {
+  return JSON.stringify({ version: 1, ...signature }, null, 2) + "\n";
+}
+
+function toSignature(value: unknown): AgentSignature | undefined {
+  if (typeof value !== "object" || value === null) return undefined;
+  const { signer, key, value: sig } = value as Record<string, unknown>;
+  if (typeof key !== "string" || typeof sig !== "string") return undefined;
+  return { signer: typeof signer === "string" ? signer : "(unnamed)", key, value: sig };
+}
+
+/**
+ * Verify an agent's signature against the trusted keys
+ * A detached signature takes precedence over an inline one.
+ *
+ * @param content - The agent file's content
+ * @param detached - Content of its `.sig` file, if one was found
+ * @param trustedKeys - Keys trusted to sign agents (loadTrustedKeys)
+ */
+export function verifyAgentSignature(
+  content: string,
+  detached: string | undefined,
+  trustedKeys: TrustedKey[]
+): SignatureCheck {
+  let source: SignatureCheck["source"];
+  let signed: string;
+  let signature: AgentSignature | undefined;
+
+  if (detached !== undefined) {
+    source = "detached";
+    signed = content;
+    try {
+      signature = toSignature(JSON.parse(detached));
+    } catch {
+      // Reported as malformed below
+    }
+  } else {
+    const inline = splitInlineSignature(content);
+    if (inline.content === content) return { status: "unsigned" };
+    source = "inline";
+    signed = inline.content;
+    signature = inline.signature;
+  }
+  if (!signature) {
+    return { status: "invalid", source, reason: `malformed ${source} signature` };
+  }
+
+  let valid = false;
+  try {
+    valid = verify(null, Buffer.from(signed), publicKeyObject(signature.key), Buffer.from(signature.value, "base64"));
+  } catch {
+    // Not an ed25519 key
+  }
+  if (!valid) {
+    return {
+      status: "invalid", source, signer: signature.signer, key: signature.key,
+      reason: `${source} signature by ${signature.signer} does not match the content`,
+    };
+  }
+
+  const trusted = trustedKeys.find((entry) => entry.key === signature!.key);
+  return {
+    status: "verified", source, key: signature.key, trusted: Boolean(trusted),
+    signer: trusted?.signer ?? signature.signer,
+  };
+}
+
+/**
+ * Fetch the detached signature published next to a remote agent
+ * Returns undefined when there is none.
+ */
+export async function fetchDetachedSignature(url: string, options: { noCache?: boolean; offline?: boolean } = {}): Promise<string | undefined> {
+  const result = await fetchRemote(toRawUrl(url) + SIGNATURE_EXTENSION, options);
+  if (!result.success || !result.localPath) return undefined;
+  try {
+    return await readFile(result.localPath, "utf-8");
+  } finally {
+    await cleanupRemote(result.localPath);
+  }
+}
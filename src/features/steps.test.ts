@@ -0,0 +1,70 @@
+import { describe, it, expect } from "bun:test";
+import { parseSteps, stepOutputVars, dryRunStepOutput, runSteps, type RunStepsOptions } from "./steps";
+
+describe("parseSteps", () => {
+  it("normalizes string and object step entries", () => {
+    const steps = parseSteps([
+      "./research.claude.md",
+      { name: "draft", agent: "./write.md", command: "gemini", vars: { _tone: "formal" } },
+    ]);
+
+    expect(steps).toEqual([
+      { name: "research", agent: "./research.claude.md", vars: {} },
+      { name: "draft", agent: "./write.md", command: "gemini", vars: { _tone: "formal" } },
+    ]);
+  });
+
+  it("makes step names template-safe", () => {
+    expect(parseSteps(["./my-step.md", { name: "a b", agent: "./x.md" }]).map((s) => s.name)).toEqual(["my_step", "a_b"]);
+  });
+
+  it("rejects malformed and duplicate steps", () => {
+    expect(() => parseSteps("./a.md")).toThrow("_steps must be a list");
+    expect(() => parseSteps([{ name: "x" }])).toThrow("missing an 'agent' path");
+    expect(() => parseSteps([{ agent: "./a.md", vars: ["x"] }])).toThrow("vars must be a mapping");
+    expect(() => parseSteps(["./a.claude.md", "./a.gemini.md"])).toThrow("Duplicate step name 'a'");
+  });
+});
+
+describe("stepOutputVars", () => {
+  it("exposes the output as _prev and _step_<name>", () => {
+    const [step] = parseSteps(["./research.md"]);
+    expect(stepOutputVars(step!, "notes")).toEqual({ _prev: "notes", _step_research: "notes" });
+    expect(dryRunStepOutput(step!)).toBe('[output of step "research"]');
+  });
+});
+
+describe("runSteps", () => {
+  const options = (runStep: RunStepsOptions["runStep"], dryRun = false): RunStepsOptions => ({
+    chain: [], dryRun, exists: async () => true, runStep,
+  });
+
+  it("passes earlier outputs and the chain to each step", async () => {
+    const seen: Array<{ path: string; vars: Record<string, string>; stepChain: string[] }> = [];
+    const result = await runSteps(["./a.md", { agent: "./b.md", vars: { _x: "1" } }], "/agents/parent.md", options(
+      async (step, path, inherited) => (seen.push({ path, ...inherited }), { exitCode: 0, output: ` ${step.name} out\n` })
+    ));
+    expect(seen).toEqual([
+      { path: "/agents/a.md", vars: {}, stepChain: ["/agents/parent.md"] },
+      { path: "/agents/b.md", vars: { _prev: "a out", _step_a: "a out", _x: "1" }, stepChain: ["/agents/parent.md"] },
+    ]);
+    expect(result.templateVars).toEqual({ _prev: "b out", _step_a: "a out", _step_b: "b out" });
+  });
+
+  it("collects plans and uses placeholders in dry-run", async () => {
+    const plan = { command: "claude" } as never;
+    const result = await runSteps(["./a.md"], "/agents/parent.md", options(async () => ({ exitCode: 0, plan }), true));
+    expect(result.plans).toEqual([{ command: "claude", stepName: "a" } as never]);
+    expect(result.templateVars._prev).toBe('[output of step "a"]');
+  });
+
+  it("fails on a non-zero exit, remote, circular and missing steps", async () => {
+    const ok = async () => ({ exitCode: 0, output: "" });
+    await expect(runSteps(["./a.md"], "/agents/p.md", options(async () => ({ exitCode: 3 }))))
+      .rejects.toMatchObject({ name: "CommandError", code: 3 });
+    await expect(runSteps(["https://example.com/a.md"], "/agents/p.md", options(ok))).rejects.toThrow("must be local files");
+    await expect(runSteps(["./p.md"], "/agents/p.md", options(ok))).rejects.toThrow("Circular _steps");
+    await expect(runSteps(["./a.md"], "/agents/p.md", { ...options(ok), exists: async () => false }))
+      .rejects.toThrow("Step agent not found: ./a.md");
+  });
+});
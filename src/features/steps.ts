@@ -0,0 +1,202 @@
+/**
+ * Multi-step agent pipelines (`_steps`)
+ *
+ * An agent can list child agents to run before its own body:
+ *
+ * ```yaml
+ * _steps:
+ *   - ./research.claude.md
+ *   - name: draft
+ *     agent: ./write.claude.md
+ *     command: gemini
+ *     vars:
+ *       _tone: formal
+ * ```
+ *
+ * Steps run in order; each step's captured stdout is passed to the next as
+ * `{{ _prev }}` and exposed to later steps and the body as `{{ _step_<name> }}`.
+ */
+
+import { basename, dirname, resolve } from "path";
+import { CommandError, ConfigurationError, FileNotFoundError } from "../core/errors";
+import type { ExecutionPlan } from "../core/types";
+import { isRemoteUrl } from "./remote";
+
+/**
+ * A single step in a `_steps:` pipeline
+ */
+export interface StepDefinition {
+  /** Step name, used to expose the output as `{{ _step_<name> }}` */
+  name: string;
+  /** Path to the child agent file (relative to the parent agent) */
+  agent: string;
+  /** Template variables passed to the child agent */
+  vars: Record<string, string>;
+  /** Command override for the child agent */
+  command?: string;
+}
+
+/**
+ * Derive a template-safe step name from an agent path
+ * e.g., "./research.claude.md" -> "research"
+ */
+function stepNameFromAgent(agent: string): string {
+  const stem = basename(agent).split(".")[0] || "step";
+  return stem.replace(/[^A-Za-z0-9_]/g, "_");
+}
+
+/**
+ * Normalize the `_steps:` frontmatter value into step definitions
+ * Accepts agent paths or objects with name, agent, command and vars.
+ *
+ * @throws ConfigurationError if the value is malformed or names collide
+ */
+export function parseSteps(value: unknown): StepDefinition[] {
+  if (!Array.isArray(value)) {
+    throw new ConfigurationError("_steps must be a list of agent paths or step objects");
+  }
+
+  const steps: StepDefinition[] = [];
+  const seen = new Set<string>();
+
+  value.forEach((entry, index) => {
+    let step: StepDefinition;
+
+    if (typeof entry === "string") {
+      step = { name: stepNameFromAgent(entry), agent: entry, vars: {} };
+    } else if (entry && typeof entry === "object" && !Array.isArray(entry)) {
+      const raw = entry as Record<string, unknown>;
+      if (typeof raw.agent !== "string" || !raw.agent) {
+        throw new ConfigurationError(`_steps[${index}] is missing an 'agent' path`);
+      }
+      const vars: Record<string, string> = {};
+      if (raw.vars !== undefined) {
+        if (!raw.vars || typeof raw.vars !== "object" || Array.isArray(raw.vars)) {
+          throw new ConfigurationError(`_steps[${index}].vars must be a mapping`);
+        }
+        for (const [key, val] of Object.entries(raw.vars as Record<string, unknown>)) {
+          vars[key] = String(val);
+        }
+      }
+      step = {
+        name: typeof raw.name === "string" && raw.name
+          ? raw.name.replace(/[^A-Za-z0-9_]/g, "_")
+          : stepNameFromAgent(raw.agent),
+        agent: raw.agent,
+        vars,
+        command: typeof raw.command === "string" ? raw.command : undefined,
+      };
+    } else {
+      throw new ConfigurationError(`_steps[${index}] must be an agent path or a step object`);
+    }
+
+    if (seen.has(step.name)) {
+      throw new ConfigurationError(`Duplicate step name '${step.name}' in _steps`);
+    }
+    seen.add(step.name);
+    steps.push(step);
+  });
+
+  return steps;
+}
+
+/**
+ * Template variables exposing a step's output to the steps and body after it
+ */
+export function stepOutputVars(step: StepDefinition, output: string): Record<string, string> {
+  return { _prev: output, [`_step_${step.name}`]: output };
+}
+
+/**
+ * Placeholder for a step's output when steps are planned, not run (dry-run)
+ */
+export function dryRunStepOutput(step: StepDefinition): string {
+  return `[output of step "${step.name}"]`;
+}
+
+/**
+ * What running (or planning) one step produced
+ */
+export interface StepRunResult {
+  exitCode: number;
+  /** Captured stdout (ignored in dry-run) */
+  output?: string;
+  /** Execution plan of the step (dry-run only) */
+  plan?: ExecutionPlan;
+}
+
+/**
+ * Result of running a `_steps:` pipeline
+ */
+export interface StepsResult {
+  /** Template variables exposing step outputs (_prev, _step_<name>) */
+  templateVars: Record<string, string>;
+  /** Nested execution plans (dry-run only) */
+  plans: ExecutionPlan[];
+}
+
+/**
+ * Options for runSteps
+ */
+export interface RunStepsOptions {
+  /** Absolute paths of agents currently running as `_steps` ancestors */
+  chain: string[];
+  /** Plan steps instead of running them; outputs become placeholders */
+  dryRun: boolean;
+  /** Whether a step agent file exists */
+  exists: (path: string) => Promise<boolean>;
+  /**
+   * Run or plan one step agent
+   * `vars` are the outputs of earlier steps and the step's own vars;
+   * `stepChain` is passed down so nested steps can detect cycles.
+   */
+  runStep: (
+    step: StepDefinition,
+    path: string,
+    inherited: { vars: Record<string, string>; stepChain: string[] }
+  ) => Promise<StepRunResult>;
+}
+
+/**
+ * Run an agent's `_steps` in order
+ *
+ * Step agents are resolved against the parent agent and must be local files.
+ * Each step's output is exposed to the steps after it (see stepOutputVars).
+ *
+ * @param value - The `_steps:` frontmatter value
+ * @param parentPath - Path of the agent declaring the steps
+ * @throws ConfigurationError for remote or circular steps
+ * @throws FileNotFoundError if a step agent doesn't exist
+ * @throws CommandError if a step exits non-zero
+ */
+export async function runSteps(value: unknown, parentPath: string, options: RunStepsOptions): Promise<StepsResult> {
+  const steps = parseSteps(value);
+  const parentDir = dirname(resolve(parentPath));
+  const stepChain = [...options.chain, resolve(parentPath)];
+  const templateVars: Record<string, string> = {};
+  const plans: ExecutionPlan[] = [];
+
+  for (const step of steps) {
+    if (isRemoteUrl(step.agent)) {
+      throw new ConfigurationError(`_steps agents must be local files: ${step.agent}`);
+    }
+    const stepPath = resolve(parentDir, step.agent);
+    if (stepChain.includes(stepPath)) {
+      throw new ConfigurationError(`Circular _steps detected: ${[...stepChain, stepPath].join(" -> ")}`);
+    }
+    if (!(await options.exists(stepPath))) {
+      throw new FileNotFoundError(`Step agent not found: ${step.agent} (resolved to ${stepPath})`);
+    }
+
+    const result = await options.runStep(step, stepPath, { vars: { ...templateVars, ...step.vars }, stepChain });
+    if (result.plan) plans.push({ ...result.plan, stepName: step.name });
+    if (result.exitCode !== 0) {
+      throw new CommandError(`Step "${step.name}" (${step.agent}) exited with code ${result.exitCode}`, result.exitCode);
+    }
+
+    const output = options.dryRun ? dryRunStepOutput(step) : (result.output ?? "").trim();
+    Object.assign(templateVars, stepOutputVars(step, output));
+  }
+
+  return { templateVars, plans };
+}
@@ -6,7 +6,9 @@
  * 2. Ask user to confirm execution
  * 3. Optionally remember the domain for future use
  *
- * Trusted domains are stored in ~/.mdflow/known_hosts
+ * Trusted domains are stored in ~/.mdflow/known_hosts. Agents signed by a
+ * trusted key skip the prompt (see ./signatures); for other signed agents the
+ * prompt shows the signer and can add their key.
  */
 
 import { homedir } from "os";
@@ -14,6 +16,8 @@ import { join } from "path";
 import { mkdir } from "fs/promises";
 import { confirm, select } from "@inquirer/prompts";
 import type { AgentFrontmatter } from "../core/types";
+import { keyFingerprint, type SignatureCheck } from "./signatures";
+import { formatCapabilities, type Capability } from "./policy";
 
 const CONFIG_DIR = join(homedir(), ".mdflow");
 const KNOWN_HOSTS_FILE = join(CONFIG_DIR, "known_hosts");
@@ -127,6 +131,18 @@ export interface TrustPromptResult {
   approved: boolean;
   /** Whether to remember this domain */
   rememberDomain: boolean;
+  /** Whether to trust the agent's signing key */
+  trustKey: boolean;
+}
+
+/**
+ * Describe an agent's signature for the trust prompt
+ */
+export function formatSigner(signature: SignatureCheck | undefined): string {
+  if (!signature || signature.status === "unsigned") return "  (not signed)";
+  const key = signature.key ? ` [ed25519 ${keyFingerprint(signature.key)}]` : "";
+  if (signature.status === "invalid") return `  INVALID: ${signature.reason}`;
+  return `  ${signature.signer}${key} - ${signature.trusted ? "trusted key" : "key not in trusted_keys"} (${signature.source})`;
 }
 
 /**
@@ -136,13 +152,17 @@ export interface TrustPromptResult {
  * @param command - The resolved command to run
  * @param frontmatter - Parsed frontmatter from the markdown file
  * @param body - The body content (will be truncated for preview)
- * @returns Object with approved (boolean) and rememberDomain (boolean)
+ * @param signature - The agent's verified signature, if any
+ * @param capabilities - What the agent will do (imports, commands, fences, hooks, env)
+ * @returns Object with approved, rememberDomain and trustKey (booleans)
  */
 export async function promptForTrust(
   url: string,
   command: string,
   frontmatter: AgentFrontmatter,
-  body: string
+  body: string,
+  signature?: SignatureCheck,
+  capabilities?: Capability[]
 ): Promise<TrustPromptResult> {
   const domain = extractDomain(url);
 
@@ -153,12 +173,20 @@ export async function promptForTrust(
   console.error("");
   console.error(`URL: ${url}`);
   console.error(`Domain: ${domain}`);
+  console.error(`Signer:\n${formatSigner(signature)}`);
   console.error("");
   console.error("-".repeat(70));
   console.error("Command to execute:");
   console.error("-".repeat(70));
   console.error(`  ${command}`);
   console.error("");
+  if (capabilities) {
+    console.error("-".repeat(70));
+    console.error("Capabilities (approved for this run):");
+    console.error("-".repeat(70));
+    console.error(formatCapabilities(capabilities));
+    console.error("");
+  }
   console.error("-".repeat(70));
   console.error("Frontmatter (CLI flags):");
   console.error("-".repeat(70));
@@ -179,14 +207,16 @@ export async function promptForTrust(
   });
 
   if (!approved) {
-    return { approved: false, rememberDomain: false };
+    return { approved: false, rememberDomain: false, trustKey: false };
   }
 
-  // Ask whether to remember this domain
+  // Ask whether to remember this domain (or the signer, for signed agents)
+  const signer = signature?.status === "verified" ? signature.signer : undefined;
   const rememberChoice = await select({
     message: `Trust ${domain} for future executions?`,
     choices: [
       { name: "No, ask me next time", value: "no" },
+      ...(signer ? [{ name: `Yes, trust agents signed by ${signer} (any domain)`, value: "key" }] : []),
       { name: `Yes, always trust ${domain}`, value: "yes" },
     ],
     default: "no",
@@ -195,6 +225,7 @@ export async function promptForTrust(
   return {
     approved: true,
     rememberDomain: rememberChoice === "yes",
+    trustKey: rememberChoice === "key",
   };
 }
 
@@ -0,0 +1,19 @@
+/**
+ * Test preload (see bunfig.toml)
+ *
+ * Points the import cache at a temporary directory so test runs never read
+ * or write ~/.mdflow/cache/imports.
+ */
+
+import { afterAll } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { IMPORT_CACHE_DIR_ENV } from "../src/features/imports/cache";
+
+const importCacheDir = mkdtempSync(join(tmpdir(), "mdflow-import-cache-"));
+process.env[IMPORT_CACHE_DIR_ENV] = importCacheDir;
+
+afterAll(() => {
+  rmSync(importCacheDir, { recursive: true, force: true });
+});